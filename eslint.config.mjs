@@ -12,6 +12,8 @@ const eslintConfig = defineConfig([
     "out/**",
     "build/**",
     "next-env.d.ts",
+    // Worker bundle written by npm run build:worker
+    "src/lib/engine/generated/**",
   ]),
 ]);
 
@@ -0,0 +1,141 @@
+// =============================================
+// StochFin Monte Carlo Engine: Offline Checks
+// Deterministic checks of engine behaviour that needs no database:
+// event text grammar round trips and error positions, stress shock profiles.
+//
+// Run: npm run check:engine
+// =============================================
+
+import assert from 'node:assert/strict';
+import {
+    parseEventText,
+    formatEventText,
+    runSimulation,
+    type SimulationInput,
+    type StressScenario
+} from '../src/lib/engine';
+
+let failures = 0;
+
+function check(name: string, run: () => void): void {
+    try {
+        run();
+        console.log(`ok    ${name}`);
+    } catch (error) {
+        failures++;
+        console.log(`FAIL  ${name}\n      ${error instanceof Error ? error.message.replace(/\n/g, '\n      ') : error}`);
+    }
+}
+
+// =============================================
+// Event Text Grammar
+// =============================================
+
+// [input, canonical text]
+const ROUND_TRIPS: [string, string][] = [
+    ['P(debt_to_ebitda > 6 AND (gdp < 0 OR inflation > 8%)) within 24m', 'P(debt_to_ebitda > 6 AND (gdp < 0 OR inflation > 0.08)) within 24m'],
+    ['gdp < 0 within 2y', 'P(gdp < 0) within 24m'],
+    ['P(gdp < 0 | inflation > 0.05) within 12m', 'P(gdp < 0 | inflation > 0.05) within 12m'],
+    ['P(gdp < 0 THEN unemployment > 0.1 within 6m) within 24m', 'P(gdp < 0 THEN unemployment > 0.1 within 6m) within 24m'],
+    ['P(AT_LEAST 2 OF (gdp < 0, inflation > 0.08, rate >= 0.1)) within 36 months', 'P(AT_LEAST 2 OF (gdp < 0, inflation > 0.08, rate >= 0.1)) within 36m'],
+    ['P(rolling_avg(revenue, 3m) < 90) within 24m', 'P(rolling_avg(revenue, 3m) < 90) within 24m'],
+    ['P(pct_change(revenue) <= -0.2 at horizon) within 12m', 'P(pct_change(revenue) <= -0.2 at horizon) within 12m'],
+    ['P(drawdown(equity) > 0.3 OR cumsum(fcf) < 0) within 5 years', 'P(drawdown(equity) > 0.3 OR cumsum(fcf) < 0) within 60m'],
+    ['P(consecutive(gdp < 0) >= 2) within 24m', 'P(consecutive(gdp < 0) >= 2) within 24m'],
+    ['p(level(x) != 1) WITHIN 12', 'P(level(x) != 1) within 12m']
+];
+
+// [input, 0-based position, line, column, message fragment]
+const ERRORS: [string, number, number, number, string][] = [
+    ['P(gdp < ) within 12m', 8, 1, 9, 'Expected a number'],
+    ['P(gdp < 0 within 12m', 10, 1, 11, 'Expected ")"'],
+    ['P(gdp < 0)\n  within 12x', 22, 2, 12, 'Expected end of input'],
+    ['P(foo(gdp) < 0) within 12m', 2, 1, 3, 'Unknown function "foo"'],
+    ['P(gdp ~ 0) within 12m', 6, 1, 7, 'Unexpected character "~"'],
+    ['P(gdp < 0)', 10, 1, 11, 'Expected "within"']
+];
+
+function checkEventGrammar(): void {
+    for (const [text, canonical] of ROUND_TRIPS) {
+        check(`round trip: ${text}`, () => {
+            const parsed = parseEventText(text);
+            assert.ok(parsed.success, parsed.error);
+            const printed = formatEventText(parsed.event!);
+            assert.equal(printed, canonical);
+            const reparsed = parseEventText(printed);
+            assert.ok(reparsed.success, reparsed.error);
+            assert.deepEqual(reparsed.event, parsed.event);
+        });
+    }
+
+    for (const [text, position, line, column, message] of ERRORS) {
+        check(`error position: ${JSON.stringify(text)}`, () => {
+            const parsed = parseEventText(text);
+            assert.equal(parsed.success, false);
+            assert.deepEqual(
+                { position: parsed.position, line: parsed.line, column: parsed.column },
+                { position, line, column }
+            );
+            assert.ok(parsed.error?.includes(message), `"${parsed.error}" should contain "${message}"`);
+        });
+    }
+}
+
+// =============================================
+// Stress Scenarios
+// =============================================
+
+// A GBM and a per-period and a one-off normal(0.05, 0.01) driver
+const HELD_SHOCK_INPUT: SimulationInput = {
+    config: { nSimulations: 4000, horizonPeriods: 12, timeStep: 'monthly', randomSeed: 1, correlationMethod: 'cholesky' },
+    variables: [
+        { id: 'gbm', code: 'GBM', processConfig: { type: 'gbm', params: { drift: 0, volatility: 0.1, initialValue: 1 } } },
+        ...(['per_period', 'one_off'] as const).map(sampling => ({
+            id: sampling,
+            code: sampling.toUpperCase(),
+            processConfig: {
+                type: 'distribution' as const,
+                params: { distribution: { distribution_type: 'normal' as const, parameters: { mu: 0.05, sigma: 0.01 } }, sampling }
+            }
+        }))
+    ],
+    correlationMatrix: [[1, 0, 0], [0, 1, 0], [0, 0, 1]]
+};
+
+// A -5% shock held from period 0 over the whole horizon
+const HELD_SHOCK: StressScenario = {
+    name: 'Held shock',
+    description: '',
+    paths: [
+        { variableCode: 'GBM', type: 'multiplicative', shocks: [-0.05], startPeriod: 0, periodsPerShock: 12 },
+        { variableCode: 'PER_PERIOD', type: 'additive', shocks: [-0.05], startPeriod: 0, periodsPerShock: 12 },
+        { variableCode: 'ONE_OFF', type: 'additive', shocks: [-0.05], startPeriod: 0, periodsPerShock: 12 }
+    ]
+};
+
+async function checkStressScenarios(): Promise<void> {
+    const result = await runSimulation({ ...HELD_SHOCK_INPUT, stressScenario: HELD_SHOCK });
+    for (const [code, expected] of [['GBM', 0.95], ['PER_PERIOD', 0], ['ONE_OFF', 0]] as const) {
+        check(`held shock keeps the mean of ${code} at ${expected} in every period`, () => {
+            for (const r of result.results.filter(r => r.variableCode === code)) {
+                assert.ok(
+                    Math.abs(r.stats.mean - expected) < 0.005,
+                    `period ${r.periodIndex}: mean ${r.stats.mean.toFixed(4)}`
+                );
+            }
+        });
+    }
+}
+
+async function main(): Promise<void> {
+    checkEventGrammar();
+    await checkStressScenarios();
+
+    if (failures > 0) {
+        console.log(`\n${failures} check(s) failed`);
+        process.exit(1);
+    }
+    console.log('\nAll checks passed');
+}
+
+main();
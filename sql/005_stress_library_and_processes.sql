@@ -0,0 +1,66 @@
+-- =============================================
+-- StochFin Database Schema: Stress Library and Processes
+-- Upgrades databases created from 002/003: library stress scenarios
+-- (not tied to a run) and the additional stochastic processes
+-- =============================================
+
+-- =============================================
+-- Stress Scenarios
+-- =============================================
+
+-- NULL for library scenarios; set on the copy stored with a stressed run's results
+ALTER TABLE simulations.stress_scenarios ALTER COLUMN simulation_run_id DROP NOT NULL;
+
+-- Results under stress (runs only)
+ALTER TABLE simulations.stress_scenarios ALTER COLUMN results DROP NOT NULL;
+
+ALTER TABLE simulations.stress_scenarios ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+ALTER TABLE simulations.stress_scenarios DROP CONSTRAINT IF EXISTS stress_scenarios_scenario_type_check;
+ALTER TABLE simulations.stress_scenarios ADD CONSTRAINT stress_scenarios_scenario_type_check CHECK (scenario_type IN (
+  'recession', 'commodity_shock', 'interest_rate_shock',
+  'customer_loss', 'supply_chain', 'financial_crisis',
+  'pandemic', 'stagflation', 'currency_crisis', 'custom'
+));
+
+/* stress_parameters now holds time-profiled shock paths per variable.
+   Example (quarterly levels on monthly steps, decaying 20% a month afterwards):
+{
+  "paths": [
+    {"variable_code": "GDP_GROWTH", "type": "additive", "shocks": [-0.03, -0.05, -0.03, -0.01, 0],
+     "periods_per_shock": 3},
+    {"variable_code": "REVENUE_GROWTH", "type": "multiplicative", "shocks": [-0.10, -0.15],
+     "periods_per_shock": 3, "decay": 0.2}
+  ]
+}
+*/
+
+CREATE INDEX IF NOT EXISTS idx_stress_run ON simulations.stress_scenarios(simulation_run_id);
+
+-- =============================================
+-- Variable Assumptions
+-- =============================================
+ALTER TABLE models.variable_assumptions DROP CONSTRAINT IF EXISTS variable_assumptions_stochastic_process_check;
+ALTER TABLE models.variable_assumptions ADD CONSTRAINT variable_assumptions_stochastic_process_check CHECK (stochastic_process IN (
+  'gbm', 'ornstein_uhlenbeck', 'regime_switching', 'vasicek', 'cir', 'hull_white',
+  'garch', 'poisson', 'triangular',
+  'pert', 'normal', 'lognormal', 'student_t',
+  'empirical', 'uniform', 'deterministic'
+));
+
+/* distribution_parameters examples for the added processes:
+Regime-switching: {"dynamics": "gbm", "regimes": [{"name": "recession", "drift": -0.05, "volatility": 0.25}, {"name": "expansion", "drift": 0.08, "volatility": 0.12}], "transition_matrix": [[0.9, 0.1], [0.03, 0.97]], "initial_value": 1000000}
+CIR / Vasicek: {"kappa": 0.4, "mu": 0.045, "sigma": 0.08, "initial_value": 0.055, "yield_tenor": 0.25}
+GARCH (per step): {"variant": "gjr_garch", "mu": 0.004, "omega": 0.00005, "alpha": 0.04, "gamma": 0.1, "beta": 0.85, "initial_value": 1000000}
+Hull-White: {"a": 0.1, "sigma": 0.01, "initial_curve": {"maturities": [0.25, 1, 5], "zero_rates": [0.055, 0.052, 0.048]}}
+Triangular: {"min": 0.02, "mode": 0.05, "max": 0.09, "sampling": "one_off"}
+Student-t: {"mu": 0.05, "sigma": 0.02, "nu": 5}
+Empirical: {"samples": [0.031, 0.044, 0.052, 0.048]}
+(static distributions draw i.i.d. every period unless "sampling": "one_off"; "initial_value" sets period 0)
+*/
+
+-- =============================================
+-- Forecast Models
+-- =============================================
+COMMENT ON COLUMN models.forecast_models.metadata IS
+  'satellites: macro satellite regressions (see /api/models/[id]/satellites)';
@@ -6,7 +6,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase';
-import { runEventSimulation, runEventSimulationWithComparison, type EventDefinition, type EventVariable } from '@/lib/engine';
+import { runEventSimulation, runEventSimulationWithComparison, copulaSpecFromRow, type EventDefinition, type EventVariable } from '@/lib/engine';
 
 interface RouteParams {
     params: Promise<{ id: string }>;
@@ -52,6 +52,9 @@ export async function GET(req: NextRequest, { params }: RouteParams) {
 }
 
 // PUT /api/events/[id] - Update event (and optionally re-run simulation)
+// Body: { name?, description?, recompute?, n_scenarios?, notes?,
+//         adaptive?: { target_ci_half_width?, target_percentile?: { variable, percentile, std_error }, batch_size? } }
+// With adaptive, n_scenarios is the scenario budget and the response carries the convergence trace
 export async function PUT(req: NextRequest, { params }: RouteParams) {
     try {
         const { id } = await params;
@@ -87,6 +90,25 @@ export async function PUT(req: NextRequest, { params }: RouteParams) {
 
         // Re-run simulation if requested
         if (body.recompute) {
+            if (body.adaptive !== undefined) {
+                const { target_ci_half_width, target_percentile, batch_size } = body.adaptive ?? {};
+                if (
+                    (target_ci_half_width === undefined) === (target_percentile === undefined) ||
+                    (target_ci_half_width !== undefined && !(typeof target_ci_half_width === 'number' && target_ci_half_width > 0)) ||
+                    (target_percentile !== undefined && !(
+                        existing.event_variables.some(v => v.variable_name === target_percentile?.variable) &&
+                        typeof target_percentile.percentile === 'number' && target_percentile.percentile > 0 && target_percentile.percentile < 100 &&
+                        typeof target_percentile.std_error === 'number' && target_percentile.std_error > 0
+                    )) ||
+                    (batch_size !== undefined && !(Number.isInteger(batch_size) && batch_size >= 1))
+                ) {
+                    return NextResponse.json(
+                        { error: 'adaptive needs exactly one of a positive target_ci_half_width and a target_percentile { variable, percentile in (0, 100), positive std_error } on an event variable, and an integer batch_size' },
+                        { status: 400 }
+                    );
+                }
+            }
+
             const variables: EventVariable[] = existing.event_variables.map((v: any) => ({
                 name: v.variable_name,
                 label: v.variable_label || v.variable_name,
@@ -96,7 +118,7 @@ export async function PUT(req: NextRequest, { params }: RouteParams) {
                 data_frequency: v.data_frequency
             }));
 
-            const copulaSpec = existing.copula_specifications?.[0];
+            const copulaSpecs = (existing.copula_specifications || []).map(copulaSpecFromRow);
             const result = runEventSimulationWithComparison(
                 existing.definition_json as EventDefinition,
                 variables,
@@ -105,12 +127,10 @@ export async function PUT(req: NextRequest, { params }: RouteParams) {
                     horizon_months: existing.horizon_months,
                     dt_months: 1,
                     discretization: 'milstein',
-                    use_copula_noise: !!copulaSpec,
-                    copula_config: copulaSpec ? {
-                        type: copulaSpec.copula_family,
-                        ...copulaSpec.parameters
-                    } : undefined
-                }
+                    use_copula_noise: copulaSpecs.length > 0,
+                    adaptive: body.adaptive
+                },
+                copulaSpecs
             );
 
             // Update probability
@@ -143,7 +163,7 @@ export async function PUT(req: NextRequest, { params }: RouteParams) {
                         ci_90: result.probability.ci_90
                     },
                     n_simulations: result.n_scenarios,
-                    copula_used: copulaSpec?.copula_family || 'independent',
+                    copula_used: copulaSpecs[0]?.family || 'independent',
                     model_comparison: result.model_comparison,
                     notes: body.notes || 'Aktualizacja symulacji'
                 });
@@ -151,6 +171,7 @@ export async function PUT(req: NextRequest, { params }: RouteParams) {
             return NextResponse.json({
                 event: { ...existing, current_probability: result.probability.mean },
                 simulation: result,
+                convergence: result.convergence || null,
                 new_version: versionNum
             });
         }
@@ -6,20 +6,30 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase';
-import { runEventSimulation, type EventDefinition, type EventVariable } from '@/lib/engine';
+import { runEventSimulation, parseEventText, copulaSpecToRow, type EventDefinition, type EventType, type EventVariable, type EventCopulaSpec, type EventSimulationConfig, type VineCopula } from '@/lib/engine';
 
 // Types for API
 export interface EventInput {
     name: string;
     description?: string;
-    event_type: 'threshold_breach' | 'compound' | 'conditional' | 'sequence' | 'at_least_k';
+    event_type: EventType;
     definition_json: EventDefinition;
+    definition_text?: string;  // e.g. "P(gdp < 0 AND inflation > 8%) within 24m", used when definition_json is absent
     variables: Omit<EventVariableInput, 'event_id'>[];
-    copula?: {
-        family: string;
-        parameters: Record<string, number>;
-    };
+    copula?: EventCopulaInput;
+    copulas?: EventCopulaInput[];  // pair-specific and/or multivariate specs combined into one noise model
     horizon_months: number;
+    n_scenarios?: number;  // default 10000; the scenario budget with adaptive
+    adaptive?: EventSimulationConfig['adaptive'];  // run in batches until one precision target is met
+}
+
+export interface EventCopulaInput {
+    family: string;
+    parameters: Record<string, number>;
+    variable_pair?: [string, string];
+    correlation_matrix?: number[][];
+    variables?: string[];
+    vine?: VineCopula;  // required for vine_c / vine_d / vine_r
 }
 
 export interface EventVariableInput {
@@ -116,19 +126,57 @@ export async function GET(req: NextRequest) {
 }
 
 // POST /api/events - Create new event
+// With adaptive, n_scenarios is the scenario budget and the response carries the convergence trace
 export async function POST(req: NextRequest) {
     try {
         const supabase = createServerClient();
         const body: EventInput = await req.json();
 
+        // Text definitions are parsed into definition_json
+        if (!body.definition_json && body.definition_text) {
+            const parsed = parseEventText(body.definition_text);
+            if (!parsed.success) {
+                return NextResponse.json(
+                    { error: parsed.error, position: parsed.position, line: parsed.line, column: parsed.column },
+                    { status: 400 }
+                );
+            }
+            body.definition_json = parsed.event;
+            body.event_type = body.event_type || parsed.event.type;
+            body.horizon_months = body.horizon_months || parsed.event.horizon_months;
+        }
+
         // Validate required fields
         if (!body.name || !body.event_type || !body.definition_json || !body.variables?.length) {
             return NextResponse.json(
-                { error: 'Missing required fields: name, event_type, definition_json, variables' },
+                { error: 'Missing required fields: name, event_type, definition_json or definition_text, variables' },
                 { status: 400 }
             );
         }
 
+        if (body.n_scenarios !== undefined && !(Number.isInteger(body.n_scenarios) && body.n_scenarios >= 1)) {
+            return NextResponse.json({ error: 'n_scenarios must be a positive integer' }, { status: 400 });
+        }
+
+        if (body.adaptive !== undefined) {
+            const { target_ci_half_width, target_percentile, batch_size } = body.adaptive ?? {};
+            if (
+                (target_ci_half_width === undefined) === (target_percentile === undefined) ||
+                (target_ci_half_width !== undefined && !(typeof target_ci_half_width === 'number' && target_ci_half_width > 0)) ||
+                (target_percentile !== undefined && !(
+                    body.variables.some(v => v.variable_name === target_percentile?.variable) &&
+                    typeof target_percentile.percentile === 'number' && target_percentile.percentile > 0 && target_percentile.percentile < 100 &&
+                    typeof target_percentile.std_error === 'number' && target_percentile.std_error > 0
+                )) ||
+                (batch_size !== undefined && !(Number.isInteger(batch_size) && batch_size >= 1))
+            ) {
+                return NextResponse.json(
+                    { error: 'adaptive needs exactly one of a positive target_ci_half_width and a target_percentile { variable, percentile in (0, 100), positive std_error } on an event variable, and an integer batch_size' },
+                    { status: 400 }
+                );
+            }
+        }
+
         // Get user (optional for dev)
         const { data: { user } } = await supabase.auth.getUser();
 
@@ -174,16 +222,24 @@ export async function POST(req: NextRequest) {
             return NextResponse.json({ error: varsError.message }, { status: 500 });
         }
 
-        // 3. Insert copula if provided
-        if (body.copula) {
+        // 3. Insert copulas if provided
+        const copulaInputs = [...(body.copula ? [body.copula] : []), ...(body.copulas || [])];
+        const copulaSpecs: EventCopulaSpec[] = copulaInputs.map(c => ({
+            variable_pair: c.variable_pair,
+            family: c.family as EventCopulaSpec['family'],
+            parameters: c.parameters || {},
+            correlation_matrix: c.correlation_matrix,
+            variables: c.variables,
+            vine: c.vine
+        }));
+        if (copulaSpecs.length > 0) {
             const { error: copulaError } = await supabase
                 .from('copula_specifications')
-                .insert({
+                .insert(copulaSpecs.map(spec => ({
                     event_id: newEvent.id,
-                    copula_family: body.copula.family,
-                    parameters: body.copula.parameters,
+                    ...copulaSpecToRow(spec),
                     estimation_method: 'manual'
-                });
+                })));
 
             if (copulaError) {
                 console.error('Copula insert error:', copulaError);
@@ -203,16 +259,14 @@ export async function POST(req: NextRequest) {
         const result = runEventSimulation(
             body.definition_json,
             variables,
+            copulaSpecs,
             {
-                n_scenarios: 10000,
+                n_scenarios: body.n_scenarios || 10000,
                 horizon_months: body.horizon_months || 12,
                 dt_months: 1,
                 discretization: 'milstein',
-                use_copula_noise: !!body.copula,
-                copula_config: body.copula ? {
-                    type: body.copula.family as any,
-                    ...body.copula.parameters
-                } : undefined
+                use_copula_noise: copulaSpecs.length > 0,
+                adaptive: body.adaptive
             }
         );
 
@@ -242,7 +296,7 @@ export async function POST(req: NextRequest) {
                     p95: result.probability.ci_90[1]
                 },
                 n_simulations: result.n_scenarios,
-                copula_used: body.copula?.family || 'independent',
+                copula_used: copulaInputs[0]?.family || 'independent',
                 model_comparison: result.model_comparison,
                 notes: 'Inicjalna wersja'
             });
@@ -256,10 +310,11 @@ export async function POST(req: NextRequest) {
                 probability: result.probability.mean,
                 ci_lower: result.probability.ci_90[0],
                 ci_upper: result.probability.ci_90[1],
-                copula: body.copula?.family || null,
+                copula: copulaInputs[0]?.family || null,
                 version: 'v1.0'
             },
-            simulation: result
+            simulation: result,
+            convergence: result.convergence || null
         }, { status: 201 });
 
     } catch (error) {
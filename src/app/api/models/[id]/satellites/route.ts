@@ -0,0 +1,259 @@
+// @ts-nocheck
+// =============================================
+// StochFin API: Macro Satellite Models (Connected to Supabase)
+// GET: List the model's satellites, POST: Estimate one from historical facts,
+// DELETE: Remove one. Satellites are stored in forecast_models.metadata.satellites
+// =============================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/client';
+import {
+    estimateSatelliteModel,
+    translateMacroScenario,
+    stressShockProfile,
+    stressScenarioFromRow,
+    type SatelliteModel,
+    type SatelliteSeries
+} from '@/lib/engine';
+
+interface Params {
+    params: Promise<{ id: string }>;
+}
+
+// Date a fact refers to: the end of a duration, or the instant
+const factDate = (fact) => fact.period_end || fact.period_start;
+
+// Median spacing of the target's observations in whole months
+function inferPeriodMonths(dates: string[]): number {
+    const gaps = dates.slice(1).map((date, i) => {
+        const a = new Date(dates[i]);
+        const b = new Date(date);
+        return (b.getFullYear() - a.getFullYear()) * 12 + b.getMonth() - a.getMonth();
+    }).sort((a, b) => a - b);
+    return gaps.length > 0 ? Math.max(1, gaps[Math.floor(gaps.length / 2)]) : 3;
+}
+
+async function loadModel(supabase, id: string) {
+    const { data: model } = await supabase
+        .from('forecast_models')
+        .select('*')
+        .eq('id', id)
+        .single();
+    return model;
+}
+
+// GET /api/models/[id]/satellites - List satellites
+// ?stress_scenario_id=...&horizon=24 adds the company shock paths they derive from that scenario
+export async function GET(request: NextRequest, { params }: Params) {
+    const { id } = await params;
+    const supabase = createServerClient();
+    const { searchParams } = new URL(request.url);
+    const stressScenarioId = searchParams.get('stress_scenario_id');
+    const horizon = parseInt(searchParams.get('horizon') || '24');
+
+    try {
+        const model = await loadModel(supabase, id);
+        if (!model) {
+            return NextResponse.json(
+                { data: null, error: 'Model not found' },
+                { status: 404 }
+            );
+        }
+
+        const satellites: SatelliteModel[] = model.metadata?.satellites || [];
+        if (!stressScenarioId) {
+            return NextResponse.json({ data: satellites, error: null });
+        }
+
+        const { data: row } = await supabase
+            .from('stress_scenarios')
+            .select('*')
+            .eq('id', stressScenarioId)
+            .single();
+        if (!row) {
+            return NextResponse.json(
+                { data: null, error: 'Stress scenario not found' },
+                { status: 404 }
+            );
+        }
+
+        const translated = translateMacroScenario(
+            stressScenarioFromRow(row.scenario_name, row.description, row.stress_parameters),
+            satellites,
+            horizon + 1
+        );
+
+        return NextResponse.json({
+            data: satellites.map(satellite => {
+                const path = translated.paths.find(p => p.variableCode === satellite.target);
+                return {
+                    ...satellite,
+                    stress_path: path
+                        ? { variable_code: path.variableCode, type: path.type, levels: Array.from(stressShockProfile(path, horizon + 1)) }
+                        : null
+                };
+            }),
+            error: null
+        });
+    } catch (error) {
+        console.error('Error in GET /api/models/[id]/satellites:', error);
+        return NextResponse.json(
+            { data: null, error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+// POST /api/models/[id]/satellites - Estimate a satellite from historical facts
+// Body: { target_code, factor_codes: [...], lags?: [0, 1], macro_entity_id?, period_months? }
+// The target's facts come from the model's entity, the factors' from macro_entity_id (default the same entity)
+export async function POST(request: NextRequest, { params }: Params) {
+    const { id } = await params;
+    const supabase = createServerClient();
+
+    try {
+        const body = await request.json();
+        const { target_code, factor_codes, lags, macro_entity_id, period_months } = body ?? {};
+
+        if (!target_code || !Array.isArray(factor_codes) || factor_codes.length === 0) {
+            return NextResponse.json(
+                { data: null, error: 'target_code and factor_codes are required' },
+                { status: 400 }
+            );
+        }
+        if (factor_codes.includes(target_code)) {
+            return NextResponse.json(
+                { data: null, error: 'target_code cannot be one of its own factors' },
+                { status: 400 }
+            );
+        }
+
+        const model = await loadModel(supabase, id);
+        if (!model) {
+            return NextResponse.json(
+                { data: null, error: 'Model not found' },
+                { status: 404 }
+            );
+        }
+
+        const codes = [target_code, ...factor_codes];
+        const { data: definitions } = await supabase
+            .from('variable_definitions')
+            .select('id, code')
+            .in('code', codes);
+        const idOf = new Map((definitions || []).map(d => [d.code, d.id]));
+        const unknown = codes.filter(code => !idOf.has(code));
+        if (unknown.length > 0) {
+            return NextResponse.json(
+                { data: null, error: `Unknown variables: ${unknown.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        const loadFacts = async (entityId: string, variableIds: string[]) => {
+            const { data, error } = await supabase
+                .from('historical_facts')
+                .select('variable_id, period_start, period_end, value')
+                .eq('entity_id', entityId)
+                .in('variable_id', variableIds);
+            if (error) throw new Error(error.message);
+            return data || [];
+        };
+        const targetFacts = await loadFacts(model.entity_id, [idOf.get(target_code)]);
+        const factorFacts = await loadFacts(macro_entity_id || model.entity_id, factor_codes.map(code => idOf.get(code)));
+
+        // Series share the target's observation dates; factors missing on a date are NaN
+        const dates = [...new Set(targetFacts.map(factDate))].sort();
+        const seriesOf = (code: string, facts): SatelliteSeries => {
+            const byDate = new Map(facts
+                .filter(f => f.variable_id === idOf.get(code))
+                .map(f => [factDate(f), Number(f.value)]));
+            return { code, values: dates.map(date => byDate.get(date) ?? NaN) };
+        };
+
+        let satellite: SatelliteModel;
+        try {
+            satellite = estimateSatelliteModel(
+                seriesOf(target_code, targetFacts),
+                factor_codes.map(code => seriesOf(code, factorFacts)),
+                { lags, periodMonths: period_months ?? inferPeriodMonths(dates) }
+            );
+        } catch (estimationError) {
+            return NextResponse.json(
+                { data: null, error: estimationError.message },
+                { status: 400 }
+            );
+        }
+
+        // One satellite per target: a new estimate replaces the old one
+        const satellites = [
+            ...(model.metadata?.satellites || []).filter(s => s.target !== target_code),
+            satellite
+        ];
+        const { error } = await supabase
+            .from('forecast_models')
+            .update({ metadata: { ...model.metadata, satellites }, updated_at: new Date().toISOString() })
+            .eq('id', id);
+
+        if (error) {
+            console.error('Error storing satellite model:', error);
+            return NextResponse.json(
+                { data: null, error: error.message },
+                { status: 500 }
+            );
+        }
+
+        return NextResponse.json({ data: satellite, error: null }, { status: 201 });
+    } catch (error) {
+        console.error('Error in POST /api/models/[id]/satellites:', error);
+        return NextResponse.json(
+            { data: null, error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+// DELETE /api/models/[id]/satellites?target=REVENUE_GROWTH - Remove a satellite
+export async function DELETE(request: NextRequest, { params }: Params) {
+    const { id } = await params;
+    const supabase = createServerClient();
+    const target = new URL(request.url).searchParams.get('target');
+
+    try {
+        if (!target) {
+            return NextResponse.json(
+                { data: null, error: 'target is required' },
+                { status: 400 }
+            );
+        }
+
+        const model = await loadModel(supabase, id);
+        if (!model) {
+            return NextResponse.json(
+                { data: null, error: 'Model not found' },
+                { status: 404 }
+            );
+        }
+
+        const satellites = (model.metadata?.satellites || []).filter(s => s.target !== target);
+        const { error } = await supabase
+            .from('forecast_models')
+            .update({ metadata: { ...model.metadata, satellites }, updated_at: new Date().toISOString() })
+            .eq('id', id);
+
+        if (error) {
+            return NextResponse.json(
+                { data: null, error: error.message },
+                { status: 500 }
+            );
+        }
+
+        return NextResponse.json({ data: { target, deleted: true }, error: null });
+    } catch (error) {
+        console.error('Error in DELETE /api/models/[id]/satellites:', error);
+        return NextResponse.json(
+            { data: null, error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
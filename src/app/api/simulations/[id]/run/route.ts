@@ -7,22 +7,204 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase/client';
 import {
     runSimulation,
+    validateStressScenario,
+    stressScenarioFromRow,
+    stressParametersFromScenario,
+    translateMacroScenario,
+    getTimeStepInYears,
+    reorderCorrelationMatrix,
+    repairCorrelationMatrix,
+    parseFormula,
+    getFormulaDependencies,
     type SimulationInput,
     type SimulationConfig,
     type VariableConfig,
-    type ProcessConfig
+    type ProcessConfig,
+    type DerivedVariableConfig,
+    type CovenantConfig,
+    type CorrelationRegime,
+    type DependenceCopula,
+    type StaticDistribution,
+    type ParameterUncertainty,
+    type StressScenario,
+    type SatelliteModel
 } from '@/lib/engine';
+import { createNodeWorkerPool } from '@/lib/engine/node-worker-pool';
 
 interface Params {
     params: Promise<{ id: string }>;
 }
 
+const REGIME_TYPES = ['normal', 'stress', 'crisis'];
+const SAMPLING_METHODS = ['pseudo', 'antithetic', 'sobol'];
+
+// Runs this large are split across worker threads; smaller ones are not worth the startup cost
+const PARALLEL_MIN_SCENARIOS = 20000;
+
+// Copula forced by the run's correlation method; 'cholesky' defers to the matrix's copula_type
+const METHOD_COPULAS: Record<string, DependenceCopula['type']> = {
+    copula_gaussian: 'gaussian',
+    copula_t: 'student_t',
+    copula_clayton: 'clayton'
+};
+
+// Stored distribution_parameters → DistributionObject parameters (accepting the UI's aliases)
+function toDistribution(type: string, params): StaticDistribution {
+    switch (type) {
+        case 'pert':
+            return {
+                distribution_type: 'pert',
+                parameters: {
+                    optimistic: params.optimistic ?? params.min,
+                    most_likely: params.most_likely ?? params.mode,
+                    pessimistic: params.pessimistic ?? params.max,
+                    lambda: params.lambda
+                }
+            };
+        case 'normal':
+        case 'lognormal':
+            return {
+                distribution_type: type,
+                parameters: { mu: params.mu ?? params.mean, sigma: params.sigma ?? params.std }
+            };
+        case 'student_t':
+            return {
+                distribution_type: 'student_t',
+                parameters: { mu: params.mu ?? params.mean, sigma: params.sigma ?? params.std, nu: params.nu ?? params.df }
+            };
+        default:
+            return { distribution_type: type, parameters: params };
+    }
+}
+
+// Estimation uncertainty stored with an assumption: GBM standard errors, or an explicit
+// "parameter_uncertainty": [{ "parameter": "theta", "std_error": 0.1, "distribution": "lognormal" }]
+function toParameterUncertainty(process: string, params): ParameterUncertainty[] {
+    const uncertainties: ParameterUncertainty[] = [];
+
+    if (process === 'gbm') {
+        if (params.drift_std_error > 0) {
+            uncertainties.push({ parameter: 'drift', distribution: { type: 'normal', stdError: params.drift_std_error } });
+        }
+        if (params.volatility_std_error > 0) {
+            uncertainties.push({ parameter: 'volatility', distribution: { type: 'lognormal', stdError: params.volatility_std_error } });
+        }
+    }
+
+    for (const u of params.parameter_uncertainty || []) {
+        if (!u?.parameter) continue;
+        const distribution = Array.isArray(u.samples) && u.samples.length > 0
+            ? { type: 'samples', samples: u.samples }
+            : { type: u.distribution === 'lognormal' ? 'lognormal' : 'normal', stdError: u.std_error, mean: u.mean };
+        if (distribution.type !== 'samples' && !(distribution.stdError > 0)) continue;
+        uncertainties.push({ parameter: u.parameter, distribution, scale: u.scale, min: u.min, max: u.max });
+    }
+
+    return uncertainties;
+}
+
+// Standard derivations whose inputs are all available, directly or through another
+// included derivation; outputs the run already has are left to the run's own definition
+function resolvableDerivations(
+    candidates: { id: string; code: string; formula: string }[],
+    availableCodes: string[]
+): { id: string; code: string; formula: string }[] {
+    const available = new Set(availableCodes);
+    let included = candidates
+        .filter(c => !available.has(c.code))
+        .map(c => {
+            try {
+                const deps = getFormulaDependencies(parseFormula(c.formula));
+                return { ...c, deps: [...deps.samePeriod, ...deps.lagged] };
+            } catch (e) {
+                console.warn(`Skipping derivation of ${c.code}: ${e instanceof Error ? e.message : e}`);
+                return null;
+            }
+        })
+        .filter(c => c !== null);
+
+    // Drop derivations with a missing input until the rest resolve among themselves
+    let size: number;
+    do {
+        size = included.length;
+        const codes = new Set([...available, ...included.map(c => c.code)]);
+        included = included.filter(c => c.deps.every(dep => codes.has(dep)));
+    } while (included.length !== size);
+
+    return included.map(({ id, code, formula }) => ({ id, code, formula }));
+}
+
 // POST /api/simulations/[id]/run - Execute Monte Carlo simulation
 export async function POST(request: NextRequest, { params }: Params) {
     const { id } = await params;
     const supabase = createServerClient();
     const startTime = Date.now();
 
+    // Optional body: { regime_probabilities: { normal: 0.7, stress: 0.2, crisis: 0.1 }, parameter_risk: { outer_scenarios: 200 },
+    //                 variance_reduction: { sampling: 'pseudo' | 'antithetic' | 'sobol', control_variates: true, sobol_replicates: 8 },
+    //                 adaptive: { variable_code: 'EBITDA', percentile: 5, period_index: 24, target_std_error: 1000, batch_size: 1000 },
+    //                 stress_scenario_id: '<library scenario>' }
+    // With adaptive, n_simulations is the scenario budget; a stress scenario's shock paths are applied during the run
+    // and its results at the horizon are stored with the run
+    const body = await request.json().catch(() => ({}));
+    const regimeProbabilities: Record<string, number> | undefined = body?.regime_probabilities;
+    const outerScenarios = body?.parameter_risk?.outer_scenarios;
+    const varianceReduction = body?.variance_reduction;
+    const adaptive = body?.adaptive;
+    const stressScenarioId = body?.stress_scenario_id;
+
+    if (adaptive !== undefined) {
+        const { variable_code, percentile, period_index, target_std_error, batch_size } = adaptive ?? {};
+        if (
+            typeof variable_code !== 'string' ||
+            !(typeof percentile === 'number' && percentile > 0 && percentile < 100) ||
+            !(typeof target_std_error === 'number' && target_std_error > 0) ||
+            (period_index !== undefined && !(Number.isInteger(period_index) && period_index >= 0)) ||
+            (batch_size !== undefined && !(Number.isInteger(batch_size) && batch_size >= 1))
+        ) {
+            return NextResponse.json(
+                { data: null, error: 'adaptive needs a variable_code, a percentile in (0, 100), a positive target_std_error, and integer period_index and batch_size' },
+                { status: 400 }
+            );
+        }
+    }
+
+    if (varianceReduction !== undefined) {
+        const { sampling, control_variates, sobol_replicates } = varianceReduction ?? {};
+        if (
+            (sampling !== undefined && !SAMPLING_METHODS.includes(sampling)) ||
+            (control_variates !== undefined && typeof control_variates !== 'boolean') ||
+            (sobol_replicates !== undefined && !(Number.isInteger(sobol_replicates) && sobol_replicates >= 2))
+        ) {
+            return NextResponse.json(
+                { data: null, error: `variance_reduction needs sampling in ${SAMPLING_METHODS.join(', ')}, a boolean control_variates and an integer sobol_replicates of at least 2` },
+                { status: 400 }
+            );
+        }
+    }
+
+    if (outerScenarios !== undefined && !(Number.isInteger(outerScenarios) && outerScenarios >= 2)) {
+        return NextResponse.json(
+            { data: null, error: 'parameter_risk.outer_scenarios must be an integer of at least 2' },
+            { status: 400 }
+        );
+    }
+
+    if (regimeProbabilities !== undefined) {
+        const entries = typeof regimeProbabilities === 'object' && regimeProbabilities !== null
+            ? Object.entries(regimeProbabilities)
+            : [];
+        const invalid = entries.length === 0 || entries.some(([regime, p]) =>
+            !REGIME_TYPES.includes(regime) || typeof p !== 'number' || !isFinite(p) || p < 0
+        );
+        if (invalid || entries.reduce((sum, [, p]) => sum + p, 0) <= 0) {
+            return NextResponse.json(
+                { data: null, error: `regime_probabilities must map ${REGIME_TYPES.join(', ')} to non-negative numbers with a positive sum` },
+                { status: 400 }
+            );
+        }
+    }
+
     try {
         // Get simulation run
         const { data: simulation, error: simError } = await supabase
@@ -46,6 +228,64 @@ export async function POST(request: NextRequest, { params }: Params) {
             );
         }
 
+        const nSimulations = simulation.n_simulations || 10000;
+        if (outerScenarios && outerScenarios * 2 > nSimulations) {
+            return NextResponse.json(
+                { data: null, error: `parameter_risk.outer_scenarios must be at most half of n_simulations (${nSimulations})` },
+                { status: 400 }
+            );
+        }
+
+        // Correlation matrices (base matrix plus optional stress/crisis regimes)
+        const { data: correlationRows } = await supabase
+            .from('correlation_matrices')
+            .select('*')
+            .eq('model_id', simulation.model_id)
+            .order('created_at', { ascending: true });
+
+        const baseRow = (correlationRows || []).find(r => r.regime_type === 'normal')
+            || (correlationRows || []).find(r => !r.regime_type);
+
+        if (regimeProbabilities) {
+            const missing = Object.entries(regimeProbabilities)
+                .filter(([regime, p]) => p > 0 && regime !== 'normal')
+                .filter(([regime]) => !(correlationRows || []).some(r => r.regime_type === regime))
+                .map(([regime]) => regime);
+            if (missing.length > 0) {
+                return NextResponse.json(
+                    { data: null, error: `No correlation matrix defined for regime: ${missing.join(', ')}` },
+                    { status: 400 }
+                );
+            }
+        }
+
+        // Library stress scenario to apply
+        let stressRow = null;
+        let stressScenario: StressScenario | undefined;
+        if (stressScenarioId !== undefined) {
+            const { data: row } = await supabase
+                .from('stress_scenarios')
+                .select('*')
+                .eq('id', stressScenarioId)
+                .is('simulation_run_id', null)
+                .single();
+            if (!row) {
+                return NextResponse.json(
+                    { data: null, error: 'Stress scenario not found' },
+                    { status: 404 }
+                );
+            }
+            stressScenario = stressScenarioFromRow(row.scenario_name, row.description, row.stress_parameters);
+            const stressErrors = validateStressScenario(stressScenario);
+            if (stressErrors.length > 0) {
+                return NextResponse.json(
+                    { data: null, error: `Invalid stress scenario: ${stressErrors.join('; ')}` },
+                    { status: 400 }
+                );
+            }
+            stressRow = row;
+        }
+
         // Update status to running
         await supabase
             .from('simulation_runs')
@@ -87,22 +327,63 @@ export async function POST(request: NextRequest, { params }: Params) {
             );
         }
 
-        // Get variable definitions
-        const variableIds = assumptions.map(a => a.variable_id);
+        // Get derived variable formulas and covenants
+        const { data: customFormulas } = await supabase
+            .from('custom_formulas')
+            .select('*')
+            .eq('model_id', simulation.model_id)
+            .order('execution_order', { ascending: true });
+
+        // Standard derived variables (variable_definitions.is_derived) join the model's own formulas
+        const { data: derivedDefs } = await supabase
+            .from('variable_definitions')
+            .select('*')
+            .eq('is_derived', true)
+            .not('derivation_formula', 'is', null);
+
+        const { data: covenantRows } = await supabase
+            .from('covenants')
+            .select('*')
+            .eq('model_id', simulation.model_id)
+            .eq('is_active', true);
+
+        // Get variable definitions (drivers, formula outputs and covenant targets)
+        const variableIds = [...new Set([
+            ...assumptions.map(a => a.variable_id),
+            ...(customFormulas || []).map(f => f.output_variable_id),
+            ...(covenantRows || []).filter(c => c.variable_id).map(c => c.variable_id)
+        ])];
         const { data: variableDefs } = await supabase
             .from('variable_definitions')
             .select('*')
             .in('id', variableIds);
 
-        const varDefMap = new Map((variableDefs || []).map(v => [v.id, v]));
+        const varDefMap = new Map([...(derivedDefs || []), ...(variableDefs || [])].map(v => [v.id, v]));
 
         // Build simulation config
         const config: SimulationConfig = {
-            nSimulations: simulation.n_simulations || 10000,
+            nSimulations,
             horizonPeriods: model.horizon_months || 24,
             timeStep: 'monthly',
             randomSeed: simulation.random_seed,
-            correlationMethod: 'cholesky'
+            correlationMethod: simulation.correlation_method || 'cholesky',
+            parameterRisk: outerScenarios ? { outerScenarios } : undefined,
+            varianceReduction: varianceReduction
+                ? {
+                    sampling: varianceReduction.sampling,
+                    controlVariates: varianceReduction.control_variates,
+                    sobolReplicates: varianceReduction.sobol_replicates
+                }
+                : undefined,
+            adaptive: adaptive
+                ? {
+                    variableCode: adaptive.variable_code,
+                    percentile: adaptive.percentile,
+                    periodIndex: adaptive.period_index,
+                    targetStdError: adaptive.target_std_error,
+                    batchSize: adaptive.batch_size
+                }
+                : undefined
         };
 
         // Build variable configs
@@ -135,14 +416,95 @@ export async function POST(request: NextRequest, { params }: Params) {
                         }
                     };
                     break;
+                case 'regime_switching': {
+                    const dynamics = params.dynamics === 'ornstein_uhlenbeck' ? 'ornstein_uhlenbeck' : 'gbm';
+                    processConfig = {
+                        type: 'regime_switching',
+                        params: {
+                            dynamics,
+                            regimes: (params.regimes || []).map(r => ({
+                                name: r.name,
+                                params: dynamics === 'gbm'
+                                    ? { drift: r.drift ?? 0, volatility: r.volatility ?? 0.15 }
+                                    : {
+                                        theta: r.theta ?? r.mean_reversion ?? 0.5,
+                                        mu: r.mu ?? r.long_term_mean ?? 0,
+                                        sigma: r.sigma ?? r.volatility ?? 0.02
+                                    }
+                            })),
+                            transitionMatrix: params.transition_matrix || [],
+                            initialValue: params.initial_value ?? params.initial ?? 1000000,
+                            initialRegime: params.initial_regime
+                        }
+                    };
+                    break;
+                }
+                case 'vasicek':
+                case 'cir':
+                    processConfig = {
+                        type: a.stochastic_process,
+                        params: {
+                            kappa: params.kappa ?? params.mean_reversion ?? 0.3,
+                            mu: params.mu ?? params.long_term_mean ?? 0.05,
+                            sigma: params.sigma ?? params.volatility ?? (a.stochastic_process === 'cir' ? 0.05 : 0.01),
+                            initialValue: params.initial_value ?? params.initial ?? params.mu ?? 0.05,
+                            yieldTenor: params.yield_tenor
+                        }
+                    };
+                    break;
+                case 'hull_white':
+                    processConfig = {
+                        type: 'hull_white',
+                        params: {
+                            a: params.a ?? params.mean_reversion ?? 0.1,
+                            sigma: params.sigma ?? params.volatility ?? 0.01,
+                            initialCurve: {
+                                maturities: params.initial_curve?.maturities || [1],
+                                zeroRates: params.initial_curve?.zero_rates || [params.initial_value ?? 0.05]
+                            },
+                            initialValue: params.initial_value,
+                            yieldTenor: params.yield_tenor
+                        }
+                    };
+                    break;
+                case 'garch':
+                    processConfig = {
+                        type: 'garch',
+                        params: {
+                            variant: ['gjr_garch', 'egarch'].includes(params.variant) ? params.variant : 'garch',
+                            mu: params.mu ?? 0,
+                            // Per monthly step; default ω gives ~15% annualized long-run volatility
+                            omega: params.omega ?? 0.05 * (0.15 * 0.15 / 12),
+                            alpha: params.alpha ?? 0.05,
+                            beta: params.beta ?? 0.9,
+                            gamma: params.gamma ?? 0,
+                            initialValue: params.initial_value ?? params.initial ?? 1000000,
+                            initialVariance: params.initial_variance
+                        }
+                    };
+                    break;
                 case 'pert':
+                case 'triangular':
+                case 'normal':
+                case 'lognormal':
+                case 'student_t':
+                case 'empirical':
+                case 'uniform':
+                    processConfig = {
+                        type: 'distribution',
+                        params: {
+                            distribution: toDistribution(a.stochastic_process, params),
+                            sampling: params.sampling === 'one_off' ? 'one_off' : 'per_period',
+                            initialValue: params.initial_value ?? params.initial
+                        }
+                    };
+                    break;
+                case 'deterministic':
                 default:
-                    // For PERT, use deterministic with mode value
-                    const modeValue = params.mode ?? ((params.min ?? 0) + (params.max ?? 1)) / 2;
                     processConfig = {
                         type: 'deterministic',
                         params: {
-                            value: modeValue
+                            value: params.value ?? params.mode ?? ((params.min ?? 0) + (params.max ?? 1)) / 2
                         }
                     };
                     break;
@@ -151,25 +513,156 @@ export async function POST(request: NextRequest, { params }: Params) {
             return {
                 id: a.variable_id,
                 code: varDef?.code || `VAR_${a.variable_id.slice(0, 8)}`,
-                processConfig
+                processConfig,
+                parameterUncertainty: toParameterUncertainty(a.stochastic_process, params)
             };
         });
 
-        // Build correlation matrix (identity for now - TODO: get from model)
-        const correlationMatrix: number[][] = variables.map((_, i) =>
-            variables.map((_, j) => i === j ? 1 : 0)
+        // Correlation matrices are stored over an ordered list of assumption IDs;
+        // reorder them to the variable order and repair invalid ones before simulating
+        const assumptionIds = assumptions.map(a => a.id);
+        const repairedMatrices: string[] = [];
+
+        const toRunMatrix = (row): number[][] => {
+            const ordered = reorderCorrelationMatrix(
+                row.matrix_values || [],
+                row.variable_assumption_ids || [],
+                assumptionIds
+            );
+            const { matrix, repaired, errors } = repairCorrelationMatrix(ordered);
+            if (repaired) {
+                repairedMatrices.push(row.name);
+                console.warn(`[SimRun ${id}] Correlation matrix "${row.name}" repaired: ${errors.join('; ')}`);
+            }
+            return matrix;
+        };
+
+        const toCopula = (row): DependenceCopula => {
+            const copulaParams = row?.copula_parameters || {};
+            const parameters: Record<string, number> = {};
+            const nu = copulaParams.nu ?? copulaParams.df;
+            if (typeof nu === 'number') parameters.nu = nu;
+            if (typeof copulaParams.theta === 'number') parameters.theta = copulaParams.theta;
+
+            const methodCopula = METHOD_COPULAS[config.correlationMethod];
+            // Parameters only carry over when the run uses the matrix's own family
+            if (methodCopula && methodCopula !== (row?.copula_type || 'gaussian')) {
+                return { type: methodCopula };
+            }
+            return { type: methodCopula || row?.copula_type || 'gaussian', parameters };
+        };
+
+        const correlationMatrix: number[][] = baseRow
+            ? toRunMatrix(baseRow)
+            : variables.map((_, i) => variables.map((_, j) => i === j ? 1 : 0));
+        const copula = toCopula(baseRow);
+
+        // Regime mixture: each scenario draws normal/stress/crisis with the requested probability
+        const regimes: CorrelationRegime[] | undefined = regimeProbabilities
+            ? Object.entries(regimeProbabilities)
+                .filter(([, probability]) => probability > 0)
+                .map(([regime, probability]) => {
+                    const row = regime === 'normal'
+                        ? baseRow
+                        : correlationRows.find(r => r.regime_type === regime);
+                    return {
+                        name: regime,
+                        probability,
+                        correlationMatrix: row === baseRow ? correlationMatrix : toRunMatrix(row),
+                        copula: row === baseRow ? copula : toCopula(row)
+                    };
+                })
+            : undefined;
+
+        // Derived variables are evaluated on every scenario from the simulated drivers:
+        // the model's custom formulas, then every standard derivation whose inputs the run has
+        const modelFormulas = (customFormulas || []).map(f => ({
+            id: f.output_variable_id,
+            code: varDefMap.get(f.output_variable_id)?.code || `VAR_${f.output_variable_id.slice(0, 8)}`,
+            formula: f.formula_expression,
+            executionOrder: f.execution_order
+        }));
+        const standardFormulas = resolvableDerivations(
+            (derivedDefs || []).map(d => ({ id: d.id, code: d.code, formula: d.derivation_formula })),
+            [...variables.map(v => v.code), ...modelFormulas.map(f => f.code)]
+        );
+
+        // LAG of a derived variable before period 0 starts from its latest actual value
+        const derivedIds = [...modelFormulas, ...standardFormulas].map(f => f.id);
+        const { data: latestFacts } = derivedIds.length > 0
+            ? await supabase
+                .from('historical_facts')
+                .select('variable_id, value, period_start, period_end')
+                .eq('entity_id', model.entity_id)
+                .in('variable_id', derivedIds)
+                .order('period_start', { ascending: false })
+            : { data: [] };
+        const latestValue = new Map();
+        for (const fact of latestFacts || []) {
+            if (!latestValue.has(fact.variable_id)) latestValue.set(fact.variable_id, Number(fact.value));
+        }
+
+        const derivedVariables: DerivedVariableConfig[] = [...modelFormulas, ...standardFormulas].map(f => ({
+            ...f,
+            initialValue: latestValue.get(f.id)
+        }));
+
+        const covenants: CovenantConfig[] = (covenantRows || [])
+            .filter(c => c.variable_id && varDefMap.has(c.variable_id))
+            .map(c => ({
+                id: c.id,
+                name: c.name,
+                variableCode: varDefMap.get(c.variable_id).code,
+                threshold: Number(c.threshold_value),
+                operator: c.comparison_operator
+            }));
+
+        // Macro satellites of the model: embedded as drift terms when their target and
+        // factors are all simulated, otherwise they translate the stress scenario's
+        // macro shocks into paths on company drivers
+        const driverCodes = variables.map(v => v.code);
+        const satellites: SatelliteModel[] = Array.isArray(model.metadata?.satellites) ? model.metadata.satellites : [];
+        const embeddedSatellites = satellites.filter(s =>
+            driverCodes.includes(s.target) && s.terms.every(t => driverCodes.includes(t.factor))
         );
+        let satellitePaths = [];
+        if (stressScenario) {
+            const translated = translateMacroScenario(
+                stressScenario,
+                satellites.filter(s => driverCodes.includes(s.target) && !embeddedSatellites.includes(s)),
+                config.horizonPeriods + 1,
+                { stepMonths: getTimeStepInYears(config.timeStep) * 12 }
+            );
+            satellitePaths = translated.paths;
+            stressScenario = { ...stressScenario, paths: [...stressScenario.paths, ...satellitePaths] };
+        }
 
         // Prepare simulation input
         const simulationInput: SimulationInput = {
             config,
             variables,
-            correlationMatrix
+            correlationMatrix,
+            copula,
+            regimes,
+            derivedVariables,
+            covenants,
+            stressScenario,
+            satellites: embeddedSatellites
         };
 
         // Run the simulation
         console.log(`[SimRun ${id}] Starting Monte Carlo with ${config.nSimulations} simulations...`);
-        const result = await runSimulation(simulationInput);
+        const pool = config.nSimulations >= PARALLEL_MIN_SCENARIOS
+            ? createNodeWorkerPool({
+                onStartupFailure: error => console.warn(`[SimRun ${id}] Worker failed to start, running in-thread: ${error.message}`)
+            })
+            : undefined;
+        let result;
+        try {
+            result = await runSimulation(simulationInput, { pool });
+        } finally {
+            await pool?.terminate();
+        }
         console.log(`[SimRun ${id}] Completed in ${result.computeTimeMs}ms`);
 
         // Store aggregated results
@@ -200,6 +693,47 @@ export async function POST(request: NextRequest, { params }: Params) {
             await supabase.from('aggregated_results').insert(resultInserts);
         }
 
+        // Store covenant breach probabilities
+        const covenantInserts = (result.covenantResults || []).map(c => ({
+            simulation_run_id: id,
+            covenant_id: c.covenantId,
+            period_index: c.periodIndex,
+            period_date: new Date(Date.now() + c.periodIndex * 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+            breach_probability: c.breachProbability,
+            avg_breach_magnitude: c.avgBreachMagnitude,
+            n_breach_scenarios: c.nBreachScenarios
+        }));
+
+        if (covenantInserts.length > 0) {
+            await supabase.from('covenant_results').insert(covenantInserts);
+        }
+
+        // Record the applied stress scenario with the run's results at the horizon
+        if (stressRow) {
+            const stressResults = Object.fromEntries(result.results
+                .filter(r => r.periodIndex === config.horizonPeriods)
+                .map(r => [r.variableCode, {
+                    mean: r.stats.mean,
+                    p10: r.stats.p10,
+                    p50: r.stats.p50,
+                    p90: r.stats.p90,
+                    prob_negative: r.stats.prob_negative
+                }]));
+            await supabase.from('stress_scenarios').insert({
+                simulation_run_id: id,
+                scenario_name: stressRow.scenario_name,
+                scenario_type: stressRow.scenario_type,
+                description: stressRow.description,
+                stress_parameters: satellitePaths.length > 0
+                    ? {
+                        ...stressRow.stress_parameters,
+                        satellite_paths: stressParametersFromScenario({ ...stressScenario, paths: satellitePaths }).paths
+                    }
+                    : stressRow.stress_parameters,
+                results: stressResults
+            });
+        }
+
         // Update simulation status
         const computeTimeSeconds = Math.round((Date.now() - startTime) / 1000);
         await supabase
@@ -215,12 +749,62 @@ export async function POST(request: NextRequest, { params }: Params) {
             data: {
                 id,
                 status: 'completed',
-                nSimulations: config.nSimulations,
+                nSimulations: result.config.nSimulations,
                 nVariables: variables.length,
+                nDerivedVariables: derivedVariables.length,
                 nPeriods: config.horizonPeriods,
                 nResults: result.results.length,
                 computeTimeMs: result.computeTimeMs,
-                computeTimeSeconds
+                computeTimeSeconds,
+                regimes: (result.regimeResults || []).map(r => ({
+                    variableId: r.variableId,
+                    variableCode: r.variableCode,
+                    regimeNames: r.regimeNames,
+                    occupancy: r.occupancy
+                })),
+                parameterRisk: result.varianceDecomposition
+                    ? {
+                        outerScenarios: result.parameterDraws,
+                        finalPeriod: result.varianceDecomposition
+                            .filter(d => d.periodIndex === config.horizonPeriods)
+                            .map(d => ({
+                                variableId: d.variableId,
+                                variableCode: d.variableCode,
+                                totalVariance: d.totalVariance,
+                                parameterVariance: d.parameterVariance,
+                                processVariance: d.processVariance,
+                                parameterShare: d.parameterShare
+                            }))
+                    }
+                    : null,
+                varianceReduction: result.varianceReduction
+                    ? {
+                        sampling: result.varianceReduction.sampling,
+                        sobolReplicates: result.varianceReduction.sobolReplicates ?? null,
+                        controlVariables: result.varianceReduction.controlVariables ?? [],
+                        finalPeriod: result.varianceReduction.estimates
+                            .filter(e => e.periodIndex === config.horizonPeriods)
+                            .map(e => ({
+                                variableId: e.variableId,
+                                variableCode: e.variableCode,
+                                mean: e.mean,
+                                stdError: e.stdError,
+                                plainStdError: e.plainStdError,
+                                varianceReductionFactor: e.varianceReductionFactor
+                            }))
+                    }
+                    : null,
+                convergence: result.convergence ?? null,
+                stressScenario: stressRow
+                    ? { id: stressRow.id, name: stressRow.scenario_name, satelliteTargets: satellitePaths.map(p => p.variableCode) }
+                    : null,
+                satellites: embeddedSatellites.map(s => s.target),
+                correlation: {
+                    matrixId: baseRow?.id ?? null,
+                    copula: copula.type,
+                    repairedMatrices,
+                    regimeCounts: result.regimeCounts ?? null
+                }
             },
             error: null
         });
@@ -80,7 +80,7 @@ export async function POST(request: NextRequest) {
 
     try {
         const body = await request.json();
-        const { model_id, run_type, n_simulations, random_seed } = body;
+        const { model_id, run_type, n_simulations, random_seed, correlation_method } = body;
 
         // Validation
         if (!model_id) {
@@ -98,6 +98,14 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        const validCorrelationMethods = ['cholesky', 'copula_gaussian', 'copula_t', 'copula_clayton'];
+        if (correlation_method && !validCorrelationMethods.includes(correlation_method)) {
+            return NextResponse.json(
+                { data: null, error: `correlation_method must be one of: ${validCorrelationMethods.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
         // Verify model exists
         const { data: model, error: modelError } = await supabase
             .from('forecast_models')
@@ -118,6 +126,7 @@ export async function POST(request: NextRequest) {
             .insert({
                 model_id,
                 run_type: run_type || 'full_monte_carlo',
+                correlation_method: correlation_method || 'cholesky',
                 status: 'pending',
                 n_simulations: n_simulations || model.n_simulations || 10000,
                 random_seed: random_seed || Math.floor(Math.random() * 1000000),
@@ -0,0 +1,194 @@
+// @ts-nocheck
+// =============================================
+// StochFin API: Single Stress Scenario (Connected to Supabase)
+// GET: Scenario with its shock profiles, PATCH: Update, DELETE: Remove
+// =============================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/client';
+import {
+    validateStressScenario,
+    stressShockProfile,
+    stressScenarioFromRow,
+    STRESS_SCENARIO_TYPES
+} from '@/lib/engine';
+
+interface Params {
+    params: Promise<{ id: string }>;
+}
+
+// GET /api/stress-scenarios/[id] - Get scenario; ?horizon=24 adds each path's shock level per period
+export async function GET(request: NextRequest, { params }: Params) {
+    const { id } = await params;
+    const supabase = createServerClient();
+    const { searchParams } = new URL(request.url);
+    const horizon = parseInt(searchParams.get('horizon') || '0');
+
+    try {
+        const { data: scenario, error } = await supabase
+            .from('stress_scenarios')
+            .select('*')
+            .eq('id', id)
+            .single();
+
+        if (error || !scenario) {
+            return NextResponse.json(
+                { data: null, error: 'Stress scenario not found' },
+                { status: 404 }
+            );
+        }
+
+        const profiles = horizon > 0
+            ? stressScenarioFromRow(scenario.scenario_name, scenario.description, scenario.stress_parameters).paths
+                .map(path => ({
+                    variable_code: path.variableCode,
+                    levels: Array.from(stressShockProfile(path, horizon + 1))
+                }))
+            : undefined;
+
+        return NextResponse.json({ data: { ...scenario, profiles }, error: null });
+    } catch (error) {
+        console.error('Error in GET /api/stress-scenarios/[id]:', error);
+        return NextResponse.json(
+            { data: null, error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+// PATCH /api/stress-scenarios/[id] - Update a library scenario
+export async function PATCH(request: NextRequest, { params }: Params) {
+    const { id } = await params;
+    const supabase = createServerClient();
+
+    try {
+        const body = await request.json();
+
+        const { data: current } = await supabase
+            .from('stress_scenarios')
+            .select('*')
+            .eq('id', id)
+            .single();
+
+        if (!current) {
+            return NextResponse.json(
+                { data: null, error: 'Stress scenario not found' },
+                { status: 404 }
+            );
+        }
+
+        // Copies stored with a run record what was applied and stay as they are
+        if (current.simulation_run_id) {
+            return NextResponse.json(
+                { data: null, error: 'Only library scenarios can be edited' },
+                { status: 400 }
+            );
+        }
+
+        if (body.scenario_type !== undefined && !STRESS_SCENARIO_TYPES.includes(body.scenario_type)) {
+            return NextResponse.json(
+                { data: null, error: `scenario_type must be one of: ${STRESS_SCENARIO_TYPES.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        const update = {
+            scenario_name: body.scenario_name ?? current.scenario_name,
+            scenario_type: body.scenario_type ?? current.scenario_type,
+            description: body.description ?? current.description,
+            stress_parameters: body.stress_parameters ?? current.stress_parameters,
+            updated_at: new Date().toISOString()
+        };
+
+        const errors = validateStressScenario(
+            stressScenarioFromRow(update.scenario_name, update.description, update.stress_parameters)
+        );
+        if (errors.length > 0) {
+            return NextResponse.json(
+                { data: null, error: `Invalid stress_parameters: ${errors.join('; ')}` },
+                { status: 400 }
+            );
+        }
+
+        const { data, error } = await supabase
+            .from('stress_scenarios')
+            .update(update)
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error) {
+            return NextResponse.json(
+                { data: null, error: error.message },
+                { status: 500 }
+            );
+        }
+
+        return NextResponse.json({ data, error: null });
+    } catch (error) {
+        console.error('Error in PATCH /api/stress-scenarios/[id]:', error);
+        return NextResponse.json(
+            { data: null, error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+// DELETE /api/stress-scenarios/[id] - Delete a library scenario
+export async function DELETE(request: NextRequest, { params }: Params) {
+    const { id } = await params;
+    const supabase = createServerClient();
+
+    try {
+        const { data: current } = await supabase
+            .from('stress_scenarios')
+            .select('id, simulation_run_id')
+            .eq('id', id)
+            .single();
+
+        if (!current) {
+            return NextResponse.json(
+                { data: null, error: 'Stress scenario not found' },
+                { status: 404 }
+            );
+        }
+
+        // Copies stored with a run record what was applied and stay as they are
+        if (current.simulation_run_id) {
+            return NextResponse.json(
+                { data: null, error: 'Only library scenarios can be deleted' },
+                { status: 400 }
+            );
+        }
+
+        const { data: deleted, error } = await supabase
+            .from('stress_scenarios')
+            .delete()
+            .eq('id', id)
+            .is('simulation_run_id', null)
+            .select('id');
+
+        if (error) {
+            console.error('Error deleting stress scenario:', error);
+            return NextResponse.json(
+                { data: null, error: error.message },
+                { status: 500 }
+            );
+        }
+
+        if (!deleted || deleted.length === 0) {
+            return NextResponse.json(
+                { data: null, error: 'Stress scenario not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ data: { id, deleted: true }, error: null });
+    } catch (error) {
+        console.error('Error in DELETE /api/stress-scenarios/[id]:', error);
+        return NextResponse.json(
+            { data: null, error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,159 @@
+// @ts-nocheck
+// =============================================
+// StochFin API: Stress Scenario Library (Connected to Supabase)
+// GET: List scenarios, POST: Create a scenario or import the predefined ones
+// =============================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/client';
+import {
+    validateStressScenario,
+    stressScenarioFromRow,
+    stressParametersFromScenario,
+    STRESS_SCENARIO_TYPES,
+    PREDEFINED_STRESS_SCENARIOS,
+    PREDEFINED_STRESS_SCENARIO_TYPES
+} from '@/lib/engine';
+
+// GET /api/stress-scenarios - List library scenarios, or the stressed results of one run
+export async function GET(request: NextRequest) {
+    const supabase = createServerClient();
+    const { searchParams } = new URL(request.url);
+    const simulationRunId = searchParams.get('simulation_run_id');
+    const scenarioType = searchParams.get('scenario_type');
+
+    try {
+        let query = supabase
+            .from('stress_scenarios')
+            .select('*')
+            .order('created_at', { ascending: false });
+
+        query = simulationRunId
+            ? query.eq('simulation_run_id', simulationRunId)
+            : query.is('simulation_run_id', null);
+
+        if (scenarioType && scenarioType !== 'all') {
+            query = query.eq('scenario_type', scenarioType);
+        }
+
+        const { data, error } = await query;
+
+        if (error) {
+            console.error('Error fetching stress scenarios:', error);
+            return NextResponse.json(
+                { data: null, error: error.message },
+                { status: 500 }
+            );
+        }
+
+        return NextResponse.json({ data: data || [], error: null });
+    } catch (error) {
+        console.error('Error in GET /api/stress-scenarios:', error);
+        return NextResponse.json(
+            { data: null, error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+// POST /api/stress-scenarios - Create a library scenario
+// Body: { scenario_name, scenario_type?, description?, stress_parameters: { paths: [...] } }
+//    or { import_predefined: true } to add the engine's predefined scenarios missing from the library
+export async function POST(request: NextRequest) {
+    const supabase = createServerClient();
+
+    try {
+        const body = await request.json();
+
+        if (body?.import_predefined === true) {
+            const { data: existing } = await supabase
+                .from('stress_scenarios')
+                .select('scenario_name')
+                .is('simulation_run_id', null);
+            const names = new Set((existing || []).map(s => s.scenario_name));
+
+            const inserts = PREDEFINED_STRESS_SCENARIOS
+                .filter(scenario => !names.has(scenario.name))
+                .map(scenario => ({
+                    simulation_run_id: null,
+                    scenario_name: scenario.name,
+                    scenario_type: PREDEFINED_STRESS_SCENARIO_TYPES[scenario.name] || 'custom',
+                    description: scenario.description,
+                    stress_parameters: stressParametersFromScenario(scenario),
+                    results: null
+                }));
+
+            if (inserts.length === 0) {
+                return NextResponse.json({ data: [], error: null });
+            }
+
+            const { data, error } = await supabase
+                .from('stress_scenarios')
+                .insert(inserts)
+                .select();
+
+            if (error) {
+                console.error('Error importing stress scenarios:', error);
+                return NextResponse.json(
+                    { data: null, error: error.message },
+                    { status: 500 }
+                );
+            }
+
+            return NextResponse.json({ data, error: null }, { status: 201 });
+        }
+
+        const { scenario_name, scenario_type, description, stress_parameters } = body ?? {};
+
+        if (!scenario_name) {
+            return NextResponse.json(
+                { data: null, error: 'scenario_name is required' },
+                { status: 400 }
+            );
+        }
+
+        if (scenario_type && !STRESS_SCENARIO_TYPES.includes(scenario_type)) {
+            return NextResponse.json(
+                { data: null, error: `scenario_type must be one of: ${STRESS_SCENARIO_TYPES.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        const errors = validateStressScenario(stressScenarioFromRow(scenario_name, description, stress_parameters));
+        if (errors.length > 0) {
+            return NextResponse.json(
+                { data: null, error: `Invalid stress_parameters: ${errors.join('; ')}` },
+                { status: 400 }
+            );
+        }
+
+        const { data, error } = await supabase
+            .from('stress_scenarios')
+            .insert({
+                simulation_run_id: null,
+                scenario_name,
+                scenario_type: scenario_type || 'custom',
+                description: description || null,
+                stress_parameters: stressParametersFromScenario(stressScenarioFromRow(scenario_name, description, stress_parameters)),
+                results: null
+            })
+            .select()
+            .single();
+
+        if (error) {
+            console.error('Error creating stress scenario:', error);
+            return NextResponse.json(
+                { data: null, error: error.message },
+                { status: 500 }
+            );
+        }
+
+        return NextResponse.json({ data, error: null }, { status: 201 });
+    } catch (error) {
+        console.error('Error in POST /api/stress-scenarios:', error);
+        return NextResponse.json(
+            { data: null, error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -14,6 +14,7 @@ import { CopulaScatterPlot, CopulaComparison } from '@/components/events/CopulaS
 import { cn } from '@/lib/utils';
 import {
     runEventSimulationWithComparison,
+    copulaSpecFromRow,
     sampleFromCopula,
     MersenneTwister,
     type EventDefinition,
@@ -124,7 +125,7 @@ export default function EventDetailPage() {
                 data_frequency: v.data_frequency as any
             }));
 
-            const copulaSpec = event.copula_specifications?.[0];
+            const copulaSpecs = (event.copula_specifications || []).map(copulaSpecFromRow);
 
             // Run simulation with comparison
             const simResult = runEventSimulationWithComparison(
@@ -135,13 +136,11 @@ export default function EventDetailPage() {
                     horizon_months: event.horizon_months || 12,
                     dt_months: 1,
                     discretization: 'milstein',
-                    use_copula_noise: !!copulaSpec,
-                    copula_config: copulaSpec ? {
-                        type: copulaSpec.copula_family as any,
-                        ...copulaSpec.parameters
-                    } : undefined,
+                    use_copula_noise: copulaSpecs.length > 0,
+                    shapley_attribution: true,
                     random_seed: 42
-                }
+                },
+                copulaSpecs
             );
             setResult(simResult);
 
@@ -150,7 +149,7 @@ export default function EventDetailPage() {
             const n = 2000;
 
             const gaussianConfig: CopulaConfig = { type: 'gaussian', correlationMatrix: [[1, 0.5], [0.5, 1]] };
-            const claytonConfig: CopulaConfig = { type: 'clayton', theta: copulaSpec?.parameters?.theta || 2.0 };
+            const claytonConfig: CopulaConfig = { type: 'clayton', theta: copulaSpecs[0]?.parameters?.theta || 2.0 };
             const gumbelConfig: CopulaConfig = { type: 'gumbel', theta: 2.0 };
             const tConfig: CopulaConfig = { type: 't', correlationMatrix: [[1, 0.5], [0.5, 1]], degreesOfFreedom: 4 };
 
@@ -427,6 +426,11 @@ function ProbabilityTab({ result, event }: { result: EventProbabilityResult; eve
                 </div>
             )}
 
+            {/* Shapley attribution */}
+            {result.decomposition.shapley && (
+                <ShapleyWaterfall shapley={result.decomposition.shapley} />
+            )}
+
             {/* Percentiles */}
             <div className="bg-[hsl(var(--surface-1))] rounded-2xl p-6 border border-[hsl(var(--border-subtle))]">
                 <h3 className="text-lg font-semibold mb-4">Rozkład na horyzoncie</h3>
@@ -461,6 +465,57 @@ function ProbabilityTab({ result, event }: { result: EventProbabilityResult; eve
     );
 }
 
+function ShapleyWaterfall({ shapley }: { shapley: NonNullable<EventProbabilityResult['decomposition']['shapley']> }) {
+    // Bars float from the running total before each contribution to the one after it
+    const steps: { label: string; from: number; to: number; total?: boolean }[] = [
+        { label: 'Ścieżki bazowe', from: 0, to: shapley.baseline, total: true }
+    ];
+    let running = shapley.baseline;
+    Object.entries(shapley.contributions)
+        .sort(([, a], [, b]) => Math.abs(b) - Math.abs(a))
+        .forEach(([name, value]) => {
+            steps.push({ label: name, from: running, to: running + value });
+            running += value;
+        });
+    steps.push({ label: 'Łącznie', from: 0, to: shapley.probability, total: true });
+
+    const scale = Math.max(...steps.map(step => Math.max(step.from, step.to)), 1e-9);
+
+    return (
+        <div className="bg-[hsl(var(--surface-1))] rounded-2xl p-6 border border-[hsl(var(--border-subtle))]">
+            <h3 className="text-lg font-semibold mb-1">Atrybucja Shapleya</h3>
+            <p className="text-sm text-[hsl(var(--text-muted))] mb-4">
+                Wkład każdej zmiennej w prawdopodobieństwo zdarzenia względem ścieżek bazowych (średnich)
+            </p>
+            <div className="space-y-2">
+                {steps.map(step => {
+                    const delta = step.to - step.from;
+                    return (
+                        <div key={step.label} className="flex items-center gap-3">
+                            <span className="w-32 text-sm text-[hsl(var(--text-muted))] truncate">{step.label}</span>
+                            <div className="relative flex-1 h-6 bg-[hsl(var(--surface-2))] rounded">
+                                <div
+                                    className={cn(
+                                        'absolute top-0 h-6 rounded',
+                                        step.total ? 'bg-orange-500/70' : delta >= 0 ? 'bg-red-500/70' : 'bg-emerald-500/70'
+                                    )}
+                                    style={{
+                                        left: `${(Math.min(step.from, step.to) / scale) * 100}%`,
+                                        width: `${(Math.abs(delta) / scale) * 100}%`
+                                    }}
+                                />
+                            </div>
+                            <span className="w-20 text-right font-mono text-sm">
+                                {step.total ? '' : delta >= 0 ? '+' : '−'}{(Math.abs(step.total ? step.to : delta) * 100).toFixed(1)}%
+                            </span>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
+
 function HistoryTab({ versions }: { versions: Version[] }) {
     if (versions.length === 0) {
         return (
@@ -17,6 +17,8 @@ import {
     formatNumber
 } from '@/contexts/CompanyDataContext';
 import EmptyState from '@/components/ui/EmptyState';
+import { SensitivityTornado } from '@/components/dashboard';
+import { estimateSobolIndices, sampleUniform } from '@/lib/engine';
 
 // =============================================
 // Glass Card Component
@@ -43,6 +45,89 @@ function GlassCard({
     );
 }
 
+// =============================================
+// DCF Value
+// =============================================
+
+interface DCFInputs {
+    lastRevenue: number;
+    daRatio: number;
+    netDebt: number;
+    shares: number | null | undefined;
+}
+
+/** Five-year DCF value per share (equity value without shares) at WACC and terminal growth in % */
+function dcfValue(
+    { lastRevenue, daRatio, netDebt, shares }: DCFInputs,
+    wacc: number,
+    tg: number,
+    growth: number,
+    margin: number
+): number | null {
+    const w = wacc / 100;
+    const g = tg / 100;
+
+    if (w <= g) return null;
+    if (w <= 0) return null;
+
+    const projYears = 5;
+    let revenue = lastRevenue;
+    let pvFCF = 0;
+    let lastFCF = 0;
+
+    for (let t = 1; t <= projYears; t++) {
+        revenue = revenue * (1 + growth);
+        const ebitda = revenue * margin;
+        const da = revenue * daRatio;
+        const fcf = ebitda - da;
+        pvFCF += fcf / Math.pow(1 + w, t);
+        lastFCF = fcf;
+    }
+
+    const tv = (lastFCF * (1 + g)) / (w - g);
+    const pvTV = tv / Math.pow(1 + w, projYears);
+    const ev = pvFCF + pvTV;
+    const equity = ev - netDebt;
+
+    if (shares) return equity / shares;
+    return equity;
+}
+
+// =============================================
+// Sobol Tornado
+// =============================================
+
+/**
+ * Global sensitivity: Sobol indices of the DCF value over uniform ranges of
+ * the four assumptions (WACC kept above terminal growth)
+ */
+function SobolTornado({
+    baseWACC,
+    growthRate,
+    ebitdaMargin,
+    lastRevenue,
+    daRatio,
+    netDebt,
+    shares
+}: DCFInputs & {
+    baseWACC: number;
+    growthRate: number;
+    ebitdaMargin: number;
+}) {
+    const sobol = useMemo(() => estimateSobolIndices(
+        [
+            { name: 'WACC', sample: rng => sampleUniform(rng, Math.max(baseWACC - 2, 5), baseWACC + 2) },
+            { name: 'Terminal Growth', sample: rng => sampleUniform(rng, 1.0, 3.5) },
+            { name: 'Wzrost przychodów', sample: rng => sampleUniform(rng, growthRate - 0.05, growthRate + 0.05) },
+            { name: 'Marża EBITDA', sample: rng => sampleUniform(rng, ebitdaMargin * 0.8, ebitdaMargin * 1.2) }
+        ],
+        ([wacc, tg, growth, margin]) => dcfValue({ lastRevenue, daRatio, netDebt, shares }, wacc, tg, growth, margin) ?? NaN,
+        256
+    ), [baseWACC, growthRate, ebitdaMargin, lastRevenue, daRatio, netDebt, shares]);
+
+    return <SensitivityTornado rows={sobol.tornado} />;
+}
+
 // =============================================
 // Main Component
 // =============================================
@@ -139,36 +224,14 @@ export default function SensitivityPage() {
     }
     const tgRange = [1.0, 1.5, 2.0, 2.5, 3.0, 3.5, 4.0];
 
-    // Compute DCF value for a given WACC and terminal growth
-    const computeDCFValue = (wacc: number, tg: number): number | null => {
-        const w = wacc / 100;
-        const g = tg / 100;
-
-        if (w <= g) return null;
-        if (w <= 0) return null;
-
-        const projYears = 5;
-        let revenue = lastRevenue;
-        let pvFCF = 0;
-        let lastFCF = 0;
-
-        for (let t = 1; t <= projYears; t++) {
-            revenue = revenue * (1 + growthRate);
-            const ebitda = revenue * ebitdaMargin;
-            const da = revenue * daRatio;
-            const fcf = ebitda - da;
-            pvFCF += fcf / Math.pow(1 + w, t);
-            lastFCF = fcf;
-        }
-
-        const tv = (lastFCF * (1 + g)) / (w - g);
-        const pvTV = tv / Math.pow(1 + w, projYears);
-        const ev = pvFCF + pvTV;
-        const equity = ev - netDebt;
-
-        if (shares) return equity / shares;
-        return equity;
-    };
+    // Compute DCF value for a given WACC and terminal growth (and optionally growth / margin)
+    const dcfInputs: DCFInputs = { lastRevenue, daRatio, netDebt, shares };
+    const computeDCFValue = (
+        wacc: number,
+        tg: number,
+        growth: number = growthRate,
+        margin: number = ebitdaMargin
+    ): number | null => dcfValue(dcfInputs, wacc, tg, growth, margin);
 
     // Build matrix
     const matrix = useMemo(() => {
@@ -373,6 +436,26 @@ export default function SensitivityPage() {
                     </div>
                 </GlassCard>
 
+                {/* Global sensitivity */}
+                <GlassCard className="p-6 mt-6">
+                    <h2 className="text-lg font-semibold flex items-center gap-2 mb-2">
+                        <span className="w-8 h-8 rounded-lg bg-gradient-to-br from-amber-500 to-rose-600 flex items-center justify-center text-sm">🌪️</span>
+                        Tornado wrażliwości (indeksy Sobola)
+                    </h2>
+                    <div className="text-sm text-gray-500 mb-6">
+                        Udział każdego założenia w wariancji wartości: WACC ±2 pp, TG 1–3,5%, wzrost ±5 pp, marża ±20%
+                    </div>
+                    <SobolTornado
+                        baseWACC={baseWACC}
+                        growthRate={growthRate}
+                        ebitdaMargin={ebitdaMargin}
+                        lastRevenue={lastRevenue}
+                        daRatio={daRatio}
+                        netDebt={netDebt}
+                        shares={shares}
+                    />
+                </GlassCard>
+
                 {/* Navigation */}
                 <div className="mt-6 grid grid-cols-2 gap-4">
                     <button
@@ -9,6 +9,8 @@ import React from 'react';
 import { cn, formatNumber } from '@/lib/utils';
 import { Card, CardHeader, CardTitle } from '@/components/ui/Card';
 import { TrendingDown, Minus, TrendingUp } from 'lucide-react';
+import type { TornadoRow } from '@/lib/engine';
+import { SensitivityTornado } from './SensitivityTornado';
 
 export interface ScenarioRow {
     variableCode: string;
@@ -26,6 +28,7 @@ export interface ScenarioTableProps {
     periodLabel?: string;
     showActual?: boolean;
     compact?: boolean;
+    tornado?: TornadoRow[];  // Global sensitivity of the table's output, ranked by total Sobol index
     className?: string;
 }
 
@@ -35,6 +38,7 @@ export function ScenarioTable({
     periodLabel,
     showActual = false,
     compact = false,
+    tornado,
     className
 }: ScenarioTableProps) {
     return (
@@ -134,6 +138,15 @@ export function ScenarioTable({
                 </table>
             </div>
 
+            {tornado && tornado.length > 0 && (
+                <div className="mt-4 pt-3 border-t border-[hsl(var(--border-subtle))]">
+                    <p className="mb-2 text-[10px] font-semibold uppercase tracking-wide text-[hsl(var(--text-muted))]">
+                        Wrażliwość globalna (indeksy Sobola)
+                    </p>
+                    <SensitivityTornado rows={tornado} />
+                </div>
+            )}
+
             {/* Legend */}
             <div className="flex items-center justify-center gap-4 mt-4 pt-3 border-t border-[hsl(var(--border-subtle))] text-[10px] text-[hsl(var(--text-muted))]">
                 <span>P10 = 10% najgorszych scenariuszy</span>
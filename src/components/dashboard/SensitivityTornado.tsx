@@ -0,0 +1,54 @@
+'use client';
+
+// =============================================
+// StochFin: Sensitivity Tornado
+// Factors ranked by total Sobol index
+// =============================================
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+import type { TornadoRow } from '@/lib/engine';
+
+export interface SensitivityTornadoProps {
+    rows: TornadoRow[];
+    maxRows?: number;
+    className?: string;
+}
+
+export function SensitivityTornado({ rows, maxRows = 10, className }: SensitivityTornadoProps) {
+    const shown = rows.slice(0, maxRows);
+    const scale = Math.max(...shown.map(row => row.total || 0), 1e-9);
+    const percent = (value: number) => `${(Math.max(0, value || 0) / scale) * 100}%`;
+
+    return (
+        <div className={cn('space-y-2', className)}>
+            {shown.map(row => (
+                <div key={row.factor} className="flex items-center gap-3">
+                    <span className="w-40 text-xs font-mono text-[hsl(var(--text-muted))] truncate" title={row.factor}>
+                        {row.factor}
+                    </span>
+                    <div className="relative flex-1 h-4 bg-[hsl(var(--surface-2))] rounded">
+                        {/* Total effect, with the first-order part drawn over it */}
+                        <div className="absolute inset-y-0 left-0 rounded bg-orange-500/30" style={{ width: percent(row.total) }} />
+                        <div className="absolute inset-y-0 left-0 rounded bg-orange-500" style={{ width: percent(row.firstOrder) }} />
+                    </div>
+                    <span className="w-24 text-right text-xs font-mono text-[hsl(var(--text-secondary))]">
+                        {((row.firstOrder || 0) * 100).toFixed(0)}% / {((row.total || 0) * 100).toFixed(0)}%
+                    </span>
+                </div>
+            ))}
+
+            {/* Legend */}
+            <div className="flex items-center justify-center gap-4 pt-2 text-[10px] text-[hsl(var(--text-muted))]">
+                <span className="flex items-center gap-1">
+                    <span className="inline-block w-3 h-2 rounded bg-orange-500" />
+                    Efekt pierwszego rzędu (S1)
+                </span>
+                <span className="flex items-center gap-1">
+                    <span className="inline-block w-3 h-2 rounded bg-orange-500/30" />
+                    Efekt całkowity (ST)
+                </span>
+            </div>
+        </div>
+    );
+}
@@ -5,3 +5,6 @@ export type { RiskPanelProps, RiskMetric } from './RiskPanel';
 
 export { ScenarioTable } from './ScenarioTable';
 export type { ScenarioTableProps, ScenarioRow } from './ScenarioTable';
+
+export { SensitivityTornado } from './SensitivityTornado';
+export type { SensitivityTornadoProps } from './SensitivityTornado';
@@ -1,11 +1,14 @@
 'use client';
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import { Button } from '@/components/ui';
 import { ProbabilityGauge } from './ProbabilityGauge';
 import { NLEventInputCompact } from './NLEventInput';
 import {
     runEventSimulation,
+    formatEventText,
+    parseEventText,
+    extractVariables,
     type EventDefinition,
     type EventVariable,
     type ThresholdBreachEvent,
@@ -24,6 +27,9 @@ interface EventCreatorModalProps {
 
 type WizardStep = 1 | 2 | 3 | 4;
 
+// Simple and compound events come from the forms, text events from the event grammar
+type CreatorEventType = 'simple' | 'compound' | 'text';
+
 // Demo data for variable selection
 const DEMO_VARIABLES = [
     { name: 'cpi_inflation', label: 'Inflacja CPI', defaultModel: 'ornstein_uhlenbeck' as const },
@@ -52,7 +58,7 @@ const COPULA_OPTIONS = [
 export function EventCreatorModal({ isOpen, onClose, onCreated }: EventCreatorModalProps) {
     const [step, setStep] = useState<WizardStep>(1);
     const [eventName, setEventName] = useState('');
-    const [eventType, setEventType] = useState<'simple' | 'compound'>('simple');
+    const [eventType, setEventType] = useState<CreatorEventType>('simple');
 
     // Simple event config
     const [selectedVariable, setSelectedVariable] = useState(DEMO_VARIABLES[0].name);
@@ -67,6 +73,17 @@ export function EventCreatorModal({ isOpen, onClose, onCreated }: EventCreatorMo
         { variable: 'gdp_growth', operator: '<', threshold: '0' }
     ]);
 
+    // Text event config
+    const [definitionText, setDefinitionText] = useState('P(cpi_inflation > 8% AND gdp_growth < 0) within 12m');
+    const textParse = useMemo(() => parseEventText(definitionText), [definitionText]);
+    const textError = useMemo(() => {
+        if (!textParse.success) return textParse.error;
+        const unknown = extractVariables(textParse.event!).filter(name => !DEMO_VARIABLES.some(v => v.name === name));
+        return unknown.length > 0
+            ? `Nieznane zmienne: ${unknown.join(', ')}. Dostępne: ${DEMO_VARIABLES.map(v => v.name).join(', ')}`
+            : null;
+    }, [textParse]);
+
     // Model config
     const [copula, setCopula] = useState('clayton');
     const [nSimulations, setNSimulations] = useState(10000);
@@ -88,6 +105,9 @@ export function EventCreatorModal({ isOpen, onClose, onCreated }: EventCreatorMo
     }, [step]);
 
     const buildEventDefinition = useCallback((): EventDefinition => {
+        if (eventType === 'text') {
+            return textParse.event!;
+        }
         if (eventType === 'simple') {
             return {
                 type: 'threshold_breach',
@@ -110,14 +130,19 @@ export function EventCreatorModal({ isOpen, onClose, onCreated }: EventCreatorMo
                 horizon_months: horizonMonths
             };
         }
-    }, [eventType, selectedVariable, operator, threshold, horizonMonths, compoundOperator, conditions]);
+    }, [eventType, textParse, selectedVariable, operator, threshold, horizonMonths, compoundOperator, conditions]);
 
-    const buildVariables = useCallback((): EventVariable[] => {
-        const varNames = eventType === 'simple'
+    const variableNames = useMemo((): string[] => {
+        if (eventType === 'text') {
+            return textParse.success ? extractVariables(textParse.event!) : [];
+        }
+        return eventType === 'simple'
             ? [selectedVariable]
             : conditions.map(c => c.variable);
+    }, [eventType, textParse, selectedVariable, conditions]);
 
-        return varNames.map(name => {
+    const buildVariables = useCallback((): EventVariable[] => {
+        return variableNames.map(name => {
             const varInfo = DEMO_VARIABLES.find(v => v.name === name)!;
             const isRate = ['cpi_inflation', 'interest_rate', 'gdp_growth'].includes(name);
 
@@ -132,7 +157,7 @@ export function EventCreatorModal({ isOpen, onClose, onCreated }: EventCreatorMo
                 data_frequency: 'monthly' as const
             };
         });
-    }, [eventType, selectedVariable, conditions]);
+    }, [variableNames]);
 
     const handleRunSimulation = useCallback(async () => {
         setIsSimulating(true);
@@ -144,7 +169,7 @@ export function EventCreatorModal({ isOpen, onClose, onCreated }: EventCreatorMo
             const config: EventSimulationConfig = {
                 ...DEFAULT_SIMULATION_CONFIG,
                 n_scenarios: nSimulations,
-                horizon_months: horizonMonths
+                horizon_months: eventDef.horizon_months
             };
 
             // Run simulation (this happens synchronously in the browser)
@@ -165,7 +190,7 @@ export function EventCreatorModal({ isOpen, onClose, onCreated }: EventCreatorMo
         } finally {
             setIsSimulating(false);
         }
-    }, [buildEventDefinition, buildVariables, copula, nSimulations, horizonMonths]);
+    }, [buildEventDefinition, buildVariables, copula, nSimulations]);
 
     const handleCreate = useCallback(() => {
         if (!result) return;
@@ -173,10 +198,8 @@ export function EventCreatorModal({ isOpen, onClose, onCreated }: EventCreatorMo
         onCreated({
             id: Date.now().toString(),
             name: eventName || 'Nowe zdarzenie',
-            description: eventType === 'simple'
-                ? `${DEMO_VARIABLES.find(v => v.name === selectedVariable)?.label} ${operator} ${threshold}`
-                : `${conditions.map(c => `${c.variable} ${c.operator} ${c.threshold}`).join(` ${compoundOperator} `)}`,
-            event_type: eventType === 'simple' ? 'threshold_breach' : 'compound',
+            description: formatEventText(buildEventDefinition()),
+            event_type: buildEventDefinition().type,
             probability: result.probability.mean,
             ci_lower: result.probability.ci_90[0],
             ci_upper: result.probability.ci_90[1],
@@ -187,7 +210,7 @@ export function EventCreatorModal({ isOpen, onClose, onCreated }: EventCreatorMo
         });
 
         onClose();
-    }, [result, eventName, eventType, selectedVariable, operator, threshold, conditions, compoundOperator, copula, onCreated, onClose]);
+    }, [result, eventName, buildEventDefinition, copula, onCreated, onClose]);
 
     if (!isOpen) return null;
 
@@ -256,15 +279,15 @@ export function EventCreatorModal({ isOpen, onClose, onCreated }: EventCreatorMo
                             setCompoundOperator={setCompoundOperator}
                             conditions={conditions}
                             setConditions={setConditions}
+                            definitionText={definitionText}
+                            setDefinitionText={setDefinitionText}
+                            textParse={textParse}
+                            textError={textError}
                         />
                     )}
 
                     {step === 2 && (
-                        <Step2Data
-                            eventType={eventType}
-                            selectedVariable={selectedVariable}
-                            conditions={conditions}
-                        />
+                        <Step2Data variableNames={variableNames} />
                     )}
 
                     {step === 3 && (
@@ -273,7 +296,7 @@ export function EventCreatorModal({ isOpen, onClose, onCreated }: EventCreatorMo
                             setCopula={setCopula}
                             nSimulations={nSimulations}
                             setNSimulations={setNSimulations}
-                            eventType={eventType}
+                            multivariate={variableNames.length > 1}
                         />
                     )}
 
@@ -292,7 +315,10 @@ export function EventCreatorModal({ isOpen, onClose, onCreated }: EventCreatorMo
                     </Button>
 
                     {step < 3 && (
-                        <Button onClick={handleNext}>
+                        <Button
+                            onClick={handleNext}
+                            disabled={step === 1 && eventType === 'text' && textError !== null}
+                        >
                             Dalej
                         </Button>
                     )}
@@ -333,7 +359,9 @@ function Step1Definition({
     threshold, setThreshold,
     horizonMonths, setHorizonMonths,
     compoundOperator, setCompoundOperator,
-    conditions, setConditions
+    conditions, setConditions,
+    definitionText, setDefinitionText,
+    textParse, textError
 }: any) {
     return (
         <div className="space-y-6">
@@ -362,6 +390,10 @@ function Step1Definition({
                                 threshold: String(c.threshold)
                             })) || []);
                             setHorizonMonths((event as any).horizon_months || 12);
+                        } else {
+                            // Other event types have no form, edit them as text
+                            setEventType('text');
+                            setDefinitionText(formatEventText(event));
                         }
                         // Auto-fill name from first variable
                         if (variables?.[0]) {
@@ -421,10 +453,27 @@ function Step1Definition({
                         <div className="font-medium">Złożone</div>
                         <div className="text-xs text-slate-500">AND / OR</div>
                     </button>
+                    <button
+                        onClick={() => setEventType('text')}
+                        className={`flex-1 py-2 px-4 rounded-lg border-2 transition-all ${eventType === 'text'
+                            ? 'border-indigo-500 bg-indigo-50 text-indigo-700'
+                            : 'border-slate-200 hover:border-slate-300'
+                            }`}
+                    >
+                        <div className="font-medium">Tekstowe</div>
+                        <div className="text-xs text-slate-500">Składnia zdarzeń</div>
+                    </button>
                 </div>
             </div>
 
-            {eventType === 'simple' ? (
+            {eventType === 'text' ? (
+                <TextEventForm
+                    definitionText={definitionText}
+                    setDefinitionText={setDefinitionText}
+                    textParse={textParse}
+                    textError={textError}
+                />
+            ) : eventType === 'simple' ? (
                 <SimpleEventForm
                     selectedVariable={selectedVariable}
                     setSelectedVariable={setSelectedVariable}
@@ -442,24 +491,56 @@ function Step1Definition({
                 />
             )}
 
-            {/* Horizon */}
-            <div>
-                <label className="block text-sm font-medium text-slate-700 mb-2">
-                    Horyzont czasowy (miesiące): {horizonMonths}
-                </label>
-                <input
-                    type="range"
-                    min={1}
-                    max={60}
-                    value={horizonMonths}
-                    onChange={(e) => setHorizonMonths(parseInt(e.target.value))}
-                    className="w-full accent-indigo-500"
-                />
-                <div className="flex justify-between text-xs text-slate-400 mt-1">
-                    <span>1 mies.</span>
-                    <span>5 lat</span>
+            {/* Horizon (text events carry their own "within ...") */}
+            {eventType !== 'text' && (
+                <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-2">
+                        Horyzont czasowy (miesiące): {horizonMonths}
+                    </label>
+                    <input
+                        type="range"
+                        min={1}
+                        max={60}
+                        value={horizonMonths}
+                        onChange={(e) => setHorizonMonths(parseInt(e.target.value))}
+                        className="w-full accent-indigo-500"
+                    />
+                    <div className="flex justify-between text-xs text-slate-400 mt-1">
+                        <span>1 mies.</span>
+                        <span>5 lat</span>
+                    </div>
                 </div>
-            </div>
+            )}
+        </div>
+    );
+}
+
+function TextEventForm({ definitionText, setDefinitionText, textParse, textError }: any) {
+    return (
+        <div className="space-y-2">
+            <label className="block text-sm font-medium text-slate-700">Definicja zdarzenia</label>
+            <textarea
+                value={definitionText}
+                onChange={(e) => setDefinitionText(e.target.value)}
+                rows={3}
+                spellCheck={false}
+                placeholder="np. P(debt_to_ebitda > 6 AND (gdp_growth < 0 OR cpi_inflation > 8%)) within 24m"
+                className={`w-full px-4 py-2 border rounded-lg font-mono text-sm focus:ring-2 focus:ring-indigo-500 ${textError
+                    ? 'border-red-300'
+                    : 'border-slate-200'
+                    }`}
+            />
+            {textError ? (
+                <p className="text-sm text-red-600">{textError}</p>
+            ) : (
+                <p className="text-sm text-green-700">
+                    ✓ {formatEventText(textParse.event)}
+                </p>
+            )}
+            <p className="text-xs text-slate-400">
+                Operatory: AND, OR, THEN … within, AT_LEAST k OF (…), P(A | B).
+                Przekształcenia: rolling_avg(x, 3m), pct_change(x), drawdown(x), cumsum(x), consecutive(x &gt; 0), „at horizon”.
+            </p>
         </div>
     );
 }
@@ -596,11 +677,7 @@ function CompoundEventForm({ compoundOperator, setCompoundOperator, conditions,
 }
 
 // Step 2: Data
-function Step2Data({ eventType, selectedVariable, conditions }: any) {
-    const variables = eventType === 'simple'
-        ? [selectedVariable]
-        : conditions.map((c: any) => c.variable);
-
+function Step2Data({ variableNames }: { variableNames: string[] }) {
     return (
         <div className="space-y-6">
             <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
@@ -619,7 +696,7 @@ function Step2Data({ eventType, selectedVariable, conditions }: any) {
             <div>
                 <h4 className="font-medium text-slate-800 mb-3">Zmienne do symulacji:</h4>
                 <div className="space-y-2">
-                    {variables.map((name: string) => {
+                    {variableNames.map(name => {
                         const varInfo = DEMO_VARIABLES.find(v => v.name === name);
                         return (
                             <div key={name} className="flex items-center justify-between p-3 bg-slate-50 rounded-lg">
@@ -640,11 +717,11 @@ function Step2Data({ eventType, selectedVariable, conditions }: any) {
 }
 
 // Step 3: Model Configuration
-function Step3Model({ copula, setCopula, nSimulations, setNSimulations, eventType }: any) {
+function Step3Model({ copula, setCopula, nSimulations, setNSimulations, multivariate }: any) {
     return (
         <div className="space-y-6">
-            {/* Copula selection (only for compound events) */}
-            {eventType === 'compound' && (
+            {/* Copula selection (only for events on several variables) */}
+            {multivariate && (
                 <div>
                     <label className="block text-sm font-medium text-slate-700 mb-3">
                         Model zależności (Kopuła)
@@ -12,6 +12,16 @@ import {
     TriggerType,
     CopulaFit
 } from '../core/types';
+import {
+    fitFrankFromTau,
+    tCopulaTailDependence,
+    fitPairCopula,
+    pairCopulaLogLikelihood,
+    fitVineCopula,
+    PAIR_COPULA_FAMILIES,
+    type VineCopula,
+    type VineType
+} from '@/lib/engine';
 
 // =============================================
 // Input/Output Types
@@ -22,6 +32,9 @@ export interface CopulaOptimizerInput {
     series_b: number[];
     variable_names: [string, string];
     copulas_to_test?: CopulaFamily[];
+    // Optional: fit a vine over several series (keyed by variable name)
+    multivariate_series?: Record<string, number[]>;
+    vine_type?: VineType;
 }
 
 export type CopulaFamily = 'gaussian' | 'clayton' | 'gumbel' | 'student_t' | 'frank';
@@ -32,6 +45,7 @@ export interface CopulaOptimizerOutput {
     tail_dependence: TailDependenceResult;
     correlation_measures: CorrelationMeasures;
     interpretation: string;
+    vine?: VineCopula;
 }
 
 export interface CopulaFitResult {
@@ -107,6 +121,19 @@ export class CopulaOptimizerAgent extends BaseAgent<CopulaOptimizerInput, Copula
             tail_type: this.getTailType(best.tail_lower, best.tail_upper)
         };
 
+        // Fit vine copula for multivariate dependence (per-edge family selection by AIC)
+        let vine: VineCopula | undefined;
+        if (input.multivariate_series && Object.keys(input.multivariate_series).length >= 2) {
+            const names = Object.keys(input.multivariate_series);
+            context.log(`[${this.id}] Fitting ${input.vine_type || 'r_vine'} over ${names.length} variables`);
+            vine = fitVineCopula(names.map(name => input.multivariate_series[name]), {
+                type: input.vine_type || 'r_vine',
+                families: PAIR_COPULA_FAMILIES,
+                criterion: 'aic',
+                variables: names
+            });
+        }
+
         // Generate interpretation
         let interpretation = `Kopuła ${best.family} najlepiej opisuje zależność.`;
 
@@ -134,7 +161,8 @@ export class CopulaOptimizerAgent extends BaseAgent<CopulaOptimizerInput, Copula
             ranking: fits,
             tail_dependence,
             correlation_measures,
-            interpretation
+            interpretation,
+            vine
         };
     }
 
@@ -176,11 +204,10 @@ export class CopulaOptimizerAgent extends BaseAgent<CopulaOptimizerInput, Copula
                 break;
 
             case 'student_t':
-                const rho_t = Math.sin(Math.PI * tau / 2);
-                const nu = 4; // Fixed degrees of freedom (can be estimated)
-                parameters = { rho: rho_t, nu };
-                logLik = this.studentTCopulaLogLik(u, v, rho_t, nu);
-                tail_lower = tail_upper = this.studentTTailDep(rho_t, nu);
+                // ρ from tau inversion, ν by profile likelihood
+                parameters = fitPairCopula(u, v, 'student_t', tau).copula.parameters;
+                logLik = this.studentTCopulaLogLik(u, v, parameters.rho, parameters.nu);
+                tail_lower = tail_upper = tCopulaTailDependence(parameters.rho, parameters.nu);
                 break;
 
             case 'frank':
@@ -208,86 +235,32 @@ export class CopulaOptimizerAgent extends BaseAgent<CopulaOptimizerInput, Copula
     }
 
     // =============================================
-    // Log-Likelihood Functions (simplified)
+    // Log-Likelihood Functions (shared with vine fitting)
     // =============================================
 
     private gaussianCopulaLogLik(u: number[], v: number[], rho: number): number {
         if (Math.abs(rho) >= 1) return -Infinity;
-
-        const n = u.length;
-        let ll = -n / 2 * Math.log(1 - rho * rho);
-
-        for (let i = 0; i < n; i++) {
-            const x = this.normalQuantile(Math.max(0.001, Math.min(0.999, u[i])));
-            const y = this.normalQuantile(Math.max(0.001, Math.min(0.999, v[i])));
-            ll -= (rho * rho * (x * x + y * y) - 2 * rho * x * y) / (2 * (1 - rho * rho));
-        }
-
-        return ll;
+        return pairCopulaLogLikelihood({ family: 'gaussian', parameters: { rho } }, u, v);
     }
 
     private claytonCopulaLogLik(u: number[], v: number[], theta: number): number {
         if (theta <= 0) return -Infinity;
-
-        let ll = 0;
-        for (let i = 0; i < u.length; i++) {
-            const ui = Math.max(0.001, u[i]);
-            const vi = Math.max(0.001, v[i]);
-            ll += Math.log(1 + theta);
-            ll += -(1 + theta) * Math.log(ui);
-            ll += -(1 + theta) * Math.log(vi);
-            ll += -(2 + 1 / theta) * Math.log(Math.pow(ui, -theta) + Math.pow(vi, -theta) - 1);
-        }
-
-        return ll;
+        return pairCopulaLogLikelihood({ family: 'clayton', parameters: { theta } }, u, v);
     }
 
     private gumbelCopulaLogLik(u: number[], v: number[], theta: number): number {
         if (theta < 1) return -Infinity;
-
-        let ll = 0;
-        for (let i = 0; i < u.length; i++) {
-            const ui = Math.max(0.001, Math.min(0.999, u[i]));
-            const vi = Math.max(0.001, Math.min(0.999, v[i]));
-            const lu = -Math.log(ui);
-            const lv = -Math.log(vi);
-            const A = Math.pow(Math.pow(lu, theta) + Math.pow(lv, theta), 1 / theta);
-
-            ll -= A;
-            ll += Math.log(A + theta - 1);
-            ll += (theta - 1) * (Math.log(lu) + Math.log(lv));
-            ll += (1 / theta - 2) * Math.log(Math.pow(lu, theta) + Math.pow(lv, theta));
-            ll -= Math.log(ui * vi);
-        }
-
-        return ll;
+        return pairCopulaLogLikelihood({ family: 'gumbel', parameters: { theta } }, u, v);
     }
 
     private studentTCopulaLogLik(u: number[], v: number[], rho: number, nu: number): number {
-        // Simplified - use Gaussian as approximation
-        return this.gaussianCopulaLogLik(u, v, rho) * 0.95;
+        if (Math.abs(rho) >= 1) return -Infinity;
+        return pairCopulaLogLikelihood({ family: 'student_t', parameters: { rho, nu } }, u, v);
     }
 
     private frankCopulaLogLik(u: number[], v: number[], theta: number): number {
         if (Math.abs(theta) < 0.001) return -Infinity;
-
-        let ll = 0;
-        for (let i = 0; i < u.length; i++) {
-            const ui = u[i];
-            const vi = v[i];
-            const et = Math.exp(-theta);
-            const etu = Math.exp(-theta * ui);
-            const etv = Math.exp(-theta * vi);
-
-            const num = -theta * (1 - et) * etu * etv;
-            const den = Math.pow((1 - et) - (1 - etu) * (1 - etv), 2);
-
-            if (den > 0) {
-                ll += Math.log(Math.abs(num / den));
-            }
-        }
-
-        return ll;
+        return pairCopulaLogLikelihood({ family: 'frank', parameters: { theta } }, u, v);
     }
 
     // =============================================
@@ -346,15 +319,8 @@ export class CopulaOptimizerAgent extends BaseAgent<CopulaOptimizerInput, Copula
         return { pearson, spearman, kendall_tau };
     }
 
-    private studentTTailDep(rho: number, nu: number): number {
-        // Approximate tail dependence for Student-t copula
-        const t = Math.sqrt((nu + 1) * (1 - rho) / (1 + rho));
-        return 2 * (1 - this.normalCDF(t));
-    }
-
     private frankThetaFromTau(tau: number): number {
-        // Approximate inversion
-        return tau * 5.736;
+        return fitFrankFromTau(tau).theta;
     }
 
     private getTailType(lower: number, upper: number): 'none' | 'lower' | 'upper' | 'both' {
@@ -367,28 +333,6 @@ export class CopulaOptimizerAgent extends BaseAgent<CopulaOptimizerInput, Copula
         if (hasUpper) return 'upper';
         return 'none';
     }
-
-    private normalQuantile(p: number): number {
-        const a = [-3.969683028665376e+01, 2.209460984245205e+02, -2.759285104469687e+02,
-            1.383577518672690e+02, -3.066479806614716e+01, 2.506628277459239e+00];
-        const b = [-5.447609879822406e+01, 1.615858368580409e+02, -1.556989798598866e+02,
-            6.680131188771972e+01, -1.328068155288572e+01];
-
-        const q = p - 0.5;
-        const r = q * q;
-        return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
-            (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
-    }
-
-    private normalCDF(x: number): number {
-        const a1 = 0.254829592, a2 = -0.284496736, a3 = 1.421413741;
-        const a4 = -1.453152027, a5 = 1.061405429, p = 0.3275911;
-        const sign = x < 0 ? -1 : 1;
-        x = Math.abs(x) / Math.sqrt(2);
-        const t = 1.0 / (1.0 + p * x);
-        const y = 1.0 - (((((a5 * t + a4) * t) + a3) * t + a2) * t + a1) * t * Math.exp(-x * x);
-        return 0.5 * (1.0 + sign * y);
-    }
 }
 
 export const copulaOptimizerAgent = new CopulaOptimizerAgent();
@@ -12,6 +12,12 @@ import {
     TriggerType,
     TimeSeriesData
 } from '../core/types';
+import {
+    estimateVasicekParams,
+    estimateCIRParams,
+    estimateGARCHParams,
+    getTimeStepInYears
+} from '@/lib/engine';
 
 // =============================================
 // Input/Output Types
@@ -23,7 +29,16 @@ export interface ParameterEstimatorInput {
     estimation_method?: EstimationMethod;
 }
 
-export type ModelType = 'gbm' | 'ornstein_uhlenbeck' | 'heston' | 'merton_jump' | 'vasicek';
+export type ModelType =
+    | 'gbm'
+    | 'ornstein_uhlenbeck'
+    | 'heston'
+    | 'merton_jump'
+    | 'vasicek'
+    | 'cir'
+    | 'garch'
+    | 'gjr_garch'
+    | 'egarch';
 export type EstimationMethod = 'mle' | 'gmm' | 'kalman' | 'mcmc';
 
 export interface ParameterEstimatorOutput {
@@ -79,9 +94,17 @@ export class ParameterEstimatorAgent extends BaseAgent<ParameterEstimatorInput,
                 result = this.estimateGBM(data.values);
                 break;
             case 'ornstein_uhlenbeck':
-            case 'vasicek':
                 result = this.estimateOU(data.values);
                 break;
+            case 'vasicek':
+            case 'cir':
+                result = this.estimateShortRate(data, model_type);
+                break;
+            case 'garch':
+            case 'gjr_garch':
+            case 'egarch':
+                result = this.estimateGARCH(data, model_type);
+                break;
             case 'heston':
                 result = this.estimateHeston(data.values);
                 break;
@@ -220,6 +243,66 @@ export class ParameterEstimatorAgent extends BaseAgent<ParameterEstimatorInput,
         };
     }
 
+    // =============================================
+    // Short-Rate Estimation (exact MLE in the engine)
+    // =============================================
+
+    private estimateShortRate(data: TimeSeriesData, model: 'vasicek' | 'cir'): {
+        parameters: EstimatedParameters;
+        log_likelihood: number;
+        residuals: number[];
+    } {
+        const dt = getTimeStepInYears(data.frequency || 'monthly');
+        const values = data.values;
+        const estimation = model === 'cir'
+            ? estimateCIRParams(values, dt)
+            : estimateVasicekParams(values, dt);
+        const { kappa, mu, sigma } = estimation.parameters;
+
+        // Pearson residuals from the exact conditional mean and variance
+        const decay = Math.exp(-kappa * dt);
+        const residuals: number[] = [];
+        for (let i = 1; i < values.length; i++) {
+            const expected = mu + (values[i - 1] - mu) * decay;
+            const variance = model === 'cir'
+                ? values[i - 1] * sigma * sigma / kappa * (decay - decay * decay)
+                    + mu * sigma * sigma / (2 * kappa) * (1 - decay) ** 2
+                : sigma * sigma * (1 - decay * decay) / (2 * kappa);
+            residuals.push((values[i] - expected) / Math.sqrt(variance));
+        }
+
+        return {
+            parameters: { kappa, mu, sigma },
+            log_likelihood: estimation.log_likelihood,
+            residuals
+        };
+    }
+
+    // =============================================
+    // GARCH-Family Estimation (exact MLE in the engine)
+    // =============================================
+
+    private estimateGARCH(data: TimeSeriesData, model: 'garch' | 'gjr_garch' | 'egarch'): {
+        parameters: EstimatedParameters;
+        log_likelihood: number;
+        residuals: number[];
+    } {
+        const dt = getTimeStepInYears(data.frequency || 'monthly');
+        const estimation = estimateGARCHParams(data.values, dt, model);
+        const { mu } = estimation.parameters;
+
+        // Standardized residuals: should be iid N(0,1) if the variance recursion is adequate
+        const residuals = estimation.conditional_volatility.map((vol, i) =>
+            (Math.log(data.values[i + 1] / data.values[i]) - mu) / vol
+        );
+
+        return {
+            parameters: estimation.parameters,
+            log_likelihood: estimation.log_likelihood,
+            residuals
+        };
+    }
+
     // =============================================
     // Heston Estimation (simplified)
     // =============================================
@@ -424,6 +507,13 @@ export class ParameterEstimatorAgent extends BaseAgent<ParameterEstimatorInput,
                 return `GBM: drift μ=${(params.mu * 100).toFixed(2)}% rocznie, volatility σ=${(params.sigma * 100).toFixed(2)}%.`;
             case 'ornstein_uhlenbeck':
                 return `O-U: mean reversion θ=${params.theta.toFixed(2)}, long-run mean μ=${params.mu.toFixed(4)}.`;
+            case 'vasicek':
+            case 'cir':
+                return `${model === 'cir' ? 'CIR' : 'Vasicek'}: mean reversion κ=${params.kappa.toFixed(2)}, long-run rate μ=${(params.mu * 100).toFixed(2)}%, σ=${params.sigma.toFixed(4)}.`;
+            case 'garch':
+            case 'gjr_garch':
+            case 'egarch':
+                return `${model.toUpperCase()}: reakcja na szok α=${params.alpha.toFixed(3)}, persystencja β=${params.beta.toFixed(3)}${params.gamma !== undefined ? `, asymetria γ=${params.gamma.toFixed(3)}` : ''}.`;
             case 'heston':
                 return `Heston: vol-of-vol ξ=${params.xi.toFixed(2)}, correlation ρ=${params.rho.toFixed(2)}.`;
             default:
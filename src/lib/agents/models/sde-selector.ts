@@ -13,6 +13,7 @@ import {
     TimeSeriesData,
     ModelFit
 } from '../core/types';
+import { estimateGARCHParams, getTimeStepInYears } from '@/lib/engine';
 
 // =============================================
 // Input/Output Types
@@ -21,12 +22,23 @@ import {
 export interface SDESelectorInput {
     data: TimeSeriesData;
     models_to_test?: SDEModelType[];
+    criterion?: SelectionCriterion;     // default 'aic'
 }
 
-export type SDEModelType = 'gbm' | 'ornstein_uhlenbeck' | 'heston' | 'merton_jump';
+export type SDEModelType =
+    | 'gbm'
+    | 'ornstein_uhlenbeck'
+    | 'heston'
+    | 'merton_jump'
+    | 'garch'
+    | 'gjr_garch'
+    | 'egarch';
+
+export type SelectionCriterion = 'aic' | 'bic';
 
 export interface SDESelectorOutput {
     recommended_model: SDEModelType;
+    criterion: SelectionCriterion;
     ranking: ModelFitRanking[];
     statistics: SeriesStatistics;
     explanation: string;
@@ -74,7 +86,10 @@ export class SDESelectorAgent extends BaseAgent<SDESelectorInput, SDESelectorOut
         context: AgentContext
     ): Promise<SDESelectorOutput> {
         const { data } = input;
-        const modelsToTest = input.models_to_test || ['gbm', 'ornstein_uhlenbeck', 'heston', 'merton_jump'];
+        const modelsToTest = input.models_to_test ||
+            ['gbm', 'ornstein_uhlenbeck', 'heston', 'merton_jump', 'garch', 'gjr_garch', 'egarch'];
+        const criterion = input.criterion || 'aic';
+        const dt = getTimeStepInYears(data.frequency);
 
         context.log(`[${this.id}] Analyzing ${data.variable_name} with ${data.values.length} data points`);
 
@@ -87,21 +102,22 @@ export class SDESelectorAgent extends BaseAgent<SDESelectorInput, SDESelectorOut
 
         for (const model of modelsToTest) {
             try {
-                const fit = await this.fitModel(data.values, model);
+                const fit = await this.fitModel(data.values, model, dt);
                 fits.push(fit);
             } catch (e) {
                 context.log(`[${this.id}] Failed to fit ${model}: ${e}`, 'warn');
             }
         }
 
-        // 3. Rank models by AIC (lower is better)
-        fits.sort((a, b) => a.aic - b.aic);
+        // 3. Rank models by information criterion (lower is better)
+        fits.sort((a, b) => a[criterion] - b[criterion]);
         fits.forEach((f, i) => { f.rank = i + 1; });
 
         const bestFit = fits[0];
 
         // 4. Generate explanation with Gemini
-        let explanation = `Model ${bestFit.model} wybrany na podstawie najniższego AIC (${bestFit.aic.toFixed(2)}).`;
+        const label = criterion.toUpperCase();
+        let explanation = `Model ${bestFit.model} wybrany na podstawie najniższego ${label} (${bestFit[criterion].toFixed(2)}).`;
 
         if (context.gemini) {
             try {
@@ -114,9 +130,10 @@ export class SDESelectorAgent extends BaseAgent<SDESelectorInput, SDESelectorOut
                     - Autokorelacja (lag 1): ${statistics.autocorrelation_lag1.toFixed(2)}
                     - Mean reversion: ${statistics.has_mean_reversion}
                     - Fat tails: ${statistics.has_fat_tails}
+                    - Volatility clustering: ${statistics.has_volatility_clustering}
                     
                     Ranking modeli:
-                    ${fits.map(f => `${f.rank}. ${f.model}: AIC=${f.aic.toFixed(2)}`).join('\n')}
+                    ${fits.map(f => `${f.rank}. ${f.model}: AIC=${f.aic.toFixed(2)}, BIC=${f.bic.toFixed(2)}`).join('\n')}
                     
                     Wyjaśnij w 2-3 zdaniach, dlaczego model ${bestFit.model} jest najlepszy dla tej zmiennej.`,
                     context
@@ -129,6 +146,7 @@ export class SDESelectorAgent extends BaseAgent<SDESelectorInput, SDESelectorOut
 
         return {
             recommended_model: bestFit.model,
+            criterion,
             ranking: fits,
             statistics,
             explanation,
@@ -235,7 +253,7 @@ export class SDESelectorAgent extends BaseAgent<SDESelectorInput, SDESelectorOut
     // Model Fitting (simplified MLE)
     // =============================================
 
-    private async fitModel(values: number[], model: SDEModelType): Promise<ModelFitRanking> {
+    private async fitModel(values: number[], model: SDEModelType, dt: number): Promise<ModelFitRanking> {
         const returns = this.computeReturns(values);
 
         switch (model) {
@@ -247,6 +265,10 @@ export class SDESelectorAgent extends BaseAgent<SDESelectorInput, SDESelectorOut
                 return this.fitHeston(returns);
             case 'merton_jump':
                 return this.fitMerton(returns);
+            case 'garch':
+            case 'gjr_garch':
+            case 'egarch':
+                return this.fitGARCH(values, model, dt);
             default:
                 throw new Error(`Unknown model: ${model}`);
         }
@@ -385,6 +407,25 @@ export class SDESelectorAgent extends BaseAgent<SDESelectorInput, SDESelectorOut
         };
     }
 
+    private fitGARCH(values: number[], model: 'garch' | 'gjr_garch' | 'egarch', dt: number): ModelFitRanking {
+        // Exact Gaussian MLE on the same log returns as GBM, so the criteria are comparable
+        const estimation = estimateGARCHParams(values, dt, model);
+
+        return {
+            model,
+            parameters: {
+                ...estimation.parameters,
+                persistence: estimation.persistence,
+                annualized_volatility: estimation.annualized_volatility
+            },
+            log_likelihood: estimation.log_likelihood,
+            aic: estimation.aic,
+            bic: estimation.bic,
+            score: estimation.log_likelihood,
+            rank: 0
+        };
+    }
+
     private normalLogLikelihood(data: number[], mu: number, sigma: number): number {
         if (sigma <= 0) return -Infinity;
         const n = data.length;
@@ -11,6 +11,7 @@ import {
     AgentContext,
     TriggerType
 } from '../core/types';
+import { PREDEFINED_STRESS_SCENARIOS, stressShockProfile, type StressScenario } from '@/lib/engine';
 
 // =============================================
 // Input/Output Types
@@ -19,8 +20,9 @@ import {
 export interface StressTesterInput {
     base_probability: number;
     variables: VariableConfig[];
-    scenario?: StressScenario;
-    custom_shocks?: Record<string, number>;
+    scenario?: StressScenario;              // e.g. loaded from the stress scenario library
+    custom_shocks?: Record<string, number>;  // variable_name -> one-off multiplicative shock
+    horizon_periods?: number;               // Periods of each shock path considered, default 12
 }
 
 export interface VariableConfig {
@@ -30,12 +32,6 @@ export interface VariableConfig {
     model_type: string;
 }
 
-export interface StressScenario {
-    name: string;
-    description: string;
-    shocks: Record<string, number>; // variable_name -> shock multiplier
-}
-
 export interface StressTesterOutput {
     scenarios_tested: ScenarioResult[];
     sensitivity_analysis: SensitivityResult[];
@@ -53,6 +49,16 @@ export interface ScenarioResult {
     change_from_base: number;
     change_pct: number;
     affected_variables: string[];
+    shock_profiles: ShockProfileSummary[];
+}
+
+export interface ShockProfileSummary {
+    variable: string;
+    type: 'additive' | 'multiplicative';
+    peak: number;                   // Largest shock level within the horizon
+    peak_period: number;
+    final: number;                  // Shock level left at the horizon
+    pattern: 'immediate' | 'gradual';  // Whether the peak arrives with the first shock
 }
 
 export interface SensitivityResult {
@@ -63,68 +69,34 @@ export interface SensitivityResult {
 }
 
 // =============================================
-// Predefined Scenarios
+// Scenario Shocks
 // =============================================
 
-const PREDEFINED_SCENARIOS: StressScenario[] = [
-    {
-        name: 'GFC 2008',
-        description: 'Global Financial Crisis - extreme market stress',
-        shocks: {
-            'equity_index': -0.40,
-            'volatility': 3.0,
-            'credit_spread': 2.5,
-            'gdp_growth': -0.08,
-            'unemployment': 0.50,
-            'interest_rate': -0.02
-        }
-    },
-    {
-        name: 'COVID-19 2020',
-        description: 'Pandemic shock - sudden economic stop',
-        shocks: {
-            'equity_index': -0.35,
-            'volatility': 4.0,
-            'gdp_growth': -0.15,
-            'unemployment': 1.0,
-            'oil_price': -0.60,
-            'consumer_spending': -0.30
-        }
-    },
-    {
-        name: 'Stagflation',
-        description: 'High inflation + low growth',
-        shocks: {
-            'inflation': 0.08,
-            'gdp_growth': -0.03,
-            'interest_rate': 0.04,
-            'equity_index': -0.20,
-            'bond_yield': 0.03
-        }
-    },
-    {
-        name: 'Rate Shock',
-        description: 'Sudden interest rate increase',
-        shocks: {
-            'interest_rate': 0.03,
-            'bond_yield': 0.04,
-            'equity_index': -0.15,
-            'real_estate': -0.20,
-            'credit_spread': 0.5
-        }
-    },
-    {
-        name: 'Currency Crisis',
-        description: 'PLN depreciation shock',
-        shocks: {
-            'usd_pln': 0.30,
-            'eur_pln': 0.25,
-            'inflation': 0.05,
-            'interest_rate': 0.03,
-            'import_costs': 0.25
-        }
+/**
+ * Time profile of each path within the horizon, keyed by variable name
+ * (lower case). The agent's impact heuristic scores the peak; the summary
+ * reports when it arrives and how much of it is left at the horizon.
+ */
+function shockProfiles(scenario: StressScenario, horizonPeriods: number): Record<string, ShockProfileSummary> {
+    const profiles: Record<string, ShockProfileSummary> = {};
+    for (const path of scenario.paths) {
+        const levels = stressShockProfile(path, horizonPeriods + 1);
+        let peakPeriod = 0;
+        levels.forEach((level, period) => {
+            if (Math.abs(level) > Math.abs(levels[peakPeriod])) peakPeriod = period;
+        });
+        const firstPeriod = levels.findIndex(level => level !== 0);
+        profiles[path.variableCode.toLowerCase()] = {
+            variable: path.variableCode,
+            type: path.type,
+            peak: levels[peakPeriod],
+            peak_period: peakPeriod,
+            final: levels[horizonPeriods],
+            pattern: firstPeriod === -1 || peakPeriod === firstPeriod ? 'immediate' : 'gradual'
+        };
     }
-];
+    return profiles;
+}
 
 // =============================================
 // Agent Implementation
@@ -142,20 +114,21 @@ export class StressTesterAgent extends BaseAgent<StressTesterInput, StressTester
         context: AgentContext
     ): Promise<StressTesterOutput> {
         const { base_probability, variables } = input;
+        const horizon = input.horizon_periods ?? 12;
 
         context.log(`[${this.id}] Running stress tests from base probability ${(base_probability * 100).toFixed(1)}%`);
 
         // Run predefined scenarios
         const scenarios_tested: ScenarioResult[] = [];
 
-        for (const scenario of PREDEFINED_SCENARIOS) {
-            const result = this.runScenario(base_probability, variables, scenario);
+        for (const scenario of PREDEFINED_STRESS_SCENARIOS) {
+            const result = this.runScenario(base_probability, variables, scenario, horizon);
             scenarios_tested.push(result);
         }
 
         // Run custom scenario if provided
         if (input.scenario) {
-            const customResult = this.runScenario(base_probability, variables, input.scenario);
+            const customResult = this.runScenario(base_probability, variables, input.scenario, horizon);
             scenarios_tested.push(customResult);
         }
 
@@ -164,9 +137,13 @@ export class StressTesterAgent extends BaseAgent<StressTesterInput, StressTester
             const customScenario: StressScenario = {
                 name: 'Custom',
                 description: 'User-defined stress scenario',
-                shocks: input.custom_shocks
+                paths: Object.entries(input.custom_shocks).map(([variableCode, shock]) => ({
+                    variableCode,
+                    type: 'multiplicative',
+                    shocks: [shock]
+                }))
             };
-            scenarios_tested.push(this.runScenario(base_probability, variables, customScenario));
+            scenarios_tested.push(this.runScenario(base_probability, variables, customScenario, horizon));
         }
 
         // Sensitivity analysis
@@ -195,18 +172,22 @@ export class StressTesterAgent extends BaseAgent<StressTesterInput, StressTester
     private runScenario(
         base_probability: number,
         variables: VariableConfig[],
-        scenario: StressScenario
+        scenario: StressScenario,
+        horizonPeriods: number
     ): ScenarioResult {
         let probabilityMultiplier = 1;
         const affectedVariables: string[] = [];
+        const shockProfilesUsed: ShockProfileSummary[] = [];
+        const profiles = shockProfiles(scenario, horizonPeriods);
 
         for (const variable of variables) {
-            const shock = scenario.shocks[variable.name.toLowerCase().replace(/\s+/g, '_')];
-            if (shock !== undefined) {
+            const profile = profiles[variable.name.toLowerCase().replace(/\s+/g, '_')];
+            if (profile !== undefined && profile.peak !== 0) {
                 // Simplified impact calculation
-                const impact = Math.abs(shock) * (1 + variable.historical_std);
+                const impact = Math.abs(profile.peak) * (1 + variable.historical_std);
                 probabilityMultiplier *= (1 + impact * 0.5);
                 affectedVariables.push(variable.name);
+                shockProfilesUsed.push(profile);
             }
         }
 
@@ -219,7 +200,8 @@ export class StressTesterAgent extends BaseAgent<StressTesterInput, StressTester
             stressed_probability,
             change_from_base,
             change_pct: base_probability > 0 ? (change_from_base / base_probability) * 100 : 0,
-            affected_variables: affectedVariables
+            affected_variables: affectedVariables,
+            shock_profiles: shockProfilesUsed
         };
     }
 
@@ -289,6 +271,16 @@ export class StressTesterAgent extends BaseAgent<StressTesterInput, StressTester
             );
         }
 
+        // Gradual shocks peak later and may have partly receded by the horizon
+        const gradual = worst.shock_profiles.filter(p => p.pattern === 'gradual');
+        if (gradual.length > 0) {
+            recommendations.push(
+                `Scenariusz "${worst.scenario_name}" narasta stopniowo: ${gradual.map(p =>
+                    `${p.variable} osiąga szczyt w okresie ${p.peak_period}, na końcu horyzontu zostaje ${((p.final / p.peak) * 100).toFixed(0)}% szoku`
+                ).join('; ')}`
+            );
+        }
+
         return recommendations;
     }
 }
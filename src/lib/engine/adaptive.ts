@@ -0,0 +1,39 @@
+// =============================================
+// StochFin Monte Carlo Engine: Adaptive Scenario Counts
+// Runs grow in batches until the tracked estimate is precise enough or the
+// scenario budget is spent. Scenario i always draws from stream i, so a run
+// that stops after n scenarios matches a fixed run of n scenarios.
+// =============================================
+
+import { normalQuantile } from './special-functions';
+
+/** Scenarios added per batch when no batch size is given */
+export const DEFAULT_ADAPTIVE_BATCH_SIZE = 1000;
+
+/**
+ * Scenario ranges [start, end) of successive batches up to the budget.
+ * With `even`, batches end on even counts so antithetic pairs stay together.
+ */
+export function adaptiveBatches(budget: number, batchSize: number, even: boolean = false): [number, number][] {
+    if (!(Number.isInteger(batchSize) && batchSize >= 1)) {
+        throw new Error('Adaptive batch size must be a positive integer');
+    }
+    const size = even && batchSize % 2 === 1 ? batchSize + 1 : batchSize;
+    const batches: [number, number][] = [];
+    for (let start = 0; start < budget; start += size) {
+        batches.push([start, Math.min(budget, start + size)]);
+    }
+    return batches;
+}
+
+/**
+ * Distribution-free standard error of the p-th percentile (p in 0-100) of
+ * n scenarios, from the spread of the order statistics around it: the
+ * 95% binomial rank interval p ± z·√(p(1−p)/n) spans ≈ 2z standard errors.
+ */
+export function percentileStdError(quantile: (p: number) => number, p: number, n: number): number {
+    const z = normalQuantile(0.975);
+    const q = p / 100;
+    const delta = 100 * z * Math.sqrt(q * (1 - q) / n);
+    return (quantile(Math.min(100, p + delta)) - quantile(Math.max(0, p - delta))) / (2 * z);
+}
@@ -88,8 +88,13 @@ export function kurtosis(values: number[], meanValue?: number, stdValue?: number
 export function modeEstimate(values: number[], numBins: number = 50): number {
     if (values.length === 0) return 0;
 
-    const min = Math.min(...values);
-    const max = Math.max(...values);
+    // Loop rather than Math.min(...values): spreading large arrays overflows the stack
+    let min = values[0];
+    let max = values[0];
+    for (const v of values) {
+        if (v < min) min = v;
+        if (v > max) max = v;
+    }
     if (min === max) return min;
 
     const binWidth = (max - min) / numBins;
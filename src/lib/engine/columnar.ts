@@ -0,0 +1,73 @@
+// =============================================
+// StochFin Monte Carlo Engine: Columnar Buffers
+// Scenario-major Float64Array layout shared by the path core, scenario
+// blocks and event trajectories: values[variable][period][scenario], so
+// each variable × period is one contiguous column across scenarios
+// =============================================
+
+import { MersenneTwister, sampleStandardNormal } from './random';
+
+/**
+ * Column of one variable × period (a view, not a copy)
+ */
+export function pathColumn(
+    values: Float64Array,
+    nScenarios: number,
+    numPeriods: number,
+    variable: number,
+    period: number
+): Float64Array {
+    const offset = (variable * numPeriods + period) * nScenarios;
+    return values.subarray(offset, offset + nScenarios);
+}
+
+/**
+ * Path of one scenario, gathered across its variable's columns
+ */
+export function gatherPath(
+    values: Float64Array | Int32Array,
+    nScenarios: number,
+    numPeriods: number,
+    variable: number,
+    scenario: number
+): number[] {
+    const path: number[] = new Array(numPeriods);
+    let offset = variable * numPeriods * nScenarios + scenario;
+    for (let period = 0; period < numPeriods; period++) {
+        path[period] = values[offset];
+        offset += nScenarios;
+    }
+    return path;
+}
+
+/**
+ * Independent N(0,1) draws z[i][s], drawn scenario by scenario from each
+ * scenario's own generator (i = 0..n-1 within a scenario)
+ */
+export function sampleNormalColumns(rngs: MersenneTwister[], z: Float64Array[]): void {
+    const n = z.length;
+    for (let s = 0; s < rngs.length; s++) {
+        const rng = rngs[s];
+        for (let i = 0; i < n; i++) {
+            z[i][s] = sampleStandardNormal(rng);
+        }
+    }
+}
+
+/**
+ * Correlate innovation columns in bulk: out[i] = Σ_{j≤i} L[i][j]·z[j]
+ */
+export function choleskyMixColumns(L: number[][], z: Float64Array[], out: Float64Array[]): void {
+    const n = z.length;
+    for (let i = 0; i < n; i++) {
+        const target = out[i];
+        target.fill(0);
+        for (let j = 0; j <= i; j++) {
+            const weight = L[i][j];
+            const source = z[j];
+            for (let s = 0; s < target.length; s++) {
+                target[s] += weight * source[s];
+            }
+        }
+    }
+}
@@ -3,7 +3,8 @@
 // Modeling tail dependencies and extreme scenarios
 // =============================================
 
-import { MersenneTwister, sampleStandardNormal, sampleUniform } from './random';
+import { MersenneTwister, sampleStandardNormal, sampleUniform, sampleGamma } from './random';
+import { normalCDF, studentTCDF } from './special-functions';
 
 // =============================================
 // Copula Type Definitions
@@ -13,18 +14,21 @@ import { MersenneTwister, sampleStandardNormal, sampleUniform } from './random';
 export interface ClaytonCopula {
     type: 'clayton';
     theta: number;  // θ > 0, higher = stronger dependence
+    dimension?: number;  // > 2 for exchangeable multivariate sampling (default 2)
 }
 
 /** Gumbel Copula - strong UPPER tail dependence (boom/inflation spiral) */
 export interface GumbelCopula {
     type: 'gumbel';
     theta: number;  // θ ≥ 1, higher = stronger dependence
+    dimension?: number;  // > 2 for exchangeable multivariate sampling (default 2)
 }
 
 /** Frank Copula - symmetric, NO tail dependence */
 export interface FrankCopula {
     type: 'frank';
     theta: number;  // θ ≠ 0, can be negative for negative dependence
+    dimension?: number;  // > 2 for exchangeable multivariate sampling (θ > 0 only)
 }
 
 /** Student-t Copula - symmetric tail dependence in BOTH tails */
@@ -91,12 +95,10 @@ export function tailDependenceCoefficient(
             // t-Copula: symmetric, λ_L = λ_U > 0
             // For bivariate with correlation ρ:
             // λ = 2 * t_{ν+1}(-√((ν+1)(1-ρ)/(1+ρ)))
-            // Approximation for simplicity:
-            const nu = copula.degreesOfFreedom;
-            const rho = copula.correlationMatrix[0]?.[1] || 0;
-            const x = Math.sqrt((nu + 1) * (1 - rho) / (1 + rho));
-            // Simplified: lower ν → higher tail dependence
-            return 2 * studentTCDF(-x, nu + 1);
+            return tCopulaTailDependence(
+                copula.correlationMatrix[0]?.[1] || 0,
+                copula.degreesOfFreedom
+            );
 
         case 'gaussian':
             // Gaussian: λ_L = λ_U = 0 (CRITICAL: no tail dependence!)
@@ -107,6 +109,75 @@ export function tailDependenceCoefficient(
     }
 }
 
+/**
+ * Tail dependence of a bivariate t-copula (identical in both tails)
+ * λ = 2 * t_{ν+1}(-√((ν+1)(1-ρ)/(1+ρ)))
+ */
+export function tCopulaTailDependence(rho: number, degreesOfFreedom: number): number {
+    if (rho >= 1) return 1;
+    if (rho <= -1) return 0;
+    const nu = degreesOfFreedom;
+    const x = Math.sqrt((nu + 1) * (1 - rho) / (1 + rho));
+    return 2 * studentTCDF(-x, nu + 1);
+}
+
+/**
+ * Degrees of freedom for which a t-copula with correlation ρ reproduces
+ * a target tail dependence λ. Solved by bisection on log ν, since λ is
+ * decreasing in ν. Clamped to [minNu, maxNu].
+ */
+export function tCopulaDegreesOfFreedom(
+    rho: number,
+    targetLambda: number,
+    minNu: number = 2,
+    maxNu: number = 100
+): number {
+    if (targetLambda <= tCopulaTailDependence(rho, maxNu)) return maxNu;
+    if (targetLambda >= tCopulaTailDependence(rho, minNu)) return minNu;
+
+    let lo = Math.log(minNu);
+    let hi = Math.log(maxNu);
+    for (let i = 0; i < 60; i++) {
+        const mid = 0.5 * (lo + hi);
+        if (tCopulaTailDependence(rho, Math.exp(mid)) > targetLambda) {
+            lo = mid;
+        } else {
+            hi = mid;
+        }
+    }
+    return Math.exp(0.5 * (lo + hi));
+}
+
+/**
+ * Theoretical Kendall's tau implied by a copula
+ * Elliptical: τ = (2/π) arcsin ρ
+ * Clayton: τ = θ / (θ + 2), Gumbel: τ = 1 - 1/θ
+ * Frank: τ = 1 - 4/θ + 4 D₁(θ)/θ  (D₁ = first Debye function)
+ * 90°/270° rotations flip the sign, 180° keeps it
+ */
+export function copulaKendallsTau(copula: CopulaConfig): number {
+    switch (copula.type) {
+        case 'gaussian':
+        case 't':
+            return 2 / Math.PI * Math.asin(copula.correlationMatrix[0]?.[1] || 0);
+        case 'clayton':
+            return copula.theta / (copula.theta + 2);
+        case 'gumbel':
+            return 1 - 1 / copula.theta;
+        case 'frank': {
+            const theta = copula.theta;
+            if (Math.abs(theta) < 1e-8) return 0;
+            return 1 - 4 / theta + 4 * debyeFunction1(theta) / theta;
+        }
+        case 'rotated': {
+            const baseTau = copulaKendallsTau(copula.baseCopula);
+            return copula.rotation === 180 ? baseTau : -baseTau;
+        }
+        default:
+            return 0;
+    }
+}
+
 // =============================================
 // Copula Sampling Functions
 // =============================================
@@ -181,6 +252,12 @@ export function sampleFrank(
         const u = sampleUniform(rng, 0, 1);
         const w = sampleUniform(rng, 0, 1);
 
+        // θ → 0 is the independence copula
+        if (Math.abs(theta) < 1e-8) {
+            samples.push([u, w]);
+            continue;
+        }
+
         // Conditional sampling
         const a = 1 - Math.exp(-theta);
         const b = Math.exp(-theta * u);
@@ -279,6 +356,14 @@ export function sampleRotatedCopula(
     config: RotatedCopula,
     n: number = 1
 ): number[][] {
+    // Multivariate base copulas only have a well-defined survival (180°) rotation
+    if ((config.baseCopula.dimension ?? 2) > 2) {
+        if (config.rotation !== 180) {
+            throw new Error(`Rotation ${config.rotation}° is only defined for bivariate copulas`);
+        }
+        return sampleFromCopula(rng, config.baseCopula, n).map(u => u.map(ui => 1 - ui));
+    }
+
     // Sample from base copula
     let baseSamples: number[][];
     if (config.baseCopula.type === 'clayton') {
@@ -302,13 +387,105 @@ export function sampleRotatedCopula(
     });
 }
 
+// =============================================
+// Multivariate Archimedean Copulas
+// =============================================
+
+/**
+ * Sample from exchangeable d-dimensional Clayton copula (Marshall-Olkin)
+ * V ~ Gamma(1/θ, 1), U_i = (1 + E_i/V)^(-1/θ) with E_i ~ Exp(1)
+ */
+export function sampleClaytonMultivariate(
+    rng: MersenneTwister,
+    theta: number,
+    dim: number,
+    n: number = 1
+): number[][] {
+    if (theta <= 0) {
+        throw new Error(`Multivariate Clayton copula requires θ > 0, got ${theta}`);
+    }
+    const samples: number[][] = [];
+
+    for (let i = 0; i < n; i++) {
+        const v = sampleGamma(rng, 1 / theta, 1);
+        const u: number[] = [];
+        for (let j = 0; j < dim; j++) {
+            const e = -Math.log(sampleUniform(rng, 0, 1));
+            u.push(Math.pow(1 + e / v, -1 / theta));
+        }
+        samples.push(u);
+    }
+
+    return samples;
+}
+
+/**
+ * Sample from exchangeable d-dimensional Gumbel copula (Marshall-Olkin)
+ * V ~ positive stable(1/θ), U_i = exp(-(E_i/V)^(1/θ))
+ */
+export function sampleGumbelMultivariate(
+    rng: MersenneTwister,
+    theta: number,
+    dim: number,
+    n: number = 1
+): number[][] {
+    if (theta < 1) {
+        throw new Error(`Gumbel copula requires θ ≥ 1, got ${theta}`);
+    }
+    const samples: number[][] = [];
+
+    for (let i = 0; i < n; i++) {
+        const v = theta === 1 ? 1 : sampleStable(rng, 1 / theta);
+        const u: number[] = [];
+        for (let j = 0; j < dim; j++) {
+            const e = -Math.log(sampleUniform(rng, 0, 1));
+            u.push(Math.exp(-Math.pow(e / v, 1 / theta)));
+        }
+        samples.push(u);
+    }
+
+    return samples;
+}
+
+/**
+ * Sample from exchangeable d-dimensional Frank copula (Marshall-Olkin)
+ * V ~ Logarithmic(1 - e^(-θ)), U_i = -ln(1 - (1 - e^(-θ)) e^(-E_i/V)) / θ
+ * Only positive dependence (θ > 0) exists for d > 2
+ */
+export function sampleFrankMultivariate(
+    rng: MersenneTwister,
+    theta: number,
+    dim: number,
+    n: number = 1
+): number[][] {
+    if (theta <= 0) {
+        throw new Error(`Multivariate Frank copula requires θ > 0, got ${theta}`);
+    }
+    const p = -Math.expm1(-theta);
+    const samples: number[][] = [];
+
+    for (let i = 0; i < n; i++) {
+        const v = sampleLogarithmic(rng, p);
+        const u: number[] = [];
+        for (let j = 0; j < dim; j++) {
+            const e = -Math.log(sampleUniform(rng, 0, 1));
+            const ui = -Math.log1p(-p * Math.exp(-e / v)) / theta;
+            u.push(Math.max(0, Math.min(1, ui)));
+        }
+        samples.push(u);
+    }
+
+    return samples;
+}
+
 // =============================================
 // Unified Copula Sampling Interface
 // =============================================
 
 /**
  * Sample from any copula configuration
- * Returns n pairs of [u, v] ∈ [0,1]²
+ * Returns n vectors in [0,1]^d: pairs for bivariate Archimedean copulas,
+ * d = dimension for multivariate Archimedean, d = matrix size for elliptical
  */
 export function sampleFromCopula(
     rng: MersenneTwister,
@@ -317,11 +494,17 @@ export function sampleFromCopula(
 ): number[][] {
     switch (copula.type) {
         case 'clayton':
-            return sampleClayton(rng, copula.theta, n);
+            return (copula.dimension ?? 2) > 2
+                ? sampleClaytonMultivariate(rng, copula.theta, copula.dimension!, n)
+                : sampleClayton(rng, copula.theta, n);
         case 'gumbel':
-            return sampleGumbel(rng, copula.theta, n);
+            return (copula.dimension ?? 2) > 2
+                ? sampleGumbelMultivariate(rng, copula.theta, copula.dimension!, n)
+                : sampleGumbel(rng, copula.theta, n);
         case 'frank':
-            return sampleFrank(rng, copula.theta, n);
+            return (copula.dimension ?? 2) > 2
+                ? sampleFrankMultivariate(rng, copula.theta, copula.dimension!, n)
+                : sampleFrank(rng, copula.theta, n);
         case 'gaussian':
             return sampleGaussianCopula(rng, copula.correlationMatrix, n);
         case 't':
@@ -383,18 +566,27 @@ export function fitGumbelFromTau(tau: number): GumbelCopula {
 
 /**
  * Fit Frank copula parameter from Kendall's tau
- * More complex relationship, use numerical approximation
+ * τ(θ) = 1 - 4/θ + 4 D₁(θ)/θ is increasing in θ; inverted by bisection
  */
 export function fitFrankFromTau(tau: number): FrankCopula {
-    // Approximate: θ ≈ sign(τ) * (1 + |τ|) * π / (sqrt(1 - τ²))
-    // This is a rough approximation; full solution requires Debye function
-    const sign = tau >= 0 ? 1 : -1;
-    const absTau = Math.abs(tau);
-    const theta = sign * (1 + absTau) * Math.PI / Math.sqrt(1 - absTau * absTau + 0.01);
+    if (Math.abs(tau) < 1e-8) {
+        return { type: 'frank', theta: 0 };
+    }
+
+    let lo = tau > 0 ? 1e-6 : -200;
+    let hi = tau > 0 ? 200 : -1e-6;
+    for (let i = 0; i < 100; i++) {
+        const mid = 0.5 * (lo + hi);
+        if (copulaKendallsTau({ type: 'frank', theta: mid }) < tau) {
+            lo = mid;
+        } else {
+            hi = mid;
+        }
+    }
 
     return {
         type: 'frank',
-        theta: theta
+        theta: 0.5 * (lo + hi)
     };
 }
 
@@ -437,63 +629,59 @@ export function getCopulaForScenario(scenario: 'crash' | 'boom' | 'stagflation'
 // Helper Functions
 // =============================================
 
-/** Standard normal CDF approximation (Abramowitz & Stegun) */
-function normalCDF(x: number): number {
-    const a1 = 0.254829592;
-    const a2 = -0.284496736;
-    const a3 = 1.421413741;
-    const a4 = -1.453152027;
-    const a5 = 1.061405429;
-    const p = 0.3275911;
-
-    const sign = x < 0 ? -1 : 1;
-    x = Math.abs(x) / Math.sqrt(2);
-    const t = 1.0 / (1.0 + p * x);
-    const y = 1.0 - (((((a5 * t + a4) * t) + a3) * t + a2) * t + a1) * t * Math.exp(-x * x);
-
-    return 0.5 * (1.0 + sign * y);
+/** Sample from χ² distribution with n (possibly non-integer) degrees of freedom */
+function sampleChiSquared(rng: MersenneTwister, n: number): number {
+    // χ²(n) = Gamma(n/2, rate 1/2)
+    return sampleGamma(rng, n / 2, 0.5);
 }
 
-/** Student-t CDF approximation */
-function studentTCDF(x: number, nu: number): number {
-    // For large ν, approximate with normal
-    if (nu > 100) return normalCDF(x);
-
-    // Simplified approximation for lower ν
-    const t = x / Math.sqrt(nu);
-    const z = x * Math.sqrt(1 - 2 / nu);
-    return normalCDF(z) + (normalCDF(x) - normalCDF(z)) * Math.exp(-nu / 20);
+/**
+ * First Debye function D₁(x) = (1/x) ∫₀ˣ t / (e^t - 1) dt
+ * Composite Simpson's rule; D₁(-x) = D₁(x) + x/2 for x > 0
+ */
+function debyeFunction1(x: number): number {
+    if (x < 0) return debyeFunction1(-x) - x / 2;
+    if (x < 1e-8) return 1;
+
+    const steps = 200;
+    const h = x / steps;
+    const f = (t: number) => t === 0 ? 1 : t / Math.expm1(t);
+    let sum = f(0) + f(x);
+    for (let k = 1; k < steps; k++) {
+        sum += (k % 2 === 1 ? 4 : 2) * f(k * h);
+    }
+    return sum * h / 3 / x;
 }
 
-/** Sample from χ² distribution with n degrees of freedom */
-function sampleChiSquared(rng: MersenneTwister, n: number): number {
-    let sum = 0;
-    for (let i = 0; i < n; i++) {
-        const z = sampleStandardNormal(rng);
-        sum += z * z;
+/**
+ * Sample from logarithmic series distribution P(V = k) = -p^k / (k ln(1-p))
+ * Kemp's LK algorithm
+ */
+function sampleLogarithmic(rng: MersenneTwister, p: number): number {
+    const u2 = sampleUniform(rng, 0, 1);
+    if (u2 > p) return 1;
+
+    const q = -Math.expm1(sampleUniform(rng, 0, 1) * Math.log1p(-p));
+    if (u2 < q * q) {
+        return Math.max(1, Math.floor(1 + Math.log(u2) / Math.log(q)));
     }
-    return sum;
+    return u2 > q ? 1 : 2;
 }
 
-/** Sample from stable distribution (simplified for Gumbel copula) */
+/**
+ * Sample from positive stable distribution with Laplace transform exp(-s^α),
+ * 0 < α ≤ 1 (Kanter's representation). Frailty for the Gumbel copula.
+ */
 function sampleStable(rng: MersenneTwister, alpha: number): number {
-    // Simplified: use Γ(1-α) approximation for Gumbel
-    const u = Math.PI * (sampleUniform(rng, 0, 1) - 0.5);
-    const w = -Math.log(sampleUniform(rng, 0, 1));
+    if (alpha >= 1) return 1;
 
-    if (Math.abs(alpha - 1) < 0.01) {
-        return Math.tan(u);
-    }
+    const u = Math.PI * sampleUniform(rng, 0, 1);
+    const w = -Math.log(sampleUniform(rng, 0, 1));
 
-    const s = Math.pow(
-        Math.sin(alpha * u) / Math.pow(Math.cos(u), 1 / alpha),
-        1
-    ) * Math.pow(
-        Math.cos(u - alpha * u) / w,
-        (1 - alpha) / alpha
-    );
+    const s = Math.sin(alpha * u) / Math.pow(Math.sin(u), 1 / alpha)
+        * Math.pow(Math.sin((1 - alpha) * u) / w, (1 - alpha) / alpha);
 
-    return Math.max(0.001, s);
+    return Math.max(1e-300, s);
 }
 
 /** Local Cholesky decomposition */
@@ -184,6 +184,61 @@ export function adjustToPositiveDefinite(matrix: number[][], epsilon: number = 0
     return adjusted;
 }
 
+/**
+ * Reorder a correlation matrix from one variable ordering to another
+ * Variables missing from the source ordering are uncorrelated with the rest
+ * @param sourceIds Ordering of the rows/columns of `matrix`
+ * @param targetIds Ordering required by the caller
+ */
+export function reorderCorrelationMatrix(
+    matrix: number[][],
+    sourceIds: string[],
+    targetIds: string[]
+): number[][] {
+    const sourceIndex = targetIds.map(id => sourceIds.indexOf(id));
+
+    return targetIds.map((_, i) => targetIds.map((_, j) => {
+        if (i === j) return 1;
+        const si = sourceIndex[i];
+        const sj = sourceIndex[j];
+        if (si < 0 || sj < 0) return 0;
+        return matrix[si]?.[sj] ?? 0;
+    }));
+}
+
+/**
+ * Repair a correlation matrix so it can be used for simulation:
+ * symmetrize, clip to [-1, 1], force a unit diagonal and, if still
+ * not positive-definite, shrink the off-diagonal elements.
+ * Returns the validation errors of the original matrix.
+ */
+export function repairCorrelationMatrix(matrix: number[][]): {
+    matrix: number[][];
+    repaired: boolean;
+    errors: string[];
+} {
+    const { valid, errors } = validateCorrelationMatrix(matrix);
+    if (valid) {
+        return { matrix, repaired: false, errors };
+    }
+
+    const n = matrix.length;
+    const cleaned: number[][] = Array(n).fill(null).map(() => Array(n).fill(0));
+
+    for (let i = 0; i < n; i++) {
+        cleaned[i][i] = 1;
+        for (let j = i + 1; j < n; j++) {
+            const a = matrix[i]?.[j];
+            const b = matrix[j]?.[i];
+            const values = [a, b].filter((v): v is number => typeof v === 'number' && isFinite(v));
+            const avg = values.length > 0 ? values.reduce((s, v) => s + v, 0) / values.length : 0;
+            cleaned[i][j] = cleaned[j][i] = Math.max(-1, Math.min(1, avg));
+        }
+    }
+
+    return { matrix: adjustToPositiveDefinite(cleaned), repaired: true, errors };
+}
+
 /**
  * Industry correlation templates
  */
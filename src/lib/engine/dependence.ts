@@ -0,0 +1,154 @@
+// =============================================
+// StochFin Monte Carlo Engine: Dependence Models
+// Joint samplers for correlated standard normal innovations
+// =============================================
+
+import { MersenneTwister, sampleStandardNormal, sampleGamma } from './random';
+import { sampleFromCopula, fitClaytonFromTau, fitGumbelFromTau, fitFrankFromTau, type CopulaConfig } from './copulas';
+import { choleskyDecomposition, adjustToPositiveDefinite } from './correlation';
+import { normalQuantile, studentTCDF } from './special-functions';
+
+// =============================================
+// Noise Model Types
+// =============================================
+
+/**
+ * Joint model for the per-step innovations shared by several variables.
+ * Elliptical models carry a Cholesky factor (and ν for Student-t);
+ * Archimedean and vine models sample uniforms from the copula.
+ * Every model produces N(0,1) margins, so processes keep their own dynamics.
+ */
+export type NoiseModel =
+    | { kind: 'independent' }
+    | { kind: 'gaussian'; correlationMatrix: number[][]; choleskyL: number[][] }
+    | { kind: 'student_t'; correlationMatrix: number[][]; choleskyL: number[][]; degreesOfFreedom: number }
+    | { kind: 'copula'; copula: CopulaConfig }
+    | { kind: 'vine'; sampler: (rng: MersenneTwister) => number[]; columns: number[] };
+
+/** Copula applied on top of a model correlation matrix */
+export interface DependenceCopula {
+    type: 'gaussian' | 'student_t' | 'clayton' | 'gumbel' | 'frank';
+    parameters?: Record<string, number>;  // student_t: {nu}; Archimedean: {theta}
+}
+
+/** Degrees of freedom for a Student-t copula that omits ν */
+export const DEFAULT_T_DEGREES_OF_FREEDOM = 4;
+
+// =============================================
+// Model Construction
+// =============================================
+
+/** Gaussian or Student-t noise model from a correlation matrix (repaired if not PD) */
+export function createEllipticalNoiseModel(matrix: number[][], degreesOfFreedom?: number): NoiseModel {
+    const correlationMatrix = adjustToPositiveDefinite(matrix);
+    const choleskyL = choleskyDecomposition(correlationMatrix);
+    return degreesOfFreedom !== undefined
+        ? { kind: 'student_t', correlationMatrix, choleskyL, degreesOfFreedom }
+        : { kind: 'gaussian', correlationMatrix, choleskyL };
+}
+
+/**
+ * Noise model for a correlation matrix and copula choice.
+ *
+ * Gaussian and Student-t copulas use the full matrix. Archimedean copulas
+ * are exchangeable, so the matrix only calibrates θ (via the mean pairwise
+ * Kendall's tau τ = (2/π) arcsin ρ) when no θ is given.
+ */
+export function createDependenceModel(
+    correlationMatrix: number[][],
+    copula: DependenceCopula = { type: 'gaussian' }
+): NoiseModel {
+    const d = correlationMatrix.length;
+    if (d === 0) return { kind: 'independent' };
+
+    switch (copula.type) {
+        case 'gaussian':
+            return createEllipticalNoiseModel(correlationMatrix);
+        case 'student_t':
+            return createEllipticalNoiseModel(
+                correlationMatrix,
+                copula.parameters?.nu || DEFAULT_T_DEGREES_OF_FREEDOM
+            );
+        default: {
+            if (d < 2) return { kind: 'independent' };
+            const theta = copula.parameters?.theta ?? archimedeanThetaFromMatrix(copula.type, correlationMatrix);
+            return {
+                kind: 'copula',
+                copula: { type: copula.type, theta, dimension: d }
+            };
+        }
+    }
+}
+
+/** θ matching the mean Kendall's tau of a correlation matrix */
+function archimedeanThetaFromMatrix(
+    type: 'clayton' | 'gumbel' | 'frank',
+    matrix: number[][]
+): number {
+    const d = matrix.length;
+    let tauSum = 0;
+    for (let i = 0; i < d; i++) {
+        for (let j = i + 1; j < d; j++) {
+            tauSum += 2 / Math.PI * Math.asin(Math.max(-1, Math.min(1, matrix[i][j])));
+        }
+    }
+    // Exchangeable Archimedean copulas only support positive dependence for d > 2
+    const tau = Math.min(0.95, Math.max(0.01, tauSum / (d * (d - 1) / 2)));
+
+    switch (type) {
+        case 'clayton': return fitClaytonFromTau(tau).theta;
+        case 'gumbel': return fitGumbelFromTau(tau).theta;
+        case 'frank': return fitFrankFromTau(tau).theta;
+    }
+}
+
+// =============================================
+// Sampling
+// =============================================
+
+/**
+ * Draw one vector of d correlated standard normal innovations
+ */
+export function sampleNoiseVector(rng: MersenneTwister, model: NoiseModel, d: number): number[] {
+    switch (model.kind) {
+        case 'copula': {
+            const u = sampleFromCopula(rng, model.copula, 1)[0];
+            return u.map(ui => normalQuantile(clampUniform(ui)));
+        }
+        case 'vine': {
+            const u = model.sampler(rng);
+            return model.columns.map(col => normalQuantile(clampUniform(u[col])));
+        }
+        case 'gaussian':
+            return multiplyCholesky(model.choleskyL, rng, d);
+        case 'student_t': {
+            // Multivariate t with a shared χ² mixing variable, mapped back to normal margins
+            const nu = model.degreesOfFreedom;
+            const z = multiplyCholesky(model.choleskyL, rng, d);
+            const scale = Math.sqrt(nu / sampleGamma(rng, nu / 2, 0.5));
+            return z.map(zi => normalQuantile(clampUniform(studentTCDF(zi * scale, nu))));
+        }
+        default:
+            // Independent noise
+            return Array(d).fill(0).map(() => sampleStandardNormal(rng));
+    }
+}
+
+/** Correlated standard normals L·z */
+function multiplyCholesky(choleskyL: number[][], rng: MersenneTwister, d: number): number[] {
+    const z = Array(d).fill(0).map(() => sampleStandardNormal(rng));
+    const result: number[] = [];
+    for (let i = 0; i < d; i++) {
+        let sum = 0;
+        for (let j = 0; j <= i; j++) {
+            sum += choleskyL[i][j] * z[j];
+        }
+        result.push(sum);
+    }
+    return result;
+}
+
+/** Keep copula uniforms away from 0 and 1 before inverting the normal CDF */
+function clampUniform(u: number): number {
+    return Math.min(1 - 1e-12, Math.max(1e-12, u));
+}
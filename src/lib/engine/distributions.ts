@@ -0,0 +1,229 @@
+// =============================================
+// StochFin Monte Carlo Engine: Static Distributions
+// Sampling, quantiles and means of DistributionObject assumptions
+// (PERT, triangular, normal, lognormal, Student-t, empirical, uniform)
+// =============================================
+
+import type {
+    DistributionObject,
+    NormalParams,
+    LognormalParams,
+    TriangularParams,
+    PertParams,
+    StudentTParams,
+    EmpiricalParams,
+    UniformParams
+} from '@/types/distributions';
+import {
+    MersenneTwister,
+    sampleNormal,
+    sampleLognormal,
+    sampleTriangular,
+    samplePert,
+    sampleStudentT,
+    sampleEmpirical,
+    sampleUniform
+} from './random';
+import { normalQuantile, studentTQuantile, betaQuantile } from './special-functions';
+
+/**
+ * The part of a DistributionObject needed to simulate it (metadata is optional)
+ */
+export type StaticDistribution = Pick<DistributionObject, 'distribution_type' | 'parameters'>;
+
+const DEFAULT_PERT_LAMBDA = 4;
+
+// Sorted copies of empirical samples, for quantile lookups
+const sortedSamplesCache = new WeakMap<number[], number[]>();
+
+/**
+ * Validate distribution parameters
+ * Throws with a descriptive message on the first problem found
+ */
+export function validateDistribution(distribution: StaticDistribution): void {
+    const type = distribution.distribution_type;
+    const p = distribution.parameters as unknown as Record<string, unknown>;
+    const requireNumbers = (...names: string[]) => {
+        for (const name of names) {
+            if (typeof p[name] !== 'number' || !isFinite(p[name] as number)) {
+                throw new Error(`${type} distribution requires a numeric "${name}" parameter`);
+            }
+        }
+    };
+
+    switch (type) {
+        case 'normal':
+        case 'lognormal':
+            requireNumbers('mu', 'sigma');
+            if ((p.sigma as number) < 0) throw new Error(`${type} sigma must be non-negative`);
+            break;
+        case 'student_t':
+            requireNumbers('mu', 'sigma', 'nu');
+            if ((p.sigma as number) < 0) throw new Error('student_t sigma must be non-negative');
+            if ((p.nu as number) <= 0) throw new Error('student_t degrees of freedom must be positive');
+            break;
+        case 'triangular': {
+            requireNumbers('min', 'mode', 'max');
+            const { min, mode, max } = p as unknown as TriangularParams;
+            if (!(min <= mode && mode <= max)) {
+                throw new Error(`triangular requires min ≤ mode ≤ max, got ${min} / ${mode} / ${max}`);
+            }
+            break;
+        }
+        case 'pert': {
+            requireNumbers('optimistic', 'most_likely', 'pessimistic');
+            const { optimistic, most_likely, pessimistic, lambda } = p as unknown as PertParams;
+            const lo = Math.min(optimistic, pessimistic);
+            const hi = Math.max(optimistic, pessimistic);
+            if (!(lo <= most_likely && most_likely <= hi)) {
+                throw new Error(`pert most_likely ${most_likely} lies outside [${lo}, ${hi}]`);
+            }
+            if (lambda !== undefined && !(lambda > 0)) throw new Error('pert lambda must be positive');
+            break;
+        }
+        case 'uniform':
+            requireNumbers('min', 'max');
+            if ((p.min as number) > (p.max as number)) throw new Error('uniform requires min ≤ max');
+            break;
+        case 'empirical': {
+            const samples = p.samples;
+            if (!Array.isArray(samples) || samples.length === 0 || samples.some(s => typeof s !== 'number' || !isFinite(s))) {
+                throw new Error('empirical distribution requires a non-empty numeric "samples" array');
+            }
+            break;
+        }
+        default:
+            throw new Error(`Unknown distribution type: ${type}`);
+    }
+}
+
+/**
+ * Draw one value from a distribution
+ */
+export function sampleDistribution(rng: MersenneTwister, distribution: StaticDistribution): number {
+    const params = distribution.parameters;
+
+    switch (distribution.distribution_type) {
+        case 'normal': {
+            const { mu, sigma } = params as NormalParams;
+            return sampleNormal(rng, mu, sigma);
+        }
+        case 'lognormal': {
+            const { mu, sigma } = params as LognormalParams;
+            return sampleLognormal(rng, mu, sigma);
+        }
+        case 'triangular': {
+            const { min, mode, max } = params as TriangularParams;
+            return max > min ? sampleTriangular(rng, min, mode, max) : mode;
+        }
+        case 'pert': {
+            const { optimistic, most_likely, pessimistic, lambda } = params as PertParams;
+            return samplePert(rng, optimistic, most_likely, pessimistic, lambda ?? DEFAULT_PERT_LAMBDA);
+        }
+        case 'student_t': {
+            const { mu, sigma, nu } = params as StudentTParams;
+            return sampleStudentT(rng, nu, mu, sigma);
+        }
+        case 'empirical':
+            return sampleEmpirical(rng, (params as EmpiricalParams).samples);
+        case 'uniform': {
+            const { min, max } = params as UniformParams;
+            return sampleUniform(rng, min, max);
+        }
+        default:
+            throw new Error(`Unknown distribution type: ${distribution.distribution_type}`);
+    }
+}
+
+/**
+ * Inverse CDF at u ∈ (0, 1)
+ * Lets correlated normal innovations drive static draws: x = F⁻¹(Φ(z))
+ */
+export function distributionQuantile(distribution: StaticDistribution, u: number): number {
+    const params = distribution.parameters;
+
+    switch (distribution.distribution_type) {
+        case 'normal': {
+            const { mu, sigma } = params as NormalParams;
+            return mu + sigma * normalQuantile(u);
+        }
+        case 'lognormal': {
+            const { mu, sigma } = params as LognormalParams;
+            return Math.exp(mu + sigma * normalQuantile(u));
+        }
+        case 'triangular': {
+            const { min, mode, max } = params as TriangularParams;
+            if (max <= min) return mode;
+            const fc = (mode - min) / (max - min);
+            return u < fc
+                ? min + Math.sqrt(u * (max - min) * (mode - min))
+                : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+        }
+        case 'pert': {
+            const { optimistic, most_likely, pessimistic, lambda } = params as PertParams;
+            const lo = Math.min(optimistic, pessimistic);
+            const range = Math.max(optimistic, pessimistic) - lo;
+            if (range === 0) return most_likely;
+            const shape = lambda ?? DEFAULT_PERT_LAMBDA;
+            const a = 1 + shape * (most_likely - lo) / range;
+            const b = 1 + shape * (lo + range - most_likely) / range;
+            return lo + range * betaQuantile(u, a, b);
+        }
+        case 'student_t': {
+            const { mu, sigma, nu } = params as StudentTParams;
+            return mu + sigma * studentTQuantile(u, nu);
+        }
+        case 'empirical': {
+            const samples = (params as EmpiricalParams).samples;
+            let sorted = sortedSamplesCache.get(samples);
+            if (!sorted) {
+                sorted = [...samples].sort((x, y) => x - y);
+                sortedSamplesCache.set(samples, sorted);
+            }
+            return sorted[Math.min(Math.floor(u * sorted.length), sorted.length - 1)];
+        }
+        case 'uniform': {
+            const { min, max } = params as UniformParams;
+            return min + (max - min) * u;
+        }
+        default:
+            throw new Error(`Unknown distribution type: ${distribution.distribution_type}`);
+    }
+}
+
+/**
+ * Distribution mean (location for Student-t with ν ≤ 1, where the mean is undefined)
+ */
+export function distributionMean(distribution: StaticDistribution): number {
+    const params = distribution.parameters;
+
+    switch (distribution.distribution_type) {
+        case 'normal':
+            return (params as NormalParams).mu;
+        case 'lognormal': {
+            const { mu, sigma } = params as LognormalParams;
+            return Math.exp(mu + 0.5 * sigma * sigma);
+        }
+        case 'triangular': {
+            const { min, mode, max } = params as TriangularParams;
+            return (min + mode + max) / 3;
+        }
+        case 'pert': {
+            const { optimistic, most_likely, pessimistic, lambda } = params as PertParams;
+            const shape = lambda ?? DEFAULT_PERT_LAMBDA;
+            return (optimistic + shape * most_likely + pessimistic) / (shape + 2);
+        }
+        case 'student_t':
+            return (params as StudentTParams).mu;
+        case 'empirical': {
+            const samples = (params as EmpiricalParams).samples;
+            return samples.reduce((sum, s) => sum + s, 0) / samples.length;
+        }
+        case 'uniform': {
+            const { min, max } = params as UniformParams;
+            return (min + max) / 2;
+        }
+        default:
+            throw new Error(`Unknown distribution type: ${distribution.distribution_type}`);
+    }
+}
@@ -4,6 +4,21 @@
 // =============================================
 
 import { mean, variance, stdDev } from './aggregator';
+import {
+    stationaryDistribution,
+    expectedRegimeDurations,
+    garchPersistence,
+    garchUnconditionalVariance,
+    garchNextVariance,
+    garchConditionalVariances,
+    garchLogLikelihood,
+    type RegimeSwitchingConfig,
+    type GARCHConfig,
+    type GARCHVariant
+} from './processes';
+import type { VasicekConfig, CIRConfig, HullWhiteConfig, YieldCurve } from './short-rates';
+import { noncentralChiSquaredLogPDF } from './special-functions';
+import { nelderMead } from './optimization';
 
 // =============================================
 // GBM Parameter Estimation
@@ -204,6 +219,746 @@ export function estimateOUParams(
     };
 }
 
+// =============================================
+// Short-Rate Model Estimation
+// Exact maximum likelihood for Vasicek and CIR; Hull-White takes
+// (a, σ) from the rate history and θ(t) from the initial curve
+// =============================================
+
+export interface ShortRateEstimation<C> {
+    config: C;                                  // Ready to simulate from the last observation
+    parameters: Record<string, number>;         // kappa, mu, sigma
+    standard_errors: Record<string, number>;    // From the observed information matrix
+    log_likelihood: number;
+    aic: number;
+    bic: number;
+    n_observations: number;
+    estimation_period: { start: string; end: string };
+    converged: boolean;
+    feller_satisfied?: boolean;                 // CIR only
+    warning?: string;
+}
+
+/**
+ * Estimate Vasicek parameters by exact MLE (Gaussian AR(1) transition)
+ *
+ * @param rates Short-rate observations (decimal, e.g. 0.045)
+ * @param dt Time step in years
+ */
+export function estimateVasicekParams(
+    rates: number[],
+    dt: number,
+    startDate?: string,
+    endDate?: string
+): ShortRateEstimation<VasicekConfig> {
+    const n = rates.length - 1;
+    if (n < 5) {
+        throw new Error('Need at least 6 data points to estimate Vasicek parameters');
+    }
+
+    // AR(1): r_{t+1} = α + β r_t + ε is the exact discretization
+    const x = rates.slice(0, -1);
+    const y = rates.slice(1);
+    const xMean = mean(x);
+    const yMean = mean(y);
+    let sxy = 0;
+    let sxx = 0;
+    for (let i = 0; i < n; i++) {
+        sxy += (x[i] - xMean) * (y[i] - yMean);
+        sxx += (x[i] - xMean) ** 2;
+    }
+
+    let warning: string | undefined;
+    let beta = sxy / sxx;
+    if (!(beta > 0 && beta < 1)) {
+        warning = beta >= 1
+            ? 'No evidence of mean reversion (β ≥ 1); κ set near zero.'
+            : 'Very fast or oscillating mean reversion (β ≤ 0); κ capped.';
+        beta = Math.min(Math.max(beta, 1e-4), 1 - 1e-4);
+    }
+    const alpha = yMean - beta * xMean;
+    const residualVariance = y.reduce((s, yi, i) => s + (yi - alpha - beta * x[i]) ** 2, 0) / n;
+
+    const kappa = -Math.log(beta) / dt;
+    const start = [kappa, alpha / (1 - beta), Math.sqrt(residualVariance * 2 * kappa / (1 - beta * beta))];
+    const negLogLik = (p: number[]) => -vasicekLogLikelihood(rates, dt, p[0], p[1], p[2]);
+
+    return shortRateEstimationResult(
+        {
+            kappa: start[0],
+            mu: start[1],
+            sigma: start[2],
+            initialValue: rates[rates.length - 1]
+        },
+        start,
+        negLogLik,
+        n,
+        true,
+        startDate,
+        endDate,
+        warning
+    );
+}
+
+/**
+ * Estimate CIR parameters by exact MLE (non-central chi-square transition)
+ * Starts from conditional least squares on (r_{t+1} - r_t)/√r_t, then
+ * maximizes the exact likelihood with Nelder-Mead in log-parameters.
+ *
+ * @param rates Short-rate observations (must be positive)
+ * @param dt Time step in years
+ */
+export function estimateCIRParams(
+    rates: number[],
+    dt: number,
+    startDate?: string,
+    endDate?: string
+): ShortRateEstimation<CIRConfig> {
+    const n = rates.length - 1;
+    if (n < 5) {
+        throw new Error('Need at least 6 data points to estimate CIR parameters');
+    }
+    if (rates.some(r => r <= 0)) {
+        throw new Error('Rates must be positive for CIR estimation');
+    }
+
+    // Conditional least squares: Δr/√r = κμ dt/√r - κ dt √r + σ√dt ε
+    let s11 = 0, s12 = 0, s22 = 0, sy1 = 0, sy2 = 0;
+    for (let i = 0; i < n; i++) {
+        const sq = Math.sqrt(rates[i]);
+        const x1 = 1 / sq;
+        const x2 = sq;
+        const yi = (rates[i + 1] - rates[i]) / sq;
+        s11 += x1 * x1; s12 += x1 * x2; s22 += x2 * x2;
+        sy1 += x1 * yi; sy2 += x2 * yi;
+    }
+    const det = s11 * s22 - s12 * s12;
+    const b1 = (s22 * sy1 - s12 * sy2) / det;
+    const b2 = (s11 * sy2 - s12 * sy1) / det;
+    let ssr = 0;
+    for (let i = 0; i < n; i++) {
+        const sq = Math.sqrt(rates[i]);
+        ssr += ((rates[i + 1] - rates[i]) / sq - b1 / sq - b2 * sq) ** 2;
+    }
+
+    const kappa0 = Math.max(-b2 / dt, 0.01);
+    const mu0 = b1 > 0 ? b1 / (kappa0 * dt) : mean(rates);
+    const sigma0 = Math.max(Math.sqrt(ssr / n / dt), 1e-4);
+
+    const fit = nelderMead(
+        p => -cirLogLikelihood(rates, dt, Math.exp(p[0]), Math.exp(p[1]), Math.exp(p[2])),
+        [Math.log(kappa0), Math.log(mu0), Math.log(sigma0)],
+        { initialStep: [0.3, 0.2, 0.2], maxIterations: 2000 }
+    );
+    const [kappa, mu, sigma] = fit.x.map(Math.exp);
+
+    const result = shortRateEstimationResult(
+        { kappa, mu, sigma, initialValue: rates[rates.length - 1] },
+        [kappa, mu, sigma],
+        p => -cirLogLikelihood(rates, dt, p[0], p[1], p[2]),
+        n,
+        fit.converged,
+        startDate,
+        endDate
+    );
+    result.feller_satisfied = 2 * kappa * mu >= sigma * sigma;
+    if (!result.feller_satisfied) {
+        result.warning = 'Feller condition 2κμ ≥ σ² fails: simulated rates can touch zero.';
+    }
+    return result;
+}
+
+/**
+ * Estimate Hull-White parameters: mean reversion a and volatility σ from the
+ * short-rate history (exact Vasicek likelihood), θ(t) implied by the curve
+ *
+ * @param rates Short-rate observations
+ * @param dt Time step in years
+ * @param initialCurve Today's zero curve the model must reprice
+ */
+export function estimateHullWhiteParams(
+    rates: number[],
+    dt: number,
+    initialCurve: YieldCurve,
+    startDate?: string,
+    endDate?: string
+): ShortRateEstimation<HullWhiteConfig> {
+    const vasicek = estimateVasicekParams(rates, dt, startDate, endDate);
+    return {
+        ...vasicek,
+        config: {
+            a: vasicek.config.kappa,
+            sigma: vasicek.config.sigma,
+            initialCurve
+        }
+    };
+}
+
+function vasicekLogLikelihood(rates: number[], dt: number, kappa: number, mu: number, sigma: number): number {
+    if (!(kappa > 0 && sigma > 0)) return -Infinity;
+    const decay = Math.exp(-kappa * dt);
+    const variance = sigma * sigma * (1 - decay * decay) / (2 * kappa);
+    let logLik = 0;
+    for (let i = 1; i < rates.length; i++) {
+        const e = rates[i] - mu - (rates[i - 1] - mu) * decay;
+        logLik += -0.5 * Math.log(2 * Math.PI * variance) - e * e / (2 * variance);
+    }
+    return logLik;
+}
+
+function cirLogLikelihood(rates: number[], dt: number, kappa: number, mu: number, sigma: number): number {
+    if (!(kappa > 0 && mu > 0 && sigma > 0)) return -Infinity;
+    const decay = Math.exp(-kappa * dt);
+    const c = 4 * kappa / (sigma * sigma * (1 - decay));
+    const d = 4 * kappa * mu / (sigma * sigma);
+    let logLik = 0;
+    for (let i = 1; i < rates.length; i++) {
+        logLik += Math.log(c) + noncentralChiSquaredLogPDF(c * rates[i], d, c * rates[i - 1] * decay);
+    }
+    return logLik;
+}
+
+/**
+ * Package an estimate with standard errors from a numerical Hessian of the
+ * negative log-likelihood at (κ, μ, σ)
+ */
+function shortRateEstimationResult<C>(
+    config: C,
+    estimate: number[],
+    negLogLik: (p: number[]) => number,
+    n: number,
+    converged: boolean,
+    startDate?: string,
+    endDate?: string,
+    warning?: string
+): ShortRateEstimation<C> {
+    const logLik = -negLogLik(estimate);
+    const covariance = invertMatrix(numericalHessian(negLogLik, estimate));
+    const se = estimate.map((_, i) => covariance && covariance[i][i] > 0 ? Math.sqrt(covariance[i][i]) : NaN);
+    const k = estimate.length;
+
+    return {
+        config,
+        parameters: { kappa: estimate[0], mu: estimate[1], sigma: estimate[2] },
+        standard_errors: { kappa: se[0], mu: se[1], sigma: se[2] },
+        log_likelihood: logLik,
+        aic: 2 * k - 2 * logLik,
+        bic: k * Math.log(n) - 2 * logLik,
+        n_observations: n,
+        estimation_period: {
+            start: startDate || 'unknown',
+            end: endDate || 'unknown'
+        },
+        converged,
+        warning
+    };
+}
+
+/** Central-difference Hessian */
+function numericalHessian(f: (x: number[]) => number, x: number[]): number[][] {
+    const k = x.length;
+    const h = x.map(v => 1e-4 * Math.max(Math.abs(v), 1e-3));
+    const at = (di: number, dj: number, si: number, sj: number) => {
+        const p = x.slice();
+        p[di] += si * h[di];
+        p[dj] += sj * h[dj];
+        return f(p);
+    };
+
+    const H: number[][] = Array(k).fill(null).map(() => Array(k).fill(0));
+    for (let i = 0; i < k; i++) {
+        for (let j = i; j < k; j++) {
+            H[i][j] = H[j][i] = (at(i, j, 1, 1) - at(i, j, 1, -1) - at(i, j, -1, 1) + at(i, j, -1, -1))
+                / (4 * h[i] * h[j]);
+        }
+    }
+    return H;
+}
+
+/** Gauss-Jordan inverse; null if singular */
+function invertMatrix(matrix: number[][]): number[][] | null {
+    const k = matrix.length;
+    const a = matrix.map((row, i) => [...row, ...Array(k).fill(0).map((_, j) => i === j ? 1 : 0)]);
+
+    for (let col = 0; col < k; col++) {
+        let pivot = col;
+        for (let r = col + 1; r < k; r++) {
+            if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+        }
+        if (!isFinite(a[pivot][col]) || Math.abs(a[pivot][col]) < 1e-300) return null;
+        [a[col], a[pivot]] = [a[pivot], a[col]];
+
+        const p = a[col][col];
+        for (let j = 0; j < 2 * k; j++) a[col][j] /= p;
+        for (let r = 0; r < k; r++) {
+            if (r === col) continue;
+            const factor = a[r][col];
+            for (let j = 0; j < 2 * k; j++) a[r][j] -= factor * a[col][j];
+        }
+    }
+
+    return a.map(row => row.slice(k));
+}
+
+// =============================================
+// Markov Regime-Switching Estimation
+// EM algorithm with Hamilton filter and Kim smoother
+// =============================================
+
+export interface RegimeSwitchingEstimation {
+    config: RegimeSwitchingConfig;      // Ready to simulate from the last observation
+    transition_matrix: number[][];
+    stationary_distribution: number[];
+    expected_durations: number[];       // In time steps
+    filtered_probabilities: number[][]; // [t][regime] P(s_t | y_1..y_t)
+    smoothed_probabilities: number[][]; // [t][regime] P(s_t | y_1..y_n)
+    log_likelihood: number;
+    aic: number;
+    bic: number;
+    iterations: number;
+    converged: boolean;
+    n_observations: number;
+    estimation_period: { start: string; end: string };
+    warning?: string;
+}
+
+export interface RegimeSwitchingEstimationOptions {
+    nRegimes?: number;          // default 2
+    maxIterations?: number;     // default 500
+    tolerance?: number;         // default 1e-8 (log-likelihood change)
+    startDate?: string;
+    endDate?: string;
+}
+
+/**
+ * Estimate a Markov regime-switching process by maximum likelihood (EM)
+ *
+ * - gbm: log returns r_t ~ N(m_k, v_k) in regime k, mapped to drift/volatility
+ * - ornstein_uhlenbeck: AR(1) x_t = a_k + b_k x_{t-1} + ε, ε ~ N(0, v_k), mapped to θ/μ/σ
+ *
+ * The E-step runs the Hamilton filter and Kim smoother; the M-step is a
+ * weighted least squares per regime plus the expected transition counts.
+ * Regimes are ordered by drift (gbm) or long-term mean (O-U), lowest first,
+ * so regime 0 is the "recession" / low state.
+ *
+ * @param values Time series values (positive for gbm)
+ * @param dt Time step in years
+ */
+export function estimateRegimeSwitchingParams(
+    values: number[],
+    dt: number,
+    dynamics: 'gbm' | 'ornstein_uhlenbeck',
+    options: RegimeSwitchingEstimationOptions = {}
+): RegimeSwitchingEstimation {
+    const K = options.nRegimes ?? 2;
+    const maxIterations = options.maxIterations ?? 500;
+    const tolerance = options.tolerance ?? 1e-8;
+
+    // Observations y_t with regressors X_t (intercept, plus x_{t-1} for O-U)
+    const y: number[] = [];
+    const X: number[][] = [];
+    for (let i = 1; i < values.length; i++) {
+        if (dynamics === 'gbm') {
+            if (values[i] <= 0 || values[i - 1] <= 0) {
+                throw new Error('Values must be positive for regime-switching GBM estimation');
+            }
+            y.push(Math.log(values[i] / values[i - 1]));
+            X.push([1]);
+        } else {
+            y.push(values[i]);
+            X.push([1, values[i - 1]]);
+        }
+    }
+
+    const n = y.length;
+    const p = X[0]?.length ?? 1;
+    const nParams = K * (K - 1) + K * (p + 1);
+    if (K < 2) {
+        throw new Error('Regime-switching estimation needs at least 2 regimes');
+    }
+    if (n < 5 * nParams) {
+        throw new Error(`Need at least ${5 * nParams + 1} data points to estimate ${K} regimes`);
+    }
+
+    // Initialization: pooled OLS, regime intercepts spread over residual quantiles
+    const pooled = weightedLeastSquares(X, y, Array(n).fill(1));
+    const sortedResiduals = [...pooled.residuals].sort((a, b) => a - b);
+    let coefficients = Array(K).fill(null).map((_, k) => {
+        const q = sortedResiduals[Math.floor((k + 0.5) / K * n)];
+        return pooled.coefficients.map((c, j) => j === 0 ? c + q : c);
+    });
+    let variances = Array(K).fill(Math.max(pooled.variance / K, 1e-12));
+    let P = Array(K).fill(null).map((_, i) =>
+        Array(K).fill(0).map((_, j) => i === j ? 0.9 : 0.1 / (K - 1))
+    );
+    let initialProbs = Array(K).fill(1 / K);
+
+    let logLik = -Infinity;
+    let iterations = 0;
+    let converged = false;
+    let filtered: number[][] = [];
+    let smoothed: number[][] = [];
+
+    for (iterations = 1; iterations <= maxIterations; iterations++) {
+        // E-step
+        const logDensities = y.map((yt, t) => coefficients.map((beta, k) =>
+            normalLogDensity(yt - dot(X[t], beta), variances[k])
+        ));
+        const filter = hamiltonFilter(logDensities, P, initialProbs);
+        filtered = filter.filtered;
+        smoothed = kimSmoother(filter.filtered, filter.predicted, P);
+
+        // M-step: transition matrix from expected transition counts
+        const transitions = Array(K).fill(null).map(() => Array(K).fill(0));
+        for (let t = 0; t < n - 1; t++) {
+            for (let i = 0; i < K; i++) {
+                for (let j = 0; j < K; j++) {
+                    transitions[i][j] += filtered[t][i] * P[i][j] * smoothed[t + 1][j]
+                        / Math.max(filter.predicted[t + 1][j], 1e-300);
+                }
+            }
+        }
+        P = transitions.map(row => {
+            const total = row.reduce((s, c) => s + c, 0);
+            return total > 0 ? row.map(c => Math.max(c / total, 1e-10)) : Array(K).fill(1 / K);
+        }).map(row => {
+            const total = row.reduce((s, c) => s + c, 0);
+            return row.map(c => c / total);
+        });
+        initialProbs = smoothed[0];
+
+        // M-step: weighted regression per regime
+        const fits = Array(K).fill(null).map((_, k) =>
+            weightedLeastSquares(X, y, smoothed.map(s => s[k]))
+        );
+        coefficients = fits.map((fit, k) => fit.valid ? fit.coefficients : coefficients[k]);
+        variances = fits.map((fit, k) => fit.valid ? Math.max(fit.variance, 1e-12) : variances[k]);
+
+        if (Math.abs(filter.logLikelihood - logLik) < tolerance * (1 + Math.abs(filter.logLikelihood))) {
+            logLik = filter.logLikelihood;
+            converged = true;
+            break;
+        }
+        logLik = filter.logLikelihood;
+    }
+    iterations = Math.min(iterations, maxIterations);
+
+    // Map regression parameters to process parameters
+    let warning: string | undefined;
+    const regimes: RegimeSwitchingConfig['regimes'][number]['params'][] = coefficients.map((beta, k) => {
+        if (dynamics === 'gbm') {
+            const volatility = Math.sqrt(variances[k] / dt);
+            return { drift: beta[0] / dt + 0.5 * volatility * volatility, volatility };
+        }
+
+        let b = beta[1];
+        if (b <= 0 || b >= 1) {
+            warning = 'Some regimes show no mean reversion (AR coefficient outside (0, 1)); clamped.';
+            b = Math.min(Math.max(b, 1e-4), 1 - 1e-4);
+        }
+        const theta = -Math.log(b) / dt;
+        return {
+            theta,
+            mu: beta[0] / (1 - b),
+            sigma: Math.sqrt(variances[k]) * Math.sqrt(2 * theta / (1 - b * b))
+        };
+    });
+
+    // Order regimes: lowest drift / long-term mean first
+    const order = regimes
+        .map((r, k) => ({ k, key: 'drift' in r ? r.drift : r.mu }))
+        .sort((a, b) => a.key - b.key)
+        .map(o => o.k);
+    const transitionMatrix = order.map(i => order.map(j => P[i][j]));
+    const reorder = (rows: number[][]) => rows.map(row => order.map(k => row[k]));
+    const filteredOrdered = reorder(filtered);
+    const lastFiltered = filteredOrdered[n - 1];
+
+    return {
+        config: {
+            dynamics,
+            regimes: order.map((k, idx) => ({ name: `regime_${idx}`, params: regimes[k] })),
+            transitionMatrix,
+            initialValue: values[values.length - 1],
+            initialRegime: lastFiltered.indexOf(Math.max(...lastFiltered))
+        },
+        transition_matrix: transitionMatrix,
+        stationary_distribution: stationaryDistribution(transitionMatrix),
+        expected_durations: expectedRegimeDurations(transitionMatrix),
+        filtered_probabilities: filteredOrdered,
+        smoothed_probabilities: reorder(smoothed),
+        log_likelihood: logLik,
+        aic: 2 * nParams - 2 * logLik,
+        bic: nParams * Math.log(n) - 2 * logLik,
+        iterations,
+        converged,
+        n_observations: n,
+        estimation_period: {
+            start: options.startDate || 'unknown',
+            end: options.endDate || 'unknown'
+        },
+        warning
+    };
+}
+
+/**
+ * Hamilton filter: filtered P(s_t | y_1..y_t), one-step predictions
+ * P(s_t | y_1..y_{t-1}) and the log-likelihood
+ */
+function hamiltonFilter(
+    logDensities: number[][],
+    P: number[][],
+    initialProbs: number[]
+): { filtered: number[][]; predicted: number[][]; logLikelihood: number } {
+    const K = P.length;
+    const filtered: number[][] = [];
+    const predicted: number[][] = [];
+    let logLikelihood = 0;
+    let prediction = initialProbs;
+
+    for (const logF of logDensities) {
+        predicted.push(prediction);
+
+        // Scale densities by their maximum to avoid underflow
+        const maxLog = Math.max(...logF);
+        const joint = prediction.map((pk, k) => pk * Math.exp(logF[k] - maxLog));
+        const total = joint.reduce((s, v) => s + v, 0);
+        logLikelihood += maxLog + Math.log(total);
+
+        const posterior = joint.map(v => v / total);
+        filtered.push(posterior);
+
+        prediction = Array(K).fill(0);
+        for (let i = 0; i < K; i++) {
+            for (let j = 0; j < K; j++) {
+                prediction[j] += posterior[i] * P[i][j];
+            }
+        }
+    }
+
+    return { filtered, predicted, logLikelihood };
+}
+
+/**
+ * Kim smoother: P(s_t | y_1..y_n) from the filter output
+ */
+function kimSmoother(filtered: number[][], predicted: number[][], P: number[][]): number[][] {
+    const n = filtered.length;
+    const K = P.length;
+    const smoothed: number[][] = Array(n);
+    smoothed[n - 1] = filtered[n - 1];
+
+    for (let t = n - 2; t >= 0; t--) {
+        smoothed[t] = filtered[t].map((f, i) => {
+            let sum = 0;
+            for (let j = 0; j < K; j++) {
+                sum += P[i][j] * smoothed[t + 1][j] / Math.max(predicted[t + 1][j], 1e-300);
+            }
+            return f * sum;
+        });
+        const total = smoothed[t].reduce((s, v) => s + v, 0);
+        smoothed[t] = smoothed[t].map(v => v / total);
+    }
+
+    return smoothed;
+}
+
+/**
+ * Weighted least squares via normal equations (1 or 2 regressors)
+ */
+function weightedLeastSquares(
+    X: number[][],
+    y: number[],
+    weights: number[]
+): { coefficients: number[]; variance: number; residuals: number[]; valid: boolean } {
+    const p = X[0].length;
+    const XtWX = Array(p).fill(null).map(() => Array(p).fill(0));
+    const XtWy = Array(p).fill(0);
+    let weightSum = 0;
+
+    for (let t = 0; t < y.length; t++) {
+        const w = weights[t];
+        weightSum += w;
+        for (let i = 0; i < p; i++) {
+            XtWy[i] += w * X[t][i] * y[t];
+            for (let j = 0; j < p; j++) {
+                XtWX[i][j] += w * X[t][i] * X[t][j];
+            }
+        }
+    }
+
+    let coefficients: number[];
+    if (p === 1) {
+        coefficients = [XtWy[0] / XtWX[0][0]];
+    } else {
+        const det = XtWX[0][0] * XtWX[1][1] - XtWX[0][1] * XtWX[1][0];
+        coefficients = [
+            (XtWX[1][1] * XtWy[0] - XtWX[0][1] * XtWy[1]) / det,
+            (XtWX[0][0] * XtWy[1] - XtWX[1][0] * XtWy[0]) / det
+        ];
+    }
+
+    const residuals = y.map((yt, t) => yt - dot(X[t], coefficients));
+    const variance = residuals.reduce((s, e, t) => s + weights[t] * e * e, 0) / weightSum;
+    const valid = weightSum > 1e-8 && coefficients.every(c => isFinite(c)) && isFinite(variance);
+
+    return { coefficients, variance, residuals, valid };
+}
+
+function dot(a: number[], b: number[]): number {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+    return sum;
+}
+
+function normalLogDensity(residual: number, variance: number): number {
+    return -0.5 * Math.log(2 * Math.PI * variance) - residual * residual / (2 * variance);
+}
+
+// =============================================
+// GARCH-Family Estimation
+// Gaussian (quasi-)maximum likelihood on log returns; the recursion starts
+// from the sample variance and constraints are enforced by reparameterization
+// =============================================
+
+export interface GARCHEstimation {
+    variant: GARCHVariant;
+    config: GARCHConfig;                        // Ready to simulate from the last observation
+    parameters: Record<string, number>;         // mu, omega, alpha, beta (+ gamma), per step
+    standard_errors: Record<string, number>;    // From the observed information matrix
+    log_likelihood: number;
+    aic: number;
+    bic: number;
+    n_observations: number;
+    persistence: number;
+    unconditional_volatility: number;           // Per step
+    annualized_volatility: number;
+    conditional_volatility: number[];           // √h_t for each return
+    estimation_period: { start: string; end: string };
+    converged: boolean;
+    warning?: string;
+}
+
+/**
+ * Estimate GARCH(1,1), GJR-GARCH(1,1) or EGARCH(1,1) parameters from a
+ * price/value series
+ *
+ * @param values Positive observations (log returns are modelled)
+ * @param dt Time step in years, used only to annualize volatility
+ * @param variant Which conditional-variance recursion to fit
+ */
+export function estimateGARCHParams(
+    values: number[],
+    dt: number,
+    variant: GARCHVariant = 'garch',
+    startDate?: string,
+    endDate?: string
+): GARCHEstimation {
+    if (values.length < 30) {
+        throw new Error('Need at least 30 data points to estimate GARCH parameters');
+    }
+    if (values.some(v => v <= 0)) {
+        throw new Error('Values must be positive for GARCH estimation');
+    }
+
+    const returns = values.slice(1).map((v, i) => Math.log(v / values[i]));
+    const n = returns.length;
+    const sampleMean = mean(returns);
+    const sampleVariance = variance(returns, sampleMean);
+    if (!(sampleVariance > 0)) {
+        throw new Error('Returns have zero variance; GARCH is not identifiable');
+    }
+
+    const names = variant === 'garch'
+        ? ['mu', 'omega', 'alpha', 'beta']
+        : ['mu', 'omega', 'alpha', 'gamma', 'beta'];
+    const toConfig = (p: number[]): GARCHConfig => ({
+        variant,
+        mu: p[0],
+        omega: p[1],
+        alpha: p[2],
+        beta: p[names.length - 1],
+        gamma: variant === 'garch' ? 0 : p[3],
+        initialValue: values[values.length - 1]
+    });
+    const negLogLik = (p: number[]) => {
+        const config = toConfig(p);
+        if (variant !== 'egarch') {
+            if (!(config.omega > 0 && config.alpha >= 0 && config.beta >= 0 && (config.gamma ?? 0) >= 0)) {
+                return Infinity;
+            }
+            if (garchPersistence(config) >= 1) return Infinity;
+        } else if (!(Math.abs(config.beta) < 1)) {
+            return Infinity;
+        }
+        return -garchLogLikelihood(returns, config, sampleVariance);
+    };
+
+    // Unconstrained coordinates: positive weights normalized so persistence < 1
+    const fromFree = (q: number[]): number[] => {
+        if (variant === 'egarch') {
+            return [q[0], q[1], q[2], q[3], Math.tanh(q[4])];
+        }
+        const weights = q.slice(2).map(Math.exp);
+        const total = 1 + weights.reduce((s, w) => s + w, 0);
+        const shares = weights.map(w => w / total);
+        if (variant === 'gjr_garch') {
+            return [q[0], Math.exp(q[1]), shares[0], 2 * shares[1], shares[2]];
+        }
+        return [q[0], Math.exp(q[1]), shares[0], shares[1]];
+    };
+    const start = variant === 'garch'
+        ? [sampleMean, Math.log(0.07 * sampleVariance), Math.log(0.08 / 0.07), Math.log(0.85 / 0.07)]
+        : variant === 'gjr_garch'
+            ? [sampleMean, Math.log(0.05 * sampleVariance), 0, 0, Math.log(0.85 / 0.05)]
+            : [sampleMean, 0.1 * Math.log(sampleVariance), 0.1, -0.05, Math.atanh(0.9)];
+
+    const objective = (q: number[]) => negLogLik(fromFree(q));
+    let fit = nelderMead(objective, start, { maxIterations: 3000, initialStep: start.map(() => 0.2) });
+    // Restart once from the optimum; Nelder-Mead can stall on flat likelihoods
+    fit = nelderMead(objective, fit.x, { maxIterations: 3000, initialStep: start.map(() => 0.05) });
+
+    const estimate = fromFree(fit.x);
+    const config = toConfig(estimate);
+    const covariance = invertMatrix(numericalHessian(negLogLik, estimate));
+    const logLik = -negLogLik(estimate);
+    const k = estimate.length;
+
+    const variances = garchConditionalVariances(returns, config, sampleVariance);
+    config.initialVariance = garchNextVariance(config, variances[n - 1], returns[n - 1] - config.mu);
+
+    const persistence = garchPersistence(config);
+    const unconditionalVariance = garchUnconditionalVariance(config);
+    let warning: string | undefined;
+    if (variant !== 'egarch' && persistence > 0.99) {
+        warning = `Persistence ${persistence.toFixed(3)} is close to 1 (integrated GARCH); long-run volatility is poorly determined.`;
+    }
+
+    return {
+        variant,
+        config,
+        parameters: Object.fromEntries(names.map((name, i) => [name, estimate[i]])),
+        standard_errors: Object.fromEntries(names.map((name, i) => [
+            name,
+            covariance && covariance[i][i] > 0 ? Math.sqrt(covariance[i][i]) : NaN
+        ])),
+        log_likelihood: logLik,
+        aic: 2 * k - 2 * logLik,
+        bic: k * Math.log(n) - 2 * logLik,
+        n_observations: n,
+        persistence,
+        unconditional_volatility: Math.sqrt(unconditionalVariance),
+        annualized_volatility: Math.sqrt(unconditionalVariance / dt),
+        conditional_volatility: variances.map(Math.sqrt),
+        estimation_period: {
+            start: startDate || 'unknown',
+            end: endDate || 'unknown'
+        },
+        converged: fit.converged,
+        warning
+    };
+}
+
 // =============================================
 // Statistical Tests
 // =============================================
@@ -3,7 +3,13 @@
 // Evaluates events against Monte Carlo trajectories
 // =============================================
 
-import { MersenneTwister, sampleStandardNormal } from './random';
+import {
+    MersenneTwister,
+    sampleStandardNormal,
+    createStreamRng,
+    deriveStreamSeed,
+    RARE_EVENT_PILOT_STREAM
+} from './random';
 import {
     simulateGBMPath,
     simulateOUPath,
@@ -14,8 +20,20 @@ import {
     type HestonConfig,
     type JumpDiffusionConfig
 } from './processes';
-import { sampleFromCopula, type CopulaConfig } from './copulas';
-import { choleskyDecomposition } from './correlation';
+import {
+    copulaKendallsTau,
+    tailDependenceCoefficient,
+    tCopulaDegreesOfFreedom,
+    type CopulaConfig
+} from './copulas';
+import { createVineSampler } from './vine-copulas';
+import { normalQuantile, studentTQuantile } from './special-functions';
+import {
+    createEllipticalNoiseModel,
+    sampleNoiseVector,
+    DEFAULT_T_DEGREES_OF_FREEDOM,
+    type NoiseModel
+} from './dependence';
 import {
     type EventDefinition,
     type ThresholdBreachEvent,
@@ -23,6 +41,8 @@ import {
     type ConditionalEvent,
     type AtLeastKEvent,
     type SequenceEvent,
+    type PathConditionEvent,
+    type PathTransform,
     type EventVariable,
     type EventCopulaSpec,
     type EventSimulationConfig,
@@ -37,11 +57,34 @@ import {
     isConditionalEvent,
     isAtLeastKEvent,
     isSequenceEvent,
+    isPathCondition,
     extractVariables,
     getNumSteps,
     getDtYears,
     DEFAULT_SIMULATION_CONFIG
 } from './events';
+import { runBlocksInOrder, defaultBlockSize, type SimulationWorkerPool } from './parallel';
+import { gatherPath, choleskyMixColumns } from './columnar';
+import {
+    sobolNormalColumns,
+    sobolPointOf,
+    ControlAccumulator,
+    MeanAccumulator,
+    DEFAULT_SOBOL_REPLICATES,
+    SOBOL_MAX_DIMENSION
+} from './variance-reduction';
+import {
+    tiltLogWeights,
+    crossEntropyTilt,
+    runReplicatedSplitting,
+    RARE_EVENT_METHODS,
+    DEFAULT_PILOT_SCENARIOS,
+    MAX_CROSS_ENTROPY_ITERATIONS,
+    DEFAULT_LEVEL_PROBABILITY,
+    DEFAULT_SPLITTING_REPLICATES,
+    type SplittingModel
+} from './rare-events';
+import { adaptiveBatches, percentileStdError, DEFAULT_ADAPTIVE_BATCH_SIZE } from './adaptive';
 
 // =============================================
 // Main Simulation Function
@@ -53,14 +96,84 @@ import {
 export function runEventSimulation(
     event: EventDefinition,
     variables: EventVariable[],
-    copulaSpec?: EventCopulaSpec,
+    copulaSpec?: EventCopulaSpec | EventCopulaSpec[],
     config: EventSimulationConfig = DEFAULT_SIMULATION_CONFIG
 ): EventProbabilityResult {
     const startTime = Date.now();
+    const input = prepareTrajectoryInput(event, variables, copulaSpec, config);
+    if (!input.config.adaptive) {
+        const block = simulateTrajectoryBlock(input, 0, input.config.n_scenarios);
+        return summarizeEventSimulation(event, input, [block], startTime);
+    }
 
-    const rng = new MersenneTwister(config.random_seed ?? Date.now());
-    const numSteps = getNumSteps(config);
-    const dt = getDtYears(config);
+    // Adaptive: one block per batch until the target precision is reached
+    const tracker = createConvergenceTracker(event, input);
+    const blocks: TrajectoryBlock[] = [];
+    for (const [start, end] of tracker.batches) {
+        const block = simulateTrajectoryBlock(input, start, end);
+        blocks.push(block);
+        if (tracker.add([block])) break;
+    }
+    return summarizeEventSimulation(event, input, blocks, startTime, tracker.convergence);
+}
+
+/**
+ * Same as runEventSimulation with trajectories generated on a worker pool.
+ * Scenario i draws from stream i of the seed, so the result matches the
+ * in-thread run for the same seed whatever the pool size.
+ */
+export async function runEventSimulationParallel(
+    event: EventDefinition,
+    variables: EventVariable[],
+    copulaSpec: EventCopulaSpec | EventCopulaSpec[] | undefined,
+    config: EventSimulationConfig,
+    pool: SimulationWorkerPool,
+    blockSize?: number
+): Promise<EventProbabilityResult> {
+    const startTime = Date.now();
+    const input = prepareTrajectoryInput(event, variables, copulaSpec, config);
+    const nScenarios = input.config.n_scenarios;
+    const blocks: TrajectoryBlock[] = [];
+
+    const adaptive = input.config.adaptive;
+    const tracker = adaptive ? createConvergenceTracker(event, input) : undefined;
+
+    // Antithetic pairs must not straddle blocks
+    let size = blockSize ?? defaultBlockSize(adaptive?.batch_size ?? nScenarios, pool.size);
+    if (input.config.variance_reduction?.sampling === 'antithetic' && size % 2 === 1) size++;
+
+    const runScenarios = (first: number, end: number, consume: (block: TrajectoryBlock) => void) => runBlocksInOrder(
+        end,
+        size,
+        (start, blockEnd) => pool.run({ kind: 'event_trajectories', input, start, end: blockEnd }),
+        consume,
+        pool.size * 2,
+        first
+    );
+
+    if (tracker) {
+        for (const [first, end] of tracker.batches) {
+            const batch: TrajectoryBlock[] = [];
+            await runScenarios(first, end, block => batch.push(block));
+            blocks.push(...batch);
+            if (tracker.add(batch)) break;
+        }
+    } else {
+        await runScenarios(0, nScenarios, block => blocks.push(block));
+    }
+
+    return summarizeEventSimulation(event, input, blocks, startTime, tracker?.convergence);
+}
+
+/**
+ * Validate the event's variables and fix the seed shared by all trajectory blocks
+ */
+function prepareTrajectoryInput(
+    event: EventDefinition,
+    variables: EventVariable[],
+    copulaSpec: EventCopulaSpec | EventCopulaSpec[] | undefined,
+    config: EventSimulationConfig
+): EventTrajectoryInput {
     const variableNames = extractVariables(event);
 
     // Create variable lookup
@@ -74,34 +187,280 @@ export function runEventSimulation(
         }
     }
 
-    // Generate all trajectories
-    const trajectories = generateTrajectories(
-        rng,
-        variableNames,
-        varLookup,
-        numSteps,
-        dt,
-        config.n_scenarios,
-        copulaSpec,
-        config.use_copula_noise
+    const input: EventTrajectoryInput = {
+        variables: variableNames.map(name => varLookup.get(name)!),
+        copulaSpecs: copulaSpec ? (Array.isArray(copulaSpec) ? copulaSpec : [copulaSpec]) : [],
+        config: { ...config, random_seed: config.random_seed ?? Date.now() }
+    };
+    validateVarianceReduction(input);
+    validateAdaptive(input);
+
+    if (isConditionalEvent(event) && config.variance_reduction) {
+        throw new Error('Variance reduction is not supported for conditional events');
+    }
+
+    if (input.config.rare_event) {
+        const target = rareEventTarget(event);
+        validateRareEvent(target, input);
+        if (input.config.rare_event.method === 'importance_sampling') {
+            input.tilt = calibrateTilt(target, input);
+        }
+    }
+    return input;
+}
+
+/**
+ * Antithetic pairs need symmetric (Gaussian or Student-t) noise, Sobol
+ * points Gaussian noise; Sobol carries its own error estimate and is not
+ * combined with control variates
+ */
+function validateVarianceReduction(input: EventTrajectoryInput): void {
+    const reduction = input.config.variance_reduction;
+    if (!reduction) return;
+    const sampling = reduction.sampling ?? 'pseudo';
+    const { kind } = buildNoiseModel(input.variables.map(v => v.name), input.copulaSpecs, input.config.use_copula_noise);
+
+    if (sampling === 'antithetic' && (kind === 'copula' || kind === 'vine')) {
+        throw new Error('Antithetic sampling needs Gaussian or Student-t dependence; Archimedean and vine copulas are not symmetric');
+    }
+    if (sampling === 'sobol') {
+        if (kind !== 'gaussian' && kind !== 'independent') {
+            throw new Error('Sobol sampling supports Gaussian dependence only');
+        }
+        if (input.variables.length * getNumSteps(input.config) > SOBOL_MAX_DIMENSION) {
+            throw new Error(`Sobol sampling supports at most ${SOBOL_MAX_DIMENSION} variables × steps`);
+        }
+        if (reduction.control_variates) {
+            throw new Error('Control variates cannot be combined with Sobol sampling');
+        }
+        const replicates = reduction.sobol_replicates ?? DEFAULT_SOBOL_REPLICATES;
+        if (!(Number.isInteger(replicates) && replicates >= 2 && replicates * 2 <= input.config.n_scenarios)) {
+            throw new Error('sobol_replicates must be an integer of at least 2 with at least 2 scenarios per replicate');
+        }
+    }
+    if (reduction.control_variates && !input.variables.some(v => terminalMean(v, input.config) !== undefined)) {
+        throw new Error('Control variates need a GBM or Ornstein-Uhlenbeck event variable');
+    }
+}
+
+/**
+ * Adaptive runs track exactly one target. Sobol point sets depend on the
+ * final scenario count and splitting does not run in scenario batches.
+ */
+function validateAdaptive(input: EventTrajectoryInput): void {
+    const adaptive = input.config.adaptive;
+    if (!adaptive) return;
+    const target = adaptive.target_percentile;
+
+    if ((adaptive.target_ci_half_width === undefined) === (target === undefined)) {
+        throw new Error('Adaptive runs need exactly one of target_ci_half_width and target_percentile');
+    }
+    if (input.config.variance_reduction?.sampling === 'sobol') {
+        throw new Error('Adaptive runs cannot use Sobol sampling');
+    }
+    if (input.config.rare_event?.method === 'splitting') {
+        throw new Error('Adaptive runs cannot use splitting');
+    }
+    if (target) {
+        if (!input.variables.some(v => v.name === target.variable)) {
+            throw new Error(`Adaptive target variable "${target.variable}" is not an event variable`);
+        }
+        if (!(target.percentile > 0 && target.percentile < 100 && target.std_error > 0)) {
+            throw new Error('target_percentile needs a percentile in (0, 100) and a positive std_error');
+        }
+        if (input.config.rare_event) {
+            throw new Error('Percentile targets are not supported with importance sampling');
+        }
+    } else if (!(adaptive.target_ci_half_width! > 0)) {
+        throw new Error('target_ci_half_width must be positive');
+    }
+}
+
+/**
+ * Precision of an adaptive run after each batch: the 95% CI half-width of
+ * the event probability, or the standard error of a horizon percentile
+ */
+interface ConvergenceTracker {
+    batches: [number, number][];
+    convergence: NonNullable<EventProbabilityResult['convergence']>;
+    add(blocks: TrajectoryBlock[]): boolean;    // Fold in a batch; true once the target is met
+}
+
+function createConvergenceTracker(event: EventDefinition, input: EventTrajectoryInput): ConvergenceTracker {
+    const { config } = input;
+    const adaptive = config.adaptive!;
+    const target = adaptive.target_percentile;
+    const variableNames = input.variables.map(v => v.name);
+    const numSteps = getNumSteps(config);
+    const column = target ? variableNames.indexOf(target.variable) : -1;
+
+    const occurred: boolean[] = [];
+    const given: boolean[] = [];
+    const weights: number[] = [];
+    const finalValues: number[] = [];
+    const convergence: ConvergenceTracker['convergence'] = { converged: false, trace: [] };
+
+    return {
+        batches: adaptiveBatches(
+            config.n_scenarios,
+            adaptive.batch_size ?? DEFAULT_ADAPTIVE_BATCH_SIZE,
+            config.variance_reduction?.sampling === 'antithetic'
+        ),
+        convergence,
+        add(blocks) {
+            for (const block of blocks) {
+                if (target) {
+                    const offset = (column * (numSteps + 1) + numSteps) * block.count;
+                    block.values.subarray(offset, offset + block.count).forEach(value => finalValues.push(value));
+                } else {
+                    blockEventOccurrences(event, variableNames, config, block).forEach(x => occurred.push(x));
+                    if (isConditionalEvent(event)) {
+                        blockEventOccurrences(event.given, variableNames, config, block).forEach(x => given.push(x));
+                    }
+                    if (input.tilt) blockImportanceWeights(input, block).forEach(w => weights.push(w));
+                }
+            }
+
+            let estimate: number;
+            let precision: number;
+            if (target) {
+                const sorted = [...finalValues].sort((a, b) => a - b);
+                const quantile = (p: number) => percentile(sorted, p);
+                estimate = quantile(target.percentile);
+                precision = percentileStdError(quantile, target.percentile, sorted.length);
+            } else {
+                const probability = isConditionalEvent(event)
+                    ? calculateConditionalProbability(occurred, given).probability
+                    : calculateProbabilityWithCI(occurred, input.tilt ? Float64Array.from(weights) : undefined);
+                estimate = probability.mean;
+                precision = (probability.ci_95[1] - probability.ci_95[0]) / 2;
+            }
+
+            convergence.trace.push({ n_scenarios: target ? finalValues.length : occurred.length, estimate, precision });
+            convergence.converged = precision <= (target ? target.std_error : adaptive.target_ci_half_width!);
+            return convergence.converged;
+        }
+    };
+}
+
+/**
+ * Expected terminal value of a variable under the event dynamics
+ * (Milstein GBM, Euler OU), where it has one in closed form
+ */
+function terminalMean(variable: EventVariable, config: EventSimulationConfig): number | undefined {
+    const numSteps = getNumSteps(config);
+    const dt = getDtYears(config);
+    switch (variable.sde_model) {
+        case 'gbm': {
+            const params = variable.parameters as GBMParameters;
+            return variable.initial_value * Math.pow(1 + params.mu * dt, numSteps);
+        }
+        case 'ornstein_uhlenbeck': {
+            const params = variable.parameters as OUParameters;
+            return params.mu + (variable.initial_value - params.mu) * Math.pow(1 - params.theta * dt, numSteps);
+        }
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Event probability with its error under the configured variance reduction;
+ * antithetic pairs enter as pair means, Sobol replicates as groups
+ */
+function estimateEventProbability(
+    eventOccurred: boolean[],
+    input: EventTrajectoryInput,
+    trajectories: Map<string, number[][]>
+): EventProbabilityResult['variance_reduction'] {
+    const { config } = input;
+    const reduction = config.variance_reduction!;
+    const sampling = reduction.sampling ?? 'pseudo';
+    const n = eventOccurred.length;
+    const numSteps = getNumSteps(config);
+
+    const controls = reduction.control_variates
+        ? input.variables
+            .map(v => ({ name: v.name, mean: terminalMean(v, config) }))
+            .filter((c): c is { name: string; mean: number } => c.mean !== undefined)
+        : [];
+    const replicates = sampling === 'sobol' ? reduction.sobol_replicates ?? DEFAULT_SOBOL_REPLICATES : 0;
+    const antithetic = sampling === 'antithetic';
+
+    const controlSums = new ControlAccumulator(controls.length);
+    const estimator = new MeanAccumulator(controls.length, replicates);
+    const x = new Float64Array(controls.length);
+
+    // An odd-sized antithetic run leaves its last scenario unpaired
+    for (let s = 0; s + (antithetic ? 1 : 0) < n; s += antithetic ? 2 : 1) {
+        const observe = (f: (k: number) => number) => (antithetic ? 0.5 * (f(s) + f(s + 1)) : f(s));
+        const y = observe(k => (eventOccurred[k] ? 1 : 0));
+        if (controls.length > 0) {
+            controls.forEach((c, j) => {
+                const paths = trajectories.get(c.name)!;
+                x[j] = observe(k => paths[k][numSteps]) - c.mean;
+            });
+            controlSums.add(x);
+            estimator.addWithControls(y, x, controlSums);
+        } else {
+            estimator.add(y, replicates ? sobolPointOf(s, n, replicates).replicate : undefined);
+        }
+    }
+
+    const p = eventOccurred.filter(Boolean).length / n;
+    const estimate = estimator.estimate(
+        n > 1 ? p * (1 - p) * n / (n - 1) : 0,
+        n,
+        controls.length > 0 ? controlSums : undefined
     );
 
-    // Evaluate event for each scenario
-    const eventOccurred: boolean[] = new Array(config.n_scenarios);
+    return {
+        sampling,
+        control_variables: controls.length > 0 ? controls.map(c => c.name) : undefined,
+        probability: estimate.mean,
+        std_error: estimate.stdError,
+        plain_std_error: estimate.plainStdError,
+        variance_reduction_factor: estimate.varianceReductionFactor
+    };
+}
+
+/**
+ * Evaluate the event on every scenario and aggregate probabilities and risk metrics
+ */
+function summarizeEventSimulation(
+    event: EventDefinition,
+    input: EventTrajectoryInput,
+    blocks: TrajectoryBlock[],
+    startTime: number,
+    convergence?: EventProbabilityResult['convergence']
+): EventProbabilityResult {
+    // Adaptive runs may stop short of n_scenarios
+    const nScenarios = blocks.reduce((n, block) => n + block.count, 0);
+    const variableNames = input.variables.map(v => v.name);
+    const trajectories = trajectoriesFromBlocks(variableNames, getNumSteps(input.config), blocks);
+
+    // Evaluate event for each scenario, and the conditioning event of P(A | B)
+    const eventOccurred: boolean[] = new Array(nScenarios);
+    const givenOccurred: boolean[] | undefined = isConditionalEvent(event) ? new Array(nScenarios) : undefined;
+    const eventSteps = new Int32Array(nScenarios);
     const perVariableOccurred: Map<string, boolean[]> = new Map();
 
     // Initialize per-variable tracking
     variableNames.forEach(name => {
-        perVariableOccurred.set(name, new Array(config.n_scenarios));
+        perVariableOccurred.set(name, new Array(nScenarios));
     });
 
-    for (let i = 0; i < config.n_scenarios; i++) {
+    for (let i = 0; i < nScenarios; i++) {
         const scenarioTrajectories = new Map<string, number[]>();
         variableNames.forEach(name => {
             scenarioTrajectories.set(name, trajectories.get(name)![i]);
         });
 
-        eventOccurred[i] = evaluateEvent(event, scenarioTrajectories);
+        eventOccurred[i] = evaluateEvent(event, scenarioTrajectories, input.config.dt_months);
+        eventSteps[i] = firstEventStep(event, scenarioTrajectories, input.config.dt_months);
+        if (givenOccurred) {
+            givenOccurred[i] = evaluateEvent((event as ConditionalEvent).given, scenarioTrajectories, input.config.dt_months);
+        }
 
         // Track per-variable threshold breaches for decomposition
         variableNames.forEach(name => {
@@ -115,21 +474,60 @@ export function runEventSimulation(
         });
     }
 
-    // Calculate probability with confidence interval
-    const probability = calculateProbabilityWithCI(eventOccurred);
+    // Likelihood ratios of importance-sampled scenarios
+    const weights = input.tilt ? importanceWeights(input, blocks) : undefined;
+
+    // Calculate probability with confidence interval; P(A | B) for conditional events
+    let probability = calculateProbabilityWithCI(eventOccurred, weights);
+    let conditional: EventProbabilityResult['conditional'];
+    if (givenOccurred) {
+        ({ probability, conditional } = calculateConditionalProbability(eventOccurred, givenOccurred));
+    }
 
     // Calculate decomposition
     const decomposition = calculateDecomposition(
         eventOccurred,
         perVariableOccurred,
-        variableNames
+        variableNames,
+        weights
     );
+    if (input.config.shapley_attribution) {
+        decomposition.shapley = calculateShapleyAttribution(event, trajectories, input.config, weights);
+    }
 
     // Calculate percentiles for each variable
-    const percentiles = calculatePercentiles(trajectories, variableNames);
+    const percentiles = calculatePercentiles(trajectories, variableNames, weights);
 
     // Calculate VaR and ES if applicable (for portfolio value)
-    const { var_99, es_99 } = calculateRiskMetrics(trajectories, variableNames);
+    const { var_99, es_99 } = calculateRiskMetrics(trajectories, variableNames, weights);
+
+    // Splitting replaces the counted probability; the plain run still
+    // provides the decomposition and distribution statistics
+    let rareEvent: EventProbabilityResult['rare_event'];
+    if (weights) {
+        rareEvent = {
+            method: 'importance_sampling',
+            tilt: Object.fromEntries(variableNames.map((name, i) => [name, input.tilt![i]])),
+            effective_sample_size: effectiveSampleSize(eventOccurred, weights)
+        };
+    } else if (input.config.rare_event?.method === 'splitting') {
+        const replicates = input.config.rare_event.replicates ?? DEFAULT_SPLITTING_REPLICATES;
+        const splitting = runReplicatedSplitting(
+            eventSplittingModel(rareEventTarget(event), input),
+            getNumSteps(input.config),
+            nScenarios,
+            input.config.rare_event.level_probability ?? DEFAULT_LEVEL_PROBABILITY,
+            input.config.random_seed!,
+            replicates
+        );
+        probability = probabilityWithNormalCI(splitting.probability, splitting.stdError, replicates - 1);
+        rareEvent = {
+            method: 'splitting',
+            levels: splitting.levels,
+            level_probabilities: splitting.levelProbabilities,
+            replicate_probabilities: splitting.replicateProbabilities
+        };
+    }
 
     const computationTime = Date.now() - startTime;
 
@@ -139,8 +537,15 @@ export function runEventSimulation(
         percentiles,
         var_99,
         es_99,
-        n_scenarios: config.n_scenarios,
-        computation_time_ms: computationTime
+        n_scenarios: nScenarios,
+        computation_time_ms: computationTime,
+        variance_reduction: input.config.variance_reduction
+            ? estimateEventProbability(eventOccurred, input, trajectories)
+            : undefined,
+        rare_event: rareEvent,
+        convergence,
+        time_to_event: calculateTimeToEvent(eventSteps, input.config, weights, givenOccurred),
+        conditional
     };
 }
 
@@ -148,210 +553,589 @@ export function runEventSimulation(
 // Trajectory Generation
 // =============================================
 
+/** Correlation used when several variables are simulated without any copula spec */
+const DEFAULT_NOISE_CORRELATION = 0.3;
+
 /**
- * Generate Monte Carlo trajectories for all variables
+ * Build the joint noise model for the event variables.
+ *
+ * - A single multivariate spec (no variable_pair) with gaussian/student_t uses
+ *   its correlation_matrix (reordered via `variables`) or, if absent, an
+ *   equicorrelation matrix with parameters.rho.
+ * - A single multivariate Archimedean spec samples the exchangeable
+ *   d-dimensional copula directly.
+ * - A vine_c / vine_d / vine_r spec samples its pair-copula construction;
+ *   pair-specific specs are ignored since the vine already covers every pair.
+ * - Pair-specific specs are combined into one elliptical model: each pair
+ *   contributes ρ = sin(πτ/2) from its Kendall's tau, and tail-dependent pairs
+ *   set the Student-t ν so that the t-copula matches the strongest pairwise
+ *   tail dependence. The merged matrix is repaired to be positive-definite.
  */
-function generateTrajectories(
-    rng: MersenneTwister,
+export function buildNoiseModel(
     variableNames: string[],
-    varLookup: Map<string, EventVariable>,
-    numSteps: number,
-    dt: number,
-    nScenarios: number,
-    copulaSpec?: EventCopulaSpec,
+    copulaSpecs: EventCopulaSpec[],
     useCopulaNoise: boolean = true
-): Map<string, number[][]> {
-    const trajectories = new Map<string, number[][]>();
-    variableNames.forEach(name => trajectories.set(name, []));
-
+): NoiseModel {
     const d = variableNames.length;
+    if (d < 2) return { kind: 'independent' };
 
-    // Determine noise generation method
-    let copulaConfig: CopulaConfig | null = null;
-    let correlationMatrix: number[][] | null = null;
-    let choleskyL: number[][] | null = null;
-
-    if (d > 1 && copulaSpec && useCopulaNoise) {
-        // Use copula-based noise
-        copulaConfig = mapCopulaSpecToConfig(copulaSpec);
-    } else if (d > 1) {
-        // Use default Gaussian correlation (identity = independent)
-        correlationMatrix = Array(d).fill(null).map((_, i) =>
-            Array(d).fill(0).map((_, j) => i === j ? 1 : 0.3) // Default mild correlation
+    if (!useCopulaNoise || copulaSpecs.length === 0) {
+        // Default mild correlation
+        const matrix = Array(d).fill(null).map((_, i) =>
+            Array(d).fill(0).map((_, j) => i === j ? 1 : DEFAULT_NOISE_CORRELATION)
         );
-        choleskyL = choleskyDecomposition(correlationMatrix);
+        return createEllipticalNoiseModel(matrix);
     }
 
-    // Generate all scenarios
-    for (let scenario = 0; scenario < nScenarios; scenario++) {
-        // Generate correlated noise paths for this scenario
-        const noisePaths: number[][] = generateCorrelatedNoisePaths(
-            rng, d, numSteps, copulaConfig, choleskyL
-        );
+    const pairSpecs = copulaSpecs.filter(spec => spec.variable_pair);
+    const jointSpec = copulaSpecs.find(spec => !spec.variable_pair);
+
+    if (jointSpec && isVineFamily(jointSpec.family)) {
+        return makeVineNoiseModel(jointSpec, variableNames);
+    }
 
-        // Simulate each variable
-        variableNames.forEach((name, idx) => {
-            const variable = varLookup.get(name)!;
-            const noise = noisePaths[idx];
-
-            const path = simulateVariablePath(
-                rng,
-                variable,
-                numSteps,
-                dt,
-                noise
+    if (pairSpecs.length === 0 && jointSpec) {
+        if (isEllipticalFamily(jointSpec.family)) {
+            const matrix = buildSpecCorrelationMatrix(jointSpec, variableNames);
+            return createEllipticalNoiseModel(
+                matrix,
+                jointSpec.family === 'student_t'
+                    ? jointSpec.parameters.nu || DEFAULT_T_DEGREES_OF_FREEDOM
+                    : undefined
             );
+        }
+        return { kind: 'copula', copula: mapCopulaSpecToConfig(jointSpec, d) };
+    }
 
-            trajectories.get(name)!.push(path);
-        });
+    // Pair-specific specs on top of the joint matrix (identity if none)
+    const matrix = jointSpec && isEllipticalFamily(jointSpec.family)
+        ? buildSpecCorrelationMatrix(jointSpec, variableNames)
+        : identityMatrix(d);
+    let degreesOfFreedom = jointSpec?.family === 'student_t'
+        ? jointSpec.parameters.nu || DEFAULT_T_DEGREES_OF_FREEDOM
+        : Infinity;
+
+    for (const spec of pairSpecs) {
+        const [a, b] = spec.variable_pair!;
+        const i = variableNames.indexOf(a);
+        const j = variableNames.indexOf(b);
+        // Pairs for variables outside this event do not affect its noise
+        if (i === -1 || j === -1 || i === j) continue;
+
+        let rho: number;
+        let pairNu = Infinity;
+        if (isEllipticalFamily(spec.family)) {
+            rho = spec.parameters.rho ?? 0;
+            if (spec.family === 'student_t') {
+                pairNu = spec.parameters.nu || DEFAULT_T_DEGREES_OF_FREEDOM;
+            }
+        } else {
+            const config = mapCopulaSpecToConfig(spec, 2);
+            rho = Math.sin(Math.PI * copulaKendallsTau(config) / 2);
+
+            const lambda = spec.tail_dependence
+                ? Math.max(spec.tail_dependence.lambda_lower, spec.tail_dependence.lambda_upper)
+                : pairTailDependence(config);
+            if (lambda > 0) {
+                // Negative ρ puts t-copula tail dependence in the discordant corners
+                pairNu = tCopulaDegreesOfFreedom(Math.abs(rho), lambda);
+            }
+        }
+
+        rho = Math.max(-0.999, Math.min(0.999, rho));
+        matrix[i][j] = rho;
+        matrix[j][i] = rho;
+        degreesOfFreedom = Math.min(degreesOfFreedom, pairNu);
     }
 
+    return createEllipticalNoiseModel(
+        matrix,
+        isFinite(degreesOfFreedom) ? degreesOfFreedom : undefined
+    );
+}
+
+export interface EventTrajectoryInput {
+    variables: EventVariable[];         // In event variable order
+    copulaSpecs: EventCopulaSpec[];
+    config: EventSimulationConfig;      // random_seed must be set
+    tilt?: number[];                    // Importance sampling: mean of each variable's independent step normal
+}
+
+/**
+ * Trajectories of a contiguous range of scenarios, as returned by a worker
+ */
+export interface TrajectoryBlock {
+    start: number;
+    count: number;
+    values: Float64Array;               // [variable][step][scenario], numSteps + 1 steps
+    noiseSums?: Float64Array;           // Tilted runs: sum of each scenario's step normals, [variable][scenario]
+}
+
+/**
+ * Generate Monte Carlo trajectories for scenarios [start, end)
+ */
+export function simulateTrajectoryBlock(
+    input: EventTrajectoryInput,
+    start: number,
+    end: number
+): TrajectoryBlock {
+    const { variables, config } = input;
+    if (config.random_seed === undefined) {
+        throw new Error('Trajectory blocks need a fixed random_seed');
+    }
+    const seed = config.random_seed;
+
+    const numSteps = getNumSteps(config);
+    const dt = getDtYears(config);
+    const count = end - start;
+
+    // Noise models hold samplers, so each block rebuilds its own from the specs
+    const noiseModel = buildNoiseModel(variables.map(v => v.name), input.copulaSpecs, config.use_copula_noise);
+    const rngs = Array.from({ length: count }, (_, s) => createStreamRng(seed, start + s));
+
+    const sampling = config.variance_reduction?.sampling ?? 'pseudo';
+    if (sampling === 'antithetic' && start % 2 === 1) {
+        throw new Error('Antithetic trajectory blocks must start on an even scenario');
+    }
+
+    // Correlated noise for every scenario first, then each variable's path
+    let noise: Float64Array;
+    let noiseSums: Float64Array | undefined;
+    if (input.tilt) {
+        ({ noise, noiseSums } = generateTiltedNoiseColumns(rngs, numSteps, noiseModel, input.tilt));
+    } else if (sampling === 'sobol') {
+        noise = correlateNoiseColumns(
+            sobolNormalColumns(
+                seed,
+                config.n_scenarios,
+                config.variance_reduction?.sobol_replicates ?? DEFAULT_SOBOL_REPLICATES,
+                start,
+                end,
+                variables.length,
+                numSteps
+            ),
+            noiseModel,
+            variables.length
+        );
+    } else {
+        noise = generateCorrelatedNoiseColumns(rngs, variables.length, numSteps, noiseModel, sampling === 'antithetic');
+    }
+    const values = new Float64Array(variables.length * (numSteps + 1) * count);
+
+    variables.forEach((variable, idx) => {
+        simulateVariableColumns(
+            rngs,
+            variable,
+            numSteps,
+            dt,
+            noise.subarray(idx * numSteps * count, (idx + 1) * numSteps * count),
+            values.subarray(idx * (numSteps + 1) * count, (idx + 1) * (numSteps + 1) * count)
+        );
+    });
+
+    return noiseSums ? { start, count, values, noiseSums } : { start, count, values };
+}
+
+/**
+ * Per-variable scenario paths from blocks in scenario order
+ */
+function trajectoriesFromBlocks(
+    variableNames: string[],
+    numSteps: number,
+    blocks: TrajectoryBlock[]
+): Map<string, number[][]> {
+    const trajectories = new Map<string, number[][]>();
+
+    variableNames.forEach((name, idx) => {
+        const paths: number[][] = [];
+        for (const block of blocks) {
+            for (let s = 0; s < block.count; s++) {
+                paths.push(gatherPath(block.values, block.count, numSteps + 1, idx, s));
+            }
+        }
+        trajectories.set(name, paths);
+    });
+
     return trajectories;
 }
 
 /**
- * Generate correlated noise paths using copula or Cholesky
+ * Whether the event occurred in each scenario of a block
  */
-function generateCorrelatedNoisePaths(
-    rng: MersenneTwister,
+function blockEventOccurrences(
+    event: EventDefinition,
+    variableNames: string[],
+    config: EventSimulationConfig,
+    block: TrajectoryBlock
+): boolean[] {
+    const trajectories = trajectoriesFromBlocks(variableNames, getNumSteps(config), [block]);
+    return Array.from({ length: block.count }, (_, s) =>
+        evaluateEvent(event, new Map(variableNames.map(name => [name, trajectories.get(name)![s]])), config.dt_months)
+    );
+}
+
+/**
+ * Generate correlated standard normal noise from the joint noise model,
+ * as columns [variable][step][scenario]. Each scenario draws all its steps
+ * from its own generator. Copula uniforms are mapped to N(0,1) margins so
+ * every SDE keeps its marginal dynamics while sharing the copula's dependence.
+ * With `antithetic`, scenario 2k+1 takes the negated noise of scenario 2k.
+ */
+function generateCorrelatedNoiseColumns(
+    rngs: MersenneTwister[],
     d: number,
     numSteps: number,
-    copulaConfig: CopulaConfig | null,
-    choleskyL: number[][] | null
-): number[][] {
-    // Each path is numSteps long, for d variables
-    const paths: number[][] = Array(d).fill(null).map(() => []);
+    noiseModel: NoiseModel,
+    antithetic: boolean = false
+): Float64Array {
+    const nScenarios = rngs.length;
+    const noise = new Float64Array(d * numSteps * nScenarios);
+
+    for (let s = 0; s < nScenarios; s++) {
+        if (antithetic && s % 2 === 1) {
+            for (let offset = s; offset < noise.length; offset += nScenarios) {
+                noise[offset] = -noise[offset - 1];
+            }
+            continue;
+        }
+        for (let t = 0; t < numSteps; t++) {
+            const correlatedNoise = sampleNoiseVector(rngs[s], noiseModel, d);
 
-    for (let t = 0; t < numSteps; t++) {
-        let correlatedNoise: number[];
-
-        if (copulaConfig && d === 2) {
-            // Sample from copula and transform to normal
-            const [u1, u2] = sampleFromCopula(rng, copulaConfig, 1)[0];
-            correlatedNoise = [
-                normalQuantile(u1),
-                normalQuantile(u2)
-            ];
-        } else if (choleskyL) {
-            // Use Cholesky decomposition for Gaussian correlation
-            const z = Array(d).fill(0).map(() => sampleStandardNormal(rng));
-            correlatedNoise = [];
             for (let i = 0; i < d; i++) {
-                let sum = 0;
-                for (let j = 0; j <= i; j++) {
-                    sum += choleskyL[i][j] * z[j];
-                }
-                correlatedNoise.push(sum);
+                noise[(i * numSteps + t) * nScenarios + s] = correlatedNoise[i];
             }
-        } else {
-            // Independent noise
-            correlatedNoise = Array(d).fill(0).map(() => sampleStandardNormal(rng));
         }
+    }
 
-        for (let i = 0; i < d; i++) {
-            paths[i].push(correlatedNoise[i]);
+    return noise;
+}
+
+/**
+ * Correlate independent normal columns [variable][step][scenario] in bulk
+ * with a Gaussian noise model's Cholesky factor
+ */
+function correlateNoiseColumns(normals: Float64Array, noiseModel: NoiseModel, d: number): Float64Array {
+    if (noiseModel.kind !== 'gaussian') return normals;
+    const size = normals.length / d;
+    const columns = (buffer: Float64Array) =>
+        Array.from({ length: d }, (_, i) => buffer.subarray(i * size, (i + 1) * size));
+    const noise = new Float64Array(normals.length);
+    choleskyMixColumns(noiseModel.choleskyL, columns(normals), columns(noise));
+    return noise;
+}
+
+/**
+ * Independent step normals drawn from N(θ, I) instead of N(0, I) and
+ * correlated in bulk by a Gaussian noise model, with each scenario's
+ * per-variable sums of the drawn normals for its likelihood ratio
+ */
+function generateTiltedNoiseColumns(
+    rngs: MersenneTwister[],
+    numSteps: number,
+    noiseModel: NoiseModel,
+    tilt: number[]
+): { noise: Float64Array; noiseSums: Float64Array } {
+    const nScenarios = rngs.length;
+    const d = tilt.length;
+    const normals = new Float64Array(d * numSteps * nScenarios);
+    const noiseSums = new Float64Array(d * nScenarios);
+
+    for (let s = 0; s < nScenarios; s++) {
+        for (let t = 0; t < numSteps; t++) {
+            for (let i = 0; i < d; i++) {
+                const z = sampleStandardNormal(rngs[s]) + tilt[i];
+                normals[(i * numSteps + t) * nScenarios + s] = z;
+                noiseSums[i * nScenarios + s] += z;
+            }
         }
     }
 
-    return paths;
+    return { noise: correlateNoiseColumns(normals, noiseModel, d), noiseSums };
 }
 
 /**
- * Simulate a single variable path with pre-generated noise
+ * Simulate one variable's paths for all scenarios with pre-generated noise
+ * columns [step][scenario], writing columns [step][scenario] into `out`
  */
-function simulateVariablePath(
-    rng: MersenneTwister,
+function simulateVariableColumns(
+    rngs: MersenneTwister[],
     variable: EventVariable,
     numSteps: number,
     dt: number,
-    noise: number[]
-): number[] {
-    const path: number[] = [variable.initial_value];
-    let current = variable.initial_value;
+    noise: Float64Array,
+    out: Float64Array
+): void {
+    const nScenarios = rngs.length;
+    const sqrtDt = Math.sqrt(dt);
+    out.fill(variable.initial_value, 0, nScenarios);
+    const variance = new Float64Array(nScenarios).fill(initialEventVariance(variable));
+
+    for (let t = 0; t < numSteps; t++) {
+        const from = t * nScenarios;
+        for (let s = 0; s < nScenarios; s++) {
+            out[from + nScenarios + s] = stepEventVariable(
+                variable, out[from + s], noise[from + s] * sqrtDt, dt, sqrtDt, rngs[s], variance, s
+            );
+        }
+    }
+}
 
+/** Starting variance of the Heston variance process (0 for other models) */
+function initialEventVariance(variable: EventVariable): number {
+    return variable.sde_model === 'heston' ? (variable.parameters as HestonParameters).initial_variance : 0;
+}
+
+/**
+ * One step of a variable from `current` with Brownian increment dW.
+ * Heston keeps its variance in variance[slot]; Heston and Merton draw
+ * their extra randomness from `rng`. Models without event dynamics
+ * stay at their initial value.
+ */
+function stepEventVariable(
+    variable: EventVariable,
+    current: number,
+    dW: number,
+    dt: number,
+    sqrtDt: number,
+    rng: MersenneTwister,
+    variance: Float64Array,
+    slot: number
+): number {
     switch (variable.sde_model) {
         case 'gbm': {
             const params = variable.parameters as GBMParameters;
-            for (let t = 0; t < numSteps; t++) {
-                const dW = noise[t] * Math.sqrt(dt);
-                // GBM step with Milstein
-                const drift = params.mu * current * dt;
-                const diffusion = params.sigma * current * dW;
-                const milstein = 0.5 * params.sigma * params.sigma * current * (dW * dW - dt);
-                current = Math.max(1e-10, current + drift + diffusion + milstein);
-                path.push(current);
-            }
-            break;
+            // GBM step with Milstein
+            const drift = params.mu * current * dt;
+            const diffusion = params.sigma * current * dW;
+            const milstein = 0.5 * params.sigma * params.sigma * current * (dW * dW - dt);
+            return Math.max(1e-10, current + drift + diffusion + milstein);
         }
 
         case 'ornstein_uhlenbeck': {
             const params = variable.parameters as OUParameters;
-            for (let t = 0; t < numSteps; t++) {
-                const dW = noise[t] * Math.sqrt(dt);
-                // OU step (Euler)
-                current = current + params.theta * (params.mu - current) * dt + params.sigma * dW;
-                path.push(current);
-            }
-            break;
+            // OU step (Euler)
+            return current + params.theta * (params.mu - current) * dt + params.sigma * dW;
         }
 
         case 'heston': {
             const params = variable.parameters as HestonParameters;
-            let variance = params.initial_variance;
-            for (let t = 0; t < numSteps; t++) {
-                const dW_S = noise[t] * Math.sqrt(dt);
-                // Correlated noise for variance
-                const z2 = sampleStandardNormal(rng);
-                const dW_v = params.rho * dW_S + Math.sqrt(1 - params.rho * params.rho) * z2 * Math.sqrt(dt);
-
-                // Full Truncation
-                const v_plus = Math.max(0, variance);
-                const sqrtV = Math.sqrt(v_plus);
-
-                current = current * Math.exp(
-                    (params.mu - 0.5 * v_plus) * dt + sqrtV * dW_S
-                );
-                current = Math.max(1e-10, current);
+            // Correlated noise for variance
+            const z2 = sampleStandardNormal(rng);
+            const dW_v = params.rho * dW + Math.sqrt(1 - params.rho * params.rho) * z2 * sqrtDt;
 
-                variance = variance + params.kappa * (params.theta - v_plus) * dt + params.xi * sqrtV * dW_v;
-                path.push(current);
-            }
-            break;
+            // Full Truncation
+            const v_plus = Math.max(0, variance[slot]);
+            const sqrtV = Math.sqrt(v_plus);
+
+            const next = current * Math.exp(
+                (params.mu - 0.5 * v_plus) * dt + sqrtV * dW
+            );
+            variance[slot] = variance[slot] + params.kappa * (params.theta - v_plus) * dt + params.xi * sqrtV * dW_v;
+            return Math.max(1e-10, next);
         }
 
         case 'merton_jump': {
             const params = variable.parameters as MertonJumpParameters;
-            for (let t = 0; t < numSteps; t++) {
-                const dW = noise[t] * Math.sqrt(dt);
-
-                // Diffusion part
-                let logReturn = (params.mu - 0.5 * params.sigma * params.sigma) * dt
-                    + params.sigma * dW;
-
-                // Jump part (Poisson)
-                const nJumps = samplePoisson(rng, params.lambda * dt);
-                for (let j = 0; j < nJumps; j++) {
-                    const jumpSize = params.mu_jump + params.sigma_jump * sampleStandardNormal(rng);
-                    logReturn += jumpSize;
-                }
 
-                current = current * Math.exp(logReturn);
-                current = Math.max(1e-10, current);
-                path.push(current);
+            // Diffusion part
+            let logReturn = (params.mu - 0.5 * params.sigma * params.sigma) * dt
+                + params.sigma * dW;
+
+            // Jump part (Poisson)
+            const nJumps = samplePoisson(rng, params.lambda * dt);
+            for (let j = 0; j < nJumps; j++) {
+                const jumpSize = params.mu_jump + params.sigma_jump * sampleStandardNormal(rng);
+                logReturn += jumpSize;
             }
-            break;
+
+            return Math.max(1e-10, current * Math.exp(logReturn));
         }
 
-        case 'deterministic': {
-            const params = variable.parameters as { value: number };
-            for (let t = 0; t < numSteps; t++) {
-                path.push(params.value);
-            }
-            break;
+        case 'deterministic':
+            return (variable.parameters as { value: number }).value;
+
+        default:
+            return current;
+    }
+}
+
+// =============================================
+// Rare-Event Estimation
+// Both methods follow a score per scenario that reaches 0 exactly when the
+// event occurs: the k-th largest running breach score of its conditions.
+// =============================================
+
+/** Breach scores of unbreached values stay strictly below the event level 0 */
+const BREACH_SCORE_EPSILON = 1e-12;
+
+/** Threshold conditions of a rare-event target, k of which must be breached */
+interface BreachTarget {
+    conditions: ThresholdBreachEvent[];
+    k: number;
+}
+
+function rareEventTarget(event: EventDefinition): BreachTarget {
+    if (isThresholdBreach(event)) return { conditions: [event], k: 1 };
+    if (isAtLeastKEvent(event)) return { conditions: event.events, k: event.k };
+    throw new Error('Rare-event estimation supports threshold-breach and at-least-k events only');
+}
+
+/**
+ * Importance sampling tilts Gaussian noise only, and neither method
+ * combines with variance reduction
+ */
+function validateRareEvent(target: BreachTarget, input: EventTrajectoryInput): void {
+    const rareEvent = input.config.rare_event!;
+    if (!RARE_EVENT_METHODS.includes(rareEvent.method)) {
+        throw new Error(`Unknown rare-event method: ${rareEvent.method}`);
+    }
+    if (input.config.variance_reduction) {
+        throw new Error('Rare-event estimation cannot be combined with variance reduction');
+    }
+    for (const condition of target.conditions) {
+        if (!['>', '>=', '<', '<='].includes(condition.operator)) {
+            throw new Error(`Rare-event estimation needs an inequality threshold, got "${condition.operator}"`);
+        }
+    }
+    if (!(Number.isInteger(target.k) && target.k >= 1 && target.k <= target.conditions.length)) {
+        throw new Error('Rare-event estimation needs k between 1 and the number of events');
+    }
+
+    if (rareEvent.method === 'importance_sampling') {
+        const { kind } = buildNoiseModel(input.variables.map(v => v.name), input.copulaSpecs, input.config.use_copula_noise);
+        if (kind !== 'gaussian' && kind !== 'independent') {
+            throw new Error('Importance sampling supports Gaussian dependence only');
+        }
+        const pilotScenarios = rareEvent.pilot_scenarios ?? DEFAULT_PILOT_SCENARIOS;
+        if (!(Number.isInteger(pilotScenarios) && pilotScenarios >= 100)) {
+            throw new Error('pilot_scenarios must be an integer of at least 100');
+        }
+    } else {
+        const levelProbability = rareEvent.level_probability ?? DEFAULT_LEVEL_PROBABILITY;
+        if (!(levelProbability > 0 && levelProbability < 1)) {
+            throw new Error('level_probability must be in (0, 1)');
+        }
+        const replicates = rareEvent.replicates ?? DEFAULT_SPLITTING_REPLICATES;
+        if (!(Number.isInteger(replicates) && replicates >= 2 && replicates * 2 <= input.config.n_scenarios)) {
+            throw new Error('replicates must be an integer of at least 2 with at least 2 particles per replicate');
         }
     }
+}
+
+/**
+ * Signed distance of a value past a condition's threshold, in units of the
+ * threshold's distance from the starting value; ≥ 0 exactly when breached
+ */
+function breachScore(condition: ThresholdBreachEvent, value: number, initialValue: number): number {
+    const scale = Math.abs(condition.threshold - initialValue) || 1;
+    const above = condition.operator === '>' || condition.operator === '>=';
+    const past = (above ? value - condition.threshold : condition.threshold - value) / scale;
+    return compareValues(value, condition.operator, condition.threshold)
+        ? Math.max(0, past)
+        : Math.min(-BREACH_SCORE_EPSILON, past);
+}
 
-    return path;
+function kthLargest(values: ArrayLike<number>, k: number): number {
+    return Array.from(values).sort((a, b) => b - a)[k - 1];
+}
+
+/**
+ * Event score of every scenario in a trajectory block
+ */
+function blockScores(target: BreachTarget, input: EventTrajectoryInput, block: TrajectoryBlock): Float64Array {
+    const numSteps = getNumSteps(input.config);
+    const { count, values } = block;
+    const columns = target.conditions.map(c => input.variables.findIndex(v => v.name === c.variable));
+    const scores = new Float64Array(count);
+    const best = new Float64Array(target.conditions.length);
+
+    for (let s = 0; s < count; s++) {
+        target.conditions.forEach((condition, j) => {
+            const idx = columns[j];
+            const initialValue = input.variables[idx].initial_value;
+            best[j] = -Infinity;
+            for (let t = 0; t <= numSteps; t++) {
+                const value = values[(idx * (numSteps + 1) + t) * count + s];
+                best[j] = Math.max(best[j], breachScore(condition, value, initialValue));
+            }
+        });
+        scores[s] = kthLargest(best, target.k);
+    }
+
+    return scores;
+}
+
+/**
+ * Cross-entropy calibration of the importance-sampling tilt. Each pilot run
+ * is drawn under the current tilt from its own seed stream; iterations stop
+ * once the elite level reaches the event itself.
+ */
+function calibrateTilt(target: BreachTarget, input: EventTrajectoryInput): number[] {
+    const { config } = input;
+    const pilotScenarios = config.rare_event!.pilot_scenarios ?? DEFAULT_PILOT_SCENARIOS;
+    const numSteps = getNumSteps(config);
+    let tilt: number[] = new Array(input.variables.length).fill(0);
+
+    for (let iteration = 0; iteration < MAX_CROSS_ENTROPY_ITERATIONS; iteration++) {
+        const pilot: EventTrajectoryInput = {
+            ...input,
+            config: {
+                ...config,
+                n_scenarios: pilotScenarios,
+                random_seed: deriveStreamSeed(config.random_seed!, iteration, RARE_EVENT_PILOT_STREAM)
+            },
+            tilt
+        };
+        const block = simulateTrajectoryBlock(pilot, 0, pilotScenarios);
+        const logWeights = tiltLogWeights(block.noiseSums!, tilt, numSteps, pilotScenarios);
+        const update = crossEntropyTilt(blockScores(target, input, block), logWeights, block.noiseSums!, numSteps);
+        tilt = update.tilt;
+        if (update.level >= 0) break;
+    }
+
+    return tilt;
+}
+
+/**
+ * Event paths as a Markov chain for splitting. The state holds the values,
+ * the Heston variances and each condition's running breach score, and is
+ * stepped with the same dynamics and noise model as the trajectory blocks.
+ */
+function eventSplittingModel(target: BreachTarget, input: EventTrajectoryInput): SplittingModel {
+    const { variables, config } = input;
+    const d = variables.length;
+    const dt = getDtYears(config);
+    const sqrtDt = Math.sqrt(dt);
+    const noiseModel = buildNoiseModel(variables.map(v => v.name), input.copulaSpecs, config.use_copula_noise);
+    const columns = target.conditions.map(c => variables.findIndex(v => v.name === c.variable));
+
+    const updateScores = (state: Float64Array) => {
+        target.conditions.forEach((condition, j) => {
+            const idx = columns[j];
+            const score = breachScore(condition, state[idx], variables[idx].initial_value);
+            state[2 * d + j] = Math.max(state[2 * d + j], score);
+        });
+    };
+
+    return {
+        initialState() {
+            const state = new Float64Array(2 * d + target.conditions.length).fill(-Infinity, 2 * d);
+            variables.forEach((variable, i) => {
+                state[i] = variable.initial_value;
+                state[d + i] = initialEventVariance(variable);
+            });
+            updateScores(state);
+            return state;
+        },
+        step(state, _step, rng) {
+            const z = sampleNoiseVector(rng, noiseModel, d);
+            variables.forEach((variable, i) => {
+                state[i] = stepEventVariable(variable, state[i], z[i] * sqrtDt, dt, sqrtDt, rng, state, d + i);
+            });
+            updateScores(state);
+        },
+        score: state => kthLargest(state.subarray(2 * d), target.k)
+    };
 }
 
 // =============================================
@@ -359,11 +1143,13 @@ function simulateVariablePath(
 // =============================================
 
 /**
- * Evaluate if an event occurred in a scenario
+ * Evaluate if an event occurred in a scenario. dtMonths converts the
+ * month windows of path conditions to time steps.
  */
 export function evaluateEvent(
     event: EventDefinition,
-    trajectories: Map<string, number[]>
+    trajectories: Map<string, number[]>,
+    dtMonths: number = 1
 ): boolean {
     if (isThresholdBreach(event)) {
         const path = trajectories.get(event.variable);
@@ -371,14 +1157,20 @@ export function evaluateEvent(
         return evaluateThresholdBreach(event, path);
     }
 
+    if (isPathCondition(event)) {
+        const path = trajectories.get(event.variable);
+        if (!path) throw new Error(`Variable "${event.variable}" not found`);
+        return findPathConditionStep(event, path, dtMonths) !== -1;
+    }
+
     if (isCompoundEvent(event)) {
-        return evaluateCompoundEvent(event, trajectories);
+        return evaluateCompoundEvent(event, trajectories, dtMonths);
     }
 
     if (isConditionalEvent(event)) {
-        // For conditional, we handle this at the aggregate level
-        // Here we just check if the main event occurred
-        return evaluateEvent(event.event, trajectories);
+        // Per scenario a conditional is its main event; summarizeEventSimulation
+        // forms P(A | B) from the joint and conditioning counts
+        return evaluateEvent(event.event, trajectories, dtMonths);
     }
 
     if (isAtLeastKEvent(event)) {
@@ -392,6 +1184,62 @@ export function evaluateEvent(
     throw new Error(`Unknown event type: ${(event as any).type}`);
 }
 
+/**
+ * First time step at which the event has occurred in a scenario, or -1 if
+ * it does not occur within the horizon; consistent with evaluateEvent.
+ * AND waits for its last condition, OR takes the first, at-least-k the
+ * k-th breach, a conditional its main event.
+ */
+export function firstEventStep(
+    event: EventDefinition,
+    trajectories: Map<string, number[]>,
+    dtMonths: number = 1
+): number {
+    if (isThresholdBreach(event)) {
+        return findFirstOccurrence(event, trajectories);
+    }
+
+    if (isPathCondition(event)) {
+        const path = trajectories.get(event.variable);
+        return path ? findPathConditionStep(event, path, dtMonths) : -1;
+    }
+
+    if (isCompoundEvent(event)) {
+        const steps = event.conditions.map(cond => firstEventStep(cond, trajectories, dtMonths));
+        if (event.operator === 'AND') {
+            return steps.some(step => step === -1) ? -1 : Math.max(...steps);
+        }
+        const occurred = steps.filter(step => step !== -1);
+        return occurred.length > 0 ? Math.min(...occurred) : -1;
+    }
+
+    if (isConditionalEvent(event)) {
+        return firstEventStep(event.event, trajectories, dtMonths);
+    }
+
+    if (isAtLeastKEvent(event)) {
+        const steps = event.events
+            .map(subEvent => findFirstOccurrence(subEvent, trajectories))
+            .filter(step => step !== -1)
+            .sort((a, b) => a - b);
+        return event.k <= 0 ? 0 : steps.length >= event.k ? steps[event.k - 1] : -1;
+    }
+
+    if (isSequenceEvent(event)) {
+        const firstIdx = findFirstOccurrence(event.first, trajectories);
+        if (firstIdx === -1 || !isThresholdBreach(event.then)) return -1;
+        const path = trajectories.get(event.then.variable);
+        if (!path) return -1;
+        const maxIdx = Math.min(firstIdx + Math.ceil(event.max_gap_months), path.length - 1);
+        for (let i = firstIdx; i <= maxIdx; i++) {
+            if (compareValues(path[i], event.then.operator, event.then.threshold)) return i;
+        }
+        return -1;
+    }
+
+    throw new Error(`Unknown event type: ${(event as { type: string }).type}`);
+}
+
 /**
  * Check if threshold is breached at any point in trajectory
  */
@@ -407,17 +1255,92 @@ export function evaluateThresholdBreach(
     return false;
 }
 
+/**
+ * Transform a variable's path step by step (see PathTransform); NaN marks
+ * steps where the transform is not yet defined
+ */
+export function transformPath(transform: PathTransform, path: number[], dtMonths: number = 1): number[] {
+    switch (transform.kind) {
+        case 'level':
+            return path;
+
+        case 'rolling_average': {
+            // Mean of the simulated values in the last window, once it is full
+            const window = Math.max(1, Math.round(transform.window_months / dtMonths));
+            const values = new Array(path.length).fill(NaN);
+            let sum = 0;
+            for (let t = 1; t < path.length; t++) {
+                sum += path[t];
+                if (t > window) sum -= path[t - window];
+                if (t >= window) values[t] = sum / window;
+            }
+            return values;
+        }
+
+        case 'pct_change': {
+            const initial = path[0];
+            return path.map(value => initial === 0 ? NaN : (value - initial) / Math.abs(initial));
+        }
+
+        case 'drawdown': {
+            // Drawdowns are measured from positive peaks only
+            let peak = -Infinity;
+            let maxDrawdown = 0;
+            return path.map(value => {
+                peak = Math.max(peak, value);
+                if (peak > 0) maxDrawdown = Math.max(maxDrawdown, (peak - value) / peak);
+                return maxDrawdown;
+            });
+        }
+
+        case 'cumulative_sum': {
+            let sum = 0;
+            return path.map((value, t) => {
+                if (t === 0) return NaN;
+                sum += value;
+                return sum;
+            });
+        }
+
+        case 'consecutive_months': {
+            let run = 0;
+            return path.map((value, t) => {
+                if (t === 0) return 0;
+                run = compareValues(value, transform.operator, transform.level) ? run + 1 : 0;
+                return run * dtMonths;
+            });
+        }
+    }
+}
+
+/**
+ * First step at which a path condition holds, or -1; at_horizon
+ * conditions can only hold at the last step
+ */
+function findPathConditionStep(event: PathConditionEvent, path: number[], dtMonths: number): number {
+    const values = transformPath(event.transform, path, dtMonths);
+    if (event.evaluation === 'at_horizon') {
+        const last = values.length - 1;
+        return compareValues(values[last], event.operator, event.threshold) ? last : -1;
+    }
+    for (let t = 0; t < values.length; t++) {
+        if (compareValues(values[t], event.operator, event.threshold)) return t;
+    }
+    return -1;
+}
+
 /**
  * Evaluate compound event (AND/OR)
  */
 function evaluateCompoundEvent(
     event: CompoundEvent,
-    trajectories: Map<string, number[]>
+    trajectories: Map<string, number[]>,
+    dtMonths: number
 ): boolean {
     if (event.operator === 'AND') {
-        return event.conditions.every(cond => evaluateEvent(cond, trajectories));
+        return event.conditions.every(cond => evaluateEvent(cond, trajectories, dtMonths));
     } else {
-        return event.conditions.some(cond => evaluateEvent(cond, trajectories));
+        return event.conditions.some(cond => evaluateEvent(cond, trajectories, dtMonths));
     }
 }
 
@@ -518,20 +1441,159 @@ function compareValues(value: number, operator: string, threshold: number): bool
 // =============================================
 
 /**
- * Calculate probability with Wilson confidence interval
+ * Calculate probability with Wilson confidence interval, or with a normal
+ * interval for the likelihood-ratio estimator mean(w·1{event}) when
+ * scenarios carry importance weights
  */
 function calculateProbabilityWithCI(
-    occurred: boolean[]
-): { mean: number; ci_90: [number, number]; ci_95: [number, number] } {
+    occurred: boolean[],
+    weights?: Float64Array
+): EventProbabilityResult['probability'] {
     const n = occurred.length;
+
+    if (weights) {
+        let sum = 0;
+        let sumSq = 0;
+        for (let i = 0; i < n; i++) {
+            if (!occurred[i]) continue;
+            sum += weights[i];
+            sumSq += weights[i] * weights[i];
+        }
+        const mean = sum / n;
+        const variance = n > 1 ? Math.max(0, sumSq - n * mean * mean) / (n - 1) : 0;
+        return probabilityWithNormalCI(mean, Math.sqrt(variance / n));
+    }
+
     const k = occurred.filter(x => x).length;
     const p = k / n;
 
     // Wilson score interval
     const ci_90 = wilsonConfidenceInterval(k, n, 0.10);
     const ci_95 = wilsonConfidenceInterval(k, n, 0.05);
+    const std_error = Math.sqrt(p * (1 - p) / n);
+
+    return { mean: p, ci_90, ci_95, std_error, relative_error: p > 0 ? std_error / p : undefined };
+}
+
+/**
+ * Probability estimate with normal confidence intervals clamped to [0, 1];
+ * Student-t intervals when the standard error comes from few replicates
+ */
+function probabilityWithNormalCI(
+    mean: number,
+    stdError: number,
+    degreesOfFreedom?: number
+): EventProbabilityResult['probability'] {
+    const interval = (alpha: number): [number, number] => {
+        const z = degreesOfFreedom === undefined
+            ? normalQuantile(1 - alpha / 2)
+            : studentTQuantile(1 - alpha / 2, degreesOfFreedom);
+        return [Math.max(0, mean - z * stdError), Math.min(1, mean + z * stdError)];
+    };
+    return {
+        mean,
+        ci_90: interval(0.10),
+        ci_95: interval(0.05),
+        std_error: stdError,
+        relative_error: mean > 0 ? stdError / mean : undefined
+    };
+}
+
+/**
+ * Likelihood ratios of all scenarios of a tilted run, in scenario order
+ */
+function importanceWeights(input: EventTrajectoryInput, blocks: TrajectoryBlock[]): Float64Array {
+    const weights = new Float64Array(blocks.reduce((n, block) => n + block.count, 0));
+    for (const block of blocks) {
+        weights.set(blockImportanceWeights(input, block), block.start);
+    }
+    return weights;
+}
 
-    return { mean: p, ci_90, ci_95 };
+function blockImportanceWeights(input: EventTrajectoryInput, block: TrajectoryBlock): Float64Array {
+    return tiltLogWeights(block.noiseSums!, input.tilt!, getNumSteps(input.config), block.count).map(Math.exp);
+}
+
+/**
+ * Kish effective sample size (Σw)² / Σw² over the scenarios where the event
+ * occurred: the number of equally weighted hits the estimate is worth
+ */
+function effectiveSampleSize(occurred: boolean[], weights: Float64Array): number {
+    let sum = 0;
+    let sumSq = 0;
+    occurred.forEach((x, i) => {
+        if (!x) return;
+        sum += weights[i];
+        sumSq += weights[i] * weights[i];
+    });
+    return sumSq > 0 ? (sum * sum) / sumSq : 0;
+}
+
+/** Share of scenarios where `occurred` holds, weighted by likelihood ratios when given */
+function frequency(occurred: boolean[], weights?: Float64Array): number {
+    let sum = 0;
+    occurred.forEach((x, i) => {
+        if (x) sum += weights ? weights[i] : 1;
+    });
+    return sum / occurred.length;
+}
+
+/** Conditioning events seen in fewer scenarios than this get a precision warning */
+const MIN_CONDITIONING_SCENARIOS = 100;
+
+/**
+ * P(A | B) from joint and conditioning counts. Only the scenarios where B
+ * occurred inform the estimate, so the Wilson interval takes their count
+ * as the sample size.
+ */
+function calculateConditionalProbability(
+    eventOccurred: boolean[],
+    givenOccurred: boolean[]
+): { probability: EventProbabilityResult['probability']; conditional: NonNullable<EventProbabilityResult['conditional']> } {
+    const n = eventOccurred.length;
+    let nEvent = 0;
+    let nGiven = 0;
+    let nJoint = 0;
+    for (let i = 0; i < n; i++) {
+        if (eventOccurred[i]) nEvent++;
+        if (givenOccurred[i]) nGiven++;
+        if (eventOccurred[i] && givenOccurred[i]) nJoint++;
+    }
+
+    const pEvent = nEvent / n;
+    let probability: EventProbabilityResult['probability'];
+    let warning: string | undefined;
+
+    if (nGiven === 0) {
+        probability = { mean: 0, ci_90: [0, 1], ci_95: [0, 1], std_error: NaN };
+        warning = 'The conditioning event did not occur in any scenario; P(A | B) is undefined';
+    } else {
+        const p = nJoint / nGiven;
+        const stdError = Math.sqrt(p * (1 - p) / nGiven);
+        probability = {
+            mean: p,
+            ci_90: wilsonConfidenceInterval(nJoint, nGiven, 0.10),
+            ci_95: wilsonConfidenceInterval(nJoint, nGiven, 0.05),
+            std_error: stdError,
+            relative_error: p > 0 ? stdError / p : undefined
+        };
+        if (nGiven < MIN_CONDITIONING_SCENARIOS) {
+            warning = `The conditioning event occurred in only ${nGiven} of ${n} scenarios; ` +
+                'P(A | B) is imprecise, increase n_scenarios';
+        }
+    }
+
+    return {
+        probability,
+        conditional: {
+            p_given: nGiven / n,
+            p_event: pEvent,
+            p_joint: nJoint / n,
+            lift: pEvent > 0 && nGiven > 0 ? probability.mean / pEvent : 1,
+            n_given: nGiven,
+            warning
+        }
+    };
 }
 
 /**
@@ -555,27 +1617,89 @@ function wilsonConfidenceInterval(
     ];
 }
 
+/** Months at which the term structure of cumulative event probability is reported */
+const TERM_STRUCTURE_MONTHS = [3, 6, 12, 24];
+
+/**
+ * Survival curve, monthly hazard, median and term structure of the first
+ * event time. With importance weights the cumulative probability is the
+ * likelihood-ratio estimate; for conditional events only the scenarios
+ * where the conditioning event occurred count.
+ */
+function calculateTimeToEvent(
+    eventSteps: Int32Array,
+    config: EventSimulationConfig,
+    weights?: Float64Array,
+    included?: boolean[]
+): EventProbabilityResult['time_to_event'] {
+    const numSteps = getNumSteps(config);
+    const n = eventSteps.length;
+    const total = included ? included.filter(Boolean).length : n;
+    if (total === 0) return undefined;
+
+    // Probability mass of first events at each step
+    const mass = new Float64Array(numSteps + 1);
+    for (let i = 0; i < n; i++) {
+        if (eventSteps[i] === -1 || (included && !included[i])) continue;
+        mass[eventSteps[i]] += weights ? weights[i] : 1;
+    }
+
+    const curve: NonNullable<EventProbabilityResult['time_to_event']>['curve'] = [];
+    const cumulative = new Float64Array(numSteps + 1);
+    for (let t = 0; t <= numSteps; t++) {
+        cumulative[t] = Math.min(1, (t > 0 ? cumulative[t - 1] : 0) + mass[t] / total);
+        const survival = 1 - cumulative[t];
+        const previous = t > 0 ? curve[t - 1].survival : 1;
+        // Constant hazard within the step, expressed per month
+        const hazard = t > 0 && previous > 0
+            ? 1 - Math.pow(survival / previous, 1 / config.dt_months)
+            : 0;
+        curve.push({ month: t * config.dt_months, survival, hazard });
+    }
+
+    // Median: where survival crosses 0.5, interpolated within the step
+    let median_months: number | undefined;
+    const crossing = curve.findIndex(point => point.survival <= 0.5);
+    if (crossing === 0) {
+        median_months = 0;
+    } else if (crossing > 0) {
+        const before = curve[crossing - 1];
+        const after = curve[crossing];
+        median_months = before.month
+            + (after.month - before.month) * (before.survival - 0.5) / (before.survival - after.survival);
+    }
+
+    // Cumulative probability at the last grid time on or before each term
+    const term_structure = TERM_STRUCTURE_MONTHS
+        .filter(month => month <= numSteps * config.dt_months)
+        .map(month => ({
+            month,
+            probability: cumulative[Math.floor(month / config.dt_months + 1e-9)]
+        }));
+
+    return { curve, median_months, term_structure };
+}
+
 /**
  * Calculate decomposition of joint probability
  */
 function calculateDecomposition(
     jointOccurred: boolean[],
     perVariableOccurred: Map<string, boolean[]>,
-    variableNames: string[]
+    variableNames: string[],
+    weights?: Float64Array
 ): EventProbabilityResult['decomposition'] {
-    const n = jointOccurred.length;
-
     // Per-variable probabilities
     const perVariable: Record<string, number> = {};
     variableNames.forEach(name => {
         const arr = perVariableOccurred.get(name);
         if (arr) {
-            perVariable[name] = arr.filter(x => x).length / n;
+            perVariable[name] = frequency(arr, weights);
         }
     });
 
     // Joint probability (actual)
-    const jointCopula = jointOccurred.filter(x => x).length / n;
+    const jointCopula = frequency(jointOccurred, weights);
 
     // Independent joint probability (product)
     let jointIndependent = 1;
@@ -594,12 +1718,99 @@ function calculateDecomposition(
     };
 }
 
+/** Exact Shapley values re-evaluate the event 2^n times; events on more variables are not attributed */
+const MAX_SHAPLEY_VARIABLES = 8;
+
+/**
+ * Shapley attribution of the event probability to its variables. A
+ * coalition's value is the probability when only its variables follow their
+ * simulated paths and the others stay on their baseline (scenario-mean) path.
+ * All coalitions reuse the same scenarios, so their differences carry no
+ * fresh sampling noise.
+ */
+function calculateShapleyAttribution(
+    event: EventDefinition,
+    trajectories: Map<string, number[][]>,
+    config: EventSimulationConfig,
+    weights?: Float64Array
+): EventProbabilityResult['decomposition']['shapley'] {
+    const players = extractVariables(event);
+    const n = players.length;
+    if (n === 0 || n > MAX_SHAPLEY_VARIABLES) return undefined;
+
+    const paths = players.map(name => trajectories.get(name)!);
+    const nScenarios = paths[0].length;
+    const baselines = paths.map(scenarios => meanPath(scenarios, weights));
+    const given = isConditionalEvent(event) ? event.given : undefined;
+
+    // Coalition values, indexed by the bit mask of simulated variables. One
+    // lookup is repointed at each scenario's paths rather than rebuilt
+    const values = new Float64Array(1 << n);
+    const occurred: boolean[] = new Array(nScenarios);
+    const givenOccurred: boolean[] = new Array(nScenarios);
+    const scenario = new Map<string, number[]>();
+    for (let mask = 0; mask < values.length; mask++) {
+        for (let s = 0; s < nScenarios; s++) {
+            for (let j = 0; j < n; j++) {
+                scenario.set(players[j], mask & (1 << j) ? paths[j][s] : baselines[j]);
+            }
+            occurred[s] = evaluateEvent(event, scenario, config.dt_months);
+            if (given) {
+                givenOccurred[s] = evaluateEvent(given, scenario, config.dt_months);
+                occurred[s] = occurred[s] && givenOccurred[s];
+            }
+        }
+        if (given) {
+            const pGiven = frequency(givenOccurred, weights);
+            values[mask] = pGiven > 0 ? frequency(occurred, weights) / pGiven : 0;
+        } else {
+            values[mask] = frequency(occurred, weights);
+        }
+    }
+
+    // φ_j = Σ over coalitions S without j of |S|! (n − |S| − 1)! / n! · (v(S ∪ j) − v(S))
+    const factorial = [1];
+    for (let k = 1; k <= n; k++) factorial.push(factorial[k - 1] * k);
+    const contributions: Record<string, number> = {};
+    players.forEach((name, j) => {
+        const bit = 1 << j;
+        let phi = 0;
+        for (let mask = 0; mask < values.length; mask++) {
+            if (mask & bit) continue;
+            const size = popCount(mask);
+            phi += factorial[size] * factorial[n - size - 1] / factorial[n] * (values[mask | bit] - values[mask]);
+        }
+        contributions[name] = phi;
+    });
+
+    return { baseline: values[0], probability: values[values.length - 1], contributions };
+}
+
+/** Step-by-step mean of scenario paths, likelihood-weighted when weights are given */
+function meanPath(scenarios: number[][], weights?: Float64Array): number[] {
+    const mean = new Array(scenarios[0].length).fill(0);
+    let totalWeight = 0;
+    scenarios.forEach((path, s) => {
+        const w = weights ? weights[s] : 1;
+        totalWeight += w;
+        path.forEach((value, t) => { mean[t] += w * value; });
+    });
+    return mean.map(sum => sum / totalWeight);
+}
+
+function popCount(mask: number): number {
+    let count = 0;
+    for (let m = mask; m; m &= m - 1) count++;
+    return count;
+}
+
 /**
  * Calculate percentiles for each variable at horizon
  */
 function calculatePercentiles(
     trajectories: Map<string, number[][]>,
-    variableNames: string[]
+    variableNames: string[],
+    weights?: Float64Array
 ): Record<string, { p5: number; p25: number; p50: number; p75: number; p95: number }> {
     const result: Record<string, any> = {};
 
@@ -609,14 +1820,14 @@ function calculatePercentiles(
 
         // Get final values (at horizon)
         const finalValues = paths.map(path => path[path.length - 1]);
-        finalValues.sort((a, b) => a - b);
+        const quantile = quantileFunction(finalValues, weights);
 
         result[name] = {
-            p5: percentile(finalValues, 5),
-            p25: percentile(finalValues, 25),
-            p50: percentile(finalValues, 50),
-            p75: percentile(finalValues, 75),
-            p95: percentile(finalValues, 95)
+            p5: quantile(5),
+            p25: quantile(25),
+            p50: quantile(50),
+            p75: quantile(75),
+            p95: quantile(95)
         };
     });
 
@@ -628,7 +1839,8 @@ function calculatePercentiles(
  */
 function calculateRiskMetrics(
     trajectories: Map<string, number[][]>,
-    variableNames: string[]
+    variableNames: string[],
+    weights?: Float64Array
 ): { var_99?: number; es_99?: number } {
     if (variableNames.length === 0) return {};
 
@@ -642,6 +1854,19 @@ function calculateRiskMetrics(
         const finalValue = path[path.length - 1];
         return (finalValue - initialValue) / initialValue;
     });
+
+    if (weights) {
+        const var_99 = quantileFunction(returns, weights)(1);
+        let tailWeight = 0;
+        let tailSum = 0;
+        returns.forEach((r, i) => {
+            if (r > var_99) return;
+            tailWeight += weights[i];
+            tailSum += weights[i] * r;
+        });
+        return { var_99, es_99: tailWeight > 0 ? tailSum / tailWeight : var_99 };
+    }
+
     returns.sort((a, b) => a - b);
 
     const var_99 = percentile(returns, 1); // 99% VaR is 1st percentile
@@ -661,8 +1886,10 @@ function calculateRiskMetrics(
 
 /**
  * Map copula spec to CopulaConfig
+ * Archimedean families get `dimension` so d > 2 samples the exchangeable copula
  */
-function mapCopulaSpecToConfig(spec: EventCopulaSpec): CopulaConfig {
+function mapCopulaSpecToConfig(spec: EventCopulaSpec, dimension: number = 2): CopulaConfig {
+    const theta = spec.parameters.theta;
     switch (spec.family) {
         case 'gaussian':
             return {
@@ -676,16 +1903,26 @@ function mapCopulaSpecToConfig(spec: EventCopulaSpec): CopulaConfig {
                 degreesOfFreedom: spec.parameters.nu || 4
             };
         case 'clayton':
-            return { type: 'clayton', theta: spec.parameters.theta || 2 };
+            return { type: 'clayton', theta: theta || 2, dimension };
         case 'gumbel':
-            return { type: 'gumbel', theta: spec.parameters.theta || 2 };
+            return { type: 'gumbel', theta: theta || 2, dimension };
         case 'frank':
-            return { type: 'frank', theta: spec.parameters.theta || 5 };
+            return { type: 'frank', theta: theta || 5, dimension };
         case 'rotated_clayton_90':
+        case 'rotated_clayton_180':
+        case 'rotated_clayton_270':
+            return {
+                type: 'rotated',
+                baseCopula: { type: 'clayton', theta: theta || 2, dimension },
+                rotation: parseRotation(spec.family)
+            };
+        case 'rotated_gumbel_90':
+        case 'rotated_gumbel_180':
+        case 'rotated_gumbel_270':
             return {
                 type: 'rotated',
-                baseCopula: { type: 'clayton', theta: spec.parameters.theta || 2 },
-                rotation: 90
+                baseCopula: { type: 'gumbel', theta: theta || 2, dimension },
+                rotation: parseRotation(spec.family)
             };
         default:
             // Default to Gaussian
@@ -696,6 +1933,94 @@ function mapCopulaSpecToConfig(spec: EventCopulaSpec): CopulaConfig {
     }
 }
 
+/** Rotation angle encoded in a rotated_* family name */
+function parseRotation(family: string): 90 | 180 | 270 {
+    return Number(family.slice(family.lastIndexOf('_') + 1)) as 90 | 180 | 270;
+}
+
+function isVineFamily(family: string): boolean {
+    return family === 'vine_c' || family === 'vine_d' || family === 'vine_r';
+}
+
+/**
+ * Vine noise model: the full vine is sampled and the event's variables are
+ * picked by name (a column subset of a vine sample is a sample of the margin)
+ */
+function makeVineNoiseModel(spec: EventCopulaSpec, variableNames: string[]): NoiseModel {
+    const vine = spec.vine;
+    if (!vine) {
+        throw new Error(`Copula family "${spec.family}" requires a fitted vine structure`);
+    }
+
+    const vineVariables = vine.variables ?? spec.variables;
+    const columns = variableNames.map((name, i) => {
+        if (!vineVariables) return i;
+        const col = vineVariables.indexOf(name);
+        if (col === -1) {
+            throw new Error(`Variable "${name}" not found in vine copula`);
+        }
+        return col;
+    });
+    if (columns.some(col => col >= vine.dimension)) {
+        throw new Error(`Vine copula has ${vine.dimension} variables, event needs ${variableNames.length}`);
+    }
+
+    return { kind: 'vine', sampler: createVineSampler(vine), columns };
+}
+
+function isEllipticalFamily(family: string): boolean {
+    return family === 'gaussian' || family === 'student_t';
+}
+
+/** Strongest tail dependence (either tail) of a bivariate copula config */
+function pairTailDependence(config: CopulaConfig): number {
+    const base = config.type === 'rotated' ? config.baseCopula : config;
+    return Math.max(
+        tailDependenceCoefficient(base, 'lower'),
+        tailDependenceCoefficient(base, 'upper')
+    );
+}
+
+/**
+ * Correlation matrix of a multivariate elliptical spec in event variable order.
+ * Uses correlation_matrix (indexed by spec.variables, or the event order when
+ * omitted) and falls back to equicorrelation with parameters.rho.
+ */
+function buildSpecCorrelationMatrix(spec: EventCopulaSpec, variableNames: string[]): number[][] {
+    const d = variableNames.length;
+
+    if (!spec.correlation_matrix) {
+        const rho = spec.parameters.rho ?? 0.5;
+        return Array(d).fill(null).map((_, i) =>
+            Array(d).fill(0).map((_, j) => i === j ? 1 : rho)
+        );
+    }
+
+    const order = spec.variables ?? variableNames;
+    if (spec.correlation_matrix.length !== order.length) {
+        throw new Error(
+            `Copula correlation matrix is ${spec.correlation_matrix.length}x${spec.correlation_matrix.length}, ` +
+            `expected ${order.length}x${order.length}`
+        );
+    }
+
+    const matrix = identityMatrix(d);
+    variableNames.forEach((name, i) => {
+        const si = order.indexOf(name);
+        if (si === -1) {
+            throw new Error(`Variable "${name}" not found in copula correlation matrix`);
+        }
+        variableNames.forEach((other, j) => {
+            if (i !== j) matrix[i][j] = spec.correlation_matrix![si][order.indexOf(other)];
+        });
+    });
+    return matrix;
+}
+
+function identityMatrix(d: number): number[][] {
+    return Array(d).fill(null).map((_, i) => Array(d).fill(0).map((_, j) => i === j ? 1 : 0));
+}
+
 /**
  * Find threshold event for a specific variable
  */
@@ -722,6 +2047,37 @@ function findVariableThreshold(
     return null;
 }
 
+/**
+ * Percentiles of scenario values; with likelihood-ratio weights, the
+ * smallest value whose cumulative weight share reaches p%
+ */
+function quantileFunction(values: number[], weights?: Float64Array): (p: number) => number {
+    if (!weights) {
+        const sorted = [...values].sort((a, b) => a - b);
+        return p => percentile(sorted, p);
+    }
+
+    const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+    const cumulative = new Float64Array(order.length);
+    let total = 0;
+    order.forEach((i, rank) => {
+        total += weights[i];
+        cumulative[rank] = total;
+    });
+
+    return p => {
+        const target = total * p / 100;
+        let lo = 0;
+        let hi = order.length - 1;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (cumulative[mid] < target) lo = mid + 1;
+            else hi = mid;
+        }
+        return values[order[lo]];
+    };
+}
+
 /**
  * Percentile calculation
  */
@@ -733,55 +2089,6 @@ function percentile(sorted: number[], p: number): number {
     return sorted[lower] + (sorted[upper] - sorted[lower]) * (idx - lower);
 }
 
-/**
- * Normal quantile (inverse CDF) - Rational approximation
- */
-function normalQuantile(p: number): number {
-    if (p <= 0) return -Infinity;
-    if (p >= 1) return Infinity;
-    if (p === 0.5) return 0;
-
-    // Rational approximation for standard normal quantile
-    const a = [
-        -3.969683028665376e+01, 2.209460984245205e+02,
-        -2.759285104469687e+02, 1.383577518672690e+02,
-        -3.066479806614716e+01, 2.506628277459239e+00
-    ];
-    const b = [
-        -5.447609879822406e+01, 1.615858368580409e+02,
-        -1.556989798598866e+02, 6.680131188771972e+01,
-        -1.328068155288572e+01
-    ];
-    const c = [
-        -7.784894002430293e-03, -3.223964580411365e-01,
-        -2.400758277161838e+00, -2.549732539343734e+00,
-        4.374664141464968e+00, 2.938163982698783e+00
-    ];
-    const d = [
-        7.784695709041462e-03, 3.224671290700398e-01,
-        2.445134137142996e+00, 3.754408661907416e+00
-    ];
-
-    const pLow = 0.02425;
-    const pHigh = 1 - pLow;
-    let q: number, r: number;
-
-    if (p < pLow) {
-        q = Math.sqrt(-2 * Math.log(p));
-        return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
-            ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
-    } else if (p <= pHigh) {
-        q = p - 0.5;
-        r = q * q;
-        return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
-            (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
-    } else {
-        q = Math.sqrt(-2 * Math.log(1 - p));
-        return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
-            ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
-    }
-}
-
 /**
  * Sample from Poisson distribution
  */
@@ -805,12 +2112,15 @@ function samplePoisson(rng: MersenneTwister, lambda: number): number {
 // =============================================
 
 /**
- * Run simulation with multiple copula models for comparison
+ * Run simulation with multiple copula models for comparison. The main result
+ * uses `copulaSpecs` (e.g. an event's stored specifications) when given,
+ * otherwise the Clayton benchmark.
  */
 export function runEventSimulationWithComparison(
     event: EventDefinition,
     variables: EventVariable[],
-    config: EventSimulationConfig = DEFAULT_SIMULATION_CONFIG
+    config: EventSimulationConfig = DEFAULT_SIMULATION_CONFIG,
+    copulaSpecs?: EventCopulaSpec[]
 ): EventProbabilityResult {
     // Run with different copulas
     const gaussianSpec: EventCopulaSpec = {
@@ -856,9 +2166,13 @@ export function runEventSimulationWithComparison(
         random_seed: baseSeed
     });
 
-    // Return Clayton as main result (conservative for crash scenarios)
+    // Without specs, Clayton is the main result (conservative for crash scenarios)
+    const mainResult = copulaSpecs?.length
+        ? runEventSimulation(event, variables, copulaSpecs, { ...config, random_seed: baseSeed })
+        : claytonResult;
+
     return {
-        ...claytonResult,
+        ...mainResult,
         model_comparison: {
             gaussian: gaussianResult.probability.mean,
             clayton: claytonResult.probability.mean,
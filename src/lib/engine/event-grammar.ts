@@ -0,0 +1,473 @@
+// =============================================
+// StochFin EventProb Engine: Event Text Grammar
+// Deterministic text syntax for event definitions, with a parser that
+// reports error positions and a printer that emits canonical text.
+//
+//   event       := 'P' '(' condition ')' horizon | condition horizon
+//   horizon     := 'within' duration
+//   condition   := any ('|' any)?                      P(A | B)
+//   any         := all ('OR' all)*
+//   all         := sequence ('AND' sequence)*
+//   sequence    := atom ('THEN' atom 'within' duration)?
+//   atom        := '(' condition ')' | at_least | comparison
+//   at_least    := 'AT_LEAST' k 'OF' '(' comparison (',' comparison)* ')'
+//   comparison  := term op number ('at' 'horizon')?
+//   term        := variable | level(x) | rolling_avg(x, duration) | pct_change(x)
+//                | drawdown(x) | cumsum(x) | consecutive(x op number)
+//   duration    := number ('m' | 'months' | 'y' | 'years')?      months by default
+//   op          := '>' | '<' | '>=' | '<=' | '==' | '!='
+//
+// Numbers may carry a % suffix (8% = 0.08). Keywords are case-insensitive.
+// A plain `x > 6` is a threshold breach; transforms and `at horizon` make a
+// path condition. Every node takes the outer horizon, and labels are not
+// part of the text.
+//
+// Example: P(debt_to_ebitda > 6 AND (gdp < 0 OR inflation > 0.08)) within 24m
+// =============================================
+
+import {
+    type EventDefinition,
+    type ThresholdBreachEvent,
+    type PathTransform,
+    type ComparisonOperator,
+    validateEventDefinition
+} from './events';
+
+export interface EventTextParseResult {
+    success: boolean;
+    event?: EventDefinition;
+    error?: string;
+    position?: number;   // 0-based offset of the offending token
+    line?: number;       // 1-based
+    column?: number;     // 1-based
+}
+
+// =============================================
+// Tokenizer
+// =============================================
+
+type TokenKind = 'number' | 'ident' | 'op' | '(' | ')' | ',' | '|' | 'end';
+
+interface Token {
+    kind: TokenKind;
+    text: string;
+    value: number;
+    position: number;
+}
+
+class EventSyntaxError extends Error {
+    constructor(message: string, public position: number) {
+        super(message);
+    }
+}
+
+const NUMBER_PATTERN = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?%?/;
+const IDENT_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*/;
+const OPERATOR_PATTERN = /^(>=|<=|==|!=|>|<)/;
+
+function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < text.length) {
+        const rest = text.slice(i);
+        const space = rest.match(/^\s+/);
+        if (space) {
+            i += space[0].length;
+            continue;
+        }
+
+        const negative = rest[0] === '-' && NUMBER_PATTERN.test(rest.slice(1));
+        const number = (negative ? rest.slice(1) : rest).match(NUMBER_PATTERN);
+        if (number) {
+            const raw = number[0];
+            const magnitude = raw.endsWith('%') ? parseFloat(raw) / 100 : parseFloat(raw);
+            const length = raw.length + (negative ? 1 : 0);
+            tokens.push({ kind: 'number', text: rest.slice(0, length), value: negative ? -magnitude : magnitude, position: i });
+            i += length;
+            continue;
+        }
+
+        const ident = rest.match(IDENT_PATTERN);
+        if (ident) {
+            tokens.push({ kind: 'ident', text: ident[0], value: NaN, position: i });
+            i += ident[0].length;
+            continue;
+        }
+
+        const operator = rest.match(OPERATOR_PATTERN);
+        if (operator) {
+            tokens.push({ kind: 'op', text: operator[0], value: NaN, position: i });
+            i += operator[0].length;
+            continue;
+        }
+
+        if ('(),|'.includes(rest[0])) {
+            tokens.push({ kind: rest[0] as TokenKind, text: rest[0], value: NaN, position: i });
+            i += 1;
+            continue;
+        }
+
+        throw new EventSyntaxError(`Unexpected character "${rest[0]}"`, i);
+    }
+
+    tokens.push({ kind: 'end', text: 'end of input', value: NaN, position: text.length });
+    return tokens;
+}
+
+// =============================================
+// Parser
+// =============================================
+
+const RESERVED_WORDS = ['and', 'or', 'then', 'within', 'at_least', 'of'];
+
+const MONTH_UNITS = ['m', 'mo', 'month', 'months'];
+const YEAR_UNITS = ['y', 'yr', 'year', 'years'];
+
+class EventTextParser {
+    private index = 0;
+
+    constructor(private tokens: Token[]) {}
+
+    parseEvent(): EventDefinition {
+        let event: EventDefinition;
+        if (this.isKeyword('p') && this.peek(1).kind === '(') {
+            this.index++;
+            this.expect('(');
+            event = this.parseCondition();
+            this.expect(')');
+        } else {
+            event = this.parseCondition();
+        }
+
+        this.expectKeyword('within');
+        const horizon = this.parseDuration();
+        this.expect('end');
+        return withHorizon(event, horizon);
+    }
+
+    private parseCondition(): EventDefinition {
+        const event = this.parseAny();
+        if (!this.accept('|')) return event;
+        return { type: 'conditional', event, given: this.parseAny(), horizon_months: 0 };
+    }
+
+    private parseAny(): EventDefinition {
+        const conditions = [this.parseAll()];
+        while (this.acceptKeyword('or')) conditions.push(this.parseAll());
+        return conditions.length === 1
+            ? conditions[0]
+            : { type: 'compound', operator: 'OR', conditions, horizon_months: 0 };
+    }
+
+    private parseAll(): EventDefinition {
+        const conditions = [this.parseSequence()];
+        while (this.acceptKeyword('and')) conditions.push(this.parseSequence());
+        return conditions.length === 1
+            ? conditions[0]
+            : { type: 'compound', operator: 'AND', conditions, horizon_months: 0 };
+    }
+
+    private parseSequence(): EventDefinition {
+        const first = this.parseAtom();
+        if (!this.acceptKeyword('then')) return first;
+        const then = this.parseAtom();
+        this.expectKeyword('within');
+        return { type: 'sequence', first, then, max_gap_months: this.parseDuration(), horizon_months: 0 };
+    }
+
+    private parseAtom(): EventDefinition {
+        if (this.accept('(')) {
+            const event = this.parseCondition();
+            this.expect(')');
+            return event;
+        }
+
+        if (this.acceptKeyword('at_least')) {
+            const k = this.expectInteger();
+            this.expectKeyword('of');
+            this.expect('(');
+            const events: ThresholdBreachEvent[] = [];
+            do {
+                const token = this.peek();
+                const event = this.parseComparison();
+                if (event.type !== 'threshold_breach') {
+                    throw new EventSyntaxError('AT_LEAST accepts only plain threshold comparisons', token.position);
+                }
+                events.push(event);
+            } while (this.accept(','));
+            this.expect(')');
+            return { type: 'at_least_k', k, events, horizon_months: 0 };
+        }
+
+        return this.parseComparison();
+    }
+
+    private parseComparison(): EventDefinition {
+        const term = this.parseTerm();
+        const operator = this.expectOperator();
+        const threshold = this.expect('number').value;
+        const atHorizon = this.isKeyword('at') && this.isKeyword('horizon', 1);
+        if (atHorizon) this.index += 2;
+
+        if (!term.transform && !atHorizon) {
+            return { type: 'threshold_breach', variable: term.variable, operator, threshold, horizon_months: 0 };
+        }
+        return {
+            type: 'path_condition',
+            variable: term.variable,
+            transform: term.transform ?? { kind: 'level' },
+            operator,
+            threshold,
+            ...(atHorizon ? { evaluation: 'at_horizon' as const } : {}),
+            horizon_months: 0
+        };
+    }
+
+    private parseTerm(): { variable: string; transform?: PathTransform } {
+        const name = this.expectVariable();
+        if (!this.accept('(')) return { variable: name.text };
+
+        const variable = this.expectVariable().text;
+        let transform: PathTransform;
+        switch (name.text.toLowerCase()) {
+            case 'level':
+                transform = { kind: 'level' };
+                break;
+            case 'rolling_avg':
+                this.expect(',');
+                transform = { kind: 'rolling_average', window_months: this.parseDuration() };
+                break;
+            case 'pct_change':
+                transform = { kind: 'pct_change' };
+                break;
+            case 'drawdown':
+                transform = { kind: 'drawdown' };
+                break;
+            case 'cumsum':
+                transform = { kind: 'cumulative_sum' };
+                break;
+            case 'consecutive': {
+                const operator = this.expectOperator();
+                transform = { kind: 'consecutive_months', operator, level: this.expect('number').value };
+                break;
+            }
+            default:
+                throw new EventSyntaxError(`Unknown function "${name.text}"`, name.position);
+        }
+        this.expect(')');
+        return { variable, transform };
+    }
+
+    private parseDuration(): number {
+        const months = this.expect('number').value;
+        const unit = this.peek();
+        if (unit.kind === 'ident' && MONTH_UNITS.includes(unit.text.toLowerCase())) {
+            this.index++;
+        } else if (unit.kind === 'ident' && YEAR_UNITS.includes(unit.text.toLowerCase())) {
+            this.index++;
+            return months * 12;
+        }
+        return months;
+    }
+
+    // Token helpers
+
+    private peek(offset: number = 0): Token {
+        return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+    }
+
+    private isKeyword(word: string, offset: number = 0): boolean {
+        const token = this.peek(offset);
+        return token.kind === 'ident' && token.text.toLowerCase() === word;
+    }
+
+    private accept(kind: TokenKind): boolean {
+        if (this.peek().kind !== kind) return false;
+        this.index++;
+        return true;
+    }
+
+    private acceptKeyword(word: string): boolean {
+        if (!this.isKeyword(word)) return false;
+        this.index++;
+        return true;
+    }
+
+    private expect(kind: TokenKind): Token {
+        const token = this.peek();
+        if (token.kind !== kind) {
+            const expected = kind === 'end' ? 'end of input' : kind === 'number' ? 'a number' : `"${kind}"`;
+            throw new EventSyntaxError(`Expected ${expected} but found ${describe(token)}`, token.position);
+        }
+        this.index++;
+        return token;
+    }
+
+    private expectKeyword(word: string): void {
+        const token = this.peek();
+        if (!this.acceptKeyword(word)) {
+            throw new EventSyntaxError(`Expected "${word}" but found ${describe(token)}`, token.position);
+        }
+    }
+
+    private expectInteger(): number {
+        const token = this.expect('number');
+        if (!Number.isInteger(token.value) || token.value < 1) {
+            throw new EventSyntaxError('Expected a positive whole number', token.position);
+        }
+        return token.value;
+    }
+
+    private expectOperator(): ComparisonOperator {
+        const token = this.peek();
+        if (token.kind !== 'op') {
+            throw new EventSyntaxError(`Expected a comparison operator but found ${describe(token)}`, token.position);
+        }
+        this.index++;
+        return token.text as ComparisonOperator;
+    }
+
+    private expectVariable(): Token {
+        const token = this.peek();
+        if (token.kind !== 'ident' || RESERVED_WORDS.includes(token.text.toLowerCase())) {
+            throw new EventSyntaxError(`Expected a variable name but found ${describe(token)}`, token.position);
+        }
+        this.index++;
+        return token;
+    }
+}
+
+function describe(token: Token): string {
+    return token.kind === 'end' ? 'end of input' : `"${token.text}"`;
+}
+
+/** Copy of the event with every node on the given horizon */
+function withHorizon(event: EventDefinition, horizonMonths: number): EventDefinition {
+    switch (event.type) {
+        case 'compound':
+            return { ...event, conditions: event.conditions.map(c => withHorizon(c, horizonMonths)), horizon_months: horizonMonths };
+        case 'conditional':
+            return {
+                ...event,
+                event: withHorizon(event.event, horizonMonths),
+                given: withHorizon(event.given, horizonMonths),
+                horizon_months: horizonMonths
+            };
+        case 'sequence':
+            return {
+                ...event,
+                first: withHorizon(event.first, horizonMonths),
+                then: withHorizon(event.then, horizonMonths),
+                horizon_months: horizonMonths
+            };
+        case 'at_least_k':
+            return { ...event, events: event.events.map(e => ({ ...e, horizon_months: horizonMonths })), horizon_months: horizonMonths };
+        default:
+            return { ...event, horizon_months: horizonMonths };
+    }
+}
+
+/**
+ * Parse event text into a validated EventDefinition. Syntax errors report
+ * the offending token's position; semantic errors come from validateEventDefinition.
+ */
+export function parseEventText(text: string): EventTextParseResult {
+    let event: EventDefinition;
+    try {
+        event = new EventTextParser(tokenize(text)).parseEvent();
+    } catch (error) {
+        if (!(error instanceof EventSyntaxError)) throw error;
+        const before = text.slice(0, error.position).split('\n');
+        const line = before.length;
+        const column = before[before.length - 1].length + 1;
+        return {
+            success: false,
+            error: `${error.message} at line ${line}, column ${column}`,
+            position: error.position,
+            line,
+            column
+        };
+    }
+
+    const validation = validateEventDefinition(event);
+    if (!validation.valid) {
+        return { success: false, event, error: `Invalid event: ${validation.errors.join(', ')}` };
+    }
+    return { success: true, event };
+}
+
+// =============================================
+// Printer
+// =============================================
+
+// Binding strength; operands weaker than their context are parenthesized
+const PRECEDENCE = { conditional: 0, or: 1, and: 2, sequence: 3, atom: 4 };
+
+function precedence(event: EventDefinition): number {
+    switch (event.type) {
+        case 'conditional': return PRECEDENCE.conditional;
+        case 'compound': return event.operator === 'OR' ? PRECEDENCE.or : PRECEDENCE.and;
+        case 'sequence': return PRECEDENCE.sequence;
+        default: return PRECEDENCE.atom;
+    }
+}
+
+function formatNumber(value: number): string {
+    return String(value);
+}
+
+function formatMonths(months: number): string {
+    return `${formatNumber(months)}m`;
+}
+
+function formatTerm(variable: string, transform: PathTransform): string {
+    switch (transform.kind) {
+        case 'level': return `level(${variable})`;
+        case 'rolling_average': return `rolling_avg(${variable}, ${formatMonths(transform.window_months)})`;
+        case 'pct_change': return `pct_change(${variable})`;
+        case 'drawdown': return `drawdown(${variable})`;
+        case 'cumulative_sum': return `cumsum(${variable})`;
+        case 'consecutive_months': return `consecutive(${variable} ${transform.operator} ${formatNumber(transform.level)})`;
+    }
+}
+
+function formatCondition(event: EventDefinition, context: number): string {
+    let text: string;
+    switch (event.type) {
+        case 'threshold_breach':
+            text = `${event.variable} ${event.operator} ${formatNumber(event.threshold)}`;
+            break;
+        case 'path_condition':
+            // A level tested at the horizon reads as a plain comparison
+            text = event.evaluation === 'at_horizon'
+                ? `${event.transform.kind === 'level' ? event.variable : formatTerm(event.variable, event.transform)} `
+                + `${event.operator} ${formatNumber(event.threshold)} at horizon`
+                : `${formatTerm(event.variable, event.transform)} ${event.operator} ${formatNumber(event.threshold)}`;
+            break;
+        case 'compound': {
+            const own = precedence(event);
+            text = event.conditions.map(c => formatCondition(c, own + 1)).join(` ${event.operator} `);
+            break;
+        }
+        case 'conditional':
+            text = `${formatCondition(event.event, PRECEDENCE.or)} | ${formatCondition(event.given, PRECEDENCE.or)}`;
+            break;
+        case 'sequence':
+            text = `${formatCondition(event.first, PRECEDENCE.atom)} THEN ${formatCondition(event.then, PRECEDENCE.atom)}`
+                + ` within ${formatMonths(event.max_gap_months)}`;
+            break;
+        case 'at_least_k':
+            text = `AT_LEAST ${event.k} OF (${event.events.map(e => formatCondition(e, PRECEDENCE.atom)).join(', ')})`;
+            break;
+    }
+    return precedence(event) < context ? `(${text})` : text;
+}
+
+/**
+ * Canonical text of an event definition; parseEventText reads it back to
+ * the same definition, apart from labels and nested horizons.
+ */
+export function formatEventText(event: EventDefinition): string {
+    return `P(${formatCondition(event, PRECEDENCE.conditional)}) within ${formatMonths(event.horizon_months)}`;
+}
@@ -3,6 +3,10 @@
 // Domain Specific Language for event definitions
 // =============================================
 
+import type { VineCopula } from './vine-copulas';
+import type { SamplingMethod } from './variance-reduction';
+import type { RareEventMethod } from './rare-events';
+
 // =============================================
 // Base Types
 // =============================================
@@ -13,11 +17,15 @@ export type EventType =
     | 'compound'           // Multiple conditions (AND/OR)
     | 'conditional'        // P(A | B)
     | 'sequence'           // A then B within time window
-    | 'at_least_k';        // K of N events occur
+    | 'at_least_k'         // K of N events occur
+    | 'path_condition';    // Transformed path (rolling average, drawdown, ...) crosses threshold
 
 /** Comparison operators for threshold conditions */
 export type ComparisonOperator = '>' | '<' | '>=' | '<=' | '==' | '!=';
 
+/** When a path condition is tested */
+export type PathEvaluation = 'any_time' | 'at_horizon';
+
 /** Logical operators for compound events */
 export type LogicalOperator = 'AND' | 'OR';
 
@@ -49,6 +57,36 @@ export interface ThresholdBreachEvent {
     label?: string;
 }
 
+/**
+ * Transformation of a variable's path that a path condition tests, step by step.
+ * Steps where the transform is not yet defined never satisfy the condition.
+ */
+export type PathTransform =
+    | { kind: 'level' }                                     // Raw value
+    | { kind: 'rolling_average'; window_months: number }    // Mean over the last window_months, from the first full window
+    | { kind: 'pct_change' }                                // (x_t − x_0) / |x_0|
+    | { kind: 'drawdown' }                                  // Largest peak-to-trough fall so far, as a fraction of the peak
+    | { kind: 'cumulative_sum' }                            // Sum of the simulated values x_1 … x_t
+    | { kind: 'consecutive_months'; operator: ComparisonOperator; level: number };  // Months in the current run of x (op) level
+
+/**
+ * Threshold on a transformation of a variable's path, tested at any step
+ * or only at the horizon
+ * Example: "P(12-month average EBITDA < 50) within 36 months",
+ *          "P(3+ consecutive months with cash < 0)",
+ *          "P(drawdown of equity > 30%) at 24 months"
+ */
+export interface PathConditionEvent {
+    type: 'path_condition';
+    variable: string;
+    transform: PathTransform;
+    operator: ComparisonOperator;
+    threshold: number;
+    evaluation?: PathEvaluation;    // Default 'any_time'
+    horizon_months: number;
+    label?: string;
+}
+
 /**
  * Compound event with AND/OR logic
  * Example: "P(inflation > 8% AND gdp < 0%) = Stagflation"
@@ -104,7 +142,8 @@ export type EventDefinition =
     | CompoundEvent
     | ConditionalEvent
     | SequenceEvent
-    | AtLeastKEvent;
+    | AtLeastKEvent
+    | PathConditionEvent;
 
 // =============================================
 // SDE Model Parameters
@@ -199,6 +238,9 @@ export interface EventCopulaSpec {
     variable_pair?: [string, string];  // null for multivariate
     family: CopulaFamily;
     parameters: Record<string, number>;
+    correlation_matrix?: number[][];   // multivariate gaussian/student_t: d×d matrix
+    variables?: string[];              // row/column order of correlation_matrix
+    vine?: VineCopula;                 // vine_c / vine_d / vine_r: fitted pair-copula construction
     tail_dependence?: {
         lambda_lower: number;
         lambda_upper: number;
@@ -223,6 +265,27 @@ export interface EventSimulationConfig {
     discretization: 'euler' | 'milstein';
     random_seed?: number;
     use_copula_noise: boolean;
+    shapley_attribution?: boolean;          // Attribute the probability to variables (2^n re-evaluations)
+    variance_reduction?: {
+        sampling?: SamplingMethod;          // Default 'pseudo'
+        control_variates?: boolean;         // Regress on terminal values of GBM / OU variables
+        sobol_replicates?: number;          // Default 8
+    };
+    rare_event?: {                          // Threshold-breach and at-least-k events only
+        method: RareEventMethod;
+        pilot_scenarios?: number;           // Importance sampling: cross-entropy pilot size, default 2000
+        level_probability?: number;         // Splitting: share of particles passing each level, default 0.1
+        replicates?: number;                // Splitting: independent runs sharing n_scenarios particles, default 10
+    };
+    adaptive?: {                            // n_scenarios becomes the scenario budget; set one target
+        target_ci_half_width?: number;      // Half-width of the 95% probability interval
+        target_percentile?: {               // Standard error of a horizon percentile of one variable
+            variable: string;
+            percentile: number;             // 0-100
+            std_error: number;
+        };
+        batch_size?: number;                // Default 1000
+    };
 }
 
 /** Default simulation config */
@@ -244,12 +307,19 @@ export interface EventProbabilityResult {
         mean: number;
         ci_90: [number, number];
         ci_95: [number, number];
+        std_error: number;
+        relative_error?: number;            // std_error / mean, when mean > 0
     };
     decomposition: {
         per_variable: Record<string, number>;  // P(threshold) per variable
         joint_independent: number;              // P(A) * P(B) if independent
         joint_copula: number;                   // Actual P(A ∩ B) with copula
         copula_risk_multiplier: number;         // joint_copula / joint_independent
+        shapley?: {                                 // Only with config.shapley_attribution
+            baseline: number;                       // P(event) with every variable on its baseline path
+            probability: number;                    // P(event) with every variable simulated
+            contributions: Record<string, number>;  // Shapley value per variable; baseline + Σ = probability
+        };
     };
     model_comparison?: {
         gaussian: number;
@@ -268,6 +338,50 @@ export interface EventProbabilityResult {
     es_99?: number;
     n_scenarios: number;
     computation_time_ms: number;
+    variance_reduction?: {
+        sampling: SamplingMethod;
+        control_variables?: string[];
+        probability: number;                // Control-variate adjusted when controls were used
+        std_error: number;
+        plain_std_error: number;            // √(p(1−p)/n) of plain Monte Carlo
+        variance_reduction_factor: number;  // (plain_std_error / std_error)²
+    };
+    rare_event?: {
+        method: RareEventMethod;
+        tilt?: Record<string, number>;      // Importance sampling: mean shift of each variable's step normal
+        effective_sample_size?: number;     // Importance sampling: (Σw)² / Σw² over scenarios with the event
+        levels?: number[];                  // Splitting: score levels, the last one the event
+        level_probabilities?: number[];     // Splitting: conditional probability of passing each level
+        replicate_probabilities?: number[]; // Splitting: estimate of each replicate; their spread gives std_error
+    };
+    time_to_event?: {                       // First-passage time; among scenarios with B for conditional events
+        curve: {
+            month: number;                  // Simulation time grid, 0 to the horizon
+            survival: number;               // P(no event by this month)
+            hazard: number;                 // Monthly P(event | none yet) over the step ending here; 0 at month 0
+        }[];
+        median_months?: number;             // Omitted when survival stays above 0.5 over the horizon
+        term_structure: {                   // Cumulative probability at 3/6/12/24 months within the horizon
+            month: number;
+            probability: number;
+        }[];
+    };
+    conditional?: {                         // Conditional events: probability is P(A | B)
+        p_given: number;                    // P(B)
+        p_event: number;                    // P(A), unconditional
+        p_joint: number;                    // P(A ∩ B)
+        lift: number;                       // P(A | B) / P(A)
+        n_given: number;                    // Scenarios where B occurred: the sample behind P(A | B)
+        warning?: string;                   // B too rare for a reliable estimate
+    };
+    convergence?: {
+        converged: boolean;                 // false when the budget ran out first
+        trace: {
+            n_scenarios: number;
+            estimate: number;               // Probability, or the tracked percentile
+            precision: number;              // 95% CI half-width, or the percentile's standard error
+        }[];
+    };
 }
 
 // =============================================
@@ -362,6 +476,10 @@ export function isAtLeastKEvent(event: EventDefinition): event is AtLeastKEvent
     return event.type === 'at_least_k';
 }
 
+export function isPathCondition(event: EventDefinition): event is PathConditionEvent {
+    return event.type === 'path_condition';
+}
+
 // =============================================
 // Validation
 // =============================================
@@ -435,11 +553,48 @@ export function validateEventDefinition(event: EventDefinition): ValidationResul
                 errors.push('Max gap must be positive');
             }
             break;
+
+        case 'path_condition':
+            if (!event.variable) errors.push('Variable name is required');
+            if (event.threshold === undefined) errors.push('Threshold is required');
+            if (!isValidOperator(event.operator)) {
+                errors.push(`Invalid operator: ${event.operator}`);
+            }
+            if (event.evaluation !== undefined && !['any_time', 'at_horizon'].includes(event.evaluation)) {
+                errors.push(`Invalid evaluation: ${event.evaluation}`);
+            }
+            validatePathTransform(event.transform, errors);
+            break;
     }
 
     return { valid: errors.length === 0, errors, warnings };
 }
 
+function validatePathTransform(transform: PathTransform | undefined, errors: string[]): void {
+    if (!transform) {
+        errors.push('Transform is required');
+        return;
+    }
+    switch (transform.kind) {
+        case 'level':
+        case 'pct_change':
+        case 'drawdown':
+        case 'cumulative_sum':
+            break;
+        case 'rolling_average':
+            if (!(transform.window_months > 0)) errors.push('Rolling window must be positive');
+            break;
+        case 'consecutive_months':
+            if (!isValidOperator(transform.operator)) {
+                errors.push(`Invalid run operator: ${transform.operator}`);
+            }
+            if (transform.level === undefined) errors.push('Run level is required');
+            break;
+        default:
+            errors.push(`Unknown transform: ${(transform as { kind: string }).kind}`);
+    }
+}
+
 function isValidOperator(op: string): op is ComparisonOperator {
     return ['>', '<', '>=', '<=', '==', '!='].includes(op);
 }
@@ -471,6 +626,9 @@ export function extractVariables(event: EventDefinition): string[] {
             case 'at_least_k':
                 e.events.forEach(ev => variables.add(ev.variable));
                 break;
+            case 'path_condition':
+                variables.add(e.variable);
+                break;
         }
     }
 
@@ -478,6 +636,43 @@ export function extractVariables(event: EventDefinition): string[] {
     return Array.from(variables);
 }
 
+/**
+ * copula_specifications row: the multivariate matrix, its variable order
+ * and a vine are stored inside parameters
+ */
+export interface CopulaSpecificationRow {
+    variable_pair: string[] | null;
+    copula_family: string;
+    parameters: Record<string, unknown> | null;
+}
+
+/** copula_specifications row of a spec */
+export function copulaSpecToRow(spec: EventCopulaSpec): CopulaSpecificationRow {
+    return {
+        variable_pair: spec.variable_pair || null,
+        copula_family: spec.family,
+        parameters: {
+            ...spec.parameters,
+            ...(spec.correlation_matrix ? { correlation_matrix: spec.correlation_matrix } : {}),
+            ...(spec.variables ? { variables: spec.variables } : {}),
+            ...(spec.vine ? { vine: spec.vine } : {})
+        }
+    };
+}
+
+/** Spec from a stored copula_specifications row; inverse of copulaSpecToRow */
+export function copulaSpecFromRow(row: CopulaSpecificationRow): EventCopulaSpec {
+    const { correlation_matrix, variables, vine, ...parameters } = row.parameters ?? {};
+    return {
+        variable_pair: row.variable_pair?.length === 2 ? [row.variable_pair[0], row.variable_pair[1]] : undefined,
+        family: row.copula_family as CopulaFamily,
+        parameters: parameters as Record<string, number>,
+        correlation_matrix: correlation_matrix as number[][] | undefined,
+        variables: variables as string[] | undefined,
+        vine: vine as VineCopula | undefined
+    };
+}
+
 /** Get all variable pairs for copula specification */
 export function getVariablePairs(variables: string[]): [string, string][] {
     const pairs: [string, string][] = [];
@@ -0,0 +1,686 @@
+// =============================================
+// StochFin Monte Carlo Engine: Derived Variable Formulas
+// Safe expression language for models.custom_formulas
+// =============================================
+
+/**
+ * Formula syntax (case-insensitive keywords, variable codes as identifiers):
+ *
+ *   REVENUE * GROSS_MARGIN
+ *   MAX(0, REVENUE - COGS - OPEX)
+ *   IF(DEBT_TO_EBITDA > 4, INTEREST_RATE + 0.02, INTEREST_RATE)
+ *   LAG(NET_DEBT, 1) - FCF
+ *
+ * Operators (lowest to highest precedence):
+ *   OR, AND, NOT, comparisons (> < >= <= = == != <>), + -, * /, unary -, ^
+ *
+ * Functions: IF(cond, a, b), MIN(a, ...), MAX(a, ...), ABS(x), LAG(VAR, k)
+ *
+ * Booleans are represented as 1 / 0. Nothing is evaluated with eval() -
+ * formulas are parsed into an AST and compiled to closures.
+ */
+
+// =============================================
+// AST Types
+// =============================================
+
+export type FormulaBinaryOperator =
+    | '+' | '-' | '*' | '/' | '^'
+    | '>' | '<' | '>=' | '<=' | '==' | '!='
+    | 'AND' | 'OR';
+
+export type FormulaFunction = 'IF' | 'MIN' | 'MAX' | 'ABS' | 'LAG';
+
+export type FormulaNode =
+    | { kind: 'number'; value: number }
+    | { kind: 'variable'; name: string }
+    | { kind: 'lag'; name: string; periods: number }
+    | { kind: 'unary'; operator: '-' | 'NOT'; operand: FormulaNode }
+    | { kind: 'binary'; operator: FormulaBinaryOperator; left: FormulaNode; right: FormulaNode }
+    | { kind: 'call'; name: Exclude<FormulaFunction, 'LAG'>; args: FormulaNode[] };
+
+// =============================================
+// Tokenizer
+// =============================================
+
+type TokenType = 'number' | 'identifier' | 'operator' | 'lparen' | 'rparen' | 'comma' | 'eof';
+
+interface Token {
+    type: TokenType;
+    value: string;
+    position: number;
+}
+
+const OPERATOR_TOKENS = ['>=', '<=', '==', '!=', '<>', '&&', '||', '>', '<', '=', '+', '-', '*', '/', '^', '!'];
+
+function tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < expression.length) {
+        const ch = expression[i];
+
+        if (/\s/.test(ch)) {
+            i++;
+            continue;
+        }
+
+        if (/[0-9.]/.test(ch)) {
+            const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(expression.slice(i));
+            if (!match) {
+                throw formulaError(`Invalid number`, i);
+            }
+            tokens.push({ type: 'number', value: match[0], position: i });
+            i += match[0].length;
+            continue;
+        }
+
+        if (/[A-Za-z_]/.test(ch)) {
+            const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(expression.slice(i))!;
+            tokens.push({ type: 'identifier', value: match[0], position: i });
+            i += match[0].length;
+            continue;
+        }
+
+        if (ch === '(') {
+            tokens.push({ type: 'lparen', value: ch, position: i });
+            i++;
+            continue;
+        }
+        if (ch === ')') {
+            tokens.push({ type: 'rparen', value: ch, position: i });
+            i++;
+            continue;
+        }
+        if (ch === ',' || ch === ';') {
+            tokens.push({ type: 'comma', value: ',', position: i });
+            i++;
+            continue;
+        }
+
+        const op = OPERATOR_TOKENS.find(o => expression.startsWith(o, i));
+        if (op) {
+            tokens.push({ type: 'operator', value: op, position: i });
+            i += op.length;
+            continue;
+        }
+
+        throw formulaError(`Unexpected character "${ch}"`, i);
+    }
+
+    tokens.push({ type: 'eof', value: '', position: expression.length });
+    return tokens;
+}
+
+function formulaError(message: string, position: number): Error {
+    return new Error(`Formula error at position ${position}: ${message}`);
+}
+
+// =============================================
+// Parser (recursive descent)
+// =============================================
+
+const COMPARISON_OPERATORS: Record<string, FormulaBinaryOperator> = {
+    '>': '>', '<': '<', '>=': '>=', '<=': '<=',
+    '=': '==', '==': '==', '!=': '!=', '<>': '!='
+};
+
+const FUNCTION_NAMES: FormulaFunction[] = ['IF', 'MIN', 'MAX', 'ABS', 'LAG'];
+
+/**
+ * Parse a formula expression into an AST
+ * Throws with the character position of the first syntax error
+ */
+export function parseFormula(expression: string): FormulaNode {
+    const tokens = tokenize(expression);
+    let pos = 0;
+
+    const peek = () => tokens[pos];
+    const next = () => tokens[pos++];
+
+    const isKeyword = (token: Token, keyword: string) =>
+        token.type === 'identifier' && token.value.toUpperCase() === keyword;
+
+    const expect = (type: TokenType, description: string): Token => {
+        const token = next();
+        if (token.type !== type) {
+            throw formulaError(`Expected ${description} but found "${token.value || 'end of formula'}"`, token.position);
+        }
+        return token;
+    };
+
+    function parseOr(): FormulaNode {
+        let left = parseAnd();
+        while (isKeyword(peek(), 'OR') || peek().value === '||') {
+            next();
+            left = { kind: 'binary', operator: 'OR', left, right: parseAnd() };
+        }
+        return left;
+    }
+
+    function parseAnd(): FormulaNode {
+        let left = parseNot();
+        while (isKeyword(peek(), 'AND') || peek().value === '&&') {
+            next();
+            left = { kind: 'binary', operator: 'AND', left, right: parseNot() };
+        }
+        return left;
+    }
+
+    function parseNot(): FormulaNode {
+        if (isKeyword(peek(), 'NOT') || (peek().type === 'operator' && peek().value === '!')) {
+            next();
+            return { kind: 'unary', operator: 'NOT', operand: parseNot() };
+        }
+        return parseComparison();
+    }
+
+    function parseComparison(): FormulaNode {
+        const left = parseAdditive();
+        const token = peek();
+        if (token.type === 'operator' && COMPARISON_OPERATORS[token.value]) {
+            next();
+            const right = parseAdditive();
+            return { kind: 'binary', operator: COMPARISON_OPERATORS[token.value], left, right };
+        }
+        return left;
+    }
+
+    function parseAdditive(): FormulaNode {
+        let left = parseMultiplicative();
+        while (peek().type === 'operator' && (peek().value === '+' || peek().value === '-')) {
+            const operator = next().value as '+' | '-';
+            left = { kind: 'binary', operator, left, right: parseMultiplicative() };
+        }
+        return left;
+    }
+
+    function parseMultiplicative(): FormulaNode {
+        let left = parseUnary();
+        while (peek().type === 'operator' && (peek().value === '*' || peek().value === '/')) {
+            const operator = next().value as '*' | '/';
+            left = { kind: 'binary', operator, left, right: parseUnary() };
+        }
+        return left;
+    }
+
+    function parseUnary(): FormulaNode {
+        if (peek().type === 'operator' && (peek().value === '-' || peek().value === '+')) {
+            const operator = next().value;
+            const operand = parseUnary();
+            return operator === '-' ? { kind: 'unary', operator: '-', operand } : operand;
+        }
+        return parsePower();
+    }
+
+    function parsePower(): FormulaNode {
+        const base = parsePrimary();
+        if (peek().type === 'operator' && peek().value === '^') {
+            next();
+            // Right-associative: 2^3^2 = 2^(3^2)
+            return { kind: 'binary', operator: '^', left: base, right: parseUnary() };
+        }
+        return base;
+    }
+
+    function parsePrimary(): FormulaNode {
+        const token = next();
+
+        if (token.type === 'number') {
+            return { kind: 'number', value: parseFloat(token.value) };
+        }
+
+        if (token.type === 'lparen') {
+            const inner = parseOr();
+            expect('rparen', '")"');
+            return inner;
+        }
+
+        if (token.type === 'identifier') {
+            const upper = token.value.toUpperCase();
+
+            if (peek().type === 'lparen') {
+                if (!FUNCTION_NAMES.includes(upper as FormulaFunction)) {
+                    throw formulaError(`Unknown function "${token.value}"`, token.position);
+                }
+                next();
+                const args: FormulaNode[] = [];
+                if (peek().type !== 'rparen') {
+                    args.push(parseOr());
+                    while (peek().type === 'comma') {
+                        next();
+                        args.push(parseOr());
+                    }
+                }
+                expect('rparen', '")"');
+                return buildCall(upper as FormulaFunction, args, token.position);
+            }
+
+            if (upper === 'TRUE') return { kind: 'number', value: 1 };
+            if (upper === 'FALSE') return { kind: 'number', value: 0 };
+
+            return { kind: 'variable', name: token.value };
+        }
+
+        throw formulaError(
+            token.type === 'eof' ? 'Unexpected end of formula' : `Unexpected "${token.value}"`,
+            token.position
+        );
+    }
+
+    const ast = parseOr();
+    const trailing = peek();
+    if (trailing.type !== 'eof') {
+        throw formulaError(`Unexpected "${trailing.value}"`, trailing.position);
+    }
+    return ast;
+}
+
+function buildCall(name: FormulaFunction, args: FormulaNode[], position: number): FormulaNode {
+    switch (name) {
+        case 'IF':
+            if (args.length !== 3) {
+                throw formulaError('IF requires 3 arguments: IF(condition, then, else)', position);
+            }
+            return { kind: 'call', name, args };
+
+        case 'MIN':
+        case 'MAX':
+            if (args.length < 1) {
+                throw formulaError(`${name} requires at least 1 argument`, position);
+            }
+            return { kind: 'call', name, args };
+
+        case 'ABS':
+            if (args.length !== 1) {
+                throw formulaError('ABS requires 1 argument', position);
+            }
+            return { kind: 'call', name, args };
+
+        case 'LAG': {
+            if (args.length < 1 || args.length > 2) {
+                throw formulaError('LAG requires 1 or 2 arguments: LAG(VARIABLE, periods)', position);
+            }
+            const [target, periodsNode] = args;
+            if (target.kind !== 'variable') {
+                throw formulaError('First argument of LAG must be a variable code', position);
+            }
+            const periods = periodsNode === undefined ? 1 : periodsNode.kind === 'number' ? periodsNode.value : NaN;
+            if (!Number.isInteger(periods) || periods < 0) {
+                throw formulaError('LAG periods must be a non-negative integer constant', position);
+            }
+            return { kind: 'lag', name: target.name, periods };
+        }
+    }
+}
+
+// =============================================
+// Dependency Analysis
+// =============================================
+
+/**
+ * Variables referenced by a formula
+ * - sameperiod: direct references (and LAG with 0 periods), which impose evaluation order
+ * - lagged: references to earlier periods, which never create cycles
+ */
+export function getFormulaDependencies(node: FormulaNode): {
+    samePeriod: string[];
+    lagged: string[];
+} {
+    const samePeriod = new Set<string>();
+    const lagged = new Set<string>();
+
+    function visit(n: FormulaNode) {
+        switch (n.kind) {
+            case 'variable':
+                samePeriod.add(n.name);
+                break;
+            case 'lag':
+                (n.periods === 0 ? samePeriod : lagged).add(n.name);
+                break;
+            case 'unary':
+                visit(n.operand);
+                break;
+            case 'binary':
+                visit(n.left);
+                visit(n.right);
+                break;
+            case 'call':
+                n.args.forEach(visit);
+                break;
+        }
+    }
+
+    visit(node);
+    return { samePeriod: Array.from(samePeriod), lagged: Array.from(lagged) };
+}
+
+// =============================================
+// Formula Set Compilation
+// =============================================
+
+export interface DerivedVariableConfig {
+    id: string;
+    code: string;
+    formula: string;
+    initialValue?: number;  // Value of LAG(code, k) before period 0 (needed for self-references)
+    executionOrder?: number;
+}
+
+/**
+ * Lookup used by compiled formulas
+ * value(index, period) returns the value of variable `index` at `period`
+ */
+type ValueLookup = (index: number, period: number) => number;
+
+type CompiledExpression = (lookup: ValueLookup, period: number) => number;
+
+export interface CompiledFormulaSet {
+    variableCodes: string[];                 // Drivers first, then derived in evaluation order
+    driverCount: number;
+    derived: {
+        config: DerivedVariableConfig;
+        index: number;                       // Index into variableCodes
+        evaluate: CompiledExpression;
+    }[];
+}
+
+/**
+ * Parse, validate and order a set of derived variables
+ * Throws on unknown variables, duplicate codes and circular dependencies.
+ */
+export function compileFormulaSet(
+    driverCodes: string[],
+    derivedVariables: DerivedVariableConfig[]
+): CompiledFormulaSet {
+    const driverSet = new Set(driverCodes);
+    const derivedByCode = new Map<string, DerivedVariableConfig>();
+
+    for (const d of derivedVariables) {
+        if (driverSet.has(d.code)) {
+            throw new Error(`Derived variable "${d.code}" is also defined as a simulated driver`);
+        }
+        if (derivedByCode.has(d.code)) {
+            throw new Error(`Derived variable "${d.code}" is defined more than once`);
+        }
+        derivedByCode.set(d.code, d);
+    }
+
+    // Parse and collect dependencies
+    const parsed = new Map<string, { ast: FormulaNode; samePeriod: string[]; lagged: string[] }>();
+    for (const d of derivedVariables) {
+        let ast: FormulaNode;
+        try {
+            ast = parseFormula(d.formula);
+        } catch (e) {
+            throw new Error(`${d.code}: ${e instanceof Error ? e.message : String(e)}`);
+        }
+        const deps = getFormulaDependencies(ast);
+        for (const name of [...deps.samePeriod, ...deps.lagged]) {
+            if (!driverSet.has(name) && !derivedByCode.has(name)) {
+                throw new Error(`${d.code}: unknown variable "${name}" in formula "${d.formula}"`);
+            }
+        }
+        parsed.set(d.code, { ast, ...deps });
+    }
+
+    const order = topologicalOrder(derivedVariables, parsed);
+
+    const variableCodes = [...driverCodes, ...order.map(d => d.code)];
+    const indexByCode = new Map(variableCodes.map((code, i) => [code, i]));
+
+    const derived = order.map(config => {
+        const index = indexByCode.get(config.code)!;
+        return {
+            config,
+            index,
+            evaluate: compileNode(parsed.get(config.code)!.ast, indexByCode, derivedByCode, driverCodes.length, index)
+        };
+    });
+
+    return { variableCodes, driverCount: driverCodes.length, derived };
+}
+
+/**
+ * Kahn's algorithm over same-period dependencies.
+ * Ties are broken by executionOrder, then declaration order, so evaluation is deterministic.
+ */
+function topologicalOrder(
+    derivedVariables: DerivedVariableConfig[],
+    parsed: Map<string, { samePeriod: string[] }>
+): DerivedVariableConfig[] {
+    const rank = (d: DerivedVariableConfig) => d.executionOrder ?? 0;
+    const pending = [...derivedVariables]
+        .map((d, i) => ({ d, i }))
+        .sort((a, b) => rank(a.d) - rank(b.d) || a.i - b.i)
+        .map(x => x.d);
+
+    const derivedCodes = new Set(derivedVariables.map(d => d.code));
+    const done = new Set<string>();
+    const order: DerivedVariableConfig[] = [];
+
+    while (pending.length > 0) {
+        const readyIdx = pending.findIndex(d =>
+            parsed.get(d.code)!.samePeriod.every(dep => !derivedCodes.has(dep) || done.has(dep))
+        );
+
+        if (readyIdx === -1) {
+            const cycle = findCycle(pending.map(d => d.code), parsed, derivedCodes);
+            throw new Error(`Circular dependency between derived variables: ${cycle.join(' -> ')}`);
+        }
+
+        const [ready] = pending.splice(readyIdx, 1);
+        done.add(ready.code);
+        order.push(ready);
+    }
+
+    return order;
+}
+
+function findCycle(
+    codes: string[],
+    parsed: Map<string, { samePeriod: string[] }>,
+    derivedCodes: Set<string>
+): string[] {
+    const remaining = new Set(codes);
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const visited = new Set<string>();
+
+    function dfs(code: string): string[] | null {
+        stack.push(code);
+        onStack.add(code);
+        visited.add(code);
+
+        for (const dep of parsed.get(code)!.samePeriod) {
+            if (!derivedCodes.has(dep) || !remaining.has(dep)) continue;
+            if (onStack.has(dep)) {
+                return [...stack.slice(stack.indexOf(dep)), dep];
+            }
+            if (!visited.has(dep)) {
+                const found = dfs(dep);
+                if (found) return found;
+            }
+        }
+
+        stack.pop();
+        onStack.delete(code);
+        return null;
+    }
+
+    for (const code of codes) {
+        if (!visited.has(code)) {
+            const found = dfs(code);
+            if (found) return found;
+        }
+    }
+    return codes;
+}
+
+function compileNode(
+    node: FormulaNode,
+    indexByCode: Map<string, number>,
+    derivedByCode: Map<string, DerivedVariableConfig>,
+    driverCount: number,
+    selfIndex: number
+): CompiledExpression {
+    const compile = (n: FormulaNode) => compileNode(n, indexByCode, derivedByCode, driverCount, selfIndex);
+
+    switch (node.kind) {
+        case 'number': {
+            const value = node.value;
+            return () => value;
+        }
+
+        case 'variable': {
+            const idx = indexByCode.get(node.name)!;
+            return (lookup, period) => lookup(idx, period);
+        }
+
+        case 'lag': {
+            const idx = indexByCode.get(node.name)!;
+            const k = node.periods;
+            const derivedConfig = derivedByCode.get(node.name);
+            const initialValue = derivedConfig?.initialValue;
+            // Before period 0: drivers use their starting value, derived variables
+            // their initialValue, or their period-0 value if it is evaluated earlier
+            const canUsePeriodZero = idx < driverCount || idx < selfIndex;
+
+            if (derivedConfig && initialValue === undefined && !canUsePeriodZero) {
+                throw new Error(
+                    `LAG(${node.name}, ${k}) reaches before period 0; set an initial value for ${node.name}`
+                );
+            }
+
+            return (lookup, period) => {
+                const target = period - k;
+                if (target >= 0) return lookup(idx, target);
+                if (derivedConfig && initialValue !== undefined) return initialValue;
+                return lookup(idx, 0);
+            };
+        }
+
+        case 'unary': {
+            const operand = compile(node.operand);
+            return node.operator === '-'
+                ? (lookup, period) => -operand(lookup, period)
+                : (lookup, period) => operand(lookup, period) === 0 ? 1 : 0;
+        }
+
+        case 'binary': {
+            const left = compile(node.left);
+            const right = compile(node.right);
+            switch (node.operator) {
+                case '+': return (l, p) => left(l, p) + right(l, p);
+                case '-': return (l, p) => left(l, p) - right(l, p);
+                case '*': return (l, p) => left(l, p) * right(l, p);
+                case '/': return (l, p) => left(l, p) / right(l, p);
+                case '^': return (l, p) => Math.pow(left(l, p), right(l, p));
+                case '>': return (l, p) => left(l, p) > right(l, p) ? 1 : 0;
+                case '<': return (l, p) => left(l, p) < right(l, p) ? 1 : 0;
+                case '>=': return (l, p) => left(l, p) >= right(l, p) ? 1 : 0;
+                case '<=': return (l, p) => left(l, p) <= right(l, p) ? 1 : 0;
+                case '==': return (l, p) => Math.abs(left(l, p) - right(l, p)) < 1e-10 ? 1 : 0;
+                case '!=': return (l, p) => Math.abs(left(l, p) - right(l, p)) >= 1e-10 ? 1 : 0;
+                // Short-circuit so IF-guarded divisions are never evaluated needlessly
+                case 'AND': return (l, p) => left(l, p) !== 0 && right(l, p) !== 0 ? 1 : 0;
+                case 'OR': return (l, p) => left(l, p) !== 0 || right(l, p) !== 0 ? 1 : 0;
+            }
+            break;
+        }
+
+        case 'call': {
+            const args = node.args.map(compile);
+            switch (node.name) {
+                case 'IF': {
+                    const [cond, whenTrue, whenFalse] = args;
+                    return (l, p) => cond(l, p) !== 0 ? whenTrue(l, p) : whenFalse(l, p);
+                }
+                case 'MIN':
+                    return (l, p) => {
+                        let result = Infinity;
+                        for (const arg of args) result = Math.min(result, arg(l, p));
+                        return result;
+                    };
+                case 'MAX':
+                    return (l, p) => {
+                        let result = -Infinity;
+                        for (const arg of args) result = Math.max(result, arg(l, p));
+                        return result;
+                    };
+                case 'ABS': {
+                    const [arg] = args;
+                    return (l, p) => Math.abs(arg(l, p));
+                }
+            }
+        }
+    }
+
+    throw new Error(`Unsupported formula node`);
+}
+
+// =============================================
+// Evaluation
+// =============================================
+
+/**
+ * Evaluate all derived variables for one scenario
+ * @param driverPaths Simulated paths [driver][period] in the order of driverCodes
+ * @returns Derived paths [derived][period] in formulaSet evaluation order
+ */
+export function evaluateDerivedPaths(
+    formulaSet: CompiledFormulaSet,
+    driverPaths: number[][],
+    numPeriods: number
+): number[][] {
+    const { driverCount, derived } = formulaSet;
+    const derivedPaths: number[][] = derived.map(() => new Array(numPeriods));
+
+    const lookup: ValueLookup = (index, period) =>
+        index < driverCount
+            ? driverPaths[index][period]
+            : derivedPaths[index - driverCount][period];
+
+    for (let period = 0; period < numPeriods; period++) {
+        for (let i = 0; i < derived.length; i++) {
+            derivedPaths[i][period] = derived[i].evaluate(lookup, period);
+        }
+    }
+
+    return derivedPaths;
+}
+
+/**
+ * Evaluate derived variables in place on columnar values [variable][period][scenario],
+ * where variables 0..driverCount-1 hold the drivers and the derived columns follow
+ */
+export function evaluateDerivedColumns(
+    formulaSet: CompiledFormulaSet,
+    values: Float64Array,
+    nScenarios: number,
+    numPeriods: number
+): void {
+    let scenario = 0;
+    const lookup: ValueLookup = (index, period) => values[(index * numPeriods + period) * nScenarios + scenario];
+
+    for (let period = 0; period < numPeriods; period++) {
+        for (let i = 0; i < formulaSet.derived.length; i++) {
+            const offset = ((formulaSet.driverCount + i) * numPeriods + period) * nScenarios;
+            for (scenario = 0; scenario < nScenarios; scenario++) {
+                values[offset + scenario] = formulaSet.derived[i].evaluate(lookup, period);
+            }
+        }
+    }
+}
+
+/**
+ * Evaluate a single formula against fixed values (e.g. for previews in the UI)
+ */
+export function evaluateFormula(expression: string, values: Record<string, number>): number {
+    parseFormula(expression);  // Surface syntax errors without the set-level prefix
+
+    const codes = Object.keys(values);
+    const formulaSet = compileFormulaSet(codes, [{ id: '__preview__', code: '__PREVIEW__', formula: expression }]);
+    const [result] = evaluateDerivedPaths(formulaSet, codes.map(c => [values[c]]), 1);
+    return result[0];
+}
@@ -15,9 +15,54 @@ export {
     sampleGamma,
     samplePoisson,
     sampleEmpirical,
-    sampleCorrelatedNormals
+    sampleCorrelatedNormals,
+    deriveStreamSeed,
+    createStreamRng,
+    SCENARIO_STREAM,
+    PARAMETER_STREAM,
+    QMC_SCRAMBLE_STREAM,
+    RARE_EVENT_PILOT_STREAM,
+    SPLITTING_STREAM,
+    SENSITIVITY_A_STREAM,
+    SENSITIVITY_B_STREAM
 } from './random';
 
+// Special functions (Gamma/Beta, Normal and Student-t distributions)
+export {
+    logGamma,
+    regularizedIncompleteBeta,
+    erfc,
+    normalCDF,
+    normalPDF,
+    normalQuantile,
+    studentTCDF,
+    studentTPDF,
+    studentTLogPDF,
+    studentTQuantile,
+    regularizedGammaP,
+    regularizedGammaQ,
+    gammaQuantile,
+    chiSquaredLogPDF,
+    noncentralChiSquaredLogPDF,
+    betaQuantile
+} from './special-functions';
+
+// Static distributions (DistributionObject sampling)
+export {
+    validateDistribution,
+    sampleDistribution,
+    distributionQuantile,
+    distributionMean,
+    type StaticDistribution
+} from './distributions';
+
+// Optimization
+export {
+    nelderMead,
+    type OptimizationResult,
+    type NelderMeadOptions
+} from './optimization';
+
 // Correlation utilities
 export {
     isPositiveDefinite,
@@ -25,17 +70,30 @@ export {
     choleskyDecomposition,
     buildCorrelationMatrix,
     adjustToPositiveDefinite,
+    reorderCorrelationMatrix,
+    repairCorrelationMatrix,
     getIndustryTemplate,
     formatMatrix,
     INDUSTRY_CORRELATION_TEMPLATES
 } from './correlation';
 
+// Dependence models (joint innovation samplers)
+export {
+    createEllipticalNoiseModel,
+    createDependenceModel,
+    sampleNoiseVector,
+    DEFAULT_T_DEGREES_OF_FREEDOM,
+    type NoiseModel,
+    type DependenceCopula
+} from './dependence';
+
 // Stochastic processes
 export {
     // GBM
     stepGBM,
     stepGBMMilstein,
     simulateGBMPath,
+    simulateGBMColumns,
     // Ornstein-Uhlenbeck
     stepOU,
     simulateOUPath,
@@ -48,9 +106,30 @@ export {
     simulateHestonPath,
     checkFellerCondition,
     hestonImpliedVolatility,
+    // Markov regime-switching
+    stepRegimeSwitching,
+    simulateRegimeSwitchingPath,
+    validateRegimeSwitchingConfig,
+    stationaryDistribution,
+    expectedRegimeDurations,
+    // GARCH family
+    stepGARCH,
+    simulateGARCHPath,
+    garchPersistence,
+    garchUnconditionalVariance,
+    garchNextVariance,
+    garchInitialVariance,
+    garchConditionalVariances,
+    garchLogLikelihood,
+    // Static distribution draws
+    stepStaticDistribution,
+    simulateStaticDistributionPath,
+    staticDistributionInitialValue,
     // Generic path simulation
     simulatePath,
     simulateCorrelatedPaths,
+    simulateCorrelatedProcesses,
+    simulateCorrelatedColumns,
     getTimeStepInYears,
     // Types
     type TimeStepUnit,
@@ -58,10 +137,107 @@ export {
     type OUConfig,
     type JumpDiffusionConfig,
     type HestonConfig,
+    type MarkovRegime,
+    type RegimeSwitchingConfig,
+    type GARCHVariant,
+    type GARCHConfig,
+    type StaticDistributionConfig,
+    type CorrelatedPaths,
+    type ColumnarPaths,
+    type PeriodShock,
+    type SatelliteLink,
     type ProcessConfig,
     type ProcessType
 } from './processes';
 
+// Columnar buffers ([variable][period][scenario] Float64Array layout)
+export {
+    pathColumn,
+    gatherPath,
+    sampleNormalColumns,
+    choleskyMixColumns
+} from './columnar';
+
+// Variance reduction (antithetic variates, Sobol quasi-Monte Carlo, control variates)
+export {
+    antitheticNormals,
+    antitheticInnovations,
+    SobolSequence,
+    BrownianBridge,
+    sobolPointOf,
+    sobolNormalColumns,
+    ControlAccumulator,
+    MeanAccumulator,
+    DEFAULT_SOBOL_REPLICATES,
+    SOBOL_MAX_DIMENSION,
+    type SamplingMethod,
+    type VarianceReductionConfig,
+    type MeanEstimate
+} from './variance-reduction';
+
+// Rare events (importance sampling by noise tilting, multilevel splitting)
+export {
+    tiltLogWeights,
+    crossEntropyTilt,
+    runMultilevelSplitting,
+    runReplicatedSplitting,
+    RARE_EVENT_METHODS,
+    DEFAULT_PILOT_SCENARIOS,
+    MAX_CROSS_ENTROPY_ITERATIONS,
+    CROSS_ENTROPY_ELITE_FRACTION,
+    DEFAULT_LEVEL_PROBABILITY,
+    MAX_SPLITTING_LEVELS,
+    DEFAULT_SPLITTING_REPLICATES,
+    type RareEventMethod,
+    type SplittingModel,
+    type SplittingResult,
+    type ReplicatedSplittingResult
+} from './rare-events';
+
+// Adaptive scenario counts (run in batches until a precision target is met)
+export {
+    adaptiveBatches,
+    percentileStdError,
+    DEFAULT_ADAPTIVE_BATCH_SIZE
+} from './adaptive';
+
+// Global sensitivity analysis (Sobol indices by Saltelli sampling)
+export {
+    estimateSobolIndices,
+    sobolIndicesFromSaltelli,
+    rankTornado,
+    DEFAULT_SENSITIVITY_SAMPLES,
+    DEFAULT_SOBOL_BOOTSTRAP,
+    type SobolIndex,
+    type SobolAnalysis,
+    type TornadoRow,
+    type SensitivityFactor
+} from './global-sensitivity';
+
+// Short-rate models (Vasicek, CIR, Hull-White)
+export {
+    stepVasicek,
+    stepCIR,
+    stepHullWhite,
+    stepShortRate,
+    simulateShortRatePath,
+    shortRateInitialValue,
+    cirFellerCondition,
+    curveDiscountFactor,
+    curveForwardRate,
+    zeroCouponBondPrice,
+    zeroCouponYield,
+    zeroCouponBondPricesOnPath,
+    zeroCouponYieldsOnPath,
+    pathDiscountFactors,
+    monteCarloZeroCouponBondPrice,
+    type VasicekConfig,
+    type CIRConfig,
+    type HullWhiteConfig,
+    type YieldCurve,
+    type ShortRateProcess
+} from './short-rates';
+
 // Copula theory for tail dependencies
 export {
     // Sampling
@@ -72,8 +248,14 @@ export {
     sampleGaussianCopula,
     sampleTCopula,
     sampleRotatedCopula,
+    sampleClaytonMultivariate,
+    sampleGumbelMultivariate,
+    sampleFrankMultivariate,
     // Analysis
     tailDependenceCoefficient,
+    tCopulaTailDependence,
+    tCopulaDegreesOfFreedom,
+    copulaKendallsTau,
     kendallsTau,
     // Fitting
     fitClaytonFromTau,
@@ -91,6 +273,36 @@ export {
     type CopulaConfig
 } from './copulas';
 
+// Vine copulas (pair-copula constructions)
+export {
+    // Pair copulas
+    pairCopulaLogDensity,
+    pairCopulaHFunction,
+    pairCopulaHInverse,
+    pairCopulaLogLikelihood,
+    pairCopulaKendallsTau,
+    pairCopulaParameterCount,
+    pairCopulaToConfig,
+    transposePairCopula,
+    fitPairCopula,
+    selectPairCopula,
+    pseudoObservations,
+    // Vines
+    fitVineCopula,
+    createVineSampler,
+    sampleVineCopula,
+    vineLogDensity,
+    PAIR_COPULA_FAMILIES,
+    // Types
+    type PairCopulaFamily,
+    type PairCopula,
+    type PairCopulaFit,
+    type VineEdge,
+    type VineType,
+    type VineCopula,
+    type VineFitOptions
+} from './vine-copulas';
+
 // Bayesian inference and sequential updates
 export {
     // Beta-Bernoulli
@@ -143,32 +355,134 @@ export {
 export {
     estimateGBMParams,
     estimateOUParams,
+    estimateRegimeSwitchingParams,
+    estimateVasicekParams,
+    estimateCIRParams,
+    estimateHullWhiteParams,
+    estimateGARCHParams,
     recommendProcess,
     type GBMEstimation,
     type OUEstimation,
+    type RegimeSwitchingEstimation,
+    type RegimeSwitchingEstimationOptions,
+    type ShortRateEstimation,
+    type GARCHEstimation,
     type ProcessRecommendation,
     type RecommendedProcess
 } from './estimation';
 
+// Derived variable formulas
+export {
+    parseFormula,
+    getFormulaDependencies,
+    compileFormulaSet,
+    evaluateDerivedPaths,
+    evaluateFormula,
+    type FormulaNode,
+    type FormulaFunction,
+    type FormulaBinaryOperator,
+    type DerivedVariableConfig,
+    type CompiledFormulaSet
+} from './formulas';
+
+// Streaming aggregation (exact moments, t-digest quantiles)
+export {
+    TDigest,
+    StreamingStatistics,
+    tdigestRankErrorBound,
+    DEFAULT_DIGEST_COMPRESSION
+} from './streaming';
+
+// Parameter uncertainty (two-level Monte Carlo)
+export {
+    parameterUncertaintyFromEstimate,
+    sampleParameter,
+    sampleProcessParameters,
+    decomposeVariance,
+    decomposeVarianceFromSummaries,
+    type GroupSummary,
+    type ParameterDistribution,
+    type ParameterUncertainty,
+    type VarianceDecomposition
+} from './parameter-uncertainty';
+
 // Main simulator
 export {
     runSimulation,
+    simulateScenarioBlock,
     runSensitivityAnalysis,
+    runTornadoAnalysis,
+    DEFAULT_TORNADO_SHOCK,
+    runGlobalSensitivityAnalysis,
     runStressTest,
+    validateStressScenario,
+    stressShockProfile,
+    validateSatelliteModels,
     PREDEFINED_STRESS_SCENARIOS,
+    STREAMING_AUTO_THRESHOLD,
     type SimulationConfig,
     type VariableConfig,
     type SimulationInput,
+    type CorrelationRegime,
     type CovenantConfig,
     type SimulationResult,
+    type RunOptions,
+    type ScenarioBlock,
+    type RegimePathResult,
+    type VariancePeriodDecomposition,
+    type VariancePeriodEstimate,
+    type CovenantPeriodEstimate,
+    type VarianceReductionReport,
+    type AdaptiveSimulationConfig,
+    type ConvergencePoint,
     type VariablePeriodResult,
     type CovenantPeriodResult,
     type SensitivityInput,
     type SensitivityResult,
+    type TornadoParameter,
+    type TornadoShock,
+    type TornadoAnalysisInput,
+    type TornadoBar,
+    type TornadoAnalysisResult,
+    type GlobalSensitivityInput,
+    type GlobalSensitivityFactor,
+    type GlobalSensitivityResult,
+    type StressShockPath,
     type StressScenario,
     type StressTestResult
 } from './simulator';
 
+// Stored stress scenarios (stress_scenarios rows ↔ engine scenarios)
+export {
+    STRESS_SCENARIO_TYPES,
+    PREDEFINED_STRESS_SCENARIO_TYPES,
+    stressScenarioFromRow,
+    stressParametersFromScenario
+} from './stress-scenarios';
+
+// Reverse stress testing (smallest Mahalanobis shock that breaks a covenant or event)
+export {
+    runReverseStressTest,
+    DEFAULT_REVERSE_STRESS_MAX_DISTANCE,
+    type ReverseStressTarget,
+    type ReverseStressInput,
+    type ReverseStressVariable,
+    type ReverseStressResult
+} from './reverse-stress';
+
+// Macro satellite models (company variables regressed on lagged macro factors)
+export {
+    estimateSatelliteModel,
+    satelliteShockPath,
+    translateMacroScenario,
+    DEFAULT_SATELLITE_LAGS,
+    type SatelliteSeries,
+    type SatelliteTerm,
+    type SatelliteModel,
+    type SatelliteEstimationOptions,
+    type SatelliteTranslationOptions
+} from './satellite';
+
 // Event Probability DSL and Types
 export {
     // Event types
@@ -177,12 +491,15 @@ export {
     type LogicalOperator,
     type SDEModelType,
     type DataFrequency,
+    type PathEvaluation,
     // Event definitions
     type ThresholdBreachEvent,
     type CompoundEvent,
     type ConditionalEvent,
     type SequenceEvent,
     type AtLeastKEvent,
+    type PathTransform,
+    type PathConditionEvent,
     type EventDefinition,
     // SDE parameters
     type GBMParameters,
@@ -205,12 +522,16 @@ export {
     isConditionalEvent,
     isSequenceEvent,
     isAtLeastKEvent,
+    isPathCondition,
     // Validation
     validateEventDefinition,
     type ValidationResult,
     // Helpers
     extractVariables,
     getVariablePairs,
+    copulaSpecToRow,
+    copulaSpecFromRow,
+    type CopulaSpecificationRow,
     monthsToYears,
     getNumSteps,
     getDtYears,
@@ -220,11 +541,41 @@ export {
 // Event Probability Simulation Engine
 export {
     runEventSimulation,
+    runEventSimulationParallel,
     runEventSimulationWithComparison,
+    simulateTrajectoryBlock,
+    buildNoiseModel,
     evaluateEvent,
-    evaluateThresholdBreach
+    firstEventStep,
+    evaluateThresholdBreach,
+    transformPath,
+    type EventTrajectoryInput,
+    type TrajectoryBlock
 } from './event-evaluator';
 
+// Parallel execution (worker pools; the Node pool lives in ./node-worker-pool, server-only)
+export {
+    createWorkerPool,
+    createBrowserWorkerPool,
+    runBlocksInOrder,
+    defaultBlockSize,
+    type SimulationWorkerPool,
+    type WorkerEndpoint,
+    type WorkerTask,
+    type WorkerTaskResult,
+    type ScenarioTask,
+    type EventTrajectoryTask,
+    type WorkerRequest,
+    type WorkerResponse
+} from './parallel';
+
+// Event Text Grammar
+export {
+    parseEventText,
+    formatEventText,
+    type EventTextParseResult
+} from './event-grammar';
+
 // Gemini NL Parser for Event Definitions
 export {
     parseNaturalLanguageEvent,
@@ -0,0 +1,98 @@
+// =============================================
+// StochFin Monte Carlo Engine: Node Worker Pool
+// Server-only (worker_threads); kept out of the engine index so client
+// bundles never import node: modules
+// =============================================
+
+import { Worker } from 'node:worker_threads';
+import { availableParallelism } from 'node:os';
+import { createWorkerPool, type SimulationWorkerPool, type WorkerEndpoint, type WorkerRequest, type WorkerResponse } from './parallel';
+import { handleWorkerRequest, NODE_WORKER_READY } from './worker-tasks';
+
+export interface NodeWorkerPoolOptions {
+    size?: number;          // Default: available cores - 1 (at least 1)
+    workerUrl?: URL;        // Worker entry script; default the build:worker bundle
+    onStartupFailure?: (error: Error) => void;  // Called for each worker that falls back to in-thread
+}
+
+/**
+ * worker_threads pool for server-side simulations; terminate() it when done.
+ * The default entry is plain JavaScript with the engine bundled in (run
+ * npm run build:worker; dev and build do), which the Next.js bundler copies
+ * next to the server chunks. Workers whose entry fails to load run their
+ * tasks on the calling thread instead, which gives the same results.
+ */
+export function createNodeWorkerPool(options: NodeWorkerPoolOptions = {}): SimulationWorkerPool {
+    const size = options.size ?? Math.max(1, availableParallelism() - 1);
+    const { workerUrl } = options;
+    const spawn = workerUrl
+        ? () => new Worker(workerUrl)
+        // Written out inline so the bundler picks up the entry as an asset
+        : () => new Worker(new URL('./generated/simulation-worker-node.js', import.meta.url));
+
+    return createWorkerPool(() => nodeWorkerEndpoint(spawn, options.onStartupFailure), size);
+}
+
+function nodeWorkerEndpoint(spawn: () => Worker, onStartupFailure?: (error: Error) => void): WorkerEndpoint {
+    const messageListeners: ((message: WorkerResponse) => void)[] = [];
+    const errorListeners: ((error: Error) => void)[] = [];
+    // Requests posted before the worker is ready; replayed in-thread if it never gets there
+    const unconfirmed: WorkerRequest[] = [];
+    let ready = false;
+    let inThread = false;
+    let worker: Worker | null = null;
+
+    const runInThread = (request: WorkerRequest) => {
+        setImmediate(() => {
+            const { response } = handleWorkerRequest(request);
+            for (const listener of messageListeners) listener(response);
+        });
+    };
+
+    const fallBack = (error: unknown) => {
+        inThread = true;
+        onStartupFailure?.(error instanceof Error ? error : new Error(String(error)));
+        for (const request of unconfirmed.splice(0)) runInThread(request);
+    };
+
+    try {
+        worker = spawn();
+        worker.on('message', (message: WorkerResponse | typeof NODE_WORKER_READY) => {
+            if (message === NODE_WORKER_READY) {
+                ready = true;
+                unconfirmed.length = 0;
+                return;
+            }
+            for (const listener of messageListeners) listener(message);
+        });
+        worker.on('error', error => {
+            if (ready) {
+                for (const listener of errorListeners) listener(error);
+            } else if (!inThread) {
+                fallBack(error);
+            }
+        });
+    } catch (error) {
+        fallBack(error);
+    }
+
+    return {
+        postMessage: message => {
+            if (inThread) {
+                runInThread(message);
+                return;
+            }
+            if (!ready) unconfirmed.push(message);
+            worker!.postMessage(message);
+        },
+        onMessage: listener => {
+            messageListeners.push(listener);
+        },
+        onError: listener => {
+            errorListeners.push(listener);
+        },
+        terminate: async () => {
+            await worker?.terminate();
+        }
+    };
+}
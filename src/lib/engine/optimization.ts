@@ -0,0 +1,102 @@
+// =============================================
+// StochFin Monte Carlo Engine: Optimization
+// Derivative-free minimization for likelihood fitting
+// =============================================
+
+export interface OptimizationResult {
+    x: number[];
+    value: number;
+    iterations: number;
+    converged: boolean;
+}
+
+export interface NelderMeadOptions {
+    maxIterations?: number;     // default 200 * dimension
+    tolerance?: number;         // default 1e-10 (spread of simplex values)
+    initialStep?: number[];     // default 10% of |x0| (or 0.01 for zeros)
+}
+
+/**
+ * Nelder-Mead simplex minimization
+ * Non-finite objective values are treated as +Infinity, so constraints can be
+ * expressed by returning Infinity (or NaN) outside the feasible region.
+ */
+export function nelderMead(
+    objective: (x: number[]) => number,
+    x0: number[],
+    options: NelderMeadOptions = {}
+): OptimizationResult {
+    const n = x0.length;
+    const maxIterations = options.maxIterations ?? 200 * n;
+    const tolerance = options.tolerance ?? 1e-10;
+    const f = (x: number[]) => {
+        const v = objective(x);
+        return isFinite(v) ? v : Infinity;
+    };
+
+    // Initial simplex
+    let simplex: number[][] = [x0.slice()];
+    for (let i = 0; i < n; i++) {
+        const vertex = x0.slice();
+        const step = options.initialStep?.[i] ?? (x0[i] !== 0 ? 0.1 * Math.abs(x0[i]) : 0.01);
+        vertex[i] += step;
+        simplex.push(vertex);
+    }
+    let values = simplex.map(f);
+
+    let iterations = 0;
+    let converged = false;
+
+    for (; iterations < maxIterations; iterations++) {
+        // Order vertices by objective value
+        const order = values.map((v, i) => i).sort((a, b) => values[a] - values[b]);
+        simplex = order.map(i => simplex[i]);
+        values = order.map(i => values[i]);
+
+        if (isFinite(values[n]) && Math.abs(values[n] - values[0]) <= tolerance * (Math.abs(values[0]) + tolerance)) {
+            converged = true;
+            break;
+        }
+
+        // Centroid of all but the worst vertex
+        const centroid = Array(n).fill(0);
+        for (let i = 0; i < n; i++) {
+            for (let j = 0; j < n; j++) centroid[j] += simplex[i][j] / n;
+        }
+        const along = (t: number) => centroid.map((c, j) => c + t * (simplex[n][j] - c));
+
+        const reflected = along(-1);
+        const fr = f(reflected);
+
+        if (fr < values[0]) {
+            const expanded = along(-2);
+            const fe = f(expanded);
+            if (fe < fr) {
+                simplex[n] = expanded;
+                values[n] = fe;
+            } else {
+                simplex[n] = reflected;
+                values[n] = fr;
+            }
+        } else if (fr < values[n - 1]) {
+            simplex[n] = reflected;
+            values[n] = fr;
+        } else {
+            const contracted = fr < values[n] ? along(-0.5) : along(0.5);
+            const fc = f(contracted);
+            if (fc < Math.min(fr, values[n])) {
+                simplex[n] = contracted;
+                values[n] = fc;
+            } else {
+                // Shrink toward the best vertex
+                for (let i = 1; i <= n; i++) {
+                    simplex[i] = simplex[i].map((v, j) => simplex[0][j] + 0.5 * (v - simplex[0][j]));
+                    values[i] = f(simplex[i]);
+                }
+            }
+        }
+    }
+
+    const best = values.indexOf(Math.min(...values));
+    return { x: simplex[best], value: values[best], iterations, converged };
+}
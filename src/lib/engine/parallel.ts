@@ -0,0 +1,207 @@
+// =============================================
+// StochFin Monte Carlo Engine: Parallel Execution
+// Worker pools that simulate blocks of scenarios off the main thread.
+// Every scenario draws from its own seed stream (see deriveStreamSeed) and
+// blocks are folded back in scenario order, so results are identical for
+// any number of workers, including none.
+// =============================================
+
+import type { SimulationInput, ScenarioBlock } from './simulator';
+import type { EventTrajectoryInput, TrajectoryBlock } from './event-evaluator';
+
+// =============================================
+// Tasks and Pools
+// =============================================
+
+export interface ScenarioTask {
+    kind: 'scenarios';
+    input: SimulationInput;      // randomSeed must be resolved before fan-out
+    start: number;
+    end: number;
+}
+
+export interface EventTrajectoryTask {
+    kind: 'event_trajectories';
+    input: EventTrajectoryInput;
+    start: number;
+    end: number;
+}
+
+export type WorkerTask = ScenarioTask | EventTrajectoryTask;
+export type WorkerTaskResult = ScenarioBlock | TrajectoryBlock;
+
+export interface WorkerRequest {
+    id: number;
+    task: WorkerTask;
+}
+
+export type WorkerResponse =
+    | { id: number; result: WorkerTaskResult }
+    | { id: number; error: string };
+
+export interface SimulationWorkerPool {
+    readonly size: number;
+    run(task: ScenarioTask): Promise<ScenarioBlock>;
+    run(task: EventTrajectoryTask): Promise<TrajectoryBlock>;
+    terminate(): Promise<void>;
+}
+
+/**
+ * Minimal common surface of a Node worker_threads Worker and a Web Worker
+ */
+export interface WorkerEndpoint {
+    postMessage(message: WorkerRequest): void;
+    onMessage(listener: (message: WorkerResponse) => void): void;
+    onError(listener: (error: Error) => void): void;
+    terminate(): Promise<void>;
+}
+
+/**
+ * Pool of `size` workers; tasks queue until a worker is free
+ */
+export function createWorkerPool(spawn: () => WorkerEndpoint, size: number): SimulationWorkerPool {
+    if (!(size >= 1)) throw new Error('Worker pool needs at least one worker');
+
+    type Pending = {
+        request: WorkerRequest;
+        resolve: (result: WorkerTaskResult) => void;
+        reject: (error: Error) => void;
+    };
+
+    const queue: Pending[] = [];
+    const idle: WorkerEndpoint[] = [];
+    const busy = new Map<WorkerEndpoint, Pending>();
+    let nextId = 0;
+    let terminated = false;
+    let alive = Math.floor(size);
+
+    const dispatch = () => {
+        while (idle.length > 0 && queue.length > 0) {
+            const worker = idle.pop()!;
+            const pending = queue.shift()!;
+            busy.set(worker, pending);
+            worker.postMessage(pending.request);
+        }
+    };
+
+    const release = (worker: WorkerEndpoint) => {
+        busy.delete(worker);
+        if (!terminated) {
+            idle.push(worker);
+            dispatch();
+        }
+    };
+
+    const workers = Array.from({ length: Math.floor(size) }, () => {
+        const worker = spawn();
+        worker.onMessage(message => {
+            const pending = busy.get(worker);
+            if (!pending || pending.request.id !== message.id) return;
+            release(worker);
+            if ('error' in message) {
+                pending.reject(new Error(message.error));
+            } else {
+                pending.resolve(message.result);
+            }
+        });
+        // A crashed worker is not reused; once none are left, queued tasks fail too
+        worker.onError(error => {
+            const pending = busy.get(worker);
+            busy.delete(worker);
+            const idleIdx = idle.indexOf(worker);
+            if (idleIdx !== -1) idle.splice(idleIdx, 1);
+            alive--;
+            pending?.reject(error);
+            if (alive === 0) {
+                for (const queued of queue.splice(0)) queued.reject(error);
+            }
+        });
+        idle.push(worker);
+        return worker;
+    });
+
+    const run = (task: WorkerTask): Promise<WorkerTaskResult> => {
+        if (terminated) return Promise.reject(new Error('Worker pool has been terminated'));
+        if (alive === 0) return Promise.reject(new Error('All pool workers have failed'));
+        return new Promise((resolve, reject) => {
+            queue.push({ request: { id: nextId++, task }, resolve, reject });
+            dispatch();
+        });
+    };
+
+    return {
+        size: workers.length,
+        run: run as SimulationWorkerPool['run'],
+        async terminate() {
+            terminated = true;
+            for (const pending of [...queue, ...busy.values()]) {
+                pending.reject(new Error('Worker pool has been terminated'));
+            }
+            queue.length = 0;
+            busy.clear();
+            await Promise.all(workers.map(w => w.terminate()));
+        }
+    };
+}
+
+/**
+ * Web Worker pool for client-side simulations
+ */
+export function createBrowserWorkerPool(
+    size: number = Math.max(1, (globalThis.navigator?.hardwareConcurrency ?? 2) - 1)
+): SimulationWorkerPool {
+    return createWorkerPool(() => {
+        const worker = new Worker(new URL('./simulation-worker.ts', import.meta.url), { type: 'module' });
+        return {
+            postMessage: message => worker.postMessage(message),
+            onMessage: listener => worker.addEventListener('message', e => listener(e.data as WorkerResponse)),
+            onError: listener => worker.addEventListener('error', e => listener(new Error(e.message))),
+            terminate: async () => worker.terminate()
+        };
+    }, size);
+}
+
+// =============================================
+// Block Scheduling
+// =============================================
+
+/** Scenarios per task when no block size is given: about four tasks per worker */
+export function defaultBlockSize(nScenarios: number, workers: number): number {
+    return Math.max(1, Math.ceil(nScenarios / (Math.max(1, workers) * 4)));
+}
+
+/**
+ * Run scenario blocks [first, first + blockSize), ... up to nScenarios and
+ * hand each result to `consume` in scenario order. At most `maxInFlight`
+ * blocks are pending at once, which bounds the memory held by out-of-order results.
+ */
+export async function runBlocksInOrder<T>(
+    nScenarios: number,
+    blockSize: number,
+    runBlock: (start: number, end: number) => T | Promise<T>,
+    consume: (block: T) => void,
+    maxInFlight: number = 1,
+    first: number = 0
+): Promise<void> {
+    const pending: Promise<T>[] = [];
+    let next = first;
+
+    const launch = () => {
+        while (pending.length < maxInFlight && next < nScenarios) {
+            const start = next;
+            const end = Math.min(nScenarios, start + blockSize);
+            next = end;
+            const block = Promise.resolve().then(() => runBlock(start, end));
+            // Failures surface when the block is awaited; don't report them as unhandled before that
+            block.catch(() => undefined);
+            pending.push(block);
+        }
+    };
+
+    launch();
+    while (pending.length > 0) {
+        const block = await pending.shift()!;
+        consume(block);
+        launch();
+    }
+}
@@ -0,0 +1,205 @@
+// =============================================
+// StochFin Monte Carlo Engine: Parameter Uncertainty
+// Two-level Monte Carlo: process parameters are drawn per outer scenario
+// from their estimation uncertainty or a Bayesian posterior, then inner
+// paths are simulated with those parameters held fixed.
+// =============================================
+
+import type { ParameterEstimate } from '@/types/distributions';
+import type { NormalPrior, NormalInverseGammaPrior } from './bayesian';
+import { MersenneTwister, sampleNormal, sampleStandardNormal, sampleGamma, sampleEmpirical } from './random';
+import type { ProcessConfig } from './processes';
+
+// =============================================
+// Parameter Distributions
+// =============================================
+
+/**
+ * Distribution of one process parameter
+ * - normal: asymptotic MLE distribution, mean defaults to the point estimate in the config
+ * - lognormal: for positive parameters (volatility, mean-reversion speed); mean and
+ *   stdError are on the parameter scale and matched by the lognormal's moments
+ * - posterior: Normal posterior, or the mean ('mean') / standard deviation ('std')
+ *   marginal of a Normal-Inverse-Gamma posterior
+ * - samples: posterior or bootstrap draws
+ */
+export type ParameterDistribution =
+    | { type: 'normal'; stdError: number; mean?: number }
+    | { type: 'lognormal'; stdError: number; mean?: number }
+    | { type: 'posterior'; posterior: NormalPrior }
+    | { type: 'posterior'; posterior: NormalInverseGammaPrior; component: 'mean' | 'std' }
+    | { type: 'samples'; samples: number[] };
+
+export interface ParameterUncertainty {
+    parameter: string;      // Path into processConfig.params, e.g. 'drift' or 'regimes.1.params.volatility'
+    distribution: ParameterDistribution;
+    scale?: number;         // Multiplier applied to draws, e.g. 12 to annualize a monthly posterior
+    min?: number;           // Draws are clipped to [min, max]
+    max?: number;
+}
+
+/**
+ * Normal parameter uncertainty from an estimate's standard error, or from its
+ * 95% confidence interval when no standard error is given
+ */
+export function parameterUncertaintyFromEstimate(
+    parameter: string,
+    estimate: ParameterEstimate,
+    bounds: { min?: number; max?: number } = {}
+): ParameterUncertainty | null {
+    const stdError = estimate.std_error ??
+        (estimate.confidence_95 ? (estimate.confidence_95[1] - estimate.confidence_95[0]) / (2 * 1.959964) : undefined);
+    if (stdError === undefined || !(stdError > 0)) return null;
+
+    return {
+        parameter,
+        distribution: { type: 'normal', stdError, mean: estimate.value },
+        ...bounds
+    };
+}
+
+/**
+ * Draw one value of a parameter whose point estimate is pointValue
+ */
+export function sampleParameter(
+    rng: MersenneTwister,
+    uncertainty: ParameterUncertainty,
+    pointValue: number
+): number {
+    const d = uncertainty.distribution;
+    let value: number;
+
+    switch (d.type) {
+        case 'normal':
+            value = sampleNormal(rng, d.mean ?? pointValue, d.stdError);
+            break;
+        case 'lognormal': {
+            const center = d.mean ?? pointValue;
+            if (!(center > 0)) {
+                throw new Error(`Lognormal uncertainty on "${uncertainty.parameter}" needs a positive estimate`);
+            }
+            // Match the mean and standard deviation on the parameter scale
+            const sigma2 = Math.log(1 + (d.stdError / center) ** 2);
+            value = center * Math.exp(Math.sqrt(sigma2) * sampleStandardNormal(rng) - 0.5 * sigma2);
+            break;
+        }
+        case 'posterior': {
+            const posterior = d.posterior;
+            if (posterior.type === 'normal') {
+                value = sampleNormal(rng, posterior.mu, posterior.sigma);
+            } else {
+                const component = 'component' in d ? d.component : 'mean';
+                // σ² ~ InvGamma(α, β); μ | σ² ~ N(μ_n, σ²/λ)
+                const variance = posterior.beta / sampleGamma(rng, posterior.alpha, 1);
+                value = component === 'std'
+                    ? Math.sqrt(variance)
+                    : sampleNormal(rng, posterior.mu, Math.sqrt(variance / posterior.lambda));
+            }
+            break;
+        }
+        case 'samples':
+            value = sampleEmpirical(rng, d.samples);
+            break;
+        default:
+            throw new Error(`Unknown parameter distribution for "${uncertainty.parameter}"`);
+    }
+
+    value *= uncertainty.scale ?? 1;
+    if (uncertainty.min !== undefined) value = Math.max(value, uncertainty.min);
+    if (uncertainty.max !== undefined) value = Math.min(value, uncertainty.max);
+    return value;
+}
+
+/**
+ * Copy of a process config with every uncertain parameter redrawn
+ */
+export function sampleProcessParameters(
+    rng: MersenneTwister,
+    config: ProcessConfig,
+    uncertainties: ParameterUncertainty[]
+): ProcessConfig {
+    const params = JSON.parse(JSON.stringify(config.params)) as Record<string, unknown>;
+
+    for (const uncertainty of uncertainties) {
+        const keys = uncertainty.parameter.split('.');
+        let target = params;
+        for (const key of keys.slice(0, -1)) {
+            target = target?.[key] as Record<string, unknown>;
+        }
+        const last = keys[keys.length - 1];
+        const pointValue = target?.[last];
+        if (typeof pointValue !== 'number') {
+            throw new Error(`Parameter "${uncertainty.parameter}" not found on ${config.type} process`);
+        }
+        target[last] = sampleParameter(rng, uncertainty, pointValue);
+    }
+
+    return { ...config, params: params as unknown as ProcessConfig['params'] };
+}
+
+// =============================================
+// Variance Decomposition
+// =============================================
+
+export interface VarianceDecomposition {
+    totalVariance: number;
+    parameterVariance: number;  // Var(E[Y | θ]) - between outer scenarios
+    processVariance: number;    // E[Var(Y | θ)] - within outer scenarios
+    parameterShare: number;     // parameterVariance / (parameterVariance + processVariance)
+}
+
+export interface GroupSummary {
+    n: number;
+    mean: number;
+    m2: number;     // Σ (x - mean)² within the group
+}
+
+/**
+ * Split the variance of grouped outcomes by the law of total variance,
+ * using one-way random-effects ANOVA (unbiased for unequal group sizes)
+ *
+ * @param groups Outcomes of the inner paths of each outer parameter draw
+ */
+export function decomposeVariance(groups: number[][]): VarianceDecomposition {
+    return decomposeVarianceFromSummaries(groups.map(g => {
+        const mean = g.reduce((s, v) => s + v, 0) / (g.length || 1);
+        return { n: g.length, mean, m2: g.reduce((s, v) => s + (v - mean) ** 2, 0) };
+    }));
+}
+
+/**
+ * Variance decomposition from per-group count, mean and sum of squared
+ * deviations, so groups can be accumulated in one pass
+ */
+export function decomposeVarianceFromSummaries(groups: GroupSummary[]): VarianceDecomposition {
+    const nonEmpty = groups.filter(g => g.n > 0);
+    const k = nonEmpty.length;
+    const n = nonEmpty.reduce((sum, g) => sum + g.n, 0);
+    if (k < 2 || n - k < 1) {
+        throw new Error('Variance decomposition needs at least two groups and one repeated draw');
+    }
+
+    const grandMean = nonEmpty.reduce((sum, g) => sum + g.n * g.mean, 0) / n;
+    let ssWithin = 0;
+    let ssBetween = 0;
+    let sumSquaredSizes = 0;
+
+    for (const g of nonEmpty) {
+        ssWithin += g.m2;
+        ssBetween += g.n * (g.mean - grandMean) ** 2;
+        sumSquaredSizes += g.n * g.n;
+    }
+
+    const msWithin = ssWithin / (n - k);
+    const msBetween = ssBetween / (k - 1);
+    const effectiveGroupSize = (n - sumSquaredSizes / n) / (k - 1);
+    const parameterVariance = Math.max(0, (msBetween - msWithin) / effectiveGroupSize);
+    const explained = parameterVariance + msWithin;
+
+    return {
+        totalVariance: (ssWithin + ssBetween) / (n - 1),
+        parameterVariance,
+        processVariance: msWithin,
+        parameterShare: explained > 0 ? parameterVariance / explained : 0
+    };
+}
@@ -1,9 +1,30 @@
 // =============================================
 // StochFin Monte Carlo Engine: Stochastic Processes
-// GBM, Ornstein-Uhlenbeck, Jump-Diffusion
+// GBM, Ornstein-Uhlenbeck, Jump-Diffusion, Heston, Markov regime-switching, GARCH family,
+// static distribution draws (short-rate models live in short-rates.ts)
 // =============================================
 
 import { MersenneTwister, sampleStandardNormal, samplePoisson, sampleNormal } from './random';
+import {
+    simulateShortRatePath,
+    stepShortRate,
+    shortRateInitialValue,
+    zeroCouponYield,
+    zeroCouponYieldsOnPath,
+    type ShortRateProcess,
+    type VasicekConfig,
+    type CIRConfig,
+    type HullWhiteConfig
+} from './short-rates';
+import {
+    sampleDistribution,
+    distributionQuantile,
+    distributionMean,
+    validateDistribution,
+    type StaticDistribution
+} from './distributions';
+import { normalCDF } from './special-functions';
+import { pathColumn, gatherPath, sampleNormalColumns, choleskyMixColumns } from './columnar';
 
 /**
  * Time step options
@@ -93,19 +114,55 @@ export function simulateGBMPath(
     dt: number,
     scheme: 'euler' | 'milstein' = 'euler'
 ): number[] {
-    const path: number[] = [config.initialValue];
-    let current = config.initialValue;
+    return Array.from(simulateGBMColumns([rng], config, numSteps, dt, scheme));
+}
 
-    const stepFn = scheme === 'milstein' ? stepGBMMilstein : stepGBM;
+/**
+ * Simulate GBM paths for a batch of scenarios, one generator per scenario
+ * @returns Columns [period][scenario]
+ */
+export function simulateGBMColumns(
+    rngs: MersenneTwister[],
+    config: GBMConfig,
+    numSteps: number,
+    dt: number,
+    scheme: 'euler' | 'milstein' = 'euler'
+): Float64Array {
+    const { drift, volatility } = config;
+    const nScenarios = rngs.length;
+    const values = new Float64Array((numSteps + 1) * nScenarios);
+    values.fill(config.initialValue, 0, nScenarios);
 
-    for (let i = 0; i < numSteps; i++) {
-        current = stepFn(rng, current, config, dt);
-        // Ensure non-negative (numerical stability)
-        current = Math.max(current, 1e-10);
-        path.push(current);
+    const driftTerm = (drift - 0.5 * volatility * volatility) * dt;
+    const diffusion = volatility * Math.sqrt(dt);
+    const sqrtDt = Math.sqrt(dt);
+
+    for (let step = 0; step < numSteps; step++) {
+        const from = step * nScenarios;
+        const to = from + nScenarios;
+
+        for (let s = 0; s < nScenarios; s++) {
+            const current = values[from + s];
+            const z = sampleStandardNormal(rngs[s]);
+            let next: number;
+
+            if (scheme === 'milstein') {
+                // Same scheme as stepGBMMilstein
+                const dW = sqrtDt * z;
+                next = current +
+                    drift * current * dt +
+                    volatility * current * dW +
+                    0.5 * volatility * volatility * current * (dW * dW - dt);
+            } else {
+                next = current * Math.exp(driftTerm + diffusion * z);
+            }
+
+            // Ensure non-negative (numerical stability)
+            values[to + s] = Math.max(next, 1e-10);
+        }
     }
 
-    return path;
+    return values;
 }
 
 // =============================================
@@ -341,15 +398,411 @@ export function hestonImpliedVolatility(config: HestonConfig): number {
     return Math.sqrt(config.theta);
 }
 
+// =============================================
+// Markov Regime-Switching
+// Per-regime GBM or O-U dynamics, regime s_t follows a Markov chain
+// P[i][j] = P(s_t = j | s_{t-1} = i)
+// =============================================
+
+export interface MarkovRegime {
+    name?: string;                                               // e.g. 'recession', 'expansion'
+    params: Omit<GBMConfig, 'initialValue'> | Omit<OUConfig, 'initialValue'>;
+}
+
+export interface RegimeSwitchingConfig {
+    dynamics: 'gbm' | 'ornstein_uhlenbeck';
+    regimes: MarkovRegime[];
+    transitionMatrix: number[][];   // Per time step; rows sum to 1
+    initialValue: number;
+    initialRegime?: number;         // Drawn from the stationary distribution if omitted
+}
+
+/**
+ * Validate a regime-switching configuration
+ * Throws if the transition matrix is not a K×K row-stochastic matrix
+ */
+export function validateRegimeSwitchingConfig(config: RegimeSwitchingConfig): void {
+    const k = config.regimes.length;
+    if (k < 1) {
+        throw new Error('Regime-switching process needs at least one regime');
+    }
+    if (config.transitionMatrix.length !== k) {
+        throw new Error(`Transition matrix has ${config.transitionMatrix.length} rows, expected ${k}`);
+    }
+    config.transitionMatrix.forEach((row, i) => {
+        if (row.length !== k || row.some(p => !(p >= 0))) {
+            throw new Error(`Transition matrix row ${i} must have ${k} non-negative probabilities`);
+        }
+        const sum = row.reduce((s, p) => s + p, 0);
+        if (Math.abs(sum - 1) > 1e-6) {
+            throw new Error(`Transition matrix row ${i} sums to ${sum}, expected 1`);
+        }
+    });
+    if (config.initialRegime !== undefined && (config.initialRegime < 0 || config.initialRegime >= k)) {
+        throw new Error(`Initial regime ${config.initialRegime} is out of range`);
+    }
+}
+
+/**
+ * Stationary distribution π of a transition matrix (π = πP), by power iteration
+ */
+export function stationaryDistribution(transitionMatrix: number[][]): number[] {
+    const k = transitionMatrix.length;
+    let pi = Array(k).fill(1 / k);
+
+    for (let iter = 0; iter < 10000; iter++) {
+        const next = Array(k).fill(0);
+        for (let i = 0; i < k; i++) {
+            for (let j = 0; j < k; j++) {
+                next[j] += pi[i] * transitionMatrix[i][j];
+            }
+        }
+        const change = next.reduce((s, p, j) => s + Math.abs(p - pi[j]), 0);
+        pi = next;
+        if (change < 1e-12) break;
+    }
+
+    return pi;
+}
+
+/**
+ * Expected time spent in each regime per visit: 1 / (1 - P[k][k]) steps
+ */
+export function expectedRegimeDurations(transitionMatrix: number[][]): number[] {
+    return transitionMatrix.map((row, k) => row[k] < 1 ? 1 / (1 - row[k]) : Infinity);
+}
+
+/**
+ * Draw a regime index from a probability vector
+ */
+function sampleRegime(rng: MersenneTwister, probabilities: number[]): number {
+    const u = rng.random();
+    let cumulative = 0;
+    for (let k = 0; k < probabilities.length; k++) {
+        cumulative += probabilities[k];
+        if (u < cumulative) return k;
+    }
+    return probabilities.length - 1;
+}
+
+/**
+ * Initial regime: fixed, or drawn from the stationary distribution
+ */
+export function sampleInitialRegime(rng: MersenneTwister, config: RegimeSwitchingConfig): number {
+    return config.initialRegime ?? sampleRegime(rng, stationaryDistribution(config.transitionMatrix));
+}
+
+/**
+ * Move the regime chain one step and apply the new regime's dynamics
+ * with the given standard normal innovation z
+ */
+export function stepRegimeSwitching(
+    rng: MersenneTwister,
+    currentValue: number,
+    currentRegime: number,
+    config: RegimeSwitchingConfig,
+    dt: number,
+    z: number
+): { value: number; regime: number } {
+    const regime = sampleRegime(rng, config.transitionMatrix[currentRegime]);
+    const params = config.regimes[regime].params;
+
+    if (config.dynamics === 'gbm') {
+        const p = params as Omit<GBMConfig, 'initialValue'>;
+        const exponent = (p.drift - 0.5 * p.volatility * p.volatility) * dt +
+            p.volatility * Math.sqrt(dt) * z;
+        return { value: Math.max(currentValue * Math.exp(exponent), 1e-10), regime };
+    }
+
+    const p = params as Omit<OUConfig, 'initialValue'>;
+    const expTerm = Math.exp(-p.theta * dt);
+    const varianceTerm = p.sigma * Math.sqrt((1 - Math.exp(-2 * p.theta * dt)) / (2 * p.theta));
+    return { value: p.mu + (currentValue - p.mu) * expTerm + varianceTerm * z, regime };
+}
+
+/**
+ * Simulate a regime-switching path
+ * @returns Values and the regime index at each time step
+ */
+export function simulateRegimeSwitchingPath(
+    rng: MersenneTwister,
+    config: RegimeSwitchingConfig,
+    numSteps: number,
+    dt: number
+): { values: number[]; regimes: number[] } {
+    validateRegimeSwitchingConfig(config);
+
+    let regime = sampleInitialRegime(rng, config);
+    let current = config.initialValue;
+    const values: number[] = [current];
+    const regimes: number[] = [regime];
+
+    for (let i = 0; i < numSteps; i++) {
+        const next = stepRegimeSwitching(rng, current, regime, config, dt, sampleStandardNormal(rng));
+        current = next.value;
+        regime = next.regime;
+        values.push(current);
+        regimes.push(regime);
+    }
+
+    return { values, regimes };
+}
+
+// =============================================
+// GARCH-Family Volatility
+// Log returns r_t = mu + ε_t, ε_t = √h_t z_t, with conditional variance
+//   GARCH:  h_{t+1} = ω + α ε_t² + β h_t
+//   GJR:    h_{t+1} = ω + (α + γ 1[ε_t < 0]) ε_t² + β h_t
+//   EGARCH: ln h_{t+1} = ω + α (|z_t| - √(2/π)) + γ z_t + β ln h_t
+// Discrete-time model: parameters are per time step of the data they were
+// fitted on, so simulate with the same step size.
+// =============================================
+
+export type GARCHVariant = 'garch' | 'gjr_garch' | 'egarch';
+
+export interface GARCHConfig {
+    variant: GARCHVariant;
+    mu: number;                 // Mean log return per step
+    omega: number;
+    alpha: number;
+    beta: number;
+    gamma?: number;             // Leverage term (GJR, EGARCH), default 0
+    initialValue: number;
+    initialVariance?: number;   // h_1, defaults to the unconditional variance
+}
+
+const EXPECTED_ABS_NORMAL = Math.sqrt(2 / Math.PI);
+
+/**
+ * Persistence of shocks to the conditional variance
+ * (α + β, α + γ/2 + β for GJR, β for EGARCH where it applies to ln h)
+ */
+export function garchPersistence(config: GARCHConfig): number {
+    const gamma = config.gamma ?? 0;
+    switch (config.variant) {
+        case 'garch':
+            return config.alpha + config.beta;
+        case 'gjr_garch':
+            return config.alpha + gamma / 2 + config.beta;
+        case 'egarch':
+            return config.beta;
+    }
+}
+
+/**
+ * Long-run variance per step; Infinity when the process is not covariance stationary.
+ * For EGARCH this is exp(E[ln h]) = exp(ω / (1 - β)).
+ */
+export function garchUnconditionalVariance(config: GARCHConfig): number {
+    const persistence = garchPersistence(config);
+    if (config.variant === 'egarch') {
+        return Math.abs(persistence) < 1 ? Math.exp(config.omega / (1 - persistence)) : Infinity;
+    }
+    return persistence < 1 ? config.omega / (1 - persistence) : Infinity;
+}
+
+/**
+ * Conditional variance for the next step given this step's variance and shock ε_t
+ */
+export function garchNextVariance(config: GARCHConfig, variance: number, shock: number): number {
+    const gamma = config.gamma ?? 0;
+    switch (config.variant) {
+        case 'garch':
+            return config.omega + config.alpha * shock * shock + config.beta * variance;
+        case 'gjr_garch':
+            return config.omega + (config.alpha + (shock < 0 ? gamma : 0)) * shock * shock +
+                config.beta * variance;
+        case 'egarch': {
+            const z = shock / Math.sqrt(variance);
+            return Math.exp(
+                config.omega + config.alpha * (Math.abs(z) - EXPECTED_ABS_NORMAL) +
+                gamma * z + config.beta * Math.log(variance)
+            );
+        }
+    }
+}
+
+/**
+ * Starting conditional variance h_1
+ */
+export function garchInitialVariance(config: GARCHConfig): number {
+    if (config.initialVariance !== undefined) return config.initialVariance;
+    const unconditional = garchUnconditionalVariance(config);
+    if (!isFinite(unconditional)) {
+        throw new Error(`${config.variant} process is not stationary; set initialVariance explicitly`);
+    }
+    return unconditional;
+}
+
+/**
+ * Filter conditional variances h_1..h_n through a series of log returns
+ * @param initialVariance - h_1; defaults to garchInitialVariance(config)
+ */
+export function garchConditionalVariances(
+    returns: number[],
+    config: GARCHConfig,
+    initialVariance?: number
+): number[] {
+    let variance = initialVariance ?? garchInitialVariance(config);
+    const variances: number[] = [];
+    for (const r of returns) {
+        variances.push(variance);
+        variance = garchNextVariance(config, variance, r - config.mu);
+    }
+    return variances;
+}
+
+/**
+ * Gaussian log-likelihood of log returns under a GARCH-family model
+ */
+export function garchLogLikelihood(
+    returns: number[],
+    config: GARCHConfig,
+    initialVariance?: number
+): number {
+    const variances = garchConditionalVariances(returns, config, initialVariance);
+    let logLik = 0;
+    for (let t = 0; t < returns.length; t++) {
+        const h = variances[t];
+        if (!(h > 0) || !isFinite(h)) return -Infinity;
+        const e = returns[t] - config.mu;
+        logLik -= 0.5 * (Math.log(2 * Math.PI) + Math.log(h) + e * e / h);
+    }
+    return logLik;
+}
+
+/**
+ * One step of a GARCH-family price process with standard normal innovation z
+ * @returns Next value and the conditional variance for the following step
+ */
+export function stepGARCH(
+    currentValue: number,
+    currentVariance: number,
+    config: GARCHConfig,
+    z: number
+): { value: number; variance: number } {
+    const shock = Math.sqrt(currentVariance) * z;
+    return {
+        value: Math.max(currentValue * Math.exp(config.mu + shock), 1e-10),
+        variance: garchNextVariance(config, currentVariance, shock)
+    };
+}
+
+/**
+ * Simulate a GARCH-family path
+ * @returns Values and the conditional variance used for each step
+ */
+export function simulateGARCHPath(
+    rng: MersenneTwister,
+    config: GARCHConfig,
+    numSteps: number
+): { values: number[]; variances: number[] } {
+    let current = config.initialValue;
+    let variance = garchInitialVariance(config);
+    const values: number[] = [current];
+    const variances: number[] = [];
+
+    for (let i = 0; i < numSteps; i++) {
+        variances.push(variance);
+        const next = stepGARCH(current, variance, config, sampleStandardNormal(rng));
+        current = next.value;
+        variance = next.variance;
+        values.push(current);
+    }
+
+    return { values, variances };
+}
+
+// =============================================
+// Static Distribution Draws
+// Expert-elicited or fitted distributions without dynamics: either an
+// i.i.d. draw every period, or a single draw held for the whole horizon.
+// Period 0 is the current value (initialValue, default the distribution mean).
+// =============================================
+
+export interface StaticDistributionConfig {
+    distribution: StaticDistribution;
+    sampling: 'per_period' | 'one_off';
+    initialValue?: number;
+}
+
+/**
+ * Value at period 0
+ */
+export function staticDistributionInitialValue(config: StaticDistributionConfig): number {
+    return config.initialValue ?? distributionMean(config.distribution);
+}
+
+/**
+ * Value for the next period from a standard normal innovation z,
+ * mapped through the distribution's quantile function so correlation carries over.
+ * One-off draws are taken on the first step and then held.
+ */
+export function stepStaticDistribution(
+    currentValue: number,
+    config: StaticDistributionConfig,
+    isFirstStep: boolean,
+    z: number
+): number {
+    if (config.sampling === 'one_off' && !isFirstStep) return currentValue;
+    const u = Math.min(Math.max(normalCDF(z), 1e-12), 1 - 1e-12);
+    return distributionQuantile(config.distribution, u);
+}
+
+/**
+ * Simulate a static distribution path
+ */
+export function simulateStaticDistributionPath(
+    rng: MersenneTwister,
+    config: StaticDistributionConfig,
+    numSteps: number
+): number[] {
+    validateDistribution(config.distribution);
+
+    const path: number[] = [staticDistributionInitialValue(config)];
+    if (numSteps === 0) return path;
+
+    if (config.sampling === 'one_off') {
+        const draw = sampleDistribution(rng, config.distribution);
+        for (let i = 0; i < numSteps; i++) path.push(draw);
+    } else {
+        for (let i = 0; i < numSteps; i++) path.push(sampleDistribution(rng, config.distribution));
+    }
+
+    return path;
+}
+
 // =============================================
 // Process Factory
 // =============================================
 
-export type ProcessType = 'gbm' | 'ornstein_uhlenbeck' | 'jump_diffusion' | 'heston' | 'deterministic';
+export type ProcessType =
+    | 'gbm'
+    | 'ornstein_uhlenbeck'
+    | 'jump_diffusion'
+    | 'heston'
+    | 'regime_switching'
+    | 'vasicek'
+    | 'cir'
+    | 'hull_white'
+    | 'garch'
+    | 'distribution'
+    | 'deterministic';
 
 export interface ProcessConfig {
     type: ProcessType;
-    params: GBMConfig | OUConfig | JumpDiffusionConfig | HestonConfig | { value: number };
+    params:
+        | GBMConfig
+        | OUConfig
+        | JumpDiffusionConfig
+        | HestonConfig
+        | RegimeSwitchingConfig
+        | VasicekConfig
+        | CIRConfig
+        | HullWhiteConfig
+        | GARCHConfig
+        | StaticDistributionConfig
+        | { value: number };
     discretizationScheme?: 'euler' | 'milstein';  // For GBM
 }
 
@@ -378,6 +831,24 @@ export function simulatePath(
             const hestonResult = simulateHestonPath(rng, config.params as HestonConfig, numSteps, dt);
             return hestonResult.prices;
 
+        case 'regime_switching':
+            return simulateRegimeSwitchingPath(rng, config.params as RegimeSwitchingConfig, numSteps, dt).values;
+
+        case 'vasicek':
+        case 'cir':
+        case 'hull_white':
+            return reportShortRatePath(
+                config as ShortRateProcess,
+                simulateShortRatePath(rng, config as ShortRateProcess, numSteps, dt),
+                dt
+            );
+
+        case 'garch':
+            return simulateGARCHPath(rng, config.params as GARCHConfig, numSteps).values;
+
+        case 'distribution':
+            return simulateStaticDistributionPath(rng, config.params as StaticDistributionConfig, numSteps);
+
         case 'deterministic':
             const value = (config.params as { value: number }).value;
             return Array(numSteps + 1).fill(value);
@@ -391,75 +862,304 @@ export function simulatePath(
 // Correlated Process Simulation
 // =============================================
 
+export interface CorrelatedPaths {
+    paths: number[][];                  // [variable][step]
+    regimePaths: (number[] | null)[];   // [variable][step] regime index, null for single-regime processes
+}
+
 /**
  * Simulate multiple correlated processes
- * Uses Cholesky decomposition to correlate the normal innovations
+ * Uses Cholesky decomposition to correlate the normal innovations,
+ * unless `sampleInnovations` supplies the joint N(0,1) innovations (e.g. from a copula)
  */
 export function simulateCorrelatedPaths(
     rng: MersenneTwister,
     configs: ProcessConfig[],
     correlationMatrix: number[][],
     numSteps: number,
-    dt: number
+    dt: number,
+    sampleInnovations?: (rng: MersenneTwister) => number[]
 ): number[][] {
+    return simulateCorrelatedProcesses(rng, configs, correlationMatrix, numSteps, dt, sampleInnovations).paths;
+}
+
+/**
+ * Simulate multiple correlated processes, also returning the regime path
+ * of every regime-switching process (one scenario of simulateCorrelatedColumns)
+ */
+export function simulateCorrelatedProcesses(
+    rng: MersenneTwister,
+    configs: ProcessConfig[],
+    correlationMatrix: number[][],
+    numSteps: number,
+    dt: number,
+    sampleInnovations?: (rng: MersenneTwister) => number[]
+): CorrelatedPaths {
+    const columns = simulateCorrelatedColumns(
+        [rng],
+        configs,
+        correlationMatrix,
+        numSteps,
+        dt,
+        sampleInnovations ? r => sampleInnovations(r) : undefined
+    );
+    const numPeriods = numSteps + 1;
+
+    return {
+        paths: configs.map((_, i) => gatherPath(columns.values, 1, numPeriods, i, 0)),
+        regimePaths: columns.regimes.map(regimes => (regimes ? Array.from(regimes) : null))
+    };
+}
+
+// =============================================
+// Columnar Path Core
+// A batch of scenarios is stepped together over Float64Array columns, one
+// per variable × period, with Cholesky mixing done across the whole batch.
+// Each scenario keeps its own generator, so its path does not depend on
+// the batch it is simulated in.
+// =============================================
+
+export interface ColumnarPaths {
+    nScenarios: number;
+    numPeriods: number;
+    values: Float64Array;               // [variable][period][scenario]
+    regimes: (Int32Array | null)[];     // [variable] → [period][scenario] regime index, null for single-regime processes
+}
+
+/**
+ * Shock applied to a variable's value in each period, after its step, so
+ * later steps evolve from the shocked value. Additive shocks are added,
+ * multiplicative ones scale the value by 1 + shock.
+ */
+export interface PeriodShock {
+    type: 'additive' | 'multiplicative';
+    shocks: Float64Array;               // [period]; the period 0 entry shocks the initial value
+    levels: Float64Array;               // [period] shock level in force, applied to each fresh draw of a distribution driver
+}
+
+/**
+ * Drift terms of a satellite regression between simulated variables: each
+ * step the target moves by Σ coefficient · Δfactor, with the factor's change
+ * taken lag steps back. Factors may not be targets of other links. The
+ * regression residual is not added; the target's own innovations take its place.
+ */
+export interface SatelliteLink {
+    target: number;                     // Variable index
+    terms: { factor: number; lag: number; coefficient: number }[];  // lag in steps
+}
+
+/**
+ * Simulate correlated processes for a batch of scenarios, one generator per scenario.
+ * Uses bulk Cholesky mixing of the normal innovations, unless `sampleInnovations`
+ * supplies each scenario's joint N(0,1) innovations (e.g. from a copula).
+ * `sampleNormals` replaces the independent normals fed to the Cholesky mix
+ * (antithetic or quasi-random draws); jumps and regime changes still use `rngs`.
+ * `periodShocks` holds an optional stress shock path per variable and
+ * `satelliteLinks` the macro satellite drift terms, applied once every
+ * variable has stepped. Processes carry a shock forward in their state, so
+ * they take its per-period changes; distribution drivers redraw without
+ * memory, so each draw takes the level in force.
+ */
+export function simulateCorrelatedColumns(
+    rngs: MersenneTwister[],
+    configs: ProcessConfig[],
+    correlationMatrix: number[][],
+    numSteps: number,
+    dt: number,
+    sampleInnovations?: (rng: MersenneTwister, scenario: number) => number[],
+    sampleNormals?: (step: number, z: Float64Array[]) => void,
+    periodShocks?: (PeriodShock | null)[],
+    satelliteLinks?: SatelliteLink[]
+): ColumnarPaths {
     const n = configs.length;
-    const paths: number[][] = configs.map(c => {
+    const nScenarios = rngs.length;
+    const numPeriods = numSteps + 1;
+    const values = new Float64Array(n * numPeriods * nScenarios);
+    const column = (i: number, period: number) => pathColumn(values, nScenarios, numPeriods, i, period);
+    // Unshocked values of distribution drivers, the state their draws step from
+    const unshockedDraws: (Float64Array | null)[] = configs.map(() => null);
+
+    configs.forEach((c, i) => {
+        let initialValue: number;
         if (c.type === 'gbm') {
-            return [(c.params as GBMConfig).initialValue];
+            initialValue = (c.params as GBMConfig).initialValue;
         } else if (c.type === 'ornstein_uhlenbeck') {
-            return [(c.params as OUConfig).initialValue];
+            initialValue = (c.params as OUConfig).initialValue;
         } else if (c.type === 'jump_diffusion') {
-            return [(c.params as JumpDiffusionConfig).initialValue];
+            initialValue = (c.params as JumpDiffusionConfig).initialValue;
+        } else if (c.type === 'regime_switching') {
+            initialValue = (c.params as RegimeSwitchingConfig).initialValue;
+        } else if (c.type === 'garch') {
+            initialValue = (c.params as GARCHConfig).initialValue;
+        } else if (c.type === 'distribution') {
+            const params = c.params as StaticDistributionConfig;
+            validateDistribution(params.distribution);
+            initialValue = staticDistributionInitialValue(params);
+        } else if (isShortRateProcess(c)) {
+            initialValue = shortRateInitialValue(c);
         } else {
-            return [(c.params as { value: number }).value];
+            initialValue = (c.params as { value: number }).value;
         }
+        column(i, 0).fill(initialValue);
+        if (c.type === 'distribution') unshockedDraws[i] = column(i, 0).slice();
+        applyPeriodShock(column(i, 0), periodShocks?.[i], 0);
     });
 
+    const regimes: (Int32Array | null)[] = configs.map(c => {
+        if (c.type !== 'regime_switching') return null;
+        const params = c.params as RegimeSwitchingConfig;
+        validateRegimeSwitchingConfig(params);
+        return new Int32Array(numPeriods * nScenarios);
+    });
+    // Initial regimes are each scenario's first draws, in variable order
+    for (let s = 0; s < nScenarios; s++) {
+        configs.forEach((c, i) => {
+            if (regimes[i]) regimes[i]![s] = sampleInitialRegime(rngs[s], c.params as RegimeSwitchingConfig);
+        });
+    }
+    const garchVariances: (Float64Array | null)[] = configs.map(c =>
+        c.type === 'garch' ? new Float64Array(nScenarios).fill(garchInitialVariance(c.params as GARCHConfig)) : null
+    );
+
     // Cholesky decomposition of correlation matrix
-    const L = choleskyDecomp(correlationMatrix);
+    const L = sampleInnovations ? [] : choleskyDecomp(correlationMatrix);
+    const z = Array.from({ length: n }, () => new Float64Array(nScenarios));
+    const correlatedZ = Array.from({ length: n }, () => new Float64Array(nScenarios));
 
     for (let step = 0; step < numSteps; step++) {
-        // Generate independent standard normals
-        const z: number[] = [];
-        for (let i = 0; i < n; i++) {
-            z.push(sampleStandardNormal(rng));
-        }
-
-        // Apply Cholesky to get correlated normals
-        const correlatedZ: number[] = [];
-        for (let i = 0; i < n; i++) {
-            let sum = 0;
-            for (let j = 0; j <= i; j++) {
-                sum += L[i][j] * z[j];
+        if (sampleInnovations) {
+            for (let s = 0; s < nScenarios; s++) {
+                const innovations = sampleInnovations(rngs[s], s);
+                for (let i = 0; i < n; i++) correlatedZ[i][s] = innovations[i];
             }
-            correlatedZ.push(sum);
+        } else {
+            // Independent standard normals, then correlated in bulk
+            if (sampleNormals) {
+                sampleNormals(step, z);
+            } else {
+                sampleNormalColumns(rngs, z);
+            }
+            choleskyMixColumns(L, z, correlatedZ);
         }
 
-        // Step each process using correlated innovation
+        // Step each process across all scenarios using its correlated innovations
         for (let i = 0; i < n; i++) {
             const config = configs[i];
-            const currentValue = paths[i][paths[i].length - 1];
-            let nextValue: number;
+            const current = column(i, step);
+            const next = column(i, step + 1);
+            const zi = correlatedZ[i];
 
             if (config.type === 'gbm') {
                 const p = config.params as GBMConfig;
-                const exponent = (p.drift - 0.5 * p.volatility * p.volatility) * dt +
-                    p.volatility * Math.sqrt(dt) * correlatedZ[i];
-                nextValue = currentValue * Math.exp(exponent);
+                const driftTerm = (p.drift - 0.5 * p.volatility * p.volatility) * dt;
+                const diffusion = p.volatility * Math.sqrt(dt);
+                for (let s = 0; s < nScenarios; s++) {
+                    next[s] = current[s] * Math.exp(driftTerm + diffusion * zi[s]);
+                }
             } else if (config.type === 'ornstein_uhlenbeck') {
                 const p = config.params as OUConfig;
                 const expTerm = Math.exp(-p.theta * dt);
                 const varianceTerm = p.sigma * Math.sqrt((1 - Math.exp(-2 * p.theta * dt)) / (2 * p.theta));
-                nextValue = p.mu + (currentValue - p.mu) * expTerm + varianceTerm * correlatedZ[i];
+                for (let s = 0; s < nScenarios; s++) {
+                    next[s] = p.mu + (current[s] - p.mu) * expTerm + varianceTerm * zi[s];
+                }
+            } else if (config.type === 'regime_switching') {
+                const regimePath = regimes[i]!;
+                const from = step * nScenarios;
+                for (let s = 0; s < nScenarios; s++) {
+                    const stepped = stepRegimeSwitching(
+                        rngs[s],
+                        current[s],
+                        regimePath[from + s],
+                        config.params as RegimeSwitchingConfig,
+                        dt,
+                        zi[s]
+                    );
+                    next[s] = stepped.value;
+                    regimePath[from + nScenarios + s] = stepped.regime;
+                }
+            } else if (config.type === 'garch') {
+                const variances = garchVariances[i]!;
+                for (let s = 0; s < nScenarios; s++) {
+                    const stepped = stepGARCH(current[s], variances[s], config.params as GARCHConfig, zi[s]);
+                    next[s] = stepped.value;
+                    variances[s] = stepped.variance;
+                }
+            } else if (config.type === 'distribution') {
+                const draws = unshockedDraws[i]!;
+                for (let s = 0; s < nScenarios; s++) {
+                    draws[s] = stepStaticDistribution(
+                        draws[s],
+                        config.params as StaticDistributionConfig,
+                        step === 0,
+                        zi[s]
+                    );
+                }
+                applyShockLevel(next, draws, periodShocks?.[i], step + 1);
+                continue;
+            } else if (isShortRateProcess(config)) {
+                for (let s = 0; s < nScenarios; s++) {
+                    next[s] = stepShortRate(rngs[s], config, current[s], step * dt, dt, zi[s]);
+                }
             } else {
-                nextValue = currentValue;
+                next.set(current);
             }
+            applyPeriodShock(next, periodShocks?.[i], step + 1);
+        }
 
-            paths[i].push(nextValue);
+        for (const link of satelliteLinks ?? []) {
+            const next = column(link.target, step + 1);
+            for (const term of link.terms) {
+                const period = step + 1 - term.lag;
+                if (period < 1) continue;
+                const factor = column(term.factor, period);
+                const previous = column(term.factor, period - 1);
+                for (let s = 0; s < nScenarios; s++) {
+                    next[s] += term.coefficient * (factor[s] - previous[s]);
+                }
+            }
         }
     }
 
-    return paths;
+    // Short-rate variables may be reported as a constant-tenor yield
+    configs.forEach((config, i) => {
+        if (!isShortRateProcess(config) || !config.params.yieldTenor) return;
+        for (let period = 0; period < numPeriods; period++) {
+            const rates = column(i, period);
+            for (let s = 0; s < nScenarios; s++) {
+                rates[s] = zeroCouponYield(config, rates[s], period * dt, config.params.yieldTenor);
+            }
+        }
+    });
+
+    return { nScenarios, numPeriods, values, regimes };
+}
+
+function applyShockLevel(values: Float64Array, unshocked: Float64Array, shock: PeriodShock | null | undefined, period: number): void {
+    const level = shock?.levels[period] ?? 0;
+    for (let s = 0; s < values.length; s++) {
+        values[s] = shock?.type === 'multiplicative' ? unshocked[s] * (1 + level) : unshocked[s] + level;
+    }
+}
+
+function applyPeriodShock(values: Float64Array, shock: PeriodShock | null | undefined, period: number): void {
+    const amount = shock?.shocks[period] ?? 0;
+    if (amount === 0) return;
+    for (let s = 0; s < values.length; s++) {
+        values[s] = shock!.type === 'additive' ? values[s] + amount : values[s] * (1 + amount);
+    }
+}
+
+function isShortRateProcess(config: ProcessConfig): config is ProcessConfig & ShortRateProcess {
+    return config.type === 'vasicek' || config.type === 'cir' || config.type === 'hull_white';
+}
+
+/**
+ * Short rate path, or its τ-year zero yield path when yieldTenor is set
+ */
+function reportShortRatePath(process: ShortRateProcess, ratePath: number[], dt: number): number[] {
+    const tenor = process.params.yieldTenor;
+    return tenor ? zeroCouponYieldsOnPath(process, ratePath, dt, tenor) : ratePath;
 }
 
 // Inline Cholesky for this module
@@ -3,6 +3,8 @@
 // Includes RNG and distribution samplers
 // =============================================
 
+import { logGamma } from './special-functions';
+
 /**
  * Mersenne Twister PRNG (simplified implementation)
  * For production, consider using a library like 'random-js'
@@ -71,6 +73,49 @@ export class MersenneTwister {
     }
 }
 
+// =============================================
+// Seed Streams
+// =============================================
+
+/** Stream domains, so scenario and parameter-draw streams never share seeds */
+export const SCENARIO_STREAM = 0;
+export const PARAMETER_STREAM = 1;
+export const QMC_SCRAMBLE_STREAM = 2;
+export const RARE_EVENT_PILOT_STREAM = 3;
+export const SPLITTING_STREAM = 4;
+export const SENSITIVITY_A_STREAM = 5;
+export const SENSITIVITY_B_STREAM = 6;
+
+/**
+ * Seed of an independent substream: a hash of (run seed, domain, index).
+ * Each scenario seeds its own MersenneTwister from this, so a scenario's
+ * draws do not depend on which thread simulates it or in what order.
+ */
+export function deriveStreamSeed(seed: number, index: number, domain: number = SCENARIO_STREAM): number {
+    let h = Math.imul((seed >>> 0) ^ 0x9e3779b9, 0x85ebca6b);
+    h = mix32(h ^ Math.imul(domain + 1, 0xc2b2ae35));
+    h = mix32(h ^ (index >>> 0));
+    h = mix32(h ^ Math.floor(index / 4294967296));
+    return h >>> 0;
+}
+
+/** MurmurHash3 finalizer */
+function mix32(h: number): number {
+    h ^= h >>> 16;
+    h = Math.imul(h, 0x85ebca6b);
+    h ^= h >>> 13;
+    h = Math.imul(h, 0xc2b2ae35);
+    h ^= h >>> 16;
+    return h;
+}
+
+/**
+ * Generator for one scenario's substream
+ */
+export function createStreamRng(seed: number, index: number, domain: number = SCENARIO_STREAM): MersenneTwister {
+    return new MersenneTwister(deriveStreamSeed(seed, index, domain));
+}
+
 // =============================================
 // Distribution Samplers
 // =============================================
@@ -146,12 +191,9 @@ export function samplePert(
     const range = pessimistic - optimistic;
     if (range === 0) return mostLikely;
 
-    // Calculate mean and standard deviation
-    const mu = (optimistic + lambda * mostLikely + pessimistic) / (lambda + 2);
-
     // Calculate alpha and beta for Beta distribution
-    const alpha1 = (4 * mostLikely + pessimistic - 5 * optimistic) / range;
-    const alpha2 = (5 * pessimistic - optimistic - 4 * mostLikely) / range;
+    const alpha1 = 1 + lambda * (mostLikely - optimistic) / range;
+    const alpha2 = 1 + lambda * (pessimistic - mostLikely) / range;
 
     // Sample from Beta using gamma distributions (simplified)
     const x = sampleGamma(rng, Math.max(0.1, alpha1), 1);
@@ -162,7 +204,7 @@ export function samplePert(
 }
 
 /**
- * Sample from Gamma(alpha, beta) using Marsaglia and Tsang's method
+ * Sample from Gamma(alpha, beta), shape alpha and rate beta, using Marsaglia and Tsang's method
  */
 export function sampleGamma(rng: MersenneTwister, alpha: number, beta: number): number {
     if (alpha < 1) {
@@ -206,7 +248,7 @@ export function sampleStudentT(
 ): number {
     // t = Z / sqrt(V/nu) where Z ~ N(0,1) and V ~ Chi-squared(nu)
     const z = sampleStandardNormal(rng);
-    const v = sampleGamma(rng, nu / 2, 2); // Chi-squared(nu)
+    const v = sampleGamma(rng, nu / 2, 0.5); // Chi-squared(nu): shape nu/2, rate 1/2
 
     return mu + sigma * z / Math.sqrt(v / nu);
 }
@@ -228,8 +270,27 @@ export function samplePoisson(rng: MersenneTwister, lambda: number): number {
 
         return k - 1;
     } else {
-        // Normal approximation for large lambda
-        return Math.round(Math.max(0, sampleNormal(rng, lambda, Math.sqrt(lambda))));
+        // Transformed rejection with squeeze (Hörmann's PTRS), exact for large lambda
+        const sqrtLambda = Math.sqrt(lambda);
+        const logLambda = Math.log(lambda);
+        const b = 0.931 + 2.53 * sqrtLambda;
+        const a = -0.059 + 0.02483 * b;
+        const invAlpha = 1.1239 + 1.1328 / (b - 3.4);
+        const vr = 0.9277 - 3.6224 / (b - 2);
+
+        while (true) {
+            const u = rng.random() - 0.5;
+            const v = rng.random();
+            const us = 0.5 - Math.abs(u);
+            const k = Math.floor((2 * a / us + b) * u + lambda + 0.43);
+
+            if (us >= 0.07 && v <= vr) return k;
+            if (k < 0 || (us < 0.013 && v > us)) continue;
+            if (Math.log(v) + Math.log(invAlpha) - Math.log(a / (us * us) + b) <=
+                -lambda + k * logLambda - logGamma(k + 1)) {
+                return k;
+            }
+        }
     }
 }
 
@@ -0,0 +1,253 @@
+// =============================================
+// StochFin Monte Carlo Engine: Rare-Event Estimation
+// Importance sampling by exponential tilting of the driving Gaussian noise,
+// with the tilt calibrated by cross-entropy pilot runs, and adaptive
+// multilevel splitting, for probabilities far below 1 / n_scenarios.
+// =============================================
+
+import { MersenneTwister, createStreamRng, deriveStreamSeed, SPLITTING_STREAM } from './random';
+
+export type RareEventMethod = 'importance_sampling' | 'splitting';
+
+export const RARE_EVENT_METHODS: RareEventMethod[] = ['importance_sampling', 'splitting'];
+
+/** Scenarios per cross-entropy pilot run when calibrating the tilt */
+export const DEFAULT_PILOT_SCENARIOS = 2000;
+
+/** Pilot runs stop after this many iterations even if the elite never reaches the event */
+export const MAX_CROSS_ENTROPY_ITERATIONS = 10;
+
+/** Share of pilot scenarios kept as the elite in each cross-entropy iteration */
+export const CROSS_ENTROPY_ELITE_FRACTION = 0.1;
+
+/** Share of splitting particles that should pass each intermediate level */
+export const DEFAULT_LEVEL_PROBABILITY = 0.1;
+
+/** Splitting stops with an error if the event is not reached after this many levels */
+export const MAX_SPLITTING_LEVELS = 100;
+
+/** Independent splitting runs the particle budget is shared between, for the error estimate */
+export const DEFAULT_SPLITTING_REPLICATES = 10;
+
+// =============================================
+// Importance Sampling
+// =============================================
+
+/**
+ * Log likelihood ratios of tilted scenarios. The independent N(0,1) step
+ * normals were drawn from N(θ, I) instead, so a scenario whose drawn
+ * normals sum to S (per variable) over n steps carries exp(−θ·S + n|θ|²/2).
+ * noiseSums is laid out [variable][scenario].
+ */
+export function tiltLogWeights(
+    noiseSums: Float64Array,
+    tilt: number[],
+    numSteps: number,
+    nScenarios: number
+): Float64Array {
+    const logWeights = new Float64Array(nScenarios);
+    const halfNormSq = 0.5 * numSteps * tilt.reduce((sum, t) => sum + t * t, 0);
+    logWeights.fill(halfNormSq);
+    tilt.forEach((theta, i) => {
+        if (theta === 0) return;
+        for (let s = 0; s < nScenarios; s++) {
+            logWeights[s] -= theta * noiseSums[i * nScenarios + s];
+        }
+    });
+    return logWeights;
+}
+
+/**
+ * Cross-entropy update of the tilt from a pilot run. The level is the
+ * (1 − eliteFraction) quantile of the scores, capped at the event level 0;
+ * the new tilt is the likelihood-weighted mean step normal of the scenarios
+ * scoring at or above it, which maximizes their likelihood under N(θ, I).
+ */
+export function crossEntropyTilt(
+    scores: Float64Array,
+    logWeights: Float64Array,
+    noiseSums: Float64Array,
+    numSteps: number,
+    eliteFraction: number = CROSS_ENTROPY_ELITE_FRACTION
+): { tilt: number[]; level: number } {
+    const n = scores.length;
+    const d = noiseSums.length / n;
+    const sorted = Array.from(scores).sort((a, b) => b - a);
+    const level = Math.min(0, sorted[Math.max(0, Math.ceil(eliteFraction * n) - 1)]);
+
+    // Weights relative to the largest elite weight, for numerical range
+    let maxLogWeight = -Infinity;
+    for (let s = 0; s < n; s++) {
+        if (scores[s] >= level) maxLogWeight = Math.max(maxLogWeight, logWeights[s]);
+    }
+
+    const tilt = new Array(d).fill(0);
+    let totalWeight = 0;
+    for (let s = 0; s < n; s++) {
+        if (scores[s] < level) continue;
+        const w = Math.exp(logWeights[s] - maxLogWeight);
+        totalWeight += w;
+        for (let i = 0; i < d; i++) tilt[i] += w * noiseSums[i * n + s];
+    }
+
+    return { tilt: tilt.map(t => t / (totalWeight * numSteps)), level };
+}
+
+// =============================================
+// Multilevel Splitting
+// Fixed-effort adaptive splitting: each stage runs nParticles paths from
+// the states where the previous level was first reached, sets the next
+// level so that about levelProbability of them reach it, and clones the
+// survivors' entrance states. P ≈ Π p_k over the stages. The adaptive
+// levels and cloned particles correlate the stages, so the error of a run
+// is estimated from independent replicate runs.
+// =============================================
+
+/**
+ * Markov model of a path for splitting. The state must carry everything
+ * its future depends on, including running maxima of path-dependent
+ * scores; the event is reached once score(state) ≥ 0.
+ */
+export interface SplittingModel {
+    initialState(): Float64Array;
+    step(state: Float64Array, step: number, rng: MersenneTwister): void;
+    score(state: Float64Array): number;
+}
+
+export interface SplittingResult {
+    probability: number;
+    relativeError: number;          // √Σ (1 − p_k) / (N p_k), a lower bound (independent stages); Infinity when no particle reached the event
+    levels: number[];               // Score levels of the stages, the last one 0 (the event)
+    levelProbabilities: number[];   // Conditional probability of reaching each level
+}
+
+interface Entrance {
+    step: number;
+    state: Float64Array;
+    score: number;
+}
+
+/**
+ * Estimate P(score reaches 0 within numSteps) by adaptive multilevel splitting.
+ * Particle j of stage k draws from its own seed stream, so results are reproducible.
+ */
+export function runMultilevelSplitting(
+    model: SplittingModel,
+    numSteps: number,
+    nParticles: number,
+    levelProbability: number,
+    seed: number,
+    maxLevels: number = MAX_SPLITTING_LEVELS
+): SplittingResult {
+    if (!(levelProbability > 0 && levelProbability < 1)) {
+        throw new Error('Splitting level probability must be in (0, 1)');
+    }
+    if (!(nParticles >= 2)) throw new Error('Splitting needs at least 2 particles');
+
+    const initial = model.initialState();
+    let starts: Entrance[] = [{ step: 0, state: initial, score: model.score(initial) }];
+    let level = starts[0].score;
+    const levels: number[] = [];
+    const levelProbabilities: number[] = [];
+
+    for (let stage = 0; stage < maxLevels; stage++) {
+        // Run every particle until it reaches the event or the horizon, keeping
+        // the state each time its running score maximum improves
+        const records: Entrance[][] = [];
+        const maxima = new Float64Array(nParticles);
+
+        for (let j = 0; j < nParticles; j++) {
+            const start = starts[j % starts.length];
+            const rng = createStreamRng(seed, stage * nParticles + j, SPLITTING_STREAM);
+            const state = start.state.slice();
+            const path: Entrance[] = [start];
+            let best = start.score;
+
+            for (let t = start.step; t < numSteps && best < 0; t++) {
+                model.step(state, t, rng);
+                const score = model.score(state);
+                if (score > best) {
+                    best = score;
+                    path.push({ step: t + 1, state: state.slice(), score });
+                }
+            }
+            records.push(path);
+            maxima[j] = best;
+        }
+
+        // Next level: reached by about levelProbability of the particles, capped at the event
+        const sorted = Array.from(maxima).sort((a, b) => b - a);
+        let next = Math.min(0, sorted[Math.max(0, Math.ceil(levelProbability * nParticles) - 1)]);
+        if (next <= level) {
+            // Too many ties at the current level: move to the lowest score above it
+            const above = sorted.filter(m => m > level);
+            if (above.length === 0) {
+                levels.push(0);
+                levelProbabilities.push(0);
+                return { probability: 0, relativeError: Infinity, levels, levelProbabilities };
+            }
+            next = Math.min(0, above[above.length - 1]);
+        }
+
+        const survivors = records.filter((_, j) => maxima[j] >= next);
+        levels.push(next);
+        levelProbabilities.push(survivors.length / nParticles);
+
+        if (next >= 0) {
+            const probability = levelProbabilities.reduce((p, pk) => p * pk, 1);
+            const relativeVariance = levelProbabilities.reduce((sum, pk) => sum + (1 - pk) / (nParticles * pk), 0);
+            return { probability, relativeError: Math.sqrt(relativeVariance), levels, levelProbabilities };
+        }
+
+        starts = survivors.map(path => path.find(entrance => entrance.score >= next)!);
+        level = next;
+    }
+
+    throw new Error(`Splitting did not reach the event within ${maxLevels} levels`);
+}
+
+export interface ReplicatedSplittingResult {
+    probability: number;                // Mean of the replicate estimates
+    stdError: number;                   // Standard deviation of the replicate estimates / √replicates
+    replicateProbabilities: number[];
+    levels: number[];                   // Of the first replicate
+    levelProbabilities: number[];       // Of the first replicate
+}
+
+/**
+ * Multilevel splitting repeated as independent runs sharing the nParticles
+ * budget, so that the standard error is measured instead of assumed.
+ * Replicate r runs on its own seed derived from `seed`.
+ */
+export function runReplicatedSplitting(
+    model: SplittingModel,
+    numSteps: number,
+    nParticles: number,
+    levelProbability: number,
+    seed: number,
+    replicates: number = DEFAULT_SPLITTING_REPLICATES,
+    maxLevels: number = MAX_SPLITTING_LEVELS
+): ReplicatedSplittingResult {
+    if (!(Number.isInteger(replicates) && replicates >= 2)) {
+        throw new Error('Splitting needs at least 2 replicates');
+    }
+    const particles = Math.floor(nParticles / replicates);
+    if (!(particles >= 2)) {
+        throw new Error(`Splitting needs at least 2 particles per replicate, got ${nParticles} for ${replicates} replicates`);
+    }
+
+    const runs = Array.from({ length: replicates }, (_, r) => runMultilevelSplitting(
+        model, numSteps, particles, levelProbability, deriveStreamSeed(seed, r, SPLITTING_STREAM), maxLevels
+    ));
+    const estimates = runs.map(run => run.probability);
+    const mean = estimates.reduce((sum, p) => sum + p, 0) / replicates;
+    const variance = estimates.reduce((sum, p) => sum + (p - mean) ** 2, 0) / (replicates - 1);
+
+    return {
+        probability: mean,
+        stdError: Math.sqrt(variance / replicates),
+        replicateProbabilities: estimates,
+        levels: runs[0].levels,
+        levelProbabilities: runs[0].levelProbabilities
+    };
+}
@@ -0,0 +1,378 @@
+// =============================================
+// StochFin Monte Carlo Engine: Reverse Stress Testing
+// Smallest combined shock, by Mahalanobis distance under the model's
+// correlation matrix, that lifts a covenant breach or event probability
+// to a target. A shock moves the drivers' cumulative innovations over
+// the horizon, which are N(0, Σ) in the base model, so its distance
+// has a χ² law and gives the scenario's plausibility.
+// =============================================
+
+import { createStreamRng, sampleStandardNormal } from './random';
+import { simulateCorrelatedColumns, getTimeStepInYears } from './processes';
+import { choleskyDecomposition, isPositiveDefinite } from './correlation';
+import { compileFormulaSet, evaluateDerivedColumns } from './formulas';
+import { gatherPath, pathColumn } from './columnar';
+import { nelderMead } from './optimization';
+import { regularizedGammaQ } from './special-functions';
+import { evaluateEvent } from './event-evaluator';
+import { extractVariables, isConditionalEvent, type EventDefinition } from './events';
+import {
+    evaluateCovenant,
+    copulaFromMethod,
+    satelliteLinks,
+    validateSatelliteModels,
+    type CovenantConfig,
+    type SimulationInput
+} from './simulator';
+
+/** Largest Mahalanobis distance searched when none is given */
+export const DEFAULT_REVERSE_STRESS_MAX_DISTANCE = 6;
+
+/**
+ * What the shock has to break
+ * - covenant: one of the model's covenants, at a period or (default) in any period
+ * - event: an event definition over driver and derived variable codes
+ */
+export type ReverseStressTarget =
+    | { type: 'covenant'; covenantId: string; periodIndex?: number }
+    | { type: 'event'; event: EventDefinition };
+
+export interface ReverseStressInput {
+    baseConfig: SimulationInput;
+    target: ReverseStressTarget;
+    targetProbability: number;   // Breach probability to reach, in (0, 1)
+    maxDistance?: number;        // Default DEFAULT_REVERSE_STRESS_MAX_DISTANCE
+    maxIterations?: number;      // Direction search iterations, default 20 per driver
+}
+
+/** A variable in the critical scenario; shock is set for shocked drivers only */
+export interface ReverseStressVariable {
+    variableCode: string;
+    shock?: number;              // Shift of the cumulative horizon innovations, in standard deviations
+    baseMean: number;            // Mean at the reporting period without and with the shock
+    stressedMean: number;
+}
+
+export interface ReverseStressResult {
+    found: boolean;              // False when no shock within maxDistance reaches the target
+    targetProbability: number;
+    baseProbability: number;
+    breachProbability: number;   // At the critical scenario
+    mahalanobisDistance: number;
+    plausibility: number;        // P(χ²_d ≥ D²): chance of a shock at least this far from the base
+    shockTiming: 'even';         // Shock spread evenly over the horizon's steps; timing is not searched
+    periodIndex: number;         // Period of the reported means
+    scenario: ReverseStressVariable[];
+    randomSeed: number;
+    nEvaluations: number;        // Simulation runs of nSimulations scenarios
+}
+
+/** Bisection stops once the bracket on the distance is this narrow */
+const DISTANCE_TOLERANCE = 0.01;
+
+/**
+ * Reverse stress test of a simulation model. Every run uses the base
+ * run's seed, so the breach probability is a deterministic function of
+ * the shock (common random numbers). For a direction in whitened shock
+ * space the smallest breaking distance is found by bracketing and
+ * bisection; Nelder-Mead then searches directions, started from the best
+ * combination of single-driver shocks. The shock is spread evenly over
+ * the horizon's steps and its timing is not searched: a shock concentrated
+ * on the steps that matter can reach the target from closer (up to √T
+ * times for a single critical step, e.g. a fast mean-reverting driver or a
+ * one-period breach), so the distance is an upper bound and the
+ * plausibility a lower bound. Needs Gaussian dependence; parameter risk
+ * and variance reduction settings are ignored.
+ */
+export function runReverseStressTest(input: ReverseStressInput): ReverseStressResult {
+    const { baseConfig, target, targetProbability } = input;
+    const { config, variables, correlationMatrix } = baseConfig;
+
+    if (baseConfig.copula || baseConfig.regimes?.length || copulaFromMethod(config.correlationMethod)) {
+        throw new Error('Reverse stress testing needs Gaussian dependence (no copula or correlation regimes)');
+    }
+    if (!isPositiveDefinite(correlationMatrix)) {
+        throw new Error('Correlation matrix is not positive-definite');
+    }
+    const satelliteErrors = validateSatelliteModels(baseConfig.satellites ?? [], variables.map(v => v.code));
+    if (satelliteErrors.length > 0) {
+        throw new Error(`Invalid satellite models: ${satelliteErrors.join('; ')}`);
+    }
+    if (!(targetProbability > 0 && targetProbability < 1)) {
+        throw new Error('Target probability must be between 0 and 1');
+    }
+    if (!(config.horizonPeriods >= 1)) {
+        throw new Error('Reverse stress testing needs at least one simulated period');
+    }
+
+    const formulaSet = compileFormulaSet(
+        variables.map(v => v.code),
+        baseConfig.derivedVariables ?? []
+    );
+    const outputCodes = [...variables.map(v => v.code), ...formulaSet.derived.map(d => d.config.code)];
+    const numPeriods = config.horizonPeriods + 1;
+    const dtMonths = getTimeStepInYears(config.timeStep) * 12;
+    const breached = breachCounter(target, outputCodes, baseConfig.covenants ?? [], numPeriods, dtMonths);
+    const periodIndex = target.type === 'covenant' && target.periodIndex !== undefined
+        ? target.periodIndex
+        : config.horizonPeriods;
+
+    // Shocks live on the stochastic drivers; u is the whitened shock, z = L_S u
+    const shocked = variables.flatMap((v, i) => v.processConfig.type === 'deterministic' ? [] : [i]);
+    if (shocked.length === 0) {
+        throw new Error('No stochastic drivers to shock');
+    }
+    const d = shocked.length;
+    const subL = choleskyDecomposition(shocked.map(i => shocked.map(j => correlationMatrix[i][j])));
+    const fullL = choleskyDecomposition(correlationMatrix);
+
+    // Shift of the independent normals per step that moves the correlated ones by z / √T
+    const normalShift = (u: number[]): Float64Array => {
+        const z = new Float64Array(variables.length);
+        shocked.forEach((varIdx, a) => {
+            for (let b = 0; b <= a; b++) z[varIdx] += subL[a][b] * u[b];
+        });
+        const w = new Float64Array(variables.length);
+        for (let i = 0; i < variables.length; i++) {
+            let sum = z[i];
+            for (let j = 0; j < i; j++) sum -= fullL[i][j] * w[j];
+            w[i] = sum / fullL[i][i];
+        }
+        return w.map(x => x / Math.sqrt(config.horizonPeriods));
+    };
+
+    const randomSeed = config.randomSeed ?? Date.now();
+    const seededInput: SimulationInput = { ...baseConfig, config: { ...config, randomSeed } };
+    let nEvaluations = 0;
+    const simulate = (u: number[], means?: Float64Array): number => {
+        nEvaluations++;
+        return simulateShocked(seededInput, normalShift(u), breached, periodIndex, means);
+    };
+
+    const origin = Array(d).fill(0);
+    const baseProbability = simulate(origin);
+    const maxDistance = input.maxDistance ?? DEFAULT_REVERSE_STRESS_MAX_DISTANCE;
+
+    // Smallest distance along a direction that reaches the target, Infinity beyond maxDistance
+    const breakingDistance = (direction: number[]): number => {
+        const norm = Math.hypot(...direction);
+        if (!(norm > 0)) return Infinity;
+        const unit = direction.map(x => x / norm);
+        const reaches = (r: number) => simulate(unit.map(x => x * r)) >= targetProbability;
+
+        let lo = 0;
+        let hi = Math.min(0.5, maxDistance);
+        while (!reaches(hi)) {
+            if (hi >= maxDistance) return Infinity;
+            lo = hi;
+            hi = Math.min(2 * hi, maxDistance);
+        }
+        while (hi - lo > DISTANCE_TOLERANCE) {
+            const mid = (lo + hi) / 2;
+            if (reaches(mid)) hi = mid; else lo = mid;
+        }
+        return hi;
+    };
+
+    let best = { direction: origin, distance: 0 };
+    if (baseProbability < targetProbability) {
+        // Single-driver shocks, then their combination weighted by closeness
+        best = { direction: origin, distance: Infinity };
+        const start = Array(d).fill(0);
+        for (let a = 0; a < d; a++) {
+            for (const sign of [1, -1]) {
+                const direction = origin.map((_, b) => b === a ? sign : 0);
+                const distance = breakingDistance(direction);
+                if (distance < best.distance) best = { direction, distance };
+                if (Number.isFinite(distance) && Math.abs(start[a]) < 1 / distance) start[a] = sign / distance;
+            }
+        }
+
+        if (Number.isFinite(best.distance) && d > 1) {
+            const startNorm = Math.hypot(...start);
+            const search = nelderMead(
+                breakingDistance,
+                start.map(x => x / startNorm),
+                {
+                    maxIterations: input.maxIterations ?? 20 * d,
+                    tolerance: DISTANCE_TOLERANCE,
+                    initialStep: Array(d).fill(0.5)
+                }
+            );
+            if (search.value < best.distance) {
+                best = { direction: search.x, distance: search.value };
+            }
+        }
+    }
+
+    const found = Number.isFinite(best.distance);
+    const norm = Math.hypot(...best.direction) || 1;
+    const u = found ? best.direction.map(x => x / norm * best.distance) : origin;
+    const baseMeans = new Float64Array(outputCodes.length);
+    const stressedMeans = new Float64Array(outputCodes.length);
+    simulate(origin, baseMeans);
+    const breachProbability = simulate(u, stressedMeans);
+
+    const shockOf = new Map(shocked.map((varIdx, a) => [
+        varIdx,
+        subL[a].reduce((sum, l, b) => sum + l * u[b], 0)
+    ]));
+    const distance = found ? best.distance : NaN;
+
+    return {
+        found,
+        targetProbability,
+        baseProbability,
+        breachProbability,
+        mahalanobisDistance: distance,
+        plausibility: found ? regularizedGammaQ(d / 2, distance * distance / 2) : NaN,
+        shockTiming: 'even',
+        periodIndex,
+        scenario: outputCodes.map((variableCode, i) => ({
+            variableCode,
+            shock: shockOf.get(i),
+            baseMean: baseMeans[i],
+            stressedMean: stressedMeans[i]
+        })),
+        randomSeed,
+        nEvaluations
+    };
+}
+
+/** Breach and conditioning counts of a block, [output][period][scenario] values */
+type BreachCounter = (values: Float64Array, count: number) => { hits: number; trials: number };
+
+function breachCounter(
+    target: ReverseStressTarget,
+    outputCodes: string[],
+    covenants: CovenantConfig[],
+    numPeriods: number,
+    dtMonths: number
+): BreachCounter {
+    if (target.type === 'covenant') {
+        const covenant = covenants.find(c => c.id === target.covenantId);
+        if (!covenant) throw new Error(`Covenant "${target.covenantId}" not found`);
+        const varIdx = outputCodes.indexOf(covenant.variableCode);
+        if (varIdx === -1) throw new Error(`Covenant variable "${covenant.variableCode}" not found`);
+        const { periodIndex } = target;
+        if (periodIndex !== undefined && !(Number.isInteger(periodIndex) && periodIndex >= 0 && periodIndex < numPeriods)) {
+            throw new Error(`Period index must be an integer from 0 to ${numPeriods - 1}`);
+        }
+        const periods = periodIndex === undefined ? Array.from({ length: numPeriods }, (_, p) => p) : [periodIndex];
+
+        return (values, count) => {
+            let hits = 0;
+            for (let s = 0; s < count; s++) {
+                if (periods.some(p => evaluateCovenant(
+                    values[(varIdx * numPeriods + p) * count + s], covenant.threshold, covenant.operator
+                ))) hits++;
+            }
+            return { hits, trials: count };
+        };
+    }
+
+    const { event } = target;
+    const codes = extractVariables(event);
+    for (const code of codes) {
+        if (!outputCodes.includes(code)) throw new Error(`Event variable "${code}" not found`);
+    }
+    // The event's own horizon truncates the paths
+    const length = Math.min(numPeriods, Math.round(event.horizon_months / dtMonths) + 1);
+    const trajectoriesOf = (values: Float64Array, count: number, s: number) => new Map(codes.map(code => [
+        code,
+        gatherPath(values, count, numPeriods, outputCodes.indexOf(code), s).slice(0, length)
+    ]));
+
+    return (values, count) => {
+        let hits = 0;
+        let trials = 0;
+        for (let s = 0; s < count; s++) {
+            const trajectories = trajectoriesOf(values, count, s);
+            // A conditional's probability is counted over the scenarios where its condition holds
+            if (isConditionalEvent(event) && !evaluateEvent(event.given, trajectories, dtMonths)) continue;
+            trials++;
+            if (evaluateEvent(event, trajectories, dtMonths)) hits++;
+        }
+        return { hits, trials };
+    };
+}
+
+/** Scenarios simulated per batch */
+const REVERSE_STRESS_BLOCK_SIZE = 1000;
+
+/**
+ * Breach probability with the independent normals shifted by `shift` each
+ * step. Scenario i draws its normals, then its in-process draws, from
+ * stream i of the seed, as in every run. Fills `means` with each output's
+ * mean at periodIndex when given.
+ */
+function simulateShocked(
+    input: SimulationInput,
+    shift: Float64Array,
+    breached: BreachCounter,
+    periodIndex: number,
+    means?: Float64Array
+): number {
+    const { config, variables, correlationMatrix } = input;
+    const seed = config.randomSeed!;
+    const formulaSet = compileFormulaSet(
+        variables.map(v => v.code),
+        input.derivedVariables ?? []
+    );
+    const nOutputs = variables.length + formulaSet.derived.length;
+    const nDrivers = variables.length;
+    const nSteps = config.horizonPeriods;
+    const numPeriods = nSteps + 1;
+    const dt = getTimeStepInYears(config.timeStep);
+    const links = satelliteLinks(input.satellites, variables, dt);
+    const nSimulations = config.nSimulations;
+    means?.fill(0);
+
+    let hits = 0;
+    let trials = 0;
+    for (let start = 0; start < nSimulations; start += REVERSE_STRESS_BLOCK_SIZE) {
+        const count = Math.min(REVERSE_STRESS_BLOCK_SIZE, nSimulations - start);
+        const rngs = Array.from({ length: count }, (_, k) => createStreamRng(seed, start + k));
+        const normals = new Float64Array(nDrivers * nSteps * count);
+        for (let k = 0; k < count; k++) {
+            for (let i = 0; i < nDrivers; i++) {
+                for (let step = 0; step < nSteps; step++) {
+                    normals[(i * nSteps + step) * count + k] = sampleStandardNormal(rngs[k]) + shift[i];
+                }
+            }
+        }
+
+        const paths = simulateCorrelatedColumns(
+            rngs,
+            variables.map(v => v.processConfig),
+            correlationMatrix,
+            nSteps,
+            dt,
+            undefined,
+            (step, z) => z.forEach((column, i) => {
+                column.set(normals.subarray((i * nSteps + step) * count, (i * nSteps + step + 1) * count));
+            }),
+            undefined,
+            links
+        );
+        const values = new Float64Array(nOutputs * numPeriods * count);
+        values.set(paths.values);
+        if (formulaSet.derived.length > 0) {
+            evaluateDerivedColumns(formulaSet, values, count, numPeriods);
+        }
+
+        const block = breached(values, count);
+        hits += block.hits;
+        trials += block.trials;
+        if (means) {
+            for (let i = 0; i < nOutputs; i++) {
+                means[i] += pathColumn(values, count, numPeriods, i, periodIndex).reduce((sum, v) => sum + v, 0);
+            }
+        }
+    }
+
+    if (means) {
+        for (let i = 0; i < means.length; i++) means[i] /= nSimulations;
+    }
+    return trials > 0 ? hits / trials : 0;
+}
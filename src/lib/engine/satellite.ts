@@ -0,0 +1,217 @@
+// =============================================
+// StochFin Monte Carlo Engine: Macro Satellite Models
+// Regressions of a company variable on lagged macro factors, estimated by
+// OLS from historical data:
+//   y_t = α + Σ β_{f,l} x_{f,t−l} + ε_t,   ε_t ~ N(0, σ²)
+// A satellite translates a macro stress scenario into company-level shock
+// paths, or is embedded in a simulation as drift terms that move a company
+// driver with the lagged changes of simulated macro drivers. Neither adds ε:
+// the target is a driver with its own process, whose noise stands in for the
+// regression residual, so adding N(0, σ²) on top would count it twice.
+// =============================================
+
+import { choleskyDecomposition } from './correlation';
+import { stressShockProfile, type StressScenario, type StressShockPath } from './simulator';
+
+/** Lags of every factor when none are given: contemporaneous and one data period back */
+export const DEFAULT_SATELLITE_LAGS = [0, 1];
+
+/** One value per data period, NaN where missing; all series of an estimate share their periods */
+export interface SatelliteSeries {
+    code: string;
+    values: number[];
+}
+
+export interface SatelliteTerm {
+    factor: string;
+    lag: number;                // Data periods
+    coefficient: number;
+    stdError: number;
+    tStat: number;
+}
+
+export interface SatelliteModel {
+    target: string;
+    intercept: number;
+    terms: SatelliteTerm[];
+    residualStd: number;        // σ of ε per data period; fit diagnostic, not simulated
+    rSquared: number;
+    nObservations: number;
+    periodMonths: number;       // Length of a data period
+    factorLevels?: Record<string, number>;  // Latest observed factor values, bases for multiplicative macro shocks
+}
+
+export interface SatelliteEstimationOptions {
+    lags?: number[];            // Default DEFAULT_SATELLITE_LAGS
+    periodMonths?: number;      // Default 3 (quarterly data)
+}
+
+/**
+ * OLS satellite regression of target on each factor at each lag. Periods
+ * where the target or any lagged factor is missing are dropped.
+ */
+export function estimateSatelliteModel(
+    target: SatelliteSeries,
+    factors: SatelliteSeries[],
+    options: SatelliteEstimationOptions = {}
+): SatelliteModel {
+    const lags = options.lags ?? DEFAULT_SATELLITE_LAGS;
+    if (factors.length === 0) {
+        throw new Error('Satellite regression needs at least one macro factor');
+    }
+    if (lags.length === 0 || lags.some(lag => !(Number.isInteger(lag) && lag >= 0))) {
+        throw new Error('Satellite lags must be non-negative integers');
+    }
+    if (factors.some(f => f.values.length !== target.values.length)) {
+        throw new Error('Satellite series must cover the same periods');
+    }
+
+    const terms = factors.flatMap(f => lags.map(lag => ({ factor: f, lag })));
+    const maxLag = Math.max(...lags);
+    const rows: number[][] = [];
+    const y: number[] = [];
+    for (let t = maxLag; t < target.values.length; t++) {
+        const row = [1, ...terms.map(({ factor, lag }) => factor.values[t - lag])];
+        if (!Number.isFinite(target.values[t]) || row.some(x => !Number.isFinite(x))) continue;
+        rows.push(row);
+        y.push(target.values[t]);
+    }
+
+    const n = rows.length;
+    const k = terms.length + 1;
+    if (n <= k + 1) {
+        throw new Error(`Satellite regression for ${target.code} needs more than ${k + 1} complete periods, got ${n}`);
+    }
+
+    // Normal equations X'X b = X'y, solved through the Cholesky factor
+    const xtx = Array.from({ length: k }, (_, a) => Array.from({ length: k }, (_, b) =>
+        rows.reduce((sum, row) => sum + row[a] * row[b], 0)
+    ));
+    const xty = Array.from({ length: k }, (_, a) => rows.reduce((sum, row, i) => sum + row[a] * y[i], 0));
+    let L: number[][];
+    try {
+        L = choleskyDecomposition(xtx);
+    } catch {
+        throw new Error(`Satellite factors for ${target.code} are collinear`);
+    }
+    const beta = solveCholesky(L, xty);
+
+    const meanY = y.reduce((sum, v) => sum + v, 0) / n;
+    let ssr = 0;
+    let sst = 0;
+    rows.forEach((row, i) => {
+        const fitted = row.reduce((sum, x, a) => sum + x * beta[a], 0);
+        ssr += (y[i] - fitted) ** 2;
+        sst += (y[i] - meanY) ** 2;
+    });
+    const residualVariance = ssr / (n - k);
+
+    const factorLevels: Record<string, number> = {};
+    for (const f of factors) {
+        const last = [...f.values].reverse().find(v => Number.isFinite(v));
+        if (last !== undefined) factorLevels[f.code] = last;
+    }
+
+    return {
+        target: target.code,
+        intercept: beta[0],
+        terms: terms.map(({ factor, lag }, j) => {
+            const unit = Array.from({ length: k }, (_, a) => a === j + 1 ? 1 : 0);
+            const stdError = Math.sqrt(residualVariance * solveCholesky(L, unit)[j + 1]);
+            return { factor: factor.code, lag, coefficient: beta[j + 1], stdError, tStat: beta[j + 1] / stdError };
+        }),
+        residualStd: Math.sqrt(residualVariance),
+        rSquared: sst > 0 ? 1 - ssr / sst : 0,
+        nObservations: n,
+        periodMonths: options.periodMonths ?? 3,
+        factorLevels
+    };
+}
+
+// =============================================
+// Scenario Translation
+// =============================================
+
+export interface SatelliteTranslationOptions {
+    stepMonths?: number;                    // Simulation step length, default 1
+    factorLevels?: Record<string, number>;  // Overrides the model's latest factor levels
+}
+
+/**
+ * Company shock path implied by a macro scenario: the shock level of the
+ * target in each period is Σ β · Δx_f(t − lag), with Δx_f the factor's
+ * shock in its own units (a multiplicative shock is scaled by the factor's
+ * level). Null when the scenario shocks none of the model's factors.
+ */
+export function satelliteShockPath(
+    model: SatelliteModel,
+    scenario: StressScenario,
+    numPeriods: number,
+    options: SatelliteTranslationOptions = {}
+): StressShockPath | null {
+    const stepMonths = options.stepMonths ?? 1;
+    const levels = new Float64Array(numPeriods);
+    let shocked = false;
+
+    for (const term of model.terms) {
+        const path = scenario.paths.find(p => p.variableCode === term.factor);
+        if (!path) continue;
+        shocked = true;
+
+        let scale = 1;
+        if (path.type === 'multiplicative') {
+            const level = options.factorLevels?.[term.factor] ?? model.factorLevels?.[term.factor];
+            if (level === undefined) {
+                throw new Error(`Multiplicative shock on ${term.factor} needs the factor's level`);
+            }
+            scale = level;
+        }
+
+        const profile = stressShockProfile(path, numPeriods);
+        const lagSteps = Math.round(term.lag * model.periodMonths / stepMonths);
+        for (let period = lagSteps; period < numPeriods; period++) {
+            levels[period] += term.coefficient * scale * profile[period - lagSteps];
+        }
+    }
+
+    return shocked
+        ? { variableCode: model.target, type: 'additive', shocks: Array.from(levels), startPeriod: 0 }
+        : null;
+}
+
+/**
+ * Company-level shock paths implied by a macro scenario: the scenario with
+ * its paths replaced by one additive path per satellite whose factors it
+ * shocks. Satellites whose target the scenario shocks directly are skipped,
+ * so the direct path stays the only one when callers merge the two.
+ */
+export function translateMacroScenario(
+    scenario: StressScenario,
+    models: SatelliteModel[],
+    numPeriods: number,
+    options: SatelliteTranslationOptions = {}
+): StressScenario {
+    const paths = models
+        .filter(model => !scenario.paths.some(p => p.variableCode === model.target))
+        .map(model => satelliteShockPath(model, scenario, numPeriods, options))
+        .filter((path): path is StressShockPath => path !== null);
+
+    return { ...scenario, paths };
+}
+
+function solveCholesky(L: number[][], b: number[]): number[] {
+    const n = b.length;
+    const z = new Array<number>(n);
+    for (let i = 0; i < n; i++) {
+        let sum = b[i];
+        for (let j = 0; j < i; j++) sum -= L[i][j] * z[j];
+        z[i] = sum / L[i][i];
+    }
+    const x = new Array<number>(n);
+    for (let i = n - 1; i >= 0; i--) {
+        let sum = z[i];
+        for (let j = i + 1; j < n; j++) sum -= L[j][i] * x[j];
+        x[i] = sum / L[i][i];
+    }
+    return x;
+}
@@ -0,0 +1,363 @@
+// =============================================
+// StochFin Monte Carlo Engine: Short-Rate Models
+// Vasicek, CIR and Hull-White with zero-coupon bond pricing
+// =============================================
+
+import { MersenneTwister, sampleStandardNormal, sampleGamma, samplePoisson } from './random';
+import { normalCDF, gammaQuantile } from './special-functions';
+
+// =============================================
+// Configuration
+// Rates are annualized and continuously compounded; times in years.
+// Parameters are taken as risk-neutral (no market price of risk).
+// =============================================
+
+/**
+ * Vasicek: dr = κ(μ - r) dt + σ dW
+ */
+export interface VasicekConfig {
+    kappa: number;          // κ - mean reversion speed
+    mu: number;             // μ - long-term rate
+    sigma: number;          // σ - absolute volatility
+    initialValue: number;   // r₀
+    yieldTenor?: number;    // Report the τ-year zero yield instead of the short rate
+}
+
+/**
+ * Cox-Ingersoll-Ross: dr = κ(μ - r) dt + σ√r dW
+ * Stays non-negative; strictly positive if 2κμ ≥ σ² (Feller)
+ */
+export interface CIRConfig {
+    kappa: number;
+    mu: number;
+    sigma: number;
+    initialValue: number;
+    yieldTenor?: number;
+}
+
+/**
+ * Zero curve: continuously compounded zero rates by maturity (years)
+ */
+export interface YieldCurve {
+    maturities: number[];
+    zeroRates: number[];
+}
+
+/**
+ * Hull-White (extended Vasicek): dr = (θ(t) - a r) dt + σ dW
+ * θ(t) is implied by the initial curve, so simulated bond prices
+ * reprice today's term structure.
+ */
+export interface HullWhiteConfig {
+    a: number;                  // Mean reversion speed
+    sigma: number;
+    initialCurve: YieldCurve;
+    initialValue?: number;      // Defaults to the instantaneous forward f(0, 0)
+    yieldTenor?: number;
+}
+
+export type ShortRateProcess =
+    | { type: 'vasicek'; params: VasicekConfig }
+    | { type: 'cir'; params: CIRConfig }
+    | { type: 'hull_white'; params: HullWhiteConfig };
+
+/**
+ * Feller condition for CIR: 2κμ ≥ σ² keeps the rate away from zero
+ */
+export function cirFellerCondition(config: CIRConfig): { satisfied: boolean; ratio: number } {
+    const ratio = 2 * config.kappa * config.mu / (config.sigma * config.sigma);
+    return { satisfied: ratio >= 1, ratio };
+}
+
+// =============================================
+// Initial Term Structure
+// =============================================
+
+/**
+ * Discount factor P(0, t) from the curve
+ * Log-discount t·R(t) is linearly interpolated (piecewise-flat forwards);
+ * flat rate before the first node, flat forward after the last.
+ */
+export function curveDiscountFactor(curve: YieldCurve, t: number): number {
+    if (t <= 0) return 1;
+    return Math.exp(-curveLogDiscount(curve, t));
+}
+
+/**
+ * Instantaneous forward rate f(0, t) implied by the curve
+ */
+export function curveForwardRate(curve: YieldCurve, t: number): number {
+    const { maturities, zeroRates } = curve;
+    if (maturities.length === 0) {
+        throw new Error('Yield curve has no points');
+    }
+    if (t < maturities[0] || maturities.length === 1) return zeroRates[0];
+
+    let i = 0;
+    while (i < maturities.length - 2 && t >= maturities[i + 1]) i++;
+    const t0 = maturities[i];
+    const t1 = maturities[i + 1];
+    return (t1 * zeroRates[i + 1] - t0 * zeroRates[i]) / (t1 - t0);
+}
+
+function curveLogDiscount(curve: YieldCurve, t: number): number {
+    const { maturities, zeroRates } = curve;
+    if (maturities.length === 0) {
+        throw new Error('Yield curve has no points');
+    }
+    if (t <= maturities[0]) return zeroRates[0] * t;
+
+    const last = maturities.length - 1;
+    if (t >= maturities[last]) {
+        return zeroRates[last] * maturities[last] + curveForwardRate(curve, maturities[last]) * (t - maturities[last]);
+    }
+
+    let i = 0;
+    while (t > maturities[i + 1]) i++;
+    const w = (t - maturities[i]) / (maturities[i + 1] - maturities[i]);
+    return (1 - w) * zeroRates[i] * maturities[i] + w * zeroRates[i + 1] * maturities[i + 1];
+}
+
+// =============================================
+// Exact Stepping
+// `z` is the standard normal innovation; drawn from rng when omitted.
+// =============================================
+
+/**
+ * Vasicek step (exact Gaussian transition)
+ */
+export function stepVasicek(
+    rng: MersenneTwister,
+    currentRate: number,
+    config: VasicekConfig,
+    dt: number,
+    z?: number
+): number {
+    const { kappa, mu, sigma } = config;
+    const decay = Math.exp(-kappa * dt);
+    const stdDev = sigma * Math.sqrt((1 - Math.exp(-2 * kappa * dt)) / (2 * kappa));
+    return mu + (currentRate - mu) * decay + stdDev * (z ?? sampleStandardNormal(rng));
+}
+
+/**
+ * CIR step (exact non-central chi-square transition)
+ *
+ * r(t+dt) = X / c with X ~ χ'²(d, λ), c = 4κ / (σ²(1 - e^{-κdt})),
+ * d = 4κμ/σ², λ = c·r(t)·e^{-κdt}. X is drawn as a Poisson mixture
+ * χ²_{d+2N}, N ~ Poisson(λ/2). When z is given, the chi-square part is
+ * obtained by inversion at Φ(z), so the transition stays exact while the
+ * step inherits the dependence of the correlated innovation.
+ */
+export function stepCIR(
+    rng: MersenneTwister,
+    currentRate: number,
+    config: CIRConfig,
+    dt: number,
+    z?: number
+): number {
+    const { kappa, mu, sigma } = config;
+    const decay = Math.exp(-kappa * dt);
+    const c = 4 * kappa / (sigma * sigma * (1 - decay));
+    const d = 4 * kappa * mu / (sigma * sigma);
+    const lambda = c * Math.max(currentRate, 0) * decay;
+
+    const n = lambda > 0 ? samplePoisson(rng, lambda / 2) : 0;
+    const shape = d / 2 + n;
+    const chiSquared = z === undefined
+        ? sampleGamma(rng, shape, 0.5)
+        : 2 * gammaQuantile(Math.min(1 - 1e-16, Math.max(1e-300, normalCDF(z))), shape);
+
+    return chiSquared / c;
+}
+
+/**
+ * Hull-White step (exact): r = x + α(t) with x a zero-mean O-U process,
+ * α(t) = f(0,t) + σ²/(2a²)(1 - e^{-at})²
+ * @param t Time of the current rate (years)
+ */
+export function stepHullWhite(
+    rng: MersenneTwister,
+    currentRate: number,
+    t: number,
+    config: HullWhiteConfig,
+    dt: number,
+    z?: number
+): number {
+    const { a, sigma } = config;
+    const decay = Math.exp(-a * dt);
+    const stdDev = sigma * Math.sqrt((1 - Math.exp(-2 * a * dt)) / (2 * a));
+    const x = (currentRate - hullWhiteAlpha(config, t)) * decay + stdDev * (z ?? sampleStandardNormal(rng));
+    return x + hullWhiteAlpha(config, t + dt);
+}
+
+function hullWhiteAlpha(config: HullWhiteConfig, t: number): number {
+    const { a, sigma } = config;
+    const g = (1 - Math.exp(-a * t)) / a;
+    return curveForwardRate(config.initialCurve, t) + 0.5 * sigma * sigma * g * g;
+}
+
+/**
+ * Initial short rate of a short-rate process
+ */
+export function shortRateInitialValue(process: ShortRateProcess): number {
+    if (process.type === 'hull_white') {
+        return process.params.initialValue ?? curveForwardRate(process.params.initialCurve, 0);
+    }
+    return process.params.initialValue;
+}
+
+/**
+ * One exact step of any short-rate process
+ */
+export function stepShortRate(
+    rng: MersenneTwister,
+    process: ShortRateProcess,
+    currentRate: number,
+    t: number,
+    dt: number,
+    z?: number
+): number {
+    switch (process.type) {
+        case 'vasicek':
+            return stepVasicek(rng, currentRate, process.params, dt, z);
+        case 'cir':
+            return stepCIR(rng, currentRate, process.params, dt, z);
+        case 'hull_white':
+            return stepHullWhite(rng, currentRate, t, process.params, dt, z);
+    }
+}
+
+/**
+ * Simulate a short-rate path
+ * @returns Short rates at each time step
+ */
+export function simulateShortRatePath(
+    rng: MersenneTwister,
+    process: ShortRateProcess,
+    numSteps: number,
+    dt: number
+): number[] {
+    let current = shortRateInitialValue(process);
+    const path: number[] = [current];
+
+    for (let i = 0; i < numSteps; i++) {
+        current = stepShortRate(rng, process, current, i * dt, dt);
+        path.push(current);
+    }
+
+    return path;
+}
+
+// =============================================
+// Zero-Coupon Bond Pricing
+// Affine models: P(t, T) = A(t, T) · exp(-B(t, T) · r(t))
+// =============================================
+
+/**
+ * Price at time t of a zero-coupon bond maturing at t + tenor, given r(t)
+ */
+export function zeroCouponBondPrice(
+    process: ShortRateProcess,
+    rate: number,
+    t: number,
+    tenor: number
+): number {
+    if (tenor <= 0) return 1;
+
+    switch (process.type) {
+        case 'vasicek': {
+            const { kappa, mu, sigma } = process.params;
+            const B = (1 - Math.exp(-kappa * tenor)) / kappa;
+            const logA = (mu - sigma * sigma / (2 * kappa * kappa)) * (B - tenor)
+                - sigma * sigma * B * B / (4 * kappa);
+            return Math.exp(logA - B * rate);
+        }
+        case 'cir': {
+            const { kappa, mu, sigma } = process.params;
+            const h = Math.sqrt(kappa * kappa + 2 * sigma * sigma);
+            const expH = Math.exp(h * tenor) - 1;
+            const denom = 2 * h + (kappa + h) * expH;
+            const logA = (2 * kappa * mu / (sigma * sigma))
+                * Math.log(2 * h * Math.exp((kappa + h) * tenor / 2) / denom);
+            const B = 2 * expH / denom;
+            return Math.exp(logA - B * rate);
+        }
+        case 'hull_white': {
+            const { a, sigma, initialCurve } = process.params;
+            const B = (1 - Math.exp(-a * tenor)) / a;
+            const logA = -curveLogDiscount(initialCurve, t + tenor) + curveLogDiscount(initialCurve, t)
+                + B * curveForwardRate(initialCurve, t)
+                - sigma * sigma / (4 * a) * (1 - Math.exp(-2 * a * t)) * B * B;
+            return Math.exp(logA - B * rate);
+        }
+    }
+}
+
+/**
+ * Continuously compounded zero yield for the given tenor, given r(t)
+ */
+export function zeroCouponYield(
+    process: ShortRateProcess,
+    rate: number,
+    t: number,
+    tenor: number
+): number {
+    if (tenor <= 0) return rate;
+    return -Math.log(zeroCouponBondPrice(process, rate, t, tenor)) / tenor;
+}
+
+/**
+ * Constant-tenor bond prices P(t_i, t_i + tenor) along a simulated short-rate path
+ */
+export function zeroCouponBondPricesOnPath(
+    process: ShortRateProcess,
+    ratePath: number[],
+    dt: number,
+    tenor: number
+): number[] {
+    return ratePath.map((r, i) => zeroCouponBondPrice(process, r, i * dt, tenor));
+}
+
+/**
+ * Constant-tenor zero yields along a simulated short-rate path
+ * (e.g. a 3M or 6M reference rate for floating-rate debt)
+ */
+export function zeroCouponYieldsOnPath(
+    process: ShortRateProcess,
+    ratePath: number[],
+    dt: number,
+    tenor: number
+): number[] {
+    return ratePath.map((r, i) => zeroCouponYield(process, r, i * dt, tenor));
+}
+
+/**
+ * Pathwise discount factors exp(-∫₀ᵗ r ds) (trapezoidal rule)
+ */
+export function pathDiscountFactors(ratePath: number[], dt: number): number[] {
+    const factors: number[] = [1];
+    let integral = 0;
+    for (let i = 1; i < ratePath.length; i++) {
+        integral += 0.5 * (ratePath[i - 1] + ratePath[i]) * dt;
+        factors.push(Math.exp(-integral));
+    }
+    return factors;
+}
+
+/**
+ * Monte Carlo zero-coupon bond price P(0, T) as the average pathwise discount
+ * factor at step `maturityStep`. Compare with zeroCouponBondPrice to check
+ * the discretization.
+ */
+export function monteCarloZeroCouponBondPrice(
+    ratePaths: number[][],
+    dt: number,
+    maturityStep: number
+): number {
+    if (ratePaths.length === 0) return NaN;
+    let sum = 0;
+    for (const path of ratePaths) {
+        sum += pathDiscountFactors(path.slice(0, maturityStep + 1), dt)[maturityStep];
+    }
+    return sum / ratePaths.length;
+}
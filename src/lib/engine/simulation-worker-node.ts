@@ -0,0 +1,15 @@
+// =============================================
+// StochFin Monte Carlo Engine: worker_threads Entry
+// Loaded by createNodeWorkerPool from the self-contained bundle that
+// npm run build:worker writes to generated/simulation-worker-node.js
+// =============================================
+
+import { parentPort } from 'node:worker_threads';
+import { handleWorkerRequest, NODE_WORKER_READY } from './worker-tasks';
+import type { WorkerRequest } from './parallel';
+
+parentPort?.on('message', (request: WorkerRequest) => {
+    const { response, transfer } = handleWorkerRequest(request);
+    parentPort!.postMessage(response, transfer);
+});
+parentPort?.postMessage(NODE_WORKER_READY);
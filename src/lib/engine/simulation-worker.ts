@@ -0,0 +1,12 @@
+// =============================================
+// StochFin Monte Carlo Engine: Web Worker Entry
+// Loaded by createBrowserWorkerPool
+// =============================================
+
+import { handleWorkerRequest } from './worker-tasks';
+import type { WorkerRequest } from './parallel';
+
+self.addEventListener('message', (event: MessageEvent<WorkerRequest>) => {
+    const { response, transfer } = handleWorkerRequest(event.data);
+    (self as unknown as Worker).postMessage(response, transfer);
+});
@@ -3,15 +3,67 @@
 // Orchestrates the full Monte Carlo simulation
 // =============================================
 
-import { MersenneTwister } from './random';
 import {
-    simulateCorrelatedPaths,
+    MersenneTwister,
+    createStreamRng,
+    sampleStandardNormal,
+    PARAMETER_STREAM,
+    SENSITIVITY_A_STREAM,
+    SENSITIVITY_B_STREAM
+} from './random';
+import {
+    simulateCorrelatedColumns,
     ProcessConfig,
+    type ProcessType,
+    staticDistributionInitialValue,
+    type GBMConfig,
+    type OUConfig,
+    type StaticDistributionConfig,
+    type RegimeSwitchingConfig,
     getTimeStepInYears,
-    type TimeStepUnit
+    type TimeStepUnit,
+    type PeriodShock,
+    type SatelliteLink
 } from './processes';
+import { distributionMean } from './distributions';
+import type { SatelliteModel } from './satellite';
 import { choleskyDecomposition, isPositiveDefinite } from './correlation';
-import { calculateStatistics, type SimulationStats } from './aggregator';
+import { createDependenceModel, sampleNoiseVector, type DependenceCopula, type NoiseModel } from './dependence';
+import { calculateStatistics, percentile, type SimulationStats } from './aggregator';
+import { StreamingStatistics, tdigestRankErrorBound, DEFAULT_DIGEST_COMPRESSION } from './streaming';
+import {
+    sampleProcessParameters,
+    decomposeVarianceFromSummaries,
+    type GroupSummary,
+    type ParameterUncertainty,
+    type VarianceDecomposition
+} from './parameter-uncertainty';
+import {
+    compileFormulaSet,
+    evaluateDerivedColumns,
+    type DerivedVariableConfig
+} from './formulas';
+import { gatherPath } from './columnar';
+import { runBlocksInOrder, defaultBlockSize, type SimulationWorkerPool } from './parallel';
+import {
+    antitheticNormals,
+    antitheticInnovations,
+    sobolNormalColumns,
+    sobolPointOf,
+    ControlAccumulator,
+    MeanAccumulator,
+    DEFAULT_SOBOL_REPLICATES,
+    type SamplingMethod,
+    type VarianceReductionConfig,
+    type MeanEstimate
+} from './variance-reduction';
+import { adaptiveBatches, percentileStdError, DEFAULT_ADAPTIVE_BATCH_SIZE } from './adaptive';
+import {
+    sobolIndicesFromSaltelli,
+    DEFAULT_SENSITIVITY_SAMPLES,
+    DEFAULT_SOBOL_BOOTSTRAP,
+    type SobolAnalysis
+} from './global-sensitivity';
 
 // =============================================
 // Simulation Configuration
@@ -22,13 +74,40 @@ export interface SimulationConfig {
     horizonPeriods: number;
     timeStep: TimeStepUnit;
     randomSeed?: number;
-    correlationMethod: 'cholesky' | 'copula_gaussian';
+    correlationMethod: 'cholesky' | 'copula_gaussian' | 'copula_t' | 'copula_clayton';
+    storeRegimePaths?: boolean;  // Keep per-scenario regime paths of regime-switching variables
+    parameterRisk?: {
+        // Two-level Monte Carlo: nSimulations are split into this many outer parameter draws,
+        // each followed by nSimulations / outerScenarios inner paths
+        outerScenarios: number;
+    };
+    // 'auto' (default) streams once nSimulations × variables × periods exceeds STREAMING_AUTO_THRESHOLD
+    aggregation?: 'full' | 'streaming' | 'auto';
+    sketchCompression?: number;  // t-digest δ for streaming quantiles (default 300)
+    varianceReduction?: VarianceReductionConfig;  // Reported in SimulationResult.varianceReduction
+    adaptive?: AdaptiveSimulationConfig;  // nSimulations becomes the scenario budget
 }
 
+/**
+ * Run in batches until the standard error of one percentile is below the
+ * target, or nSimulations scenarios have been simulated
+ */
+export interface AdaptiveSimulationConfig {
+    variableCode: string;        // Driver or derived variable
+    percentile: number;          // 0-100
+    periodIndex?: number;        // Default: horizon
+    targetStdError: number;
+    batchSize?: number;          // Default DEFAULT_ADAPTIVE_BATCH_SIZE
+}
+
+/** Stored values above which 'auto' aggregation switches to streaming (~40 MB of doubles) */
+export const STREAMING_AUTO_THRESHOLD = 5_000_000;
+
 export interface VariableConfig {
     id: string;
     code: string;
     processConfig: ProcessConfig;
+    parameterUncertainty?: ParameterUncertainty[];  // Redrawn per outer scenario when parameterRisk is set
 }
 
 export interface SimulationInput {
@@ -36,12 +115,28 @@ export interface SimulationInput {
     variables: VariableConfig[];
     correlationMatrix: number[][];
     covenants?: CovenantConfig[];
+    derivedVariables?: DerivedVariableConfig[];  // Evaluated per scenario and period after drivers
+    copula?: DependenceCopula;           // Overrides the copula implied by config.correlationMethod
+    regimes?: CorrelationRegime[];       // Mixture of dependence regimes, one drawn per scenario
+    stressScenario?: StressScenario;     // Shock paths applied to the drivers inside the simulation loop
+    satellites?: SatelliteModel[];       // Macro satellite regressions embedded as drift terms between drivers
+}
+
+/**
+ * Dependence regime (e.g. normal / stress / crisis) with its own correlation
+ * matrix and copula. Each scenario draws a single regime with the given probability.
+ */
+export interface CorrelationRegime {
+    name: string;
+    probability: number;
+    correlationMatrix: number[][];
+    copula?: DependenceCopula;           // Defaults to the simulation copula
 }
 
 export interface CovenantConfig {
     id: string;
     name: string;
-    variableCode: string;
+    variableCode: string;       // Driver or derived variable code
     threshold: number;
     operator: '<' | '<=' | '>' | '>=' | '=';
 }
@@ -67,6 +162,45 @@ export interface CovenantPeriodResult {
     avgBreachMagnitude?: number;
 }
 
+export interface RegimePathResult {
+    variableId: string;
+    variableCode: string;
+    regimeNames: string[];
+    occupancy: number[][];      // [period][regime] share of scenarios in each regime
+    regimePaths?: number[][];   // [scenario][period] regime index (if storeRegimePaths)
+}
+
+export interface VariancePeriodDecomposition extends VarianceDecomposition {
+    variableId: string;
+    variableCode: string;
+    periodIndex: number;
+}
+
+export interface VariancePeriodEstimate extends MeanEstimate {
+    variableId: string;
+    variableCode: string;
+    periodIndex: number;
+}
+
+export interface CovenantPeriodEstimate extends MeanEstimate {
+    covenantId: string;
+    periodIndex: number;        // mean = breach probability
+}
+
+export interface VarianceReductionReport {
+    sampling: SamplingMethod;
+    sobolReplicates?: number;
+    controlVariables?: string[];    // Drivers used as control variates
+    estimates: VariancePeriodEstimate[];
+    covenantEstimates?: CovenantPeriodEstimate[];
+}
+
+export interface ConvergencePoint {
+    nSimulations: number;
+    estimate: number;           // Tracked percentile
+    stdError: number;
+}
+
 export interface SimulationResult {
     config: SimulationConfig;
     startedAt: Date;
@@ -81,61 +215,328 @@ export interface SimulationResult {
 
     // Raw scenarios (if stored)
     scenariosByVariable?: Map<string, number[][]>;  // variableCode -> [period][scenario]
+
+    // Number of scenarios drawn in each correlation regime (regime mixtures only)
+    regimeCounts?: Record<string, number>;
+
+    // Regime paths of Markov regime-switching variables
+    regimeResults?: RegimePathResult[];
+
+    // How SimulationStats were computed; streaming percentiles carry a rank error
+    // of at most quantileRankErrorBound (fraction of scenarios, worst case at the median)
+    aggregation: 'full' | 'streaming';
+    quantileRankErrorBound?: number;
+
+    // Parameter risk vs process risk (two-level runs only)
+    parameterDraws?: number;
+    varianceDecomposition?: VariancePeriodDecomposition[];
+
+    // Mean and breach-probability errors under the requested variance reduction
+    varianceReduction?: VarianceReductionReport;
+
+    // Adaptive runs: the tracked percentile after each batch
+    convergence?: {
+        converged: boolean;     // false when the budget ran out first
+        trace: ConvergencePoint[];
+    };
 }
 
 // =============================================
 // Main Simulation Function
 // =============================================
 
+export interface RunOptions {
+    pool?: SimulationWorkerPool;  // Simulate scenario blocks on worker threads
+    blockSize?: number;           // Scenarios per block (default: ~4 blocks per worker, 1000 in-thread)
+}
+
+/**
+ * Simulated values of a contiguous range of scenarios, as returned by a worker
+ */
+export interface ScenarioBlock {
+    start: number;
+    count: number;
+    values: Float64Array;               // [output variable][period][scenario]
+    correlationRegimes?: Int32Array;    // Correlation regime drawn by each scenario
+    regimePaths?: Int32Array;           // [regime-switching driver][period][scenario]
+}
+
+const IN_THREAD_BLOCK_SIZE = 1000;
+
 /**
  * Run full Monte Carlo simulation
+ *
+ * Scenario i always draws from stream i of the run seed, so a given seed
+ * gives the same result with or without a worker pool, for any pool size.
  */
-export async function runSimulation(input: SimulationInput): Promise<SimulationResult> {
+export async function runSimulation(input: SimulationInput, options: RunOptions = {}): Promise<SimulationResult> {
     const startTime = Date.now();
-    const { config, variables, correlationMatrix, covenants } = input;
+    const { variables, correlationMatrix, covenants } = input;
 
-    // Validate correlation matrix
+    // Validate correlation matrices
     if (!isPositiveDefinite(correlationMatrix)) {
         throw new Error('Correlation matrix is not positive-definite');
     }
+    for (const regime of input.regimes ?? []) {
+        if (!isPositiveDefinite(regime.correlationMatrix)) {
+            throw new Error(`Correlation matrix for regime "${regime.name}" is not positive-definite`);
+        }
+    }
 
-    // Initialize RNG
-    const rng = new MersenneTwister(config.randomSeed ?? Date.now());
+    if (input.stressScenario) {
+        const errors = validateStressScenario(input.stressScenario);
+        if (errors.length > 0) {
+            throw new Error(`Invalid stress scenario "${input.stressScenario.name}": ${errors.join('; ')}`);
+        }
+    }
 
-    // Time step in years
-    const dt = getTimeStepInYears(config.timeStep);
+    if (input.satellites?.length) {
+        const errors = validateSatelliteModels(input.satellites, variables.map(v => v.code));
+        if (errors.length > 0) {
+            throw new Error(`Invalid satellite models: ${errors.join('; ')}`);
+        }
+    }
 
-    // Storage for all scenarios
-    const allPaths: number[][][] = [];  // [simulation][variable][period]
+    // Parse derived variable formulas up front so syntax errors and cycles fail fast
+    const formulaSet = compileFormulaSet(
+        variables.map(v => v.code),
+        input.derivedVariables ?? []
+    );
+    const outputVariables = [
+        ...variables.map(v => ({ id: v.id, code: v.code })),
+        ...formulaSet.derived.map(d => ({ id: d.config.id, code: d.config.code }))
+    ];
 
-    // Run simulations
-    for (let sim = 0; sim < config.nSimulations; sim++) {
-        // Generate correlated paths for all variables
-        const paths = simulateCorrelatedPaths(
-            rng,
-            variables.map(v => v.processConfig),
-            correlationMatrix,
-            config.horizonPeriods,
-            dt
+    // Fix the seed before fan-out so every block derives the same scenario streams
+    const config: SimulationConfig = { ...input.config, randomSeed: input.config.randomSeed ?? Date.now() };
+    const seededInput: SimulationInput = { ...input, config };
+    const numPeriods = config.horizonPeriods + 1;
+
+    const regimes = buildRegimeSamplers(input, input.copula ?? copulaFromMethod(config.correlationMethod));
+    const regimeCounts: Record<string, number> | undefined = regimes
+        ? Object.fromEntries(regimes.map(r => [r.name, 0]))
+        : undefined;
+
+    // Two-level Monte Carlo: outer parameter draws, inner paths per draw
+    const { outerScenarios, innerPaths } = parameterRiskLayout(config, variables);
+
+    // Variance reduction: check the sampling scheme fits the dependence model, pick control variates
+    const reduction = varianceReductionPlan(input, config, regimes, outerScenarios > 0);
+    const antithetic = reduction?.sampling === 'antithetic';
+
+    // Adaptive runs: resolve the tracked percentile before simulating
+    const adaptive = adaptivePlan(config, outputVariables, reduction, outerScenarios > 0);
+
+    // Regime occupancy counts for regime-switching drivers
+    const regimeTrackers = regimeSwitchingDrivers(variables).map(varIdx => {
+        const v = variables[varIdx];
+        const regimes = (v.processConfig.params as RegimeSwitchingConfig).regimes;
+        return {
+            varIdx,
+            result: {
+                variableId: v.id,
+                variableCode: v.code,
+                regimeNames: regimes.map((r, k) => r.name ?? `regime_${k}`),
+                occupancy: Array(numPeriods).fill(null).map(() => Array(regimes.length).fill(0)),
+                regimePaths: config.storeRegimePaths ? [] : undefined
+            } as RegimePathResult
+        };
+    });
+
+    // Aggregation: full storage keeps every value (exact percentiles), streaming keeps
+    // exact moments and counters plus a t-digest sketch per variable and period
+    const streaming = shouldStreamAggregates(config, outputVariables.length);
+    const columns: number[][][] = streaming
+        ? []
+        : outputVariables.map(() => Array(numPeriods).fill(null).map(() => [] as number[]));  // [variable][period][scenario]
+    const sketches: StreamingStatistics[][] = streaming
+        ? outputVariables.map(() =>
+            Array(numPeriods).fill(null).map(() => new StreamingStatistics(config.sketchCompression)))
+        : [];
+
+    // Covenant breach counters per period
+    const covenantTrackers = (covenants ?? [])
+        .map(covenant => ({ covenant, varIdx: outputVariables.findIndex(v => v.code === covenant.variableCode) }))
+        .filter(t => t.varIdx !== -1)
+        .map(t => ({ ...t, breachCount: Array(numPeriods).fill(0), breachMagnitude: Array(numPeriods).fill(0) }));
+
+    // Running summaries of each outer parameter draw: [variable][period][outer]
+    const outerOf = (sim: number) => outerScenarioOf(sim, innerPaths, outerScenarios, antithetic);
+    const groupSummaries: GroupSummary[][][] = outerScenarios
+        ? outputVariables.map(() => Array(numPeriods).fill(null).map(() =>
+            Array(outerScenarios).fill(null).map(() => ({ n: 0, mean: 0, m2: 0 }))))
+        : [];
+
+    // Estimators of each output and covenant breach probability, with the controls per period
+    const nControls = reduction?.controls.length ?? 0;
+    const newEstimator = () => new MeanAccumulator(nControls, reduction?.sobolReplicates);
+    const estimators = reduction
+        ? {
+            controls: Array(numPeriods).fill(null).map(() => new ControlAccumulator(nControls)),
+            outputs: outputVariables.map(() => Array(numPeriods).fill(null).map(newEstimator)),
+            covenants: covenantTrackers.map(() => Array(numPeriods).fill(null).map(newEstimator))
+        }
+        : undefined;
+
+    // Estimator observations are scenarios, or the means of antithetic pairs
+    const foldEstimates = (block: ScenarioBlock) => {
+        const { start, count, values } = block;
+        const x = new Float64Array(nControls);
+        const valueAt = (varIdx: number, period: number, s: number) => values[(varIdx * numPeriods + period) * count + s];
+        const observe = (f: (s: number) => number, s: number) => (antithetic ? 0.5 * (f(s) + f(s + 1)) : f(s));
+
+        for (let s = 0; s < count; s += antithetic ? 2 : 1) {
+            // An odd-sized antithetic run leaves its last scenario unpaired; it only counts in the statistics
+            if (antithetic && s + 1 === count) break;
+            const replicate = reduction!.sobolReplicates
+                ? sobolPointOf(start + s, config.nSimulations, reduction!.sobolReplicates).replicate
+                : undefined;
+
+            for (let period = 0; period < numPeriods; period++) {
+                if (nControls > 0) {
+                    reduction!.controls.forEach((control, j) => {
+                        x[j] = observe(k => valueAt(control.varIdx, period, k), s) - control.means[period];
+                    });
+                    estimators!.controls[period].add(x);
+                }
+                const record = (estimator: MeanAccumulator, y: number) => {
+                    if (nControls > 0) {
+                        estimator.addWithControls(y, x, estimators!.controls[period]);
+                    } else {
+                        estimator.add(y, replicate);
+                    }
+                };
+                for (let varIdx = 0; varIdx < outputVariables.length; varIdx++) {
+                    record(estimators!.outputs[varIdx][period], observe(k => valueAt(varIdx, period, k), s));
+                }
+                covenantTrackers.forEach(({ covenant, varIdx }, c) => {
+                    const breached = (k: number) =>
+                        evaluateCovenant(valueAt(varIdx, period, k), covenant.threshold, covenant.operator) ? 1 : 0;
+                    record(estimators!.covenants[c][period], observe(breached, s));
+                });
+            }
+        }
+    };
+
+    // Fold a block into the aggregates; blocks arrive in scenario order
+    const foldBlock = (block: ScenarioBlock) => {
+        const { start, count, values } = block;
+
+        if (regimes && block.correlationRegimes) {
+            for (let s = 0; s < count; s++) {
+                regimeCounts![regimes[block.correlationRegimes[s]].name]++;
+            }
+        }
+
+        regimeTrackers.forEach((tracker, t) => {
+            for (let s = 0; s < count; s++) {
+                const regimePath = gatherPath(block.regimePaths!, count, numPeriods, t, s);
+                regimePath.forEach((regime, period) => tracker.result.occupancy[period][regime]++);
+                tracker.result.regimePaths?.push(regimePath);
+            }
+        });
+
+        for (let varIdx = 0; varIdx < outputVariables.length; varIdx++) {
+            for (let period = 0; period < numPeriods; period++) {
+                const offset = (varIdx * numPeriods + period) * count;
+                const sketch = streaming ? sketches[varIdx][period] : undefined;
+                const column = streaming ? undefined : columns[varIdx][period];
+                const summaries = outerScenarios ? groupSummaries[varIdx][period] : undefined;
+
+                for (let s = 0; s < count; s++) {
+                    const value = values[offset + s];
+                    if (sketch) {
+                        sketch.add(value);
+                    } else {
+                        column!.push(value);
+                    }
+                    if (summaries) {
+                        const g = summaries[outerOf(start + s)];
+                        g.n++;
+                        const delta = value - g.mean;
+                        g.mean += delta / g.n;
+                        g.m2 += delta * (value - g.mean);
+                    }
+                }
+            }
+        }
+
+        for (const tracker of covenantTrackers) {
+            const { threshold, operator } = tracker.covenant;
+            for (let period = 0; period < numPeriods; period++) {
+                const offset = (tracker.varIdx * numPeriods + period) * count;
+                for (let s = 0; s < count; s++) {
+                    const value = values[offset + s];
+                    if (evaluateCovenant(value, threshold, operator)) {
+                        tracker.breachCount[period]++;
+                        tracker.breachMagnitude[period] += Math.abs(value - threshold);
+                    }
+                }
+            }
+        }
+
+        if (estimators) foldEstimates(block);
+    };
+
+    // Run simulations, in-thread or across the worker pool
+    const { pool } = options;
+    let blockSize = options.blockSize ??
+        (pool ? defaultBlockSize(adaptive?.batchSize ?? config.nSimulations, pool.size) : IN_THREAD_BLOCK_SIZE);
+    // Antithetic pairs must not straddle blocks
+    if (antithetic && blockSize % 2 === 1) blockSize++;
+
+    const runScenarios = (first: number, end: number) => runBlocksInOrder(
+        end,
+        blockSize,
+        (start, blockEnd) => pool
+            ? pool.run({ kind: 'scenarios', input: seededInput, start, end: blockEnd })
+            : simulateScenarioBlock(seededInput, start, blockEnd),
+        foldBlock,
+        pool ? pool.size * 2 : 1,
+        first
+    );
+
+    // Adaptive runs stop after the first batch that meets the target
+    let nSimulations = config.nSimulations;
+    let convergence: SimulationResult['convergence'];
+
+    if (adaptive) {
+        convergence = { converged: false, trace: [] };
+        for (const [start, end] of adaptiveBatches(config.nSimulations, adaptive.batchSize, antithetic)) {
+            await runScenarios(start, end);
+            nSimulations = end;
+
+            const { varIdx, period } = adaptive;
+            const sorted = streaming ? [] : [...columns[varIdx][period]].sort((a, b) => a - b);
+            const quantile = (p: number) => (streaming ? sketches[varIdx][period].quantile(p) : percentile(sorted, p));
+            const stdError = percentileStdError(quantile, adaptive.percentile, end);
+            convergence.trace.push({ nSimulations: end, estimate: quantile(adaptive.percentile), stdError });
+
+            if (stdError <= adaptive.targetStdError) {
+                convergence.converged = true;
+                break;
+            }
+        }
+    } else {
+        await runScenarios(0, config.nSimulations);
+    }
+
+    for (const tracker of regimeTrackers) {
+        tracker.result.occupancy = tracker.result.occupancy.map(counts =>
+            counts.map(c => c / nSimulations)
         );
-        allPaths.push(paths);
     }
 
     // Aggregate results by variable and period
     const results: VariablePeriodResult[] = [];
 
-    for (let varIdx = 0; varIdx < variables.length; varIdx++) {
-        const variable = variables[varIdx];
+    for (let varIdx = 0; varIdx < outputVariables.length; varIdx++) {
+        const variable = outputVariables[varIdx];
 
         for (let period = 0; period <= config.horizonPeriods; period++) {
-            // Extract all scenario values for this variable at this period
-            const scenarioValues: number[] = [];
-            for (let sim = 0; sim < config.nSimulations; sim++) {
-                scenarioValues.push(allPaths[sim][varIdx][period]);
-            }
-
-            // Calculate statistics
-            const stats = calculateStatistics(scenarioValues);
+            const stats = streaming
+                ? sketches[varIdx][period].toStats()
+                : calculateStatistics(columns[varIdx][period]);
 
             results.push({
                 variableId: variable.id,
@@ -148,58 +549,493 @@ export async function runSimulation(input: SimulationInput): Promise<SimulationR
         }
     }
 
-    // Calculate covenant breach probabilities
-    let covenantResults: CovenantPeriodResult[] | undefined;
-
-    if (covenants && covenants.length > 0) {
-        covenantResults = [];
+    // Covenant breach probabilities
+    const covenantResults: CovenantPeriodResult[] | undefined = covenants && covenants.length > 0
+        ? covenantTrackers.flatMap(({ covenant, breachCount, breachMagnitude }) =>
+            breachCount.map((count, period) => ({
+                covenantId: covenant.id,
+                covenantName: covenant.name,
+                periodIndex: period,
+                breachProbability: count / nSimulations,
+                nBreachScenarios: count,
+                avgBreachMagnitude: count > 0 ? breachMagnitude[period] / count : undefined
+            }))
+        )
+        : undefined;
 
-        for (const covenant of covenants) {
-            const varIdx = variables.findIndex(v => v.code === covenant.variableCode);
-            if (varIdx === -1) continue;
+    // Law of total variance: between outer draws = parameter risk, within = process risk
+    let varianceDecomposition: VariancePeriodDecomposition[] | undefined;
 
+    if (outerScenarios) {
+        varianceDecomposition = [];
+        for (let varIdx = 0; varIdx < outputVariables.length; varIdx++) {
             for (let period = 0; period <= config.horizonPeriods; period++) {
-                let breachCount = 0;
-                let totalBreachMagnitude = 0;
-
-                for (let sim = 0; sim < config.nSimulations; sim++) {
-                    const value = allPaths[sim][varIdx][period];
-                    const isBreach = evaluateCovenant(value, covenant.threshold, covenant.operator);
-
-                    if (isBreach) {
-                        breachCount++;
-                        totalBreachMagnitude += Math.abs(value - covenant.threshold);
-                    }
-                }
-
-                covenantResults.push({
-                    covenantId: covenant.id,
-                    covenantName: covenant.name,
+                varianceDecomposition.push({
+                    variableId: outputVariables[varIdx].id,
+                    variableCode: outputVariables[varIdx].code,
                     periodIndex: period,
-                    breachProbability: breachCount / config.nSimulations,
-                    nBreachScenarios: breachCount,
-                    avgBreachMagnitude: breachCount > 0 ? totalBreachMagnitude / breachCount : undefined
+                    ...decomposeVarianceFromSummaries(groupSummaries[varIdx][period])
                 });
             }
         }
     }
 
+    // Estimator errors against plain Monte Carlo with the same number of scenarios
+    let varianceReduction: VarianceReductionReport | undefined;
+
+    if (reduction && estimators) {
+        const n = nSimulations;
+        const controlIndex = (varIdx: number) => reduction.controls.findIndex(c => c.varIdx === varIdx);
+        const controlsAt = (period: number) => (nControls > 0 ? estimators.controls[period] : undefined);
+
+        varianceReduction = {
+            sampling: reduction.sampling,
+            sobolReplicates: reduction.sobolReplicates || undefined,
+            controlVariables: nControls > 0 ? reduction.controls.map(c => variables[c.varIdx].code) : undefined,
+            estimates: outputVariables.flatMap((variable, varIdx) =>
+                estimators.outputs[varIdx].map((estimator, period) => ({
+                    variableId: variable.id,
+                    variableCode: variable.code,
+                    periodIndex: period,
+                    ...estimator.estimate(
+                        results[varIdx * numPeriods + period].stats.variance,
+                        n,
+                        controlsAt(period),
+                        controlIndex(varIdx)
+                    )
+                }))
+            ),
+            covenantEstimates: covenantTrackers.length > 0
+                ? covenantTrackers.flatMap(({ covenant, breachCount }, c) =>
+                    estimators.covenants[c].map((estimator, period) => {
+                        const p = breachCount[period] / n;
+                        return {
+                            covenantId: covenant.id,
+                            periodIndex: period,
+                            ...estimator.estimate(p * (1 - p) * n / (n - 1), n, controlsAt(period))
+                        };
+                    })
+                )
+                : undefined
+        };
+    }
+
     const endTime = Date.now();
 
     return {
-        config,
+        config: adaptive ? { ...config, nSimulations } : config,
         startedAt: new Date(startTime),
         completedAt: new Date(endTime),
         computeTimeMs: endTime - startTime,
         results,
-        covenantResults
+        covenantResults,
+        regimeCounts,
+        regimeResults: regimeTrackers.length > 0 ? regimeTrackers.map(t => t.result) : undefined,
+        aggregation: streaming ? 'streaming' : 'full',
+        quantileRankErrorBound: streaming
+            ? tdigestRankErrorBound(0.5, config.sketchCompression ?? DEFAULT_DIGEST_COMPRESSION)
+            : undefined,
+        parameterDraws: outerScenarios || undefined,
+        varianceDecomposition,
+        varianceReduction,
+        convergence
+    };
+}
+
+/**
+ * Simulate scenarios [start, end) of a run whose randomSeed is set.
+ * Runs on a worker thread or in-thread; the output does not depend on where.
+ */
+export function simulateScenarioBlock(input: SimulationInput, start: number, end: number): ScenarioBlock {
+    const { config, variables, correlationMatrix } = input;
+    if (config.randomSeed === undefined) {
+        throw new Error('Scenario blocks need a fixed randomSeed');
+    }
+    const seed = config.randomSeed;
+
+    const formulaSet = compileFormulaSet(
+        variables.map(v => v.code),
+        input.derivedVariables ?? []
+    );
+    const nOutputs = variables.length + formulaSet.derived.length;
+    const numPeriods = config.horizonPeriods + 1;
+    const count = end - start;
+
+    // Time step in years
+    const dt = getTimeStepInYears(config.timeStep);
+
+    // Joint innovation samplers: plain Cholesky unless a copula or regime mixture is requested
+    const baseCopula = input.copula ?? copulaFromMethod(config.correlationMethod);
+    const regimes = buildRegimeSamplers(input, baseCopula);
+    const baseNoise = baseCopula ? createDependenceModel(correlationMatrix, baseCopula) : undefined;
+
+    // Each outer parameter draw has its own stream, so it is the same in every block
+    const { outerScenarios, innerPaths } = parameterRiskLayout(config, variables);
+    const parameterDraws = new Map<number, ProcessConfig[]>();
+    const processConfigsFor = (outer: number): ProcessConfig[] => {
+        if (!outerScenarios) return variables.map(v => v.processConfig);
+        let configs = parameterDraws.get(outer);
+        if (!configs) {
+            const rng = createStreamRng(seed, outer, PARAMETER_STREAM);
+            configs = variables.map(v => v.parameterUncertainty?.length
+                ? sampleProcessParameters(rng, v.processConfig, v.parameterUncertainty)
+                : v.processConfig
+            );
+            parameterDraws.set(outer, configs);
+        }
+        return configs;
     };
+
+    // Antithetic pairs (2k, 2k+1) share their parameter draw and correlation regime
+    const sampling = config.varianceReduction?.sampling ?? 'pseudo';
+    const antithetic = sampling === 'antithetic';
+    if (antithetic && start % 2 === 1) {
+        throw new Error('Antithetic scenario blocks must start on an even scenario');
+    }
+    const sobolNormals = sampling === 'sobol'
+        ? sobolNormalColumns(
+            seed,
+            config.nSimulations,
+            config.varianceReduction?.sobolReplicates ?? DEFAULT_SOBOL_REPLICATES,
+            start,
+            end,
+            variables.length,
+            config.horizonPeriods
+        )
+        : undefined;
+
+    const regimeDrivers = regimeSwitchingDrivers(variables);
+    const periodShocks = input.stressScenario
+        ? stressPeriodShocks(input.stressScenario, variables, numPeriods)
+        : undefined;
+    const links = satelliteLinks(input.satellites, variables, dt);
+    const values = new Float64Array(nOutputs * numPeriods * count);
+    const correlationRegimes = regimes ? new Int32Array(count) : undefined;
+    const regimePaths = regimeDrivers.length > 0 ? new Int32Array(regimeDrivers.length * numPeriods * count) : undefined;
+
+    // Scenarios sharing a parameter draw and correlation regime are stepped together
+    const rngs = Array.from({ length: count }, (_, s) => createStreamRng(seed, start + s));
+    const batches = new Map<string, { outer: number; regimeIdx: number; members: number[] }>();
+    for (let s = 0; s < count; s++) {
+        const outer = outerScenarios ? outerScenarioOf(start + s, innerPaths, outerScenarios, antithetic) : 0;
+        const regimeIdx = !regimes ? 0
+            : antithetic && s % 2 === 1 ? correlationRegimes![s - 1]
+                : drawRegime(rngs[s], regimes);
+        if (correlationRegimes) correlationRegimes[s] = regimeIdx;
+
+        const key = `${outer}:${regimeIdx}`;
+        if (!batches.has(key)) batches.set(key, { outer, regimeIdx, members: [] });
+        batches.get(key)!.members.push(s);
+    }
+
+    for (const { outer, regimeIdx, members } of batches.values()) {
+        const processConfigs = processConfigsFor(outer);
+        let noiseModel = regimes ? regimes[regimeIdx].noiseModel : baseNoise;
+        let matrix = regimes ? regimes[regimeIdx].correlationMatrix : correlationMatrix;
+        const batchRngs = members.map(s => rngs[s]);
+
+        // Innovation draws: own generators, antithetic pairs or Sobol points (Gaussian dependence only)
+        const drawNoise = noiseModel
+            ? (r: MersenneTwister) => sampleNoiseVector(r, noiseModel!, processConfigs.length)
+            : undefined;
+        let sampleInnovations: ((rng: MersenneTwister, scenario: number) => number[]) | undefined = drawNoise;
+        let sampleNormals: ((step: number, z: Float64Array[]) => void) | undefined;
+        if (sobolNormals) {
+            if (noiseModel?.kind === 'gaussian') matrix = noiseModel.correlationMatrix;
+            noiseModel = undefined;
+            sampleInnovations = undefined;
+            sampleNormals = (step, z) => {
+                z.forEach((column, i) => {
+                    const offset = (i * config.horizonPeriods + step) * count;
+                    members.forEach((s, k) => { column[k] = sobolNormals[offset + s]; });
+                });
+            };
+        } else if (antithetic) {
+            if (drawNoise) {
+                sampleInnovations = antitheticInnovations(drawNoise);
+            } else {
+                sampleNormals = antitheticNormals(batchRngs);
+            }
+        }
+
+        // Generate correlated paths for all variables
+        const paths = simulateCorrelatedColumns(
+            batchRngs,
+            processConfigs,
+            matrix,
+            config.horizonPeriods,
+            dt,
+            sampleInnovations,
+            sampleNormals,
+            periodShocks,
+            links
+        );
+
+        // Scatter the batch's columns into the block
+        const scatter = (source: Float64Array | Int32Array, target: Float64Array | Int32Array, from: number, to: number) => {
+            for (let period = 0; period < numPeriods; period++) {
+                const sourceOffset = (from * numPeriods + period) * members.length;
+                const targetOffset = (to * numPeriods + period) * count;
+                for (let k = 0; k < members.length; k++) {
+                    target[targetOffset + members[k]] = source[sourceOffset + k];
+                }
+            }
+        };
+        for (let varIdx = 0; varIdx < variables.length; varIdx++) {
+            scatter(paths.values, values, varIdx, varIdx);
+        }
+        regimeDrivers.forEach((varIdx, t) => scatter(paths.regimes[varIdx]!, regimePaths!, 0, t));
+    }
+
+    // Derived variables (EBITDA, net debt, leverage...) are computed on each scenario
+    if (formulaSet.derived.length > 0) {
+        evaluateDerivedColumns(formulaSet, values, count, numPeriods);
+    }
+
+    return { start, count, values, correlationRegimes, regimePaths };
+}
+
+/**
+ * Outer parameter draws and inner paths per draw of a two-level run (0 / 0 otherwise)
+ */
+function parameterRiskLayout(
+    config: SimulationConfig,
+    variables: VariableConfig[]
+): { outerScenarios: number; innerPaths: number } {
+    const hasUncertainParameters = variables.some(v => (v.parameterUncertainty ?? []).length > 0);
+    const outerScenarios = config.parameterRisk && hasUncertainParameters
+        ? config.parameterRisk.outerScenarios
+        : 0;
+    if (outerScenarios && !(outerScenarios >= 2 && outerScenarios * 2 <= config.nSimulations)) {
+        throw new Error('parameterRisk.outerScenarios must be at least 2 and leave at least 2 inner paths per draw');
+    }
+    return { outerScenarios, innerPaths: outerScenarios ? Math.floor(config.nSimulations / outerScenarios) : 0 };
+}
+
+/**
+ * Outer parameter draw of a scenario; antithetic pairs share the draw of their first scenario
+ */
+function outerScenarioOf(sim: number, innerPaths: number, outerScenarios: number, antithetic: boolean): number {
+    const first = antithetic ? sim - (sim % 2) : sim;
+    return Math.min(Math.floor(first / innerPaths), outerScenarios - 1);
+}
+
+interface VarianceReductionPlan {
+    sampling: SamplingMethod;
+    sobolReplicates: number;                                // 0 unless Sobol
+    controls: { varIdx: number; means: number[] }[];        // Analytical mean per period
+}
+
+/**
+ * Validate the requested variance reduction against the run's dependence
+ * model. Antithetic pairs need symmetric (Gaussian or Student-t) noise;
+ * Sobol points drive Gaussian dependence only and carry their own error
+ * estimate, so they are not combined with control variates. Controls are
+ * the drivers with a known mean path (GBM, Ornstein-Uhlenbeck, static
+ * distributions) whose parameters are not redrawn and which neither a
+ * stress scenario nor a satellite's drift terms move off that closed form.
+ */
+function varianceReductionPlan(
+    input: SimulationInput,
+    config: SimulationConfig,
+    regimes: RegimeSampler[] | undefined,
+    hasParameterRisk: boolean
+): VarianceReductionPlan | undefined {
+    const requested = config.varianceReduction;
+    if (!requested) return undefined;
+    const sampling = requested.sampling ?? 'pseudo';
+
+    const baseCopula = input.copula ?? copulaFromMethod(config.correlationMethod);
+    const noiseKinds = (regimes
+        ? regimes.map(r => r.noiseModel)
+        : [baseCopula ? createDependenceModel(input.correlationMatrix, baseCopula) : undefined]
+    ).map(model => model?.kind ?? 'gaussian');
+
+    if (sampling === 'antithetic' && noiseKinds.some(kind => kind === 'copula' || kind === 'vine')) {
+        throw new Error('Antithetic sampling needs Gaussian or Student-t dependence; Archimedean copulas are not symmetric');
+    }
+
+    let sobolReplicates = 0;
+    if (sampling === 'sobol') {
+        if (noiseKinds.some(kind => kind !== 'gaussian' && kind !== 'independent')) {
+            throw new Error('Sobol sampling supports Gaussian dependence only');
+        }
+        if (requested.controlVariates) {
+            throw new Error('Control variates cannot be combined with Sobol sampling');
+        }
+        sobolReplicates = requested.sobolReplicates ?? DEFAULT_SOBOL_REPLICATES;
+        if (!(Number.isInteger(sobolReplicates) && sobolReplicates >= 2 && sobolReplicates * 2 <= config.nSimulations)) {
+            throw new Error('sobolReplicates must be an integer of at least 2 with at least 2 scenarios per replicate');
+        }
+    }
+
+    const dt = getTimeStepInYears(config.timeStep);
+    const controls: VarianceReductionPlan['controls'] = [];
+    if (requested.controlVariates) {
+        const shifted = new Set([
+            ...(input.stressScenario?.paths ?? []).map(p => p.variableCode),
+            ...(input.satellites ?? []).map(m => m.target)
+        ]);
+        input.variables.forEach((v, varIdx) => {
+            if (hasParameterRisk && (v.parameterUncertainty ?? []).length > 0) return;
+            if (shifted.has(v.code)) return;
+            const means = Array.from({ length: config.horizonPeriods + 1 }, (_, period) =>
+                analyticalMean(v.processConfig, period, period * dt));
+            if (means.every(m => m !== undefined)) controls.push({ varIdx, means: means as number[] });
+        });
+        if (controls.length === 0) {
+            throw new Error('Control variates need an unstressed GBM, Ornstein-Uhlenbeck or distribution driver with fixed parameters');
+        }
+    }
+
+    return { sampling, sobolReplicates, controls };
+}
+
+/**
+ * Expected value of a driver at a period, where the simulated dynamics have one in closed form
+ */
+function analyticalMean(processConfig: ProcessConfig, period: number, t: number): number | undefined {
+    switch (processConfig.type) {
+        case 'gbm': {
+            const p = processConfig.params as GBMConfig;
+            return p.initialValue * Math.exp(p.drift * t);
+        }
+        case 'ornstein_uhlenbeck': {
+            const p = processConfig.params as OUConfig;
+            return p.mu + (p.initialValue - p.mu) * Math.exp(-p.theta * t);
+        }
+        case 'distribution': {
+            const p = processConfig.params as StaticDistributionConfig;
+            return period === 0 ? staticDistributionInitialValue(p) : distributionMean(p.distribution);
+        }
+        default:
+            return undefined;
+    }
+}
+
+interface AdaptivePlan {
+    varIdx: number;             // Output variable index
+    period: number;
+    percentile: number;
+    targetStdError: number;
+    batchSize: number;
+}
+
+/**
+ * Resolve the tracked percentile of an adaptive run. Sobol point sets and
+ * two-level layouts depend on the final scenario count, so neither can
+ * grow in batches.
+ */
+function adaptivePlan(
+    config: SimulationConfig,
+    outputVariables: { id: string; code: string }[],
+    reduction: VarianceReductionPlan | undefined,
+    parameterRisk: boolean
+): AdaptivePlan | undefined {
+    const adaptive = config.adaptive;
+    if (!adaptive) return undefined;
+
+    if (reduction?.sampling === 'sobol') {
+        throw new Error('Adaptive runs cannot use Sobol sampling');
+    }
+    if (parameterRisk) {
+        throw new Error('Adaptive runs cannot be combined with parameter risk');
+    }
+    const varIdx = outputVariables.findIndex(v => v.code === adaptive.variableCode);
+    if (varIdx === -1) {
+        throw new Error(`Adaptive target variable "${adaptive.variableCode}" not found`);
+    }
+    const period = adaptive.periodIndex ?? config.horizonPeriods;
+    if (!(Number.isInteger(period) && period >= 0 && period <= config.horizonPeriods)) {
+        throw new Error('Adaptive periodIndex must be an integer within the horizon');
+    }
+    if (!(adaptive.percentile > 0 && adaptive.percentile < 100)) {
+        throw new Error('Adaptive percentile must be in (0, 100)');
+    }
+    if (!(adaptive.targetStdError > 0)) {
+        throw new Error('Adaptive targetStdError must be positive');
+    }
+
+    return {
+        varIdx,
+        period,
+        percentile: adaptive.percentile,
+        targetStdError: adaptive.targetStdError,
+        batchSize: adaptive.batchSize ?? DEFAULT_ADAPTIVE_BATCH_SIZE
+    };
+}
+
+/**
+ * Indices of the regime-switching drivers, whose regime paths are tracked
+ */
+function regimeSwitchingDrivers(variables: VariableConfig[]): number[] {
+    return variables
+        .map((v, varIdx) => (v.processConfig.type === 'regime_switching' ? varIdx : -1))
+        .filter(varIdx => varIdx !== -1);
+}
+
+/**
+ * Streaming aggregation when requested, or automatically for large runs
+ */
+function shouldStreamAggregates(config: SimulationConfig, nOutputVariables: number): boolean {
+    const mode = config.aggregation ?? 'auto';
+    if (mode !== 'auto') return mode === 'streaming';
+    return config.nSimulations * nOutputVariables * (config.horizonPeriods + 1) > STREAMING_AUTO_THRESHOLD;
+}
+
+interface RegimeSampler {
+    name: string;
+    cumulativeProbability: number;
+    correlationMatrix: number[][];
+    noiseModel?: NoiseModel;
+}
+
+/**
+ * Copula implied by the run's correlation method (undefined = Gaussian via Cholesky)
+ */
+export function copulaFromMethod(method: SimulationConfig['correlationMethod']): DependenceCopula | undefined {
+    switch (method) {
+        case 'copula_t': return { type: 'student_t' };
+        case 'copula_clayton': return { type: 'clayton' };
+        default: return undefined;
+    }
+}
+
+/**
+ * Normalize regime probabilities into a cumulative table with prebuilt noise models
+ */
+function buildRegimeSamplers(
+    input: SimulationInput,
+    baseCopula: DependenceCopula | undefined
+): RegimeSampler[] | undefined {
+    const regimes = (input.regimes ?? []).filter(r => r.probability > 0);
+    if (regimes.length === 0) return undefined;
+
+    const total = regimes.reduce((sum, r) => sum + r.probability, 0);
+    let cumulative = 0;
+
+    return regimes.map(regime => {
+        cumulative += regime.probability / total;
+        const copula = regime.copula ?? baseCopula;
+        return {
+            name: regime.name,
+            cumulativeProbability: cumulative,
+            correlationMatrix: regime.correlationMatrix,
+            noiseModel: copula ? createDependenceModel(regime.correlationMatrix, copula) : undefined
+        };
+    });
+}
+
+function drawRegime(rng: MersenneTwister, regimes: RegimeSampler[]): number {
+    const u = rng.random();
+    const index = regimes.findIndex(r => u < r.cumulativeProbability);
+    return index === -1 ? regimes.length - 1 : index;
 }
 
 /**
  * Evaluate covenant condition
  */
-function evaluateCovenant(
+export function evaluateCovenant(
     value: number,
     threshold: number,
     operator: '<' | '<=' | '>' | '>=' | '='
@@ -257,6 +1093,9 @@ export async function runSensitivityAnalysis(
     const outputP10s: number[] = [];
     const outputP90s: number[] = [];
 
+    // One seed for every step, so steps differ by the input change rather than by sampling noise
+    const seed = input.baseConfig.config.randomSeed ?? Date.now();
+
     for (const multiplier of steps) {
         // Clone config and modify the variable
         const modifiedConfig = JSON.parse(JSON.stringify(input.baseConfig)) as SimulationInput;
@@ -268,6 +1107,7 @@ export async function runSensitivityAnalysis(
 
         // Run simulation with reduced iterations for speed
         modifiedConfig.config.nSimulations = Math.min(1000, modifiedConfig.config.nSimulations);
+        modifiedConfig.config.randomSeed = seed;
 
         const result = await runSimulation(modifiedConfig);
 
@@ -303,15 +1143,455 @@ export async function runSensitivityAnalysis(
     };
 }
 
+/** Assumption parameters shocked by a tornado analysis */
+export type TornadoParameter = 'initial_value' | 'drift' | 'volatility' | 'long_term_mean';
+
+/** Relative shocks scale the base value by 1 ± size; absolute shocks add ± size */
+export interface TornadoShock {
+    type: 'relative' | 'absolute';
+    size: number;
+}
+
+export const DEFAULT_TORNADO_SHOCK: TornadoShock = { type: 'relative', size: 0.2 };
+
+export interface TornadoAnalysisInput {
+    baseConfig: SimulationInput;
+    outputVariable: string;      // Driver or derived variable code
+    periodIndex?: number;        // Default: horizon
+    percentile?: number;         // 0-100; the output mean when omitted
+    parameters?: TornadoParameter[];                            // Default: all four
+    shocks?: Partial<Record<TornadoParameter, TornadoShock>>;   // Default DEFAULT_TORNADO_SHOCK
+}
+
+export interface TornadoBar {
+    variableCode: string;
+    parameter: TornadoParameter;
+    path: string;               // Key in processConfig.params, e.g. 'sigma'
+    baseInput: number;
+    lowInput: number;
+    highInput: number;
+    outputLow: number;
+    outputHigh: number;
+    impactLow: number;          // outputLow − base output
+    impactHigh: number;
+    swing: number;              // |outputHigh − outputLow|
+}
+
+export interface TornadoAnalysisResult {
+    outputVariableCode: string;
+    periodIndex: number;
+    percentile?: number;
+    baseOutput: number;
+    randomSeed: number;
+    nSimulations: number;
+    bars: TornadoBar[];         // Largest swing first
+}
+
+/** Where each tornado parameter lives in the params of a process type */
+const TORNADO_PARAMETER_PATHS: Partial<Record<ProcessType, Partial<Record<TornadoParameter, string>>>> = {
+    gbm: { initial_value: 'initialValue', drift: 'drift', volatility: 'volatility' },
+    ornstein_uhlenbeck: { initial_value: 'initialValue', volatility: 'sigma', long_term_mean: 'mu' },
+    jump_diffusion: { initial_value: 'initialValue', drift: 'drift', volatility: 'volatility' },
+    heston: { initial_value: 'initialPrice', drift: 'drift', volatility: 'xi', long_term_mean: 'theta' },
+    regime_switching: { initial_value: 'initialValue' },
+    vasicek: { initial_value: 'initialValue', volatility: 'sigma', long_term_mean: 'mu' },
+    cir: { initial_value: 'initialValue', volatility: 'sigma', long_term_mean: 'mu' },
+    hull_white: { volatility: 'sigma' },
+    garch: { initial_value: 'initialValue', drift: 'mu' },
+    deterministic: { initial_value: 'value' }
+};
+
+const ALL_TORNADO_PARAMETERS: TornadoParameter[] = ['initial_value', 'drift', 'volatility', 'long_term_mean'];
+
+/**
+ * One-at-a-time tornado: every assumption parameter is shocked low and high
+ * and the chosen statistic of one output is re-estimated. All runs share
+ * the base run's seed, so scenario i sees the same random draws in every
+ * run (common random numbers) and the bars measure the shock, not sampling
+ * noise. Runs cost (2 × bars + 1) × nSimulations scenarios; parameters
+ * with uncertainty are redrawn around the shocked value under parameterRisk.
+ */
+export function runTornadoAnalysis(input: TornadoAnalysisInput): TornadoAnalysisResult {
+    const { baseConfig } = input;
+    const { config, variables } = baseConfig;
+
+    if (!isPositiveDefinite(baseConfig.correlationMatrix)) {
+        throw new Error('Correlation matrix is not positive-definite');
+    }
+    const formulaSet = compileFormulaSet(
+        variables.map(v => v.code),
+        baseConfig.derivedVariables ?? []
+    );
+    const outputCodes = [...variables.map(v => v.code), ...formulaSet.derived.map(d => d.config.code)];
+    const outputIdx = outputCodes.indexOf(input.outputVariable);
+    if (outputIdx === -1) {
+        throw new Error(`Output variable "${input.outputVariable}" not found`);
+    }
+    const periodIndex = input.periodIndex ?? config.horizonPeriods;
+    if (!(Number.isInteger(periodIndex) && periodIndex >= 0 && periodIndex <= config.horizonPeriods)) {
+        throw new Error(`Period index must be an integer from 0 to ${config.horizonPeriods}`);
+    }
+    if (input.percentile !== undefined && !(input.percentile >= 0 && input.percentile <= 100)) {
+        throw new Error('Percentile must be between 0 and 100');
+    }
+
+    const randomSeed = config.randomSeed ?? Date.now();
+    const nSimulations = config.nSimulations;
+    const numPeriods = config.horizonPeriods + 1;
+
+    const statistic = (processConfigs: ProcessConfig[]): number => {
+        const shockedInput: SimulationInput = {
+            ...baseConfig,
+            config: { ...config, randomSeed },
+            variables: variables.map((v, i) => ({ ...v, processConfig: processConfigs[i] }))
+        };
+        const outputs = new Float64Array(nSimulations);
+        for (let start = 0; start < nSimulations; start += IN_THREAD_BLOCK_SIZE) {
+            const end = Math.min(nSimulations, start + IN_THREAD_BLOCK_SIZE);
+            const block = simulateScenarioBlock(shockedInput, start, end);
+            const offset = (outputIdx * numPeriods + periodIndex) * block.count;
+            outputs.set(block.values.subarray(offset, offset + block.count), start);
+        }
+        if (input.percentile === undefined) {
+            return outputs.reduce((sum, value) => sum + value, 0) / nSimulations;
+        }
+        return percentile(Array.from(outputs).sort((a, b) => a - b), input.percentile);
+    };
+
+    const baseConfigs = variables.map(v => v.processConfig);
+    const baseOutput = statistic(baseConfigs);
+    const parameters = input.parameters ?? ALL_TORNADO_PARAMETERS;
+
+    const bars: TornadoBar[] = [];
+    variables.forEach((v, varIdx) => {
+        const paths = TORNADO_PARAMETER_PATHS[v.processConfig.type] ?? {};
+        for (const parameter of parameters) {
+            const path = paths[parameter];
+            if (path === undefined) continue;
+            const baseInput = (v.processConfig.params as unknown as Record<string, unknown>)[path];
+            if (typeof baseInput !== 'number') continue;
+
+            const shock = input.shocks?.[parameter] ?? DEFAULT_TORNADO_SHOCK;
+            const [lowInput, highInput] = shock.type === 'relative'
+                ? [baseInput * (1 - shock.size), baseInput * (1 + shock.size)]
+                : [baseInput - shock.size, baseInput + shock.size];
+            const outputAt = (value: number) => statistic(baseConfigs.map((processConfig, i) => i !== varIdx
+                ? processConfig
+                : { ...processConfig, params: { ...processConfig.params, [path]: value } as ProcessConfig['params'] }
+            ));
+
+            const outputLow = outputAt(lowInput);
+            const outputHigh = outputAt(highInput);
+            bars.push({
+                variableCode: v.code,
+                parameter,
+                path,
+                baseInput,
+                lowInput,
+                highInput,
+                outputLow,
+                outputHigh,
+                impactLow: outputLow - baseOutput,
+                impactHigh: outputHigh - baseOutput,
+                swing: Math.abs(outputHigh - outputLow)
+            });
+        }
+    });
+
+    return {
+        outputVariableCode: input.outputVariable,
+        periodIndex,
+        percentile: input.percentile,
+        baseOutput,
+        randomSeed,
+        nSimulations,
+        bars: bars.sort((a, b) => (b.swing || 0) - (a.swing || 0))
+    };
+}
+
+// =============================================
+// Global Sensitivity Analysis
+// =============================================
+
+export interface GlobalSensitivityInput {
+    baseConfig: SimulationInput;
+    outputVariable: string;      // Driver or derived variable code
+    periodIndex?: number;        // Default: horizon
+    nSamples?: number;           // Base samples N (default DEFAULT_SENSITIVITY_SAMPLES); N (k + 2) scenarios are simulated
+    bootstrapResamples?: number; // Default DEFAULT_SOBOL_BOOTSTRAP
+}
+
+/**
+ * Input factor of a global sensitivity run
+ * - innovations: a driver's independent step normals, before correlation
+ * - process_draws: randomness inside the processes (regime switches, CIR draws)
+ * - parameter: one entry of a driver's parameterUncertainty
+ */
+export interface GlobalSensitivityFactor {
+    name: string;                // e.g. 'REV:innovations', 'REV:drift', 'process_draws'
+    kind: 'innovations' | 'process_draws' | 'parameter';
+    variableCode?: string;
+    parameter?: string;
+}
+
+export interface GlobalSensitivityResult extends SobolAnalysis {
+    outputVariableCode: string;
+    periodIndex: number;
+    factors: GlobalSensitivityFactor[];
+}
+
+/** Process types that draw from the scenario generator besides their innovations */
+const PROCESS_DRAW_TYPES: ProcessType[] = ['regime_switching', 'cir'];
+
+interface SensitivityPlan {
+    factors: GlobalSensitivityFactor[];
+    innovations: number[];      // Factor of each driver's innovations, -1 for deterministic drivers
+    processDraws: number;       // -1 when no process draws from the scenario generator
+    parameters: { varIdx: number; uncertainty: ParameterUncertainty; factor: number }[];
+}
+
+/**
+ * First-order and total Sobol indices of one output at one period for every
+ * stochastic assumption and uncertain parameter, by Saltelli sampling.
+ * Each factor draws from its own stream of the A or B design, so the
+ * innovations of a driver are the independent normals behind its Cholesky-
+ * correlated shocks; copulas and correlation regimes are not supported.
+ * Parameters with uncertainty are factors whether or not parameterRisk is
+ * set; variance reduction settings are ignored. A stress scenario and
+ * satellites act on every sample, as in runSimulation.
+ */
+export function runGlobalSensitivityAnalysis(input: GlobalSensitivityInput): GlobalSensitivityResult {
+    const { baseConfig } = input;
+    const { variables, correlationMatrix } = baseConfig;
+
+    if (baseConfig.copula || baseConfig.regimes?.length || copulaFromMethod(baseConfig.config.correlationMethod)) {
+        throw new Error('Global sensitivity analysis needs Gaussian dependence (no copula or correlation regimes)');
+    }
+    if (!isPositiveDefinite(correlationMatrix)) {
+        throw new Error('Correlation matrix is not positive-definite');
+    }
+    if (baseConfig.stressScenario) {
+        const stressErrors = validateStressScenario(baseConfig.stressScenario);
+        if (stressErrors.length > 0) {
+            throw new Error(`Invalid stress scenario "${baseConfig.stressScenario.name}": ${stressErrors.join('; ')}`);
+        }
+    }
+    const satelliteErrors = validateSatelliteModels(baseConfig.satellites ?? [], variables.map(v => v.code));
+    if (satelliteErrors.length > 0) {
+        throw new Error(`Invalid satellite models: ${satelliteErrors.join('; ')}`);
+    }
+
+    const formulaSet = compileFormulaSet(
+        variables.map(v => v.code),
+        baseConfig.derivedVariables ?? []
+    );
+    const outputCodes = [...variables.map(v => v.code), ...formulaSet.derived.map(d => d.config.code)];
+    const outputIdx = outputCodes.indexOf(input.outputVariable);
+    if (outputIdx === -1) {
+        throw new Error(`Output variable "${input.outputVariable}" not found`);
+    }
+    const periodIndex = input.periodIndex ?? baseConfig.config.horizonPeriods;
+    if (!(Number.isInteger(periodIndex) && periodIndex >= 0 && periodIndex <= baseConfig.config.horizonPeriods)) {
+        throw new Error(`Period index must be an integer from 0 to ${baseConfig.config.horizonPeriods}`);
+    }
+    const nSamples = input.nSamples ?? DEFAULT_SENSITIVITY_SAMPLES;
+    if (!(Number.isInteger(nSamples) && nSamples >= 2)) {
+        throw new Error('Global sensitivity analysis needs at least 2 base samples');
+    }
+
+    const plan = sensitivityPlan(variables);
+    if (plan.factors.length === 0) {
+        throw new Error('No stochastic drivers or uncertain parameters to analyse');
+    }
+
+    const seed = baseConfig.config.randomSeed ?? Date.now();
+    const seededInput: SimulationInput = { ...baseConfig, config: { ...baseConfig.config, randomSeed: seed } };
+    const k = plan.factors.length;
+    const outputs = (domains: number[]) =>
+        simulateSensitivityOutputs(seededInput, plan, domains, outputIdx, periodIndex, nSamples);
+
+    const fA = outputs(Array(k).fill(SENSITIVITY_A_STREAM));
+    const fB = outputs(Array(k).fill(SENSITIVITY_B_STREAM));
+    const fAB = plan.factors.map((_, i) =>
+        outputs(plan.factors.map((__, j) => j === i ? SENSITIVITY_B_STREAM : SENSITIVITY_A_STREAM))
+    );
+
+    return {
+        ...sobolIndicesFromSaltelli(
+            plan.factors.map(f => f.name),
+            fA,
+            fB,
+            fAB,
+            seed,
+            input.bootstrapResamples ?? DEFAULT_SOBOL_BOOTSTRAP
+        ),
+        outputVariableCode: input.outputVariable,
+        periodIndex,
+        factors: plan.factors
+    };
+}
+
+/**
+ * Sensitivity factors of a model: innovations of each stochastic driver,
+ * in-process draws when any process makes them, and each uncertain parameter
+ */
+function sensitivityPlan(variables: VariableConfig[]): SensitivityPlan {
+    const factors: GlobalSensitivityFactor[] = [];
+    const innovations = variables.map(v => {
+        if (v.processConfig.type === 'deterministic') return -1;
+        factors.push({ name: `${v.code}:innovations`, kind: 'innovations', variableCode: v.code });
+        return factors.length - 1;
+    });
+
+    let processDraws = -1;
+    if (variables.some(v => PROCESS_DRAW_TYPES.includes(v.processConfig.type))) {
+        factors.push({ name: 'process_draws', kind: 'process_draws' });
+        processDraws = factors.length - 1;
+    }
+
+    const parameters: SensitivityPlan['parameters'] = [];
+    variables.forEach((v, varIdx) => {
+        for (const uncertainty of v.parameterUncertainty ?? []) {
+            factors.push({
+                name: `${v.code}:${uncertainty.parameter}`,
+                kind: 'parameter',
+                variableCode: v.code,
+                parameter: uncertainty.parameter
+            });
+            parameters.push({ varIdx, uncertainty, factor: factors.length - 1 });
+        }
+    });
+
+    return { factors, innovations, processDraws, parameters };
+}
+
+/**
+ * Output value of each base sample when factor f draws from stream domain
+ * domains[f]. Sample s owns the streams s · m … s · m + m − 1 of a domain
+ * (m = drivers + parameters + 1): one per driver's innovations, one for
+ * process draws, one per uncertain parameter. A factor's draws are thus
+ * the same in every design that takes it from the same matrix.
+ */
+function simulateSensitivityOutputs(
+    input: SimulationInput,
+    plan: SensitivityPlan,
+    domains: number[],
+    outputIdx: number,
+    periodIndex: number,
+    nSamples: number
+): Float64Array {
+    const { config, variables, correlationMatrix } = input;
+    const seed = config.randomSeed!;
+    const formulaSet = compileFormulaSet(
+        variables.map(v => v.code),
+        input.derivedVariables ?? []
+    );
+    const nOutputs = variables.length + formulaSet.derived.length;
+    const nDrivers = variables.length;
+    const nSteps = config.horizonPeriods;
+    const numPeriods = nSteps + 1;
+    const dt = getTimeStepInYears(config.timeStep);
+    const periodShocks = input.stressScenario
+        ? stressPeriodShocks(input.stressScenario, variables, numPeriods)
+        : undefined;
+    const links = satelliteLinks(input.satellites, variables, dt);
+    const domainOf = (factor: number) => factor === -1 ? SENSITIVITY_A_STREAM : domains[factor];
+    const streamsPerSample = nDrivers + 1 + plan.parameters.length;
+    const outputs = new Float64Array(nSamples);
+
+    // Simulate count samples with shared process configs; normals are [driver][step][sample]
+    const simulate = (
+        rngs: MersenneTwister[],
+        processConfigs: ProcessConfig[],
+        normals: Float64Array,
+        offset: number,
+        stride: number
+    ): Float64Array => {
+        const count = rngs.length;
+        const paths = simulateCorrelatedColumns(
+            rngs,
+            processConfigs,
+            correlationMatrix,
+            nSteps,
+            dt,
+            undefined,
+            (step, z) => z.forEach((column, i) => {
+                for (let k = 0; k < count; k++) column[k] = normals[(i * nSteps + step) * stride + offset + k];
+            }),
+            periodShocks,
+            links
+        );
+        const values = new Float64Array(nOutputs * numPeriods * count);
+        values.set(paths.values);
+        if (formulaSet.derived.length > 0) {
+            evaluateDerivedColumns(formulaSet, values, count, numPeriods);
+        }
+        return values;
+    };
+
+    for (let start = 0; start < nSamples; start += IN_THREAD_BLOCK_SIZE) {
+        const count = Math.min(IN_THREAD_BLOCK_SIZE, nSamples - start);
+        const normals = new Float64Array(nDrivers * nSteps * count);
+        for (let k = 0; k < count; k++) {
+            const sample = start + k;
+            for (let i = 0; i < nDrivers; i++) {
+                const rng = createStreamRng(seed, sample * streamsPerSample + i, domainOf(plan.innovations[i]));
+                for (let step = 0; step < nSteps; step++) {
+                    normals[(i * nSteps + step) * count + k] = sampleStandardNormal(rng);
+                }
+            }
+        }
+        const rngs = Array.from({ length: count }, (_, k) =>
+            createStreamRng(seed, (start + k) * streamsPerSample + nDrivers, domainOf(plan.processDraws))
+        );
+
+        if (plan.parameters.length === 0) {
+            const values = simulate(rngs, variables.map(v => v.processConfig), normals, 0, count);
+            const offset = (outputIdx * numPeriods + periodIndex) * count;
+            outputs.set(values.subarray(offset, offset + count), start);
+            continue;
+        }
+
+        // Uncertain parameters differ per sample, so each sample is simulated alone
+        for (let k = 0; k < count; k++) {
+            const sample = start + k;
+            const processConfigs = variables.map(v => v.processConfig);
+            plan.parameters.forEach(({ varIdx, uncertainty, factor }, p) => {
+                const rng = createStreamRng(seed, sample * streamsPerSample + nDrivers + 1 + p, domainOf(factor));
+                processConfigs[varIdx] = sampleProcessParameters(rng, processConfigs[varIdx], [uncertainty]);
+            });
+            const values = simulate([rngs[k]], processConfigs, normals, k, count);
+            outputs[sample] = values[outputIdx * numPeriods + periodIndex];
+        }
+    }
+
+    return outputs;
+}
+
 // =============================================
 // Stress Test
 // =============================================
 
+/**
+ * Time profile of a stress shock on one driver. The profile is the shock
+ * level in each period; inside the simulation loop each period's change in
+ * level hits the simulated value after its step, so later steps evolve
+ * from the stressed value (a GBM keeps a multiplicative shock exactly, a
+ * mean-reverting process pulls a held shock back at its own speed).
+ */
+export interface StressShockPath {
+    variableCode: string;
+    type: 'additive' | 'multiplicative';  // Added to the value, or the value is scaled by 1 + shock
+    shocks: number[];                     // Shock levels from startPeriod on, e.g. [-0.03, -0.05, -0.02, 0]
+    startPeriod?: number;                 // Default 1, the first simulated period; 0 shocks the initial value
+    periodsPerShock?: number;             // Periods each listed level holds (default 1; 3 for a quarterly profile on monthly steps)
+    decay?: number;                       // Share of the shock lost each period after the profile ends (default 0: held)
+}
+
 export interface StressScenario {
     name: string;
     description: string;
-    shocks: Record<string, number>;  // variableCode -> shock value (additive or multiplicative)
-    shockType: 'additive' | 'multiplicative';
+    paths: StressShockPath[];
 }
 
 export interface StressTestResult {
@@ -320,44 +1600,96 @@ export interface StressTestResult {
 }
 
 /**
- * Run stress test with predefined scenarios
+ * Problems with a stress scenario, empty when it is valid
  */
-export async function runStressTest(
-    baseConfig: SimulationInput,
-    scenario: StressScenario
-): Promise<StressTestResult> {
-    const stressedConfig = JSON.parse(JSON.stringify(baseConfig)) as SimulationInput;
-
-    // Apply shocks
-    for (const [varCode, shock] of Object.entries(scenario.shocks)) {
-        const variable = stressedConfig.variables.find(v => v.code === varCode);
-        if (!variable) continue;
+export function validateStressScenario(scenario: StressScenario): string[] {
+    const errors: string[] = [];
+    if (!scenario.name) errors.push('Scenario name is required');
+    if (!Array.isArray(scenario.paths) || scenario.paths.length === 0) {
+        errors.push('Scenario needs at least one shock path');
+        return errors;
+    }
 
-        if ('initialValue' in variable.processConfig.params) {
-            const params = variable.processConfig.params as { initialValue: number };
-            if (scenario.shockType === 'multiplicative') {
-                params.initialValue *= shock;
-            } else {
-                params.initialValue += shock;
-            }
+    const seen = new Set<string>();
+    scenario.paths.forEach((path, i) => {
+        const label = path.variableCode || `path ${i + 1}`;
+        if (!path.variableCode) errors.push(`Shock path ${i + 1} needs a variable code`);
+        if (seen.has(path.variableCode)) errors.push(`${label}: more than one shock path`);
+        seen.add(path.variableCode);
+        if (path.type !== 'additive' && path.type !== 'multiplicative') {
+            errors.push(`${label}: type must be additive or multiplicative`);
         }
-
-        if ('mu' in variable.processConfig.params) {
-            const params = variable.processConfig.params as { mu: number };
-            if (scenario.shockType === 'multiplicative') {
-                params.mu *= shock;
-            } else {
-                params.mu += shock;
-            }
+        if (!Array.isArray(path.shocks) || path.shocks.length === 0 || path.shocks.some(x => !Number.isFinite(x))) {
+            errors.push(`${label}: shocks must be a non-empty list of numbers`);
+        } else if (path.type === 'multiplicative' && path.shocks.some(x => x <= -1)) {
+            errors.push(`${label}: multiplicative shocks must be above -1`);
+        }
+        if (path.startPeriod !== undefined && !(Number.isInteger(path.startPeriod) && path.startPeriod >= 0)) {
+            errors.push(`${label}: startPeriod must be a non-negative integer`);
+        }
+        if (path.periodsPerShock !== undefined && !(Number.isInteger(path.periodsPerShock) && path.periodsPerShock >= 1)) {
+            errors.push(`${label}: periodsPerShock must be a positive integer`);
+        }
+        if (path.decay !== undefined && !(path.decay >= 0 && path.decay <= 1)) {
+            errors.push(`${label}: decay must be between 0 and 1`);
         }
+    });
+
+    return errors;
+}
+
+/**
+ * Shock level of a path in each of numPeriods periods
+ */
+export function stressShockProfile(path: StressShockPath, numPeriods: number): Float64Array {
+    const profile = new Float64Array(numPeriods);
+    const start = path.startPeriod ?? 1;
+    const hold = path.periodsPerShock ?? 1;
+    const keep = 1 - (path.decay ?? 0);
+    let level = 0;
+    for (let period = start; period < numPeriods; period++) {
+        const k = Math.floor((period - start) / hold);
+        level = k < path.shocks.length ? path.shocks[k] : level * keep;
+        profile[period] = level;
     }
+    return profile;
+}
 
-    // Run simulation
-    const result = await runSimulation(stressedConfig);
+/**
+ * Per-period shocks of each driver: the change in the path's shock level,
+ * as an increment (additive) or a ratio of 1 + level (multiplicative), and
+ * the level itself. Paths on codes that are not drivers of the model are ignored.
+ */
+function stressPeriodShocks(
+    scenario: StressScenario,
+    variables: VariableConfig[],
+    numPeriods: number
+): (PeriodShock | null)[] {
+    return variables.map(v => {
+        const path = scenario.paths.find(p => p.variableCode === v.code);
+        if (!path) return null;
+        const profile = stressShockProfile(path, numPeriods);
+        const shocks = profile.map((level, period) => {
+            const previous = period === 0 ? 0 : profile[period - 1];
+            return path.type === 'additive' ? level - previous : (1 + level) / (1 + previous) - 1;
+        });
+        return { type: path.type, shocks, levels: profile };
+    });
+}
+
+/**
+ * Run the model under a stress scenario and report every output at the final period
+ */
+export async function runStressTest(
+    baseConfig: SimulationInput,
+    scenario: StressScenario,
+    options: RunOptions = {}
+): Promise<StressTestResult> {
+    const result = await runSimulation({ ...baseConfig, stressScenario: scenario }, options);
 
     // Collect final period results
     const resultsMap = new Map<string, SimulationStats>();
-    const finalPeriod = stressedConfig.config.horizonPeriods;
+    const finalPeriod = baseConfig.config.horizonPeriods;
 
     for (const r of result.results) {
         if (r.periodIndex === finalPeriod) {
@@ -371,37 +1703,135 @@ export async function runStressTest(
     };
 }
 
+// =============================================
+// Macro Satellite Embedding
+// =============================================
+
+/**
+ * Problems with embedding satellites in a model with the given drivers,
+ * empty when valid. Targets and factors must be drivers, and no target may
+ * be a factor of another satellite, so one pass per step applies them all.
+ */
+export function validateSatelliteModels(models: SatelliteModel[], driverCodes: string[]): string[] {
+    const errors: string[] = [];
+    const targets = new Set<string>();
+    for (const model of models) {
+        if (!driverCodes.includes(model.target)) errors.push(`Satellite target ${model.target} is not a driver`);
+        if (targets.has(model.target)) errors.push(`More than one satellite for ${model.target}`);
+        targets.add(model.target);
+        for (const term of model.terms) {
+            if (!driverCodes.includes(term.factor)) errors.push(`Satellite factor ${term.factor} is not a driver`);
+        }
+    }
+    for (const model of models) {
+        for (const term of model.terms) {
+            if (targets.has(term.factor)) errors.push(`${term.factor} is both a satellite target and a factor`);
+        }
+    }
+    return [...new Set(errors)];
+}
+
+/**
+ * Drift links of the satellites between drivers, with each lag converted
+ * from the model's data periods to simulation steps of dt years
+ */
+export function satelliteLinks(
+    models: SatelliteModel[] | undefined,
+    variables: VariableConfig[],
+    dt: number
+): SatelliteLink[] | undefined {
+    if (!models?.length) return undefined;
+    const indexOf = (code: string) => variables.findIndex(v => v.code === code);
+    return models.map(model => ({
+        target: indexOf(model.target),
+        terms: model.terms.map(term => ({
+            factor: indexOf(term.factor),
+            lag: Math.round(term.lag * model.periodMonths / (dt * 12)),
+            coefficient: term.coefficient
+        }))
+    }));
+}
+
 // =============================================
 // Predefined Stress Scenarios
+// Company drivers and macro factors; profiles are quarterly on monthly steps
 // =============================================
 
 export const PREDEFINED_STRESS_SCENARIOS: StressScenario[] = [
     {
         name: 'Recession',
         description: 'Economic recession with revenue decline and margin compression',
-        shocks: {
-            'REVENUE_GROWTH': -0.15,
-            'GROSS_MARGIN': -0.05,
-            'INTEREST_RATE': 0.02
-        },
-        shockType: 'additive'
+        paths: [
+            { variableCode: 'REVENUE_GROWTH', type: 'additive', shocks: [-0.05, -0.10, -0.15, -0.10, -0.05], periodsPerShock: 3, decay: 0.2 },
+            { variableCode: 'GROSS_MARGIN', type: 'additive', shocks: [-0.02, -0.04, -0.05, -0.03], periodsPerShock: 3, decay: 0.2 },
+            { variableCode: 'INTEREST_RATE', type: 'additive', shocks: [0.01, 0.02], periodsPerShock: 3, decay: 0.1 },
+            { variableCode: 'GDP_GROWTH', type: 'additive', shocks: [-0.02, -0.03, -0.02, -0.01, 0], periodsPerShock: 3 }
+        ]
     },
     {
         name: 'Interest Rate Shock',
         description: 'Sharp increase in interest rates',
-        shocks: {
-            'INTEREST_RATE': 0.03,
-            'REVENUE_GROWTH': -0.03
-        },
-        shockType: 'additive'
+        paths: [
+            { variableCode: 'INTEREST_RATE', type: 'additive', shocks: [0.03], decay: 0.05 },
+            { variableCode: 'BOND_YIELD', type: 'additive', shocks: [0.04], decay: 0.05 },
+            { variableCode: 'CREDIT_SPREAD', type: 'multiplicative', shocks: [0.5], decay: 0.1 },
+            { variableCode: 'EQUITY_INDEX', type: 'multiplicative', shocks: [-0.15], decay: 0.1 },
+            { variableCode: 'REAL_ESTATE', type: 'multiplicative', shocks: [-0.10, -0.20], periodsPerShock: 3, decay: 0.05 },
+            { variableCode: 'REVENUE_GROWTH', type: 'additive', shocks: [-0.01, -0.02, -0.03], periodsPerShock: 3, decay: 0.1 }
+        ]
     },
     {
         name: 'Customer Loss',
         description: 'Loss of major customer (20% revenue impact)',
-        shocks: {
-            'REVENUE_GROWTH': 0.8,
-            'GROSS_MARGIN': 0.95
-        },
-        shockType: 'multiplicative'
+        paths: [
+            { variableCode: 'REVENUE_GROWTH', type: 'multiplicative', shocks: [-0.20] },
+            { variableCode: 'GROSS_MARGIN', type: 'multiplicative', shocks: [-0.05] }
+        ]
+    },
+    {
+        name: 'GFC 2008',
+        description: 'Global Financial Crisis - extreme market stress',
+        paths: [
+            { variableCode: 'EQUITY_INDEX', type: 'multiplicative', shocks: [-0.15, -0.30, -0.40, -0.30], periodsPerShock: 3, decay: 0.1 },
+            { variableCode: 'VOLATILITY', type: 'multiplicative', shocks: [1.0, 2.0, 2.0, 1.0], periodsPerShock: 3, decay: 0.3 },
+            { variableCode: 'CREDIT_SPREAD', type: 'multiplicative', shocks: [0.5, 1.5, 1.5, 1.0], periodsPerShock: 3, decay: 0.2 },
+            { variableCode: 'GDP_GROWTH', type: 'additive', shocks: [-0.03, -0.06, -0.08, -0.05, -0.02, 0], periodsPerShock: 3 },
+            { variableCode: 'UNEMPLOYMENT', type: 'multiplicative', shocks: [0.2, 0.4, 0.5, 0.5, 0.4], periodsPerShock: 3, decay: 0.1 },
+            { variableCode: 'INTEREST_RATE', type: 'additive', shocks: [-0.01, -0.02], periodsPerShock: 3 }
+        ]
+    },
+    {
+        name: 'COVID-19 2020',
+        description: 'Pandemic shock - sudden economic stop',
+        paths: [
+            { variableCode: 'EQUITY_INDEX', type: 'multiplicative', shocks: [-0.35, -0.10], periodsPerShock: 3, decay: 0.3 },
+            { variableCode: 'VOLATILITY', type: 'multiplicative', shocks: [3.0, 1.0], periodsPerShock: 3, decay: 0.5 },
+            { variableCode: 'GDP_GROWTH', type: 'additive', shocks: [-0.15, -0.05, 0], periodsPerShock: 3 },
+            { variableCode: 'UNEMPLOYMENT', type: 'multiplicative', shocks: [1.0, 0.6, 0.3], periodsPerShock: 3, decay: 0.2 },
+            { variableCode: 'OIL_PRICE', type: 'multiplicative', shocks: [-0.60, -0.30], periodsPerShock: 3, decay: 0.2 },
+            { variableCode: 'CONSUMER_SPENDING', type: 'multiplicative', shocks: [-0.30, -0.10], periodsPerShock: 3, decay: 0.3 }
+        ]
+    },
+    {
+        name: 'Stagflation',
+        description: 'High inflation + low growth',
+        paths: [
+            { variableCode: 'INFLATION', type: 'additive', shocks: [0.03, 0.06, 0.08], periodsPerShock: 3, decay: 0.05 },
+            { variableCode: 'GDP_GROWTH', type: 'additive', shocks: [-0.01, -0.03], periodsPerShock: 3, decay: 0.05 },
+            { variableCode: 'INTEREST_RATE', type: 'additive', shocks: [0.02, 0.04], periodsPerShock: 3, decay: 0.05 },
+            { variableCode: 'EQUITY_INDEX', type: 'multiplicative', shocks: [-0.10, -0.20], periodsPerShock: 3, decay: 0.05 },
+            { variableCode: 'BOND_YIELD', type: 'additive', shocks: [0.02, 0.03], periodsPerShock: 3, decay: 0.05 }
+        ]
+    },
+    {
+        name: 'Currency Crisis',
+        description: 'PLN depreciation shock',
+        paths: [
+            { variableCode: 'USD_PLN', type: 'multiplicative', shocks: [0.30], decay: 0.05 },
+            { variableCode: 'EUR_PLN', type: 'multiplicative', shocks: [0.25], decay: 0.05 },
+            { variableCode: 'INFLATION', type: 'additive', shocks: [0.02, 0.04, 0.05], periodsPerShock: 3, decay: 0.05 },
+            { variableCode: 'INTEREST_RATE', type: 'additive', shocks: [0.03], decay: 0.05 },
+            { variableCode: 'IMPORT_COSTS', type: 'multiplicative', shocks: [0.10, 0.25], periodsPerShock: 3, decay: 0.05 }
+        ]
     }
 ];
@@ -0,0 +1,417 @@
+// =============================================
+// StochFin Monte Carlo Engine: Special Functions
+// Gamma/Beta functions, Normal and Student-t CDFs and quantiles
+// =============================================
+
+// =============================================
+// Gamma and Beta Functions
+// =============================================
+
+const LANCZOS_COEFFICIENTS = [
+    676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012,
+    9.9843695780195716e-6, 1.5056327351493116e-7
+];
+
+/**
+ * Natural logarithm of the Gamma function (Lanczos approximation, g = 7)
+ * Accurate to ~15 significant digits for x > 0
+ */
+export function logGamma(x: number): number {
+    if (x < 0.5) {
+        // Reflection formula: Γ(x)Γ(1-x) = π / sin(πx)
+        return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+    }
+
+    x -= 1;
+    let a = 0.99999999999980993;
+    const t = x + 7.5;
+    for (let i = 0; i < LANCZOS_COEFFICIENTS.length; i++) {
+        a += LANCZOS_COEFFICIENTS[i] / (x + i + 1);
+    }
+
+    return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a);
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b)
+ * Continued fraction expansion (modified Lentz), Numerical Recipes §6.4
+ */
+export function regularizedIncompleteBeta(x: number, a: number, b: number): number {
+    if (x <= 0) return 0;
+    if (x >= 1) return 1;
+
+    const logFront = logGamma(a + b) - logGamma(a) - logGamma(b)
+        + a * Math.log(x) + b * Math.log(1 - x);
+
+    // Use the symmetry relation where the continued fraction converges faster
+    if (x > (a + 1) / (a + b + 2)) {
+        return 1 - Math.exp(logFront) * betaContinuedFraction(1 - x, b, a) / b;
+    }
+    return Math.exp(logFront) * betaContinuedFraction(x, a, b) / a;
+}
+
+/** Continued fraction for the incomplete beta function */
+function betaContinuedFraction(x: number, a: number, b: number): number {
+    const maxIterations = 300;
+    const epsilon = 1e-15;
+    const tiny = 1e-300;
+
+    const qab = a + b;
+    const qap = a + 1;
+    const qam = a - 1;
+    let c = 1;
+    let d = 1 - qab * x / qap;
+    if (Math.abs(d) < tiny) d = tiny;
+    d = 1 / d;
+    let h = d;
+
+    for (let m = 1; m <= maxIterations; m++) {
+        const m2 = 2 * m;
+
+        // Even step
+        let aa = m * (b - m) * x / ((qam + m2) * (a + m2));
+        d = 1 + aa * d;
+        if (Math.abs(d) < tiny) d = tiny;
+        c = 1 + aa / c;
+        if (Math.abs(c) < tiny) c = tiny;
+        d = 1 / d;
+        h *= d * c;
+
+        // Odd step
+        aa = -(a + m) * (qab + m) * x / ((a + m2) * (qap + m2));
+        d = 1 + aa * d;
+        if (Math.abs(d) < tiny) d = tiny;
+        c = 1 + aa / c;
+        if (Math.abs(c) < tiny) c = tiny;
+        d = 1 / d;
+        const delta = d * c;
+        h *= delta;
+
+        if (Math.abs(delta - 1) < epsilon) break;
+    }
+
+    return h;
+}
+
+/**
+ * Beta quantile: x with I_x(a, b) = p
+ * Newton iterations safeguarded by bisection on [0, 1]
+ */
+export function betaQuantile(p: number, a: number, b: number): number {
+    if (p <= 0) return 0;
+    if (p >= 1) return 1;
+
+    const logBeta = logGamma(a) + logGamma(b) - logGamma(a + b);
+    let x = a / (a + b);
+    let lo = 0;
+    let hi = 1;
+
+    for (let iter = 0; iter < 100; iter++) {
+        const f = regularizedIncompleteBeta(x, a, b) - p;
+        if (Math.abs(f) < 1e-14) break;
+        if (f > 0) hi = x; else lo = x;
+
+        const density = Math.exp((a - 1) * Math.log(x) + (b - 1) * Math.log(1 - x) - logBeta);
+        let next = x - f / density;
+        if (!isFinite(next) || next <= lo || next >= hi) {
+            next = 0.5 * (lo + hi);
+        }
+        if (Math.abs(next - x) < 1e-15) {
+            x = next;
+            break;
+        }
+        x = next;
+    }
+
+    return x;
+}
+
+// =============================================
+// Normal Distribution
+// =============================================
+
+/**
+ * Complementary error function erfc(x)
+ * Chebyshev fit (Numerical Recipes erfcc), relative error < 1.2e-7
+ */
+export function erfc(x: number): number {
+    const z = Math.abs(x);
+    const t = 1 / (1 + 0.5 * z);
+    const r = t * Math.exp(
+        -z * z - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418
+            + t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587
+                + t * (-0.82215223 + t * 0.17087277))))))))
+    );
+    return x >= 0 ? r : 2 - r;
+}
+
+/** Standard normal CDF Φ(x) */
+export function normalCDF(x: number): number {
+    return 0.5 * erfc(-x / Math.SQRT2);
+}
+
+/** Standard normal density φ(x) */
+export function normalPDF(x: number): number {
+    return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+}
+
+/**
+ * Standard normal quantile Φ⁻¹(p)
+ * Acklam's rational approximation refined with one Halley step
+ */
+export function normalQuantile(p: number): number {
+    if (p <= 0) return -Infinity;
+    if (p >= 1) return Infinity;
+    if (p === 0.5) return 0;
+
+    const a = [
+        -3.969683028665376e+01, 2.209460984245205e+02,
+        -2.759285104469687e+02, 1.383577518672690e+02,
+        -3.066479806614716e+01, 2.506628277459239e+00
+    ];
+    const b = [
+        -5.447609879822406e+01, 1.615858368580409e+02,
+        -1.556989798598866e+02, 6.680131188771972e+01,
+        -1.328068155288572e+01
+    ];
+    const c = [
+        -7.784894002430293e-03, -3.223964580411365e-01,
+        -2.400758277161838e+00, -2.549732539343734e+00,
+        4.374664141464968e+00, 2.938163982698783e+00
+    ];
+    const d = [
+        7.784695709041462e-03, 3.224671290700398e-01,
+        2.445134137142996e+00, 3.754408661907416e+00
+    ];
+
+    const pLow = 0.02425;
+    const pHigh = 1 - pLow;
+    let x: number;
+
+    if (p < pLow) {
+        const q = Math.sqrt(-2 * Math.log(p));
+        x = (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+            ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    } else if (p <= pHigh) {
+        const q = p - 0.5;
+        const r = q * q;
+        x = (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+            (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+    } else {
+        const q = Math.sqrt(-2 * Math.log(1 - p));
+        x = -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+            ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    }
+
+    // Halley refinement
+    const e = normalCDF(x) - p;
+    const u = e * Math.sqrt(2 * Math.PI) * Math.exp(0.5 * x * x);
+    return x - u / (1 + 0.5 * x * u);
+}
+
+// =============================================
+// Student-t Distribution
+// =============================================
+
+/** Student-t CDF with ν degrees of freedom (ν may be non-integer) */
+export function studentTCDF(x: number, nu: number): number {
+    if (!isFinite(nu) || nu > 1e7) return normalCDF(x);
+    if (x === 0) return 0.5;
+
+    const tail = 0.5 * regularizedIncompleteBeta(nu / (nu + x * x), nu / 2, 0.5);
+    return x > 0 ? 1 - tail : tail;
+}
+
+/** Student-t density with ν degrees of freedom */
+export function studentTPDF(x: number, nu: number): number {
+    return Math.exp(studentTLogPDF(x, nu));
+}
+
+/** Log-density of Student-t with ν degrees of freedom */
+export function studentTLogPDF(x: number, nu: number): number {
+    return logGamma((nu + 1) / 2) - logGamma(nu / 2) - 0.5 * Math.log(nu * Math.PI)
+        - (nu + 1) / 2 * Math.log(1 + x * x / nu);
+}
+
+/**
+ * Student-t quantile t_ν⁻¹(p)
+ * Cornish-Fisher starting point refined by safeguarded Newton iterations
+ */
+export function studentTQuantile(p: number, nu: number): number {
+    if (p <= 0) return -Infinity;
+    if (p >= 1) return Infinity;
+    if (p === 0.5) return 0;
+    if (!isFinite(nu) || nu > 1e7) return normalQuantile(p);
+
+    // Exploit symmetry: solve in the lower tail for precision
+    if (p > 0.5) return -studentTQuantile(1 - p, nu);
+
+    // Cornish-Fisher expansion around the normal quantile
+    const z = normalQuantile(p);
+    const z2 = z * z;
+    let x = z
+        + (z2 * z + z) / (4 * nu)
+        + (5 * z2 * z2 * z + 16 * z2 * z + 3 * z) / (96 * nu * nu);
+
+    // Heavy tails (small ν, extreme p): the expansion undershoots, start from the tail asymptote
+    if (nu < 3 || !isFinite(x)) {
+        const tailStart = -Math.pow(p * nu * Math.sqrt(Math.PI) * Math.exp(logGamma(nu / 2) - logGamma((nu + 1) / 2)), -1 / nu)
+            * Math.sqrt(nu);
+        if (isFinite(tailStart) && tailStart < x) x = tailStart;
+    }
+
+    // Bracket for safeguarding
+    let lo = -1e300;
+    let hi = 0;
+
+    for (let iter = 0; iter < 100; iter++) {
+        const f = studentTCDF(x, nu) - p;
+        if (Math.abs(f) < 1e-14 * Math.max(p, 1e-300)) break;
+        if (f > 0) hi = x; else lo = x;
+
+        const step = f / studentTPDF(x, nu);
+        let next = x - step;
+        if (!isFinite(next) || next <= lo || next >= hi) {
+            // Fall back to bisection (geometric in the far tail)
+            next = lo <= -1e299 ? 2 * Math.min(x, -1) : 0.5 * (lo + hi);
+        }
+        if (Math.abs(next - x) < 1e-13 * Math.max(1, Math.abs(x))) {
+            x = next;
+            break;
+        }
+        x = next;
+    }
+
+    return x;
+}
+
+// =============================================
+// Gamma and Chi-Squared Distributions
+// =============================================
+
+/**
+ * Regularized lower incomplete gamma function P(a, x)
+ * Series for x < a + 1, continued fraction otherwise (Numerical Recipes §6.2)
+ */
+export function regularizedGammaP(a: number, x: number): number {
+    if (x <= 0) return 0;
+    if (!isFinite(x)) return 1;
+    return x < a + 1 ? gammaSeries(a, x) : 1 - gammaContinuedFraction(a, x);
+}
+
+/** Regularized upper incomplete gamma function Q(a, x) = 1 - P(a, x) */
+export function regularizedGammaQ(a: number, x: number): number {
+    if (x <= 0) return 1;
+    if (!isFinite(x)) return 0;
+    return x < a + 1 ? 1 - gammaSeries(a, x) : gammaContinuedFraction(a, x);
+}
+
+function gammaSeries(a: number, x: number): number {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 1000; n++) {
+        term *= x / (a + n);
+        sum += term;
+        if (Math.abs(term) < Math.abs(sum) * 1e-15) break;
+    }
+    return sum * Math.exp(-x + a * Math.log(x) - logGamma(a));
+}
+
+function gammaContinuedFraction(a: number, x: number): number {
+    const tiny = 1e-300;
+    let b = x + 1 - a;
+    let c = 1 / tiny;
+    let d = 1 / b;
+    let h = d;
+    for (let i = 1; i < 1000; i++) {
+        const an = -i * (i - a);
+        b += 2;
+        d = an * d + b;
+        if (Math.abs(d) < tiny) d = tiny;
+        c = b + an / c;
+        if (Math.abs(c) < tiny) c = tiny;
+        d = 1 / d;
+        const delta = d * c;
+        h *= delta;
+        if (Math.abs(delta - 1) < 1e-15) break;
+    }
+    return Math.exp(-x + a * Math.log(x) - logGamma(a)) * h;
+}
+
+/**
+ * Quantile of Gamma(shape, rate = 1)
+ * Wilson-Hilferty starting point refined by safeguarded Newton iterations
+ */
+export function gammaQuantile(p: number, shape: number): number {
+    if (p <= 0) return 0;
+    if (p >= 1) return Infinity;
+
+    // Wilson-Hilferty: (X/a)^(1/3) ≈ N(1 - 1/(9a), 1/(9a))
+    const z = normalQuantile(p);
+    const c = 1 / (9 * shape);
+    let x = shape * Math.pow(Math.max(1 - c + z * Math.sqrt(c), 1e-3), 3);
+    if (shape < 1) {
+        // Small shapes: P(a, x) ≈ x^a / Γ(a + 1) near zero
+        const lowerTail = Math.exp((Math.log(p) + logGamma(shape + 1)) / shape);
+        if (lowerTail < x) x = lowerTail;
+    }
+
+    let lo = 0;
+    let hi = Infinity;
+    for (let iter = 0; iter < 100; iter++) {
+        const f = regularizedGammaP(shape, x) - p;
+        if (Math.abs(f) < 1e-14) break;
+        if (f > 0) hi = x; else lo = x;
+
+        const logDensity = (shape - 1) * Math.log(x) - x - logGamma(shape);
+        let next = x - f / Math.exp(logDensity);
+        if (!isFinite(next) || next <= lo || next >= hi) {
+            next = isFinite(hi) ? 0.5 * (lo + hi) : 2 * x;
+        }
+        if (Math.abs(next - x) < 1e-14 * Math.max(1, x)) {
+            x = next;
+            break;
+        }
+        x = next;
+    }
+
+    return x;
+}
+
+/** Log-density of the chi-squared distribution with k degrees of freedom */
+export function chiSquaredLogPDF(x: number, k: number): number {
+    if (x <= 0) return -Infinity;
+    return (k / 2 - 1) * Math.log(x) - x / 2 - (k / 2) * Math.LN2 - logGamma(k / 2);
+}
+
+/**
+ * Log-density of the noncentral chi-squared distribution χ'²(k, λ)
+ * Poisson mixture Σ_j Pois(j; λ/2) · χ²_{k+2j}(x), summed in log space
+ * outward from the dominant term j* ≈ √(λx)/2
+ */
+export function noncentralChiSquaredLogPDF(x: number, k: number, lambda: number): number {
+    if (x <= 0) return -Infinity;
+    if (lambda <= 0) return chiSquaredLogPDF(x, k);
+
+    const halfLambda = lambda / 2;
+    const logTerm = (j: number) =>
+        -halfLambda + j * Math.log(halfLambda) - logGamma(j + 1) + chiSquaredLogPDF(x, k + 2 * j);
+
+    const center = Math.max(0, Math.round(Math.sqrt(lambda * x) / 2 - k / 4));
+    const maxLog = logTerm(center);
+    let sum = 1;
+
+    for (let j = center + 1; ; j++) {
+        const rel = logTerm(j) - maxLog;
+        sum += Math.exp(rel);
+        if (rel < -40) break;
+    }
+    for (let j = center - 1; j >= 0; j--) {
+        const rel = logTerm(j) - maxLog;
+        sum += Math.exp(rel);
+        if (rel < -40) break;
+    }
+
+    return maxLog + Math.log(sum);
+}
@@ -0,0 +1,62 @@
+// =============================================
+// StochFin Monte Carlo Engine: Stored Stress Scenarios
+// Conversion between stress_scenarios rows (snake_case shock paths in
+// stress_parameters) and the engine's StressScenario
+// =============================================
+
+import type { StressScenarioType, StressShockPathRow } from '@/types/simulations';
+import type { StressScenario } from './simulator';
+
+export const STRESS_SCENARIO_TYPES: StressScenarioType[] = [
+    'recession', 'commodity_shock', 'interest_rate_shock', 'customer_loss', 'supply_chain',
+    'financial_crisis', 'pandemic', 'stagflation', 'currency_crisis', 'custom'
+];
+
+/** Library type of each predefined engine scenario */
+export const PREDEFINED_STRESS_SCENARIO_TYPES: Record<string, StressScenarioType> = {
+    'Recession': 'recession',
+    'Interest Rate Shock': 'interest_rate_shock',
+    'Customer Loss': 'customer_loss',
+    'GFC 2008': 'financial_crisis',
+    'COVID-19 2020': 'pandemic',
+    'Stagflation': 'stagflation',
+    'Currency Crisis': 'currency_crisis'
+};
+
+/**
+ * Engine scenario from a row's name, description and stress_parameters.
+ * Unvalidated: malformed paths are passed on for validateStressScenario to report.
+ */
+export function stressScenarioFromRow(
+    name: string,
+    description: string | null | undefined,
+    stressParameters: { paths?: Partial<StressShockPathRow>[] } | null | undefined
+): StressScenario {
+    const paths = Array.isArray(stressParameters?.paths) ? stressParameters.paths : [];
+    return {
+        name,
+        description: description || '',
+        paths: paths.map(p => ({
+            variableCode: p?.variable_code as string,
+            type: p?.type as StressShockPathRow['type'],
+            shocks: p?.shocks as number[],
+            startPeriod: p?.start_period,
+            periodsPerShock: p?.periods_per_shock,
+            decay: p?.decay
+        }))
+    };
+}
+
+/** stress_parameters column value of an engine scenario */
+export function stressParametersFromScenario(scenario: StressScenario): { paths: StressShockPathRow[] } {
+    return {
+        paths: scenario.paths.map(p => ({
+            variable_code: p.variableCode,
+            type: p.type,
+            shocks: p.shocks,
+            start_period: p.startPeriod,
+            periods_per_shock: p.periodsPerShock,
+            decay: p.decay
+        }))
+    };
+}
@@ -0,0 +1,593 @@
+// =============================================
+// StochFin Monte Carlo Engine: Variance Reduction
+// Antithetic pairs, scrambled Sobol points with Brownian-bridge paths and
+// control variates. Every scenario's draws still depend only on its index,
+// so blocks and worker pools give the same results as a serial run.
+// =============================================
+
+import {
+    MersenneTwister,
+    sampleStandardNormal,
+    deriveStreamSeed,
+    QMC_SCRAMBLE_STREAM
+} from './random';
+import { normalQuantile } from './special-functions';
+
+// =============================================
+// Configuration and Results
+// =============================================
+
+/**
+ * - pseudo: independent Mersenne Twister draws per scenario
+ * - antithetic: scenario 2k+1 uses the negated normal innovations of scenario 2k
+ * - sobol: normal innovations from scrambled Sobol points through a Brownian bridge;
+ *   the run is split into independently scrambled replicates to measure its error
+ */
+export type SamplingMethod = 'pseudo' | 'antithetic' | 'sobol';
+
+export interface VarianceReductionConfig {
+    sampling?: SamplingMethod;          // Default 'pseudo'
+    controlVariates?: boolean;          // Regress outputs on drivers with analytical means
+    sobolReplicates?: number;           // Independent scramblings (default 8)
+}
+
+export const DEFAULT_SOBOL_REPLICATES = 8;
+
+/** Sobol dimensions available (variables × steps) */
+export const SOBOL_MAX_DIMENSION = 10_000;
+
+/**
+ * Estimate of an expected value with its Monte Carlo error
+ */
+export interface MeanEstimate {
+    mean: number;                       // Control-variate adjusted when controls were used
+    stdError: number;
+    plainStdError: number;              // σ/√n of plain Monte Carlo with the same scenario count
+    varianceReductionFactor: number;    // (plainStdError / stdError)², the effective scenario multiplier; Infinity if exact
+}
+
+/** Estimator variance, relative to plain Monte Carlo, treated as zero */
+const EXACT_ESTIMATOR_TOLERANCE = 1e-12;
+
+// =============================================
+// Antithetic Variates
+// =============================================
+
+/**
+ * Independent normal columns z[i][s] for a batch whose scenarios come in
+ * pairs (2k, 2k+1): the first draws from its own generator, the second
+ * takes the negated draws of its partner
+ */
+export function antitheticNormals(rngs: MersenneTwister[]): (step: number, z: Float64Array[]) => void {
+    return (_step, z) => {
+        for (let s = 0; s < rngs.length; s++) {
+            if (s % 2 === 0) {
+                for (let i = 0; i < z.length; i++) z[i][s] = sampleStandardNormal(rngs[s]);
+            } else {
+                for (let i = 0; i < z.length; i++) z[i][s] = -z[i][s - 1];
+            }
+        }
+    };
+}
+
+/**
+ * Pairwise antithetic version of a per-scenario innovation sampler; the
+ * sampler must be called for scenarios in increasing order at each step.
+ * Only valid for symmetric (Gaussian, Student-t) dependence.
+ */
+export function antitheticInnovations(
+    sample: (rng: MersenneTwister) => number[]
+): (rng: MersenneTwister, scenario: number) => number[] {
+    let partner: number[] = [];
+    return (rng, scenario) => {
+        if (scenario % 2 === 0) {
+            partner = sample(rng);
+            return partner;
+        }
+        return partner.map(v => -v);
+    };
+}
+
+// =============================================
+// Sobol Sequence
+// Gray-code Sobol points (Bratley & Fox, Joe & Kuo) with Matoušek's random
+// linear scrambling and a digital shift, seeded per replicate.
+// =============================================
+
+/** Initial direction numbers m_1..m_s for dimensions 2-21 (Joe & Kuo, 2008) */
+const INITIAL_DIRECTION_NUMBERS: number[][] = [
+    [1], [1, 3], [1, 3, 1], [1, 1, 1], [1, 1, 3, 3], [1, 3, 5, 13],
+    [1, 1, 5, 5, 17], [1, 1, 5, 5, 5], [1, 1, 7, 11, 19], [1, 1, 5, 1, 1], [1, 1, 1, 3, 11], [1, 3, 5, 5, 31],
+    [1, 3, 3, 9, 7, 49], [1, 1, 1, 15, 21, 21], [1, 3, 1, 13, 27, 49], [1, 1, 1, 15, 7, 5], [1, 3, 1, 15, 13, 25],
+    [1, 1, 5, 5, 19, 61], [1, 3, 7, 11, 23, 15, 103], [1, 3, 7, 13, 13, 15, 69]
+];
+
+/** Seed for the initial direction numbers of higher dimensions (fixed, not the run seed) */
+const DIRECTION_NUMBER_SEED = 20080527;
+
+const BITS = 32;
+const TWO_POW_32 = 4294967296;
+
+/** Unscrambled direction numbers, [dimension][bit], extended on demand */
+const directionNumbers: Uint32Array[] = [];
+let polynomialSearch = { degree: 1, a: 0 };
+let directionRng: MersenneTwister | undefined;
+
+function ensureDirectionNumbers(dimension: number): void {
+    if (dimension > SOBOL_MAX_DIMENSION) {
+        throw new Error(`Sobol sampling supports at most ${SOBOL_MAX_DIMENSION} dimensions (variables × steps)`);
+    }
+    if (directionNumbers.length === 0) {
+        // First dimension: van der Corput in base 2
+        directionNumbers.push(Uint32Array.from({ length: BITS }, (_, k) => (1 << (BITS - 1 - k)) >>> 0));
+    }
+
+    while (directionNumbers.length < dimension) {
+        const { degree, a } = nextPrimitivePolynomial();
+        const tabulated = INITIAL_DIRECTION_NUMBERS[directionNumbers.length - 1];
+        let m: number[];
+        if (tabulated && tabulated.length === degree) {
+            m = tabulated;
+        } else {
+            // Any odd m_k < 2^k gives a valid Sobol sequence
+            directionRng ??= new MersenneTwister(DIRECTION_NUMBER_SEED);
+            const rng = directionRng;
+            m = Array.from({ length: degree }, (_, k) => 2 * Math.floor(rng.random() * 2 ** k) + 1);
+        }
+
+        const v = new Uint32Array(BITS);
+        for (let k = 0; k < BITS; k++) {
+            if (k < degree) {
+                v[k] = (m[k] << (BITS - 1 - k)) >>> 0;
+            } else {
+                let value = v[k - degree] ^ (v[k - degree] >>> degree);
+                for (let j = 1; j < degree; j++) {
+                    if ((a >>> (degree - 1 - j)) & 1) value ^= v[k - j];
+                }
+                v[k] = value >>> 0;
+            }
+        }
+        directionNumbers.push(v);
+    }
+}
+
+/**
+ * Next primitive polynomial over GF(2), by degree and then by its inner
+ * coefficients a (the ordering of the Joe & Kuo tables)
+ */
+function nextPrimitivePolynomial(): { degree: number; a: number } {
+    for (;;) {
+        const { degree, a } = polynomialSearch;
+        polynomialSearch = a + 1 < 2 ** (degree - 1) ? { degree, a: a + 1 } : { degree: degree + 1, a: 0 };
+        if (isPrimitive((1 << degree) | (a << 1) | 1, degree)) return { degree, a };
+    }
+}
+
+/** x has multiplicative order 2^degree − 1 modulo the polynomial */
+function isPrimitive(poly: number, degree: number): boolean {
+    const order = 2 ** degree - 1;
+    const x = degree === 1 ? poly ^ 2 : 2;  // x reduced modulo the polynomial
+    if (polyPowMod(x, order, poly, degree) !== 1) return false;
+    for (const p of primeFactors(order)) {
+        if (polyPowMod(x, order / p, poly, degree) === 1) return false;
+    }
+    return true;
+}
+
+function polyMulMod(a: number, b: number, poly: number, degree: number): number {
+    let result = 0;
+    while (b) {
+        if (b & 1) result ^= a;
+        b >>>= 1;
+        a <<= 1;
+        if (a & (1 << degree)) a ^= poly;
+    }
+    return result;
+}
+
+function polyPowMod(base: number, exponent: number, poly: number, degree: number): number {
+    let result = 1;
+    while (exponent > 0) {
+        if (exponent % 2 === 1) result = polyMulMod(result, base, poly, degree);
+        base = polyMulMod(base, base, poly, degree);
+        exponent = Math.floor(exponent / 2);
+    }
+    return result;
+}
+
+function primeFactors(n: number): number[] {
+    const factors: number[] = [];
+    for (let p = 2; p * p <= n; p++) {
+        if (n % p === 0) {
+            factors.push(p);
+            while (n % p === 0) n /= p;
+        }
+    }
+    if (n > 1) factors.push(n);
+    return factors;
+}
+
+function parity(x: number): number {
+    x ^= x >>> 16;
+    x ^= x >>> 8;
+    x ^= x >>> 4;
+    x ^= x >>> 2;
+    x ^= x >>> 1;
+    return x & 1;
+}
+
+/**
+ * Sobol points in [0, 1)^dimension, randomized when a scramble seed is given
+ */
+export class SobolSequence {
+    private readonly directions: Uint32Array;    // [dimension][bit]
+    private readonly shift: Uint32Array;
+    private readonly state: Uint32Array;
+    private index = 0;
+
+    constructor(readonly dimension: number, scrambleSeed?: number) {
+        ensureDirectionNumbers(dimension);
+        this.directions = new Uint32Array(dimension * BITS);
+        this.shift = new Uint32Array(dimension);
+        this.state = new Uint32Array(dimension);
+
+        const rng = scrambleSeed !== undefined ? new MersenneTwister(scrambleSeed) : undefined;
+        const rows = new Uint32Array(BITS);
+
+        for (let d = 0; d < dimension; d++) {
+            const v = directionNumbers[d];
+            if (!rng) {
+                this.directions.set(v, d * BITS);
+                continue;
+            }
+            // Random lower-triangular matrix with unit diagonal, applied to every direction number
+            for (let r = 0; r < BITS; r++) {
+                const higherBits = r === 0 ? 0 : ~((1 << (BITS - r)) - 1);
+                rows[r] = ((rng.genrandInt32() & higherBits) | (1 << (BITS - 1 - r))) >>> 0;
+            }
+            for (let k = 0; k < BITS; k++) {
+                let scrambled = 0;
+                for (let r = 0; r < BITS; r++) {
+                    if (parity(rows[r] & v[k])) scrambled |= 1 << (BITS - 1 - r);
+                }
+                this.directions[d * BITS + k] = scrambled >>> 0;
+            }
+            this.shift[d] = rng.genrandInt32();
+        }
+    }
+
+    /**
+     * Position the sequence so that the next point is point `index`
+     */
+    seek(index: number): void {
+        if (!(index >= 0 && index < 2 ** 31)) throw new Error('Sobol index out of range');
+        const gray = index ^ (index >>> 1);
+        this.state.fill(0);
+        for (let k = 0; k < BITS; k++) {
+            if (!((gray >>> k) & 1)) continue;
+            for (let d = 0; d < this.dimension; d++) {
+                this.state[d] ^= this.directions[d * BITS + k];
+            }
+        }
+        this.index = index;
+    }
+
+    /**
+     * Write the next point to `out`, as uniforms strictly inside (0, 1)
+     */
+    next(out: Float64Array): void {
+        for (let d = 0; d < this.dimension; d++) {
+            out[d] = (((this.state[d] ^ this.shift[d]) >>> 0) + 0.5) / TWO_POW_32;
+        }
+        // Gray-code order: the next point flips the direction number of the lowest zero bit of index
+        this.index++;
+        const bit = 31 - Math.clz32(this.index & -this.index);
+        for (let d = 0; d < this.dimension; d++) {
+            this.state[d] ^= this.directions[d * BITS + bit];
+        }
+    }
+}
+
+// =============================================
+// Brownian Bridge
+// =============================================
+
+/**
+ * Brownian-bridge construction on unit time steps: the first normal sets
+ * the endpoint W_n, the next the midpoint, and so on by bisection, so the
+ * leading (best-distributed) Sobol dimensions carry most of the path variance
+ */
+export class BrownianBridge {
+    private readonly bridgeIndex: Int32Array;
+    private readonly leftIndex: Int32Array;
+    private readonly rightIndex: Int32Array;
+    private readonly leftWeight: Float64Array;
+    private readonly rightWeight: Float64Array;
+    private readonly stdDev: Float64Array;
+    private readonly path: Float64Array;
+
+    constructor(readonly numSteps: number) {
+        const n = numSteps;
+        this.bridgeIndex = new Int32Array(n);
+        this.leftIndex = new Int32Array(n);
+        this.rightIndex = new Int32Array(n);
+        this.leftWeight = new Float64Array(n);
+        this.rightWeight = new Float64Array(n);
+        this.stdDev = new Float64Array(n);
+        this.path = new Float64Array(n);
+        if (n === 0) return;
+
+        // Point l is at time l + 1; map marks points already constructed
+        const map = new Int32Array(n);
+        map[n - 1] = 1;
+        this.bridgeIndex[0] = n - 1;
+        this.stdDev[0] = Math.sqrt(n);
+
+        for (let i = 1, j = 0; i < n; i++) {
+            while (map[j]) j++;
+            let k = j;
+            while (!map[k]) k++;
+            const l = j + ((k - 1 - j) >> 1);
+            map[l] = i;
+
+            const tLeft = j;                // time of point j − 1 (0 for the origin)
+            const tMid = l + 1;
+            const tRight = k + 1;
+            this.bridgeIndex[i] = l;
+            this.leftIndex[i] = j;
+            this.rightIndex[i] = k;
+            this.leftWeight[i] = (tRight - tMid) / (tRight - tLeft);
+            this.rightWeight[i] = (tMid - tLeft) / (tRight - tLeft);
+            this.stdDev[i] = Math.sqrt((tMid - tLeft) * (tRight - tMid) / (tRight - tLeft));
+
+            j = k + 1;
+            if (j >= n) j = 0;
+        }
+    }
+
+    /**
+     * Map bridge-ordered N(0,1) draws to the path's N(0,1) increments
+     */
+    increments(normals: ArrayLike<number>, out: Float64Array): void {
+        const n = this.numSteps;
+        if (n === 0) return;
+        const w = this.path;
+
+        w[n - 1] = this.stdDev[0] * normals[0];
+        for (let i = 1; i < n; i++) {
+            const j = this.leftIndex[i];
+            const l = this.bridgeIndex[i];
+            const left = j === 0 ? 0 : w[j - 1];
+            w[l] = this.leftWeight[i] * left + this.rightWeight[i] * w[this.rightIndex[i]] + this.stdDev[i] * normals[i];
+        }
+
+        out[0] = w[0];
+        for (let t = 1; t < n; t++) out[t] = w[t] - w[t - 1];
+    }
+}
+
+/**
+ * Replicate and point index of a scenario in an n-scenario Sobol run:
+ * replicate r holds scenarios [r·m, (r+1)·m) with m = ⌈n / replicates⌉
+ */
+export function sobolPointOf(
+    scenario: number,
+    nScenarios: number,
+    replicates: number
+): { replicate: number; index: number } {
+    const perReplicate = Math.ceil(nScenarios / replicates);
+    const replicate = Math.floor(scenario / perReplicate);
+    return { replicate, index: scenario - replicate * perReplicate };
+}
+
+/**
+ * Independent N(0,1) innovations of scenarios [start, end) from scrambled
+ * Sobol points, as columns [variable][step][scenario]. Dimension k·d + i
+ * drives bridge draw k of variable i, so the first d dimensions fix every
+ * variable's terminal value.
+ */
+export function sobolNormalColumns(
+    seed: number,
+    nScenarios: number,
+    replicates: number,
+    start: number,
+    end: number,
+    d: number,
+    numSteps: number
+): Float64Array {
+    const count = end - start;
+    const dimension = d * numSteps;
+    const out = new Float64Array(dimension * count);
+    if (dimension === 0) return out;
+
+    const bridge = new BrownianBridge(numSteps);
+    const point = new Float64Array(dimension);
+    const bridgeNormals = new Float64Array(numSteps);
+    const increments = new Float64Array(numSteps);
+    let sequence: SobolSequence | undefined;
+    let currentReplicate = -1;
+
+    for (let s = 0; s < count; s++) {
+        const { replicate, index } = sobolPointOf(start + s, nScenarios, replicates);
+        if (replicate !== currentReplicate) {
+            sequence = new SobolSequence(dimension, deriveStreamSeed(seed, replicate, QMC_SCRAMBLE_STREAM));
+            sequence.seek(index);
+            currentReplicate = replicate;
+        }
+        sequence!.next(point);
+
+        for (let i = 0; i < d; i++) {
+            for (let k = 0; k < numSteps; k++) bridgeNormals[k] = normalQuantile(point[k * d + i]);
+            bridge.increments(bridgeNormals, increments);
+            for (let t = 0; t < numSteps; t++) out[(i * numSteps + t) * count + s] = increments[t];
+        }
+    }
+
+    return out;
+}
+
+// =============================================
+// Estimators
+// =============================================
+
+/**
+ * Running means and co-moments of a set of control variates, centered on
+ * their known expectations (so E[x] = 0). Shared by every output that
+ * regresses on the same controls; add each observation here first.
+ */
+export class ControlAccumulator {
+    n = 0;
+    readonly mean: Float64Array;
+    readonly comoment: Float64Array;    // size × size, Σ (x − x̄)(x − x̄)ᵀ
+    private readonly delta: Float64Array;
+
+    constructor(readonly size: number) {
+        this.mean = new Float64Array(size);
+        this.comoment = new Float64Array(size * size);
+        this.delta = new Float64Array(size);
+    }
+
+    add(x: ArrayLike<number>): void {
+        const k = this.size;
+        this.n++;
+        for (let j = 0; j < k; j++) {
+            this.delta[j] = x[j] - this.mean[j];
+            this.mean[j] += this.delta[j] / this.n;
+        }
+        for (let a = 0; a < k; a++) {
+            for (let b = 0; b < k; b++) {
+                this.comoment[a * k + b] += this.delta[a] * (x[b] - this.mean[b]);
+            }
+        }
+    }
+}
+
+/**
+ * Running estimate of one expected value. Observations are scenarios, or
+ * antithetic pair means; Sobol runs tag each observation with its replicate.
+ */
+export class MeanAccumulator {
+    n = 0;
+    mean = 0;
+    m2 = 0;
+    private readonly cross: Float64Array;       // Σ (y − ȳ)(x − x̄) per control
+    private readonly replicates: { n: number; mean: number }[];
+
+    constructor(nControls: number = 0, nReplicates: number = 0) {
+        this.cross = new Float64Array(nControls);
+        this.replicates = Array.from({ length: nReplicates }, () => ({ n: 0, mean: 0 }));
+    }
+
+    add(y: number, replicate?: number): void {
+        this.n++;
+        const delta = y - this.mean;
+        this.mean += delta / this.n;
+        this.m2 += delta * (y - this.mean);
+        if (replicate !== undefined) {
+            const group = this.replicates[replicate];
+            group.n++;
+            group.mean += (y - group.mean) / group.n;
+        }
+    }
+
+    /**
+     * Add an observation with its centered controls, after controls.add(x)
+     */
+    addWithControls(y: number, x: ArrayLike<number>, controls: ControlAccumulator): void {
+        const deltaOld = y - this.mean;
+        this.add(y);
+        for (let j = 0; j < this.cross.length; j++) {
+            this.cross[j] += deltaOld * (x[j] - controls.mean[j]);
+        }
+    }
+
+    /**
+     * Estimate and its error, against plain Monte Carlo with the outcome's
+     * per-scenario variance over nScenarios. With controls, the regression
+     * uses every control except `exclude` (the output itself, when it is one).
+     */
+    estimate(
+        plainVariance: number,
+        nScenarios: number,
+        controls?: ControlAccumulator,
+        exclude: number = -1
+    ): MeanEstimate {
+        let mean = this.mean;
+        let estimatorVariance: number;
+
+        const groups = this.replicates.filter(g => g.n > 0);
+        if (groups.length > 0) {
+            // Spread of independently randomized replicate means
+            const r = groups.length;
+            const grand = groups.reduce((sum, g) => sum + g.mean, 0) / r;
+            const spread = groups.reduce((sum, g) => sum + (g.mean - grand) ** 2, 0);
+            estimatorVariance = r > 1 ? spread / (r * (r - 1)) : NaN;
+        } else if (controls && controls.size > 0) {
+            const beta = regressionCoefficients(controls, this.cross, exclude);
+            let explained = 0;
+            for (let j = 0; j < beta.length; j++) {
+                mean -= beta[j] * controls.mean[j];
+                explained += beta[j] * this.cross[j];
+            }
+            const activeControls = beta.filter(b => b !== 0).length;
+            const dof = this.n - 1 - activeControls;
+            estimatorVariance = dof > 0 ? Math.max(0, this.m2 - explained) / dof / this.n : NaN;
+        } else {
+            estimatorVariance = this.n > 1 ? this.m2 / (this.n - 1) / this.n : NaN;
+        }
+
+        const plainEstimatorVariance = plainVariance / nScenarios;
+        // Below this the estimator is exact up to rounding (e.g. antithetic pairs of a linear process)
+        if (estimatorVariance < EXACT_ESTIMATOR_TOLERANCE * plainEstimatorVariance) estimatorVariance = 0;
+        return {
+            mean,
+            stdError: Math.sqrt(estimatorVariance),
+            plainStdError: Math.sqrt(plainEstimatorVariance),
+            varianceReductionFactor: estimatorVariance > 0
+                ? plainEstimatorVariance / estimatorVariance
+                : (plainEstimatorVariance > 0 ? Infinity : 1)
+        };
+    }
+}
+
+/**
+ * Least-squares coefficients β = C_xx⁻¹ c_xy by Cholesky, skipping the
+ * excluded control and any control that is (nearly) collinear with earlier ones
+ */
+function regressionCoefficients(controls: ControlAccumulator, cross: Float64Array, exclude: number): number[] {
+    const k = controls.size;
+    const C = controls.comoment;
+    const active: number[] = [];
+    const L: number[][] = [];   // Cholesky rows over the active controls
+
+    for (let j = 0; j < k; j++) {
+        if (j === exclude || !(C[j * k + j] > 0)) continue;
+        const row: number[] = [];
+        for (let a = 0; a < active.length; a++) {
+            let sum = C[j * k + active[a]];
+            for (let b = 0; b < a; b++) sum -= row[b] * L[a][b];
+            row.push(sum / L[a][a]);
+        }
+        const pivot = C[j * k + j] - row.reduce((sum, v) => sum + v * v, 0);
+        if (pivot <= 1e-10 * C[j * k + j]) continue;
+        row.push(Math.sqrt(pivot));
+        L.push(row);
+        active.push(j);
+    }
+
+    // Forward then back substitution over the active set
+    const m = active.length;
+    const y = new Array(m).fill(0);
+    for (let a = 0; a < m; a++) {
+        let sum = cross[active[a]];
+        for (let b = 0; b < a; b++) sum -= L[a][b] * y[b];
+        y[a] = sum / L[a][a];
+    }
+    const beta = new Array(k).fill(0);
+    for (let a = m - 1; a >= 0; a--) {
+        let sum = y[a];
+        for (let b = a + 1; b < m; b++) sum -= L[b][a] * beta[active[b]];
+        beta[active[a]] = sum / L[a][a];
+    }
+    return beta;
+}
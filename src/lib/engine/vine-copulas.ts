@@ -0,0 +1,959 @@
+// =============================================
+// StochFin Monte Carlo Engine: Vine Copulas
+// Pair-copula constructions (C-, D- and R-vines)
+// =============================================
+
+import { MersenneTwister, sampleUniform } from './random';
+import {
+    kendallsTau,
+    copulaKendallsTau,
+    fitClaytonFromTau,
+    fitGumbelFromTau,
+    fitFrankFromTau,
+    type CopulaConfig
+} from './copulas';
+import {
+    logGamma,
+    normalCDF,
+    normalQuantile,
+    studentTCDF,
+    studentTQuantile
+} from './special-functions';
+
+// =============================================
+// Vine Type Definitions
+// =============================================
+
+/** Bivariate building blocks of a vine */
+export type PairCopulaFamily =
+    | 'independence'
+    | 'gaussian'
+    | 'student_t'
+    | 'clayton'
+    | 'gumbel'
+    | 'frank'
+    | 'rotated_clayton_90'
+    | 'rotated_clayton_180'
+    | 'rotated_clayton_270'
+    | 'rotated_gumbel_90'
+    | 'rotated_gumbel_180'
+    | 'rotated_gumbel_270';
+
+/** Bivariate copula C(u, v); parameters: {rho}, {rho, nu} or {theta} */
+export interface PairCopula {
+    family: PairCopulaFamily;
+    parameters: Record<string, number>;
+}
+
+/**
+ * Edge of a vine tree: copula of (conditioned[0], conditioned[1]) given
+ * the conditioning variables. Variables are column indices; the copula's
+ * first argument is F(conditioned[0] | conditioning).
+ */
+export interface VineEdge {
+    conditioned: [number, number];
+    conditioning: number[];
+    copula: PairCopula;
+    kendall_tau?: number;
+    log_likelihood?: number;
+}
+
+/** C-vine: star trees; D-vine: path trees; R-vine: any regular vine */
+export type VineType = 'c_vine' | 'd_vine' | 'r_vine';
+
+/** Regular vine copula: trees[k] holds the d - 1 - k edges of tree k + 1 */
+export interface VineCopula {
+    type: VineType;
+    dimension: number;
+    variables?: string[];
+    trees: VineEdge[][];
+    log_likelihood?: number;
+    aic?: number;
+    bic?: number;
+}
+
+/** All pair-copula families considered during selection */
+export const PAIR_COPULA_FAMILIES: PairCopulaFamily[] = [
+    'independence',
+    'gaussian',
+    'student_t',
+    'clayton',
+    'gumbel',
+    'frank',
+    'rotated_clayton_90',
+    'rotated_clayton_180',
+    'rotated_clayton_270',
+    'rotated_gumbel_90',
+    'rotated_gumbel_180',
+    'rotated_gumbel_270'
+];
+
+/** Keep uniforms inside (0, 1) so quantiles and logs stay finite */
+const UNIFORM_EPS = 1e-10;
+
+/** Parameter caps keeping Archimedean densities within double precision */
+const MAX_CLAYTON_THETA = 28;
+const MAX_GUMBEL_THETA = 17;
+const MAX_FRANK_THETA = 50;
+
+/** Candidate degrees of freedom for the Student-t profile likelihood */
+const STUDENT_T_NU_GRID = [2.5, 3, 4, 5, 6, 8, 10, 15, 20, 30];
+
+function clampUniform(u: number): number {
+    return Math.min(1 - UNIFORM_EPS, Math.max(UNIFORM_EPS, u));
+}
+
+/** Split a family into its unrotated base and rotation angle */
+function splitRotation(family: PairCopulaFamily): {
+    base: 'independence' | 'gaussian' | 'student_t' | 'clayton' | 'gumbel' | 'frank';
+    rotation: 0 | 90 | 180 | 270;
+} {
+    if (family.startsWith('rotated_')) {
+        const [, base, angle] = family.split('_');
+        return {
+            base: base as 'clayton' | 'gumbel',
+            rotation: Number(angle) as 90 | 180 | 270
+        };
+    }
+    return { base: family as 'independence' | 'gaussian' | 'student_t' | 'clayton' | 'gumbel' | 'frank', rotation: 0 };
+}
+
+// =============================================
+// Pair-Copula Densities and h-Functions
+// =============================================
+
+/** Log-density of an unrotated pair copula */
+function baseLogDensity(
+    base: ReturnType<typeof splitRotation>['base'],
+    p: Record<string, number>,
+    u: number,
+    v: number
+): number {
+    switch (base) {
+        case 'independence':
+            return 0;
+
+        case 'gaussian': {
+            const rho = p.rho;
+            const x = normalQuantile(u);
+            const y = normalQuantile(v);
+            const r2 = 1 - rho * rho;
+            return -0.5 * Math.log(r2) - (rho * rho * (x * x + y * y) - 2 * rho * x * y) / (2 * r2);
+        }
+
+        case 'student_t': {
+            const { rho, nu } = p;
+            const x = studentTQuantile(u, nu);
+            const y = studentTQuantile(v, nu);
+            const r2 = 1 - rho * rho;
+            return logGamma((nu + 2) / 2) + logGamma(nu / 2) - 2 * logGamma((nu + 1) / 2)
+                - 0.5 * Math.log(r2)
+                - (nu + 2) / 2 * Math.log(1 + (x * x + y * y - 2 * rho * x * y) / (nu * r2))
+                + (nu + 1) / 2 * (Math.log(1 + x * x / nu) + Math.log(1 + y * y / nu));
+        }
+
+        case 'clayton': {
+            const theta = p.theta;
+            const lu = Math.log(u);
+            const lv = Math.log(v);
+            return Math.log(1 + theta) - (1 + theta) * (lu + lv)
+                - (2 + 1 / theta) * Math.log(Math.exp(-theta * lu) + Math.exp(-theta * lv) - 1);
+        }
+
+        case 'gumbel': {
+            const theta = p.theta;
+            const x = -Math.log(u);
+            const y = -Math.log(v);
+            const s = Math.pow(x, theta) + Math.pow(y, theta);
+            const a = Math.pow(s, 1 / theta);
+            return -a + Math.log(a + theta - 1) + (theta - 1) * (Math.log(x) + Math.log(y))
+                + (1 / theta - 2) * Math.log(s) - Math.log(u) - Math.log(v);
+        }
+
+        case 'frank': {
+            const theta = p.theta;
+            const c = -Math.expm1(-theta);
+            const den = c - (-Math.expm1(-theta * u)) * (-Math.expm1(-theta * v));
+            return Math.log(theta * c) - theta * (u + v) - 2 * Math.log(Math.abs(den));
+        }
+    }
+}
+
+/** h-function P(U ≤ u | V = v) of an unrotated pair copula */
+function baseHFunction(
+    base: ReturnType<typeof splitRotation>['base'],
+    p: Record<string, number>,
+    u: number,
+    v: number
+): number {
+    switch (base) {
+        case 'independence':
+            return u;
+
+        case 'gaussian': {
+            const rho = p.rho;
+            return normalCDF((normalQuantile(u) - rho * normalQuantile(v)) / Math.sqrt(1 - rho * rho));
+        }
+
+        case 'student_t': {
+            const { rho, nu } = p;
+            const x = studentTQuantile(u, nu);
+            const y = studentTQuantile(v, nu);
+            const scale = Math.sqrt((nu + y * y) * (1 - rho * rho) / (nu + 1));
+            return studentTCDF((x - rho * y) / scale, nu + 1);
+        }
+
+        case 'clayton': {
+            const theta = p.theta;
+            const s = Math.pow(u, -theta) + Math.pow(v, -theta) - 1;
+            return Math.pow(v, -theta - 1) * Math.pow(s, -1 - 1 / theta);
+        }
+
+        case 'gumbel': {
+            const theta = p.theta;
+            const x = -Math.log(u);
+            const y = -Math.log(v);
+            const s = Math.pow(x, theta) + Math.pow(y, theta);
+            const a = Math.pow(s, 1 / theta);
+            return Math.exp(-a) * Math.pow(a, 1 - theta) * Math.pow(y, theta - 1) / v;
+        }
+
+        case 'frank': {
+            const theta = p.theta;
+            const a = Math.expm1(-theta * u);
+            const b = Math.expm1(-theta * v);
+            const c = Math.expm1(-theta);
+            return (b + 1) * a / (c + a * b);
+        }
+    }
+}
+
+/** Inverse h-function: u such that P(U ≤ u | V = v) = w */
+function baseHInverse(
+    base: ReturnType<typeof splitRotation>['base'],
+    p: Record<string, number>,
+    w: number,
+    v: number
+): number {
+    switch (base) {
+        case 'independence':
+            return w;
+
+        case 'gaussian': {
+            const rho = p.rho;
+            return normalCDF(normalQuantile(w) * Math.sqrt(1 - rho * rho) + rho * normalQuantile(v));
+        }
+
+        case 'student_t': {
+            const { rho, nu } = p;
+            const y = studentTQuantile(v, nu);
+            const scale = Math.sqrt((nu + y * y) * (1 - rho * rho) / (nu + 1));
+            return studentTCDF(studentTQuantile(w, nu + 1) * scale + rho * y, nu);
+        }
+
+        case 'clayton': {
+            const theta = p.theta;
+            const s = Math.pow(w * Math.pow(v, theta + 1), -theta / (1 + theta)) + 1 - Math.pow(v, -theta);
+            return Math.pow(s, -1 / theta);
+        }
+
+        case 'gumbel':
+            return invertHFunctionNumerically(base, p, w, v);
+
+        case 'frank': {
+            const theta = p.theta;
+            const b = Math.expm1(-theta * v);
+            const c = Math.expm1(-theta);
+            const a = w * c / (b + 1 - w * b);
+            return -Math.log1p(a) / theta;
+        }
+    }
+}
+
+/** Safeguarded Newton inversion of h(·|v) using the density as derivative */
+function invertHFunctionNumerically(
+    base: ReturnType<typeof splitRotation>['base'],
+    p: Record<string, number>,
+    w: number,
+    v: number
+): number {
+    let lo = UNIFORM_EPS;
+    let hi = 1 - UNIFORM_EPS;
+    let u = w;
+
+    for (let iter = 0; iter < 60; iter++) {
+        const f = baseHFunction(base, p, u, v) - w;
+        if (Math.abs(f) < 1e-12) break;
+        if (f > 0) hi = u; else lo = u;
+
+        let next = u - f / Math.exp(baseLogDensity(base, p, u, v));
+        if (!isFinite(next) || next <= lo || next >= hi) {
+            next = 0.5 * (lo + hi);
+        }
+        if (Math.abs(next - u) < 1e-14) {
+            u = next;
+            break;
+        }
+        u = next;
+    }
+
+    return u;
+}
+
+/**
+ * Log-density of a pair copula c(u, v)
+ * Rotations: 90° c(1-u, v), 180° c(1-u, 1-v), 270° c(u, 1-v)
+ */
+export function pairCopulaLogDensity(copula: PairCopula, u: number, v: number): number {
+    const { base, rotation } = splitRotation(copula.family);
+    u = clampUniform(u);
+    v = clampUniform(v);
+
+    switch (rotation) {
+        case 90: return baseLogDensity(base, copula.parameters, 1 - u, v);
+        case 180: return baseLogDensity(base, copula.parameters, 1 - u, 1 - v);
+        case 270: return baseLogDensity(base, copula.parameters, u, 1 - v);
+        default: return baseLogDensity(base, copula.parameters, u, v);
+    }
+}
+
+/**
+ * h-function h(u | v) = ∂C(u, v)/∂v = P(U ≤ u | V = v)
+ * Use transposePairCopula for the conditional of V given U.
+ */
+export function pairCopulaHFunction(copula: PairCopula, u: number, v: number): number {
+    const { base, rotation } = splitRotation(copula.family);
+    u = clampUniform(u);
+    v = clampUniform(v);
+
+    let h: number;
+    switch (rotation) {
+        case 90: h = 1 - baseHFunction(base, copula.parameters, 1 - u, v); break;
+        case 180: h = 1 - baseHFunction(base, copula.parameters, 1 - u, 1 - v); break;
+        case 270: h = baseHFunction(base, copula.parameters, u, 1 - v); break;
+        default: h = baseHFunction(base, copula.parameters, u, v);
+    }
+    return clampUniform(h);
+}
+
+/** Inverse of the h-function in its first argument: h(u | v) = w ⇒ u */
+export function pairCopulaHInverse(copula: PairCopula, w: number, v: number): number {
+    const { base, rotation } = splitRotation(copula.family);
+    w = clampUniform(w);
+    v = clampUniform(v);
+
+    let u: number;
+    switch (rotation) {
+        case 90: u = 1 - baseHInverse(base, copula.parameters, 1 - w, v); break;
+        case 180: u = 1 - baseHInverse(base, copula.parameters, 1 - w, 1 - v); break;
+        case 270: u = baseHInverse(base, copula.parameters, w, 1 - v); break;
+        default: u = baseHInverse(base, copula.parameters, w, v);
+    }
+    return clampUniform(u);
+}
+
+/**
+ * Copula of (V, U) given the copula of (U, V).
+ * All base families are exchangeable, so only 90° and 270° swap.
+ */
+export function transposePairCopula(copula: PairCopula): PairCopula {
+    if (copula.family.endsWith('_90')) {
+        return { ...copula, family: copula.family.replace('_90', '_270') as PairCopulaFamily };
+    }
+    if (copula.family.endsWith('_270')) {
+        return { ...copula, family: copula.family.replace('_270', '_90') as PairCopulaFamily };
+    }
+    return copula;
+}
+
+/** Log-likelihood of pseudo-observations under a pair copula */
+export function pairCopulaLogLikelihood(copula: PairCopula, u: number[], v: number[]): number {
+    let ll = 0;
+    for (let i = 0; i < u.length; i++) {
+        ll += pairCopulaLogDensity(copula, u[i], v[i]);
+    }
+    return isFinite(ll) ? ll : -Infinity;
+}
+
+/** Number of free parameters of a pair-copula family */
+export function pairCopulaParameterCount(family: PairCopulaFamily): number {
+    if (family === 'independence') return 0;
+    if (family === 'student_t') return 2;
+    return 1;
+}
+
+/** Equivalent CopulaConfig (for tau and tail dependence helpers) */
+export function pairCopulaToConfig(copula: PairCopula): CopulaConfig | null {
+    const { base, rotation } = splitRotation(copula.family);
+    const p = copula.parameters;
+    switch (base) {
+        case 'independence':
+            return null;
+        case 'gaussian':
+            return { type: 'gaussian', correlationMatrix: [[1, p.rho], [p.rho, 1]] };
+        case 'student_t':
+            return { type: 't', correlationMatrix: [[1, p.rho], [p.rho, 1]], degreesOfFreedom: p.nu };
+        case 'frank':
+            return { type: 'frank', theta: p.theta };
+        default: {
+            const baseCopula = { type: base, theta: p.theta } as { type: 'clayton' | 'gumbel'; theta: number };
+            return rotation === 0
+                ? baseCopula
+                : { type: 'rotated', baseCopula, rotation };
+        }
+    }
+}
+
+/** Theoretical Kendall's tau of a pair copula */
+export function pairCopulaKendallsTau(copula: PairCopula): number {
+    const config = pairCopulaToConfig(copula);
+    return config ? copulaKendallsTau(config) : 0;
+}
+
+// =============================================
+// Pair-Copula Estimation and Selection
+// =============================================
+
+export interface PairCopulaFit {
+    copula: PairCopula;
+    log_likelihood: number;
+    aic: number;
+    bic: number;
+}
+
+/**
+ * Fit a pair-copula family by Kendall's tau inversion.
+ * Student-t: ρ = sin(πτ/2), ν by profile likelihood over a grid.
+ * Returns null if the family cannot represent the sign of τ.
+ */
+export function fitPairCopula(
+    u: number[],
+    v: number[],
+    family: PairCopulaFamily,
+    tau: number = kendallsTau(u, v)
+): PairCopulaFit | null {
+    const { base, rotation } = splitRotation(family);
+    const negativeRotation = rotation === 90 || rotation === 270;
+
+    // Archimedean families (and rotations) only cover one sign of dependence
+    if ((base === 'clayton' || base === 'gumbel') && (negativeRotation ? tau >= 0 : tau <= 0)) {
+        return null;
+    }
+
+    const absTau = Math.min(Math.abs(tau), 0.99);
+    let parameters: Record<string, number>;
+
+    switch (base) {
+        case 'independence':
+            parameters = {};
+            break;
+        case 'gaussian':
+            parameters = { rho: clampRho(Math.sin(Math.PI * tau / 2)) };
+            break;
+        case 'student_t': {
+            const rho = clampRho(Math.sin(Math.PI * tau / 2));
+            let best = { nu: STUDENT_T_NU_GRID[0], ll: -Infinity };
+            for (const nu of STUDENT_T_NU_GRID) {
+                const ll = pairCopulaLogLikelihood({ family, parameters: { rho, nu } }, u, v);
+                if (ll > best.ll) best = { nu, ll };
+            }
+            parameters = { rho, nu: best.nu };
+            break;
+        }
+        case 'clayton':
+            parameters = { theta: Math.min(MAX_CLAYTON_THETA, fitClaytonFromTau(absTau).theta) };
+            break;
+        case 'gumbel':
+            parameters = { theta: Math.min(MAX_GUMBEL_THETA, fitGumbelFromTau(absTau).theta) };
+            break;
+        case 'frank': {
+            const theta = fitFrankFromTau(Math.max(-0.99, Math.min(0.99, tau))).theta;
+            if (Math.abs(theta) < 1e-6) return null;
+            parameters = { theta: Math.max(-MAX_FRANK_THETA, Math.min(MAX_FRANK_THETA, theta)) };
+            break;
+        }
+    }
+
+    const copula: PairCopula = { family, parameters };
+    const logLik = pairCopulaLogLikelihood(copula, u, v);
+    const k = pairCopulaParameterCount(family);
+    const n = u.length;
+
+    return {
+        copula,
+        log_likelihood: logLik,
+        aic: 2 * k - 2 * logLik,
+        bic: k * Math.log(n) - 2 * logLik
+    };
+}
+
+/**
+ * Select the best pair-copula family for (u, v) by AIC or BIC.
+ * Returns all fitted candidates ranked from best to worst.
+ */
+export function selectPairCopula(
+    u: number[],
+    v: number[],
+    families: PairCopulaFamily[] = PAIR_COPULA_FAMILIES,
+    criterion: 'aic' | 'bic' = 'aic',
+    tau: number = kendallsTau(u, v)
+): PairCopulaFit[] {
+    const fits: PairCopulaFit[] = [];
+    for (const family of families) {
+        const fit = fitPairCopula(u, v, family, tau);
+        if (fit && isFinite(fit.log_likelihood)) fits.push(fit);
+    }
+
+    if (fits.length === 0) {
+        throw new Error(`No pair-copula family in [${families.join(', ')}] fits Kendall's tau ${tau.toFixed(3)}`);
+    }
+
+    return fits.sort((a, b) => a[criterion] - b[criterion]);
+}
+
+function clampRho(rho: number): number {
+    return Math.max(-0.99, Math.min(0.99, rho));
+}
+
+/** Rank-based pseudo-observations rank / (n + 1) */
+export function pseudoObservations(series: number[]): number[] {
+    const n = series.length;
+    const ranks = new Array<number>(n);
+    series
+        .map((value, index) => ({ value, index }))
+        .sort((a, b) => a.value - b.value)
+        .forEach((item, rank) => {
+            ranks[item.index] = (rank + 1) / (n + 1);
+        });
+    return ranks;
+}
+
+// =============================================
+// Sequential Vine Fitting (Dißmann et al., 2013)
+// =============================================
+
+export interface VineFitOptions {
+    type?: VineType;
+    families?: PairCopulaFamily[];
+    criterion?: 'aic' | 'bic';
+    variables?: string[];
+    /** Set false when columns are already uniform pseudo-observations */
+    transform_to_uniform?: boolean;
+}
+
+/** Node of tree k: a variable (k = 1) or an edge of tree k - 1 */
+interface FitNode {
+    all: number[];
+    endpoints: [number, number] | null;
+    /** F(x | all \ {x}) for each x in the node's conditioned set */
+    data: Map<number, number[]>;
+}
+
+interface CandidateEdge {
+    a: number;  // node indices in the current tree
+    b: number;
+    tau: number;
+}
+
+/**
+ * Fit a vine copula tree by tree:
+ * 1. build the tree from Kendall's tau (maximum spanning tree for R-vines,
+ *    star around the strongest node for C-vines, greedy path for D-vines)
+ * 2. select each edge's pair copula by AIC/BIC
+ * 3. transform the data with h-functions to feed the next tree
+ *
+ * @param columns One series per variable (all the same length)
+ */
+export function fitVineCopula(columns: number[][], options: VineFitOptions = {}): VineCopula {
+    const type = options.type ?? 'r_vine';
+    const families = options.families ?? PAIR_COPULA_FAMILIES;
+    const criterion = options.criterion ?? 'aic';
+    const d = columns.length;
+
+    if (d < 2) {
+        throw new Error('Vine copula needs at least 2 variables');
+    }
+    const n = columns[0].length;
+    if (columns.some(col => col.length !== n)) {
+        throw new Error('All series must have the same length');
+    }
+    if (options.variables && options.variables.length !== d) {
+        throw new Error(`Expected ${d} variable names, got ${options.variables.length}`);
+    }
+
+    const uniforms = options.transform_to_uniform === false
+        ? columns
+        : columns.map(pseudoObservations);
+
+    let nodes: FitNode[] = uniforms.map((u, i) => ({
+        all: [i],
+        endpoints: null,
+        data: new Map([[i, u]])
+    }));
+
+    const trees: VineEdge[][] = [];
+    let totalLogLik = 0;
+    let totalParams = 0;
+
+    for (let level = 0; level < d - 1; level++) {
+        const candidates = candidateEdges(nodes);
+        const selected = type === 'c_vine'
+            ? selectStar(nodes.length, candidates)
+            : type === 'd_vine' && level === 0
+                ? selectPath(nodes.length, candidates)
+                : selectMaximumSpanningTree(nodes.length, candidates);
+
+        const edges: VineEdge[] = [];
+        const nextNodes: FitNode[] = [];
+
+        for (const cand of selected) {
+            const nodeA = nodes[cand.a];
+            const nodeB = nodes[cand.b];
+            const conditioning = nodeA.all.filter(x => nodeB.all.includes(x));
+            const varA = nodeA.all.find(x => !conditioning.includes(x))!;
+            const varB = nodeB.all.find(x => !conditioning.includes(x))!;
+            const uA = nodeA.data.get(varA)!;
+            const uB = nodeB.data.get(varB)!;
+
+            const best = selectPairCopula(uA, uB, families, criterion, cand.tau)[0];
+            totalLogLik += best.log_likelihood;
+            totalParams += pairCopulaParameterCount(best.copula.family);
+
+            edges.push({
+                conditioned: [varA, varB],
+                conditioning: [...conditioning].sort((x, y) => x - y),
+                copula: best.copula,
+                kendall_tau: cand.tau,
+                log_likelihood: best.log_likelihood
+            });
+
+            // Pseudo-observations for the next tree
+            const transposed = transposePairCopula(best.copula);
+            nextNodes.push({
+                all: [...new Set([...nodeA.all, ...nodeB.all])].sort((x, y) => x - y),
+                endpoints: [cand.a, cand.b],
+                data: new Map([
+                    [varA, uA.map((ua, i) => pairCopulaHFunction(best.copula, ua, uB[i]))],
+                    [varB, uB.map((ub, i) => pairCopulaHFunction(transposed, ub, uA[i]))]
+                ])
+            });
+        }
+
+        trees.push(edges);
+        nodes = nextNodes;
+    }
+
+    return {
+        type,
+        dimension: d,
+        variables: options.variables,
+        trees,
+        log_likelihood: totalLogLik,
+        aic: 2 * totalParams - 2 * totalLogLik,
+        bic: totalParams * Math.log(n) - 2 * totalLogLik
+    };
+}
+
+/** Node pairs allowed by the proximity condition, weighted by |τ| */
+function candidateEdges(nodes: FitNode[]): CandidateEdge[] {
+    const candidates: CandidateEdge[] = [];
+
+    for (let a = 0; a < nodes.length; a++) {
+        for (let b = a + 1; b < nodes.length; b++) {
+            const nodeA = nodes[a];
+            const nodeB = nodes[b];
+
+            // Edges of the previous tree may only be joined if they share a node
+            if (nodeA.endpoints && nodeB.endpoints) {
+                const shared = nodeA.endpoints.some(e => nodeB.endpoints!.includes(e));
+                if (!shared) continue;
+            }
+
+            const conditioning = nodeA.all.filter(x => nodeB.all.includes(x));
+            const varA = nodeA.all.find(x => !conditioning.includes(x))!;
+            const varB = nodeB.all.find(x => !conditioning.includes(x))!;
+            candidates.push({
+                a,
+                b,
+                tau: kendallsTau(nodeA.data.get(varA)!, nodeB.data.get(varB)!)
+            });
+        }
+    }
+
+    return candidates;
+}
+
+/** Prim's algorithm maximising the sum of |τ| */
+function selectMaximumSpanningTree(nNodes: number, candidates: CandidateEdge[]): CandidateEdge[] {
+    const inTree = new Set<number>([0]);
+    const selected: CandidateEdge[] = [];
+
+    while (inTree.size < nNodes) {
+        let best: CandidateEdge | null = null;
+        for (const cand of candidates) {
+            if (inTree.has(cand.a) === inTree.has(cand.b)) continue;
+            if (!best || Math.abs(cand.tau) > Math.abs(best.tau)) best = cand;
+        }
+        if (!best) {
+            throw new Error('Vine tree cannot be connected under the proximity condition');
+        }
+        inTree.add(best.a);
+        inTree.add(best.b);
+        selected.push(best);
+    }
+
+    return selected;
+}
+
+/** C-vine tree: star around the node with the largest total |τ| */
+function selectStar(nNodes: number, candidates: CandidateEdge[]): CandidateEdge[] {
+    let bestRoot = -1;
+    let bestScore = -Infinity;
+
+    for (let root = 0; root < nNodes; root++) {
+        const incident = candidates.filter(c => c.a === root || c.b === root);
+        if (incident.length !== nNodes - 1) continue;
+        const score = incident.reduce((sum, c) => sum + Math.abs(c.tau), 0);
+        if (score > bestScore) {
+            bestScore = score;
+            bestRoot = root;
+        }
+    }
+
+    if (bestRoot === -1) {
+        throw new Error('No valid C-vine root under the proximity condition');
+    }
+    return candidates.filter(c => c.a === bestRoot || c.b === bestRoot);
+}
+
+/** D-vine first tree: greedy path extending the strongest pair at either end */
+function selectPath(nNodes: number, candidates: CandidateEdge[]): CandidateEdge[] {
+    const edgeBetween = (x: number, y: number) =>
+        candidates.find(c => (c.a === x && c.b === y) || (c.a === y && c.b === x))!;
+
+    const strongest = candidates.reduce((best, c) => Math.abs(c.tau) > Math.abs(best.tau) ? c : best);
+    const path = [strongest.a, strongest.b];
+    const selected = [strongest];
+
+    while (path.length < nNodes) {
+        let best: { node: number; atStart: boolean; edge: CandidateEdge } | null = null;
+        for (let node = 0; node < nNodes; node++) {
+            if (path.includes(node)) continue;
+            for (const atStart of [true, false]) {
+                const edge = edgeBetween(atStart ? path[0] : path[path.length - 1], node);
+                if (!best || Math.abs(edge.tau) > Math.abs(best.edge.tau)) {
+                    best = { node, atStart, edge };
+                }
+            }
+        }
+        if (best!.atStart) path.unshift(best!.node); else path.push(best!.node);
+        selected.push(best!.edge);
+    }
+
+    return selected;
+}
+
+// =============================================
+// Vine Sampling
+// =============================================
+
+type VineSamplingOp =
+    | { op: 'uniform'; out: number }
+    | { op: 'h'; copula: PairCopula; out: number; u: number; v: number }
+    | { op: 'hinv'; copula: PairCopula; out: number; w: number; v: number };
+
+/**
+ * Compile a vine into a sampler returning one uniform vector per call.
+ *
+ * Variables are peeled off the top tree (a conditioned variable of the last
+ * edge appears in exactly one edge per tree), giving an order in which each
+ * new variable is drawn from F(x | previous) and inverted down its edges.
+ * Conditional CDFs of earlier variables F(y | D) are obtained recursively
+ * via h-functions and cached in slots, so the per-sample work is a fixed
+ * list of h / h⁻¹ evaluations.
+ */
+export function createVineSampler(vine: VineCopula): (rng: MersenneTwister) => number[] {
+    const d = vine.dimension;
+    const edgeByKey = new Map<string, VineEdge>();
+    vine.trees.flat().forEach(edge => {
+        edgeByKey.set(edgeKey(edge.conditioned[0], edge.conditioned[1], edge.conditioning), edge);
+    });
+
+    const order = peelOrder(vine).reverse();
+    const slots = new Map<string, number>();
+    const ops: VineSamplingOp[] = [];
+
+    const slotKey = (x: number, cond: number[]) => `${x}|${[...cond].sort((a, b) => a - b).join(',')}`;
+    const slotFor = (x: number, cond: number[]) => {
+        const key = slotKey(x, cond);
+        if (!slots.has(key)) slots.set(key, slots.size);
+        return slots.get(key)!;
+    };
+
+    // Emit h-function ops computing F(y | cond) from lower-order conditionals
+    const ensure = (y: number, cond: number[]): number => {
+        const key = slotKey(y, cond);
+        if (slots.has(key)) return slots.get(key)!;
+        if (cond.length === 0) {
+            throw new Error(`Vine sampler: variable ${y} used before it is sampled`);
+        }
+
+        for (const z of cond) {
+            const rest = cond.filter(c => c !== z);
+            const edge = edgeByKey.get(edgeKey(y, z, rest));
+            if (!edge) continue;
+
+            const u = ensure(y, rest);
+            const v = ensure(z, rest);
+            const copula = edge.conditioned[0] === y ? edge.copula : transposePairCopula(edge.copula);
+            const out = slotFor(y, cond);
+            ops.push({ op: 'h', copula, out, u, v });
+            return out;
+        }
+
+        throw new Error(`Invalid vine structure: cannot express F(${y} | ${cond.join(',')})`);
+    };
+
+    order.forEach((x, position) => {
+        const previous = order.slice(0, position);
+        if (previous.length === 0) {
+            ops.push({ op: 'uniform', out: slotFor(x, []) });
+            return;
+        }
+
+        // Edges with x in the conditioned set, from the deepest tree down
+        const xEdges = vine.trees.flat()
+            .filter(e => e.conditioned.includes(x) && e.conditioning.every(c => previous.includes(c)))
+            .filter(e => previous.includes(e.conditioned[0] === x ? e.conditioned[1] : e.conditioned[0]))
+            .sort((a, b) => b.conditioning.length - a.conditioning.length);
+
+        if (xEdges.length !== previous.length) {
+            throw new Error(`Invalid vine structure: variable ${x} has ${xEdges.length} edges, expected ${previous.length}`);
+        }
+
+        ops.push({ op: 'uniform', out: slotFor(x, previous) });
+        for (const edge of xEdges) {
+            const y = edge.conditioned[0] === x ? edge.conditioned[1] : edge.conditioned[0];
+            const w = slotFor(x, [...edge.conditioning, y]);
+            const v = ensure(y, edge.conditioning);
+            const copula = edge.conditioned[0] === x ? edge.copula : transposePairCopula(edge.copula);
+            ops.push({ op: 'hinv', copula, out: slotFor(x, edge.conditioning), w, v });
+        }
+    });
+
+    const outputSlots = Array.from({ length: d }, (_, i) => slotFor(i, []));
+    const slotCount = slots.size;
+
+    return (rng: MersenneTwister) => {
+        const values = new Float64Array(slotCount);
+        for (const op of ops) {
+            switch (op.op) {
+                case 'uniform':
+                    values[op.out] = sampleUniform(rng, 0, 1);
+                    break;
+                case 'h':
+                    values[op.out] = pairCopulaHFunction(op.copula, values[op.u], values[op.v]);
+                    break;
+                case 'hinv':
+                    values[op.out] = pairCopulaHInverse(op.copula, values[op.w], values[op.v]);
+                    break;
+            }
+        }
+        return outputSlots.map(slot => values[slot]);
+    };
+}
+
+/**
+ * Sample n vectors in [0,1]^d from a vine copula
+ */
+export function sampleVineCopula(
+    rng: MersenneTwister,
+    vine: VineCopula,
+    n: number = 1
+): number[][] {
+    const sampler = createVineSampler(vine);
+    const samples: number[][] = [];
+    for (let i = 0; i < n; i++) {
+        samples.push(sampler(rng));
+    }
+    return samples;
+}
+
+/** Log-density of a vine copula at a point u ∈ (0,1)^d */
+export function vineLogDensity(vine: VineCopula, u: number[]): number {
+    const cache = new Map<string, number>();
+    const edgeByKey = new Map<string, VineEdge>();
+    vine.trees.flat().forEach(edge => {
+        edgeByKey.set(edgeKey(edge.conditioned[0], edge.conditioned[1], edge.conditioning), edge);
+    });
+
+    const conditionalCDF = (y: number, cond: number[]): number => {
+        if (cond.length === 0) return u[y];
+        const key = `${y}|${[...cond].sort((a, b) => a - b).join(',')}`;
+        if (cache.has(key)) return cache.get(key)!;
+
+        for (const z of cond) {
+            const rest = cond.filter(c => c !== z);
+            const edge = edgeByKey.get(edgeKey(y, z, rest));
+            if (!edge) continue;
+            const copula = edge.conditioned[0] === y ? edge.copula : transposePairCopula(edge.copula);
+            const value = pairCopulaHFunction(copula, conditionalCDF(y, rest), conditionalCDF(z, rest));
+            cache.set(key, value);
+            return value;
+        }
+        throw new Error(`Invalid vine structure: cannot express F(${y} | ${cond.join(',')})`);
+    };
+
+    let logDensity = 0;
+    for (const edge of vine.trees.flat()) {
+        const [a, b] = edge.conditioned;
+        logDensity += pairCopulaLogDensity(
+            edge.copula,
+            conditionalCDF(a, edge.conditioning),
+            conditionalCDF(b, edge.conditioning)
+        );
+    }
+    return logDensity;
+}
+
+/** Order in which variables are peeled off from the top tree downwards */
+function peelOrder(vine: VineCopula): number[] {
+    const d = vine.dimension;
+    let active = vine.trees.flat();
+    const remaining = new Set(Array.from({ length: d }, (_, i) => i));
+    const peeled: number[] = [];
+
+    if (active.length !== d * (d - 1) / 2) {
+        throw new Error(`Vine with ${d} variables needs ${d * (d - 1) / 2} edges, got ${active.length}`);
+    }
+
+    while (remaining.size > 1) {
+        const top = active.find(e => e.conditioning.length === remaining.size - 2);
+        if (!top) {
+            throw new Error('Invalid vine structure: missing edge in the top tree');
+        }
+
+        const leaf = top.conditioned.find(x => {
+            const levels = active
+                .filter(e => e.conditioned.includes(x))
+                .map(e => e.conditioning.length)
+                .sort((a, b) => a - b);
+            return levels.length === remaining.size - 1 && levels.every((lvl, i) => lvl === i);
+        });
+        if (leaf === undefined) {
+            throw new Error('Invalid vine structure: top-tree variables are not leaves');
+        }
+
+        peeled.push(leaf);
+        remaining.delete(leaf);
+        active = active.filter(e => !e.conditioned.includes(leaf));
+    }
+
+    peeled.push(...remaining);
+    return peeled;
+}
+
+function edgeKey(a: number, b: number, conditioning: number[]): string {
+    const [x, y] = a < b ? [a, b] : [b, a];
+    return `${x},${y}|${[...conditioning].sort((p, q) => p - q).join(',')}`;
+}
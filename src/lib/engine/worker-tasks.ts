@@ -0,0 +1,50 @@
+// =============================================
+// StochFin Monte Carlo Engine: Worker Task Handler
+// Shared by the Node worker_threads and Web Worker entry points
+// =============================================
+
+import { simulateScenarioBlock } from './simulator';
+import { simulateTrajectoryBlock } from './event-evaluator';
+import type { WorkerRequest, WorkerResponse, WorkerTaskResult } from './parallel';
+
+/** First message of a Node worker once its entry has loaded */
+export const NODE_WORKER_READY = 'ready';
+
+/**
+ * Run one task; returns the response and the buffers to transfer back
+ */
+export function handleWorkerRequest(request: WorkerRequest): { response: WorkerResponse; transfer: ArrayBuffer[] } {
+    try {
+        const { task } = request;
+        let result: WorkerTaskResult;
+
+        switch (task.kind) {
+            case 'scenarios':
+                result = simulateScenarioBlock(task.input, task.start, task.end);
+                break;
+            case 'event_trajectories':
+                result = simulateTrajectoryBlock(task.input, task.start, task.end);
+                break;
+            default:
+                throw new Error(`Unknown worker task: ${(task as { kind: string }).kind}`);
+        }
+
+        return { response: { id: request.id, result }, transfer: transferableBuffers(result) };
+    } catch (error) {
+        return {
+            response: { id: request.id, error: error instanceof Error ? error.message : String(error) },
+            transfer: []
+        };
+    }
+}
+
+function transferableBuffers(result: WorkerTaskResult): ArrayBuffer[] {
+    const arrays = 'noiseSums' in result
+        ? [result.values, result.noiseSums]
+        : 'correlationRegimes' in result || 'regimePaths' in result
+            ? [result.values, result.correlationRegimes, result.regimePaths]
+            : [result.values];
+    return arrays
+        .filter((a): a is Float64Array | Int32Array => a !== undefined)
+        .map(a => a.buffer as ArrayBuffer);
+}
@@ -223,7 +223,7 @@ export interface Database {
                     model_id: string
                     variable_id: string
                     is_stochastic: boolean
-                    stochastic_process: 'gbm' | 'ornstein_uhlenbeck' | 'poisson' | 'triangular' | 'pert' | 'normal' | 'lognormal' | 'student_t' | 'empirical' | 'deterministic' | null
+                    stochastic_process: 'gbm' | 'ornstein_uhlenbeck' | 'regime_switching' | 'vasicek' | 'cir' | 'hull_white' | 'garch' | 'poisson' | 'triangular' | 'pert' | 'normal' | 'lognormal' | 'student_t' | 'empirical' | 'uniform' | 'deterministic' | null
                     distribution_parameters: Json
                     parameter_estimation_method: 'mle' | 'bayesian' | 'expert_elicitation' | 'regulatory' | 'historical_fit' | null
                     estimation_period_start: string | null
@@ -240,7 +240,7 @@ export interface Database {
                     model_id: string
                     variable_id: string
                     is_stochastic?: boolean
-                    stochastic_process?: 'gbm' | 'ornstein_uhlenbeck' | 'poisson' | 'triangular' | 'pert' | 'normal' | 'lognormal' | 'student_t' | 'empirical' | 'deterministic' | null
+                    stochastic_process?: 'gbm' | 'ornstein_uhlenbeck' | 'regime_switching' | 'vasicek' | 'cir' | 'hull_white' | 'garch' | 'poisson' | 'triangular' | 'pert' | 'normal' | 'lognormal' | 'student_t' | 'empirical' | 'uniform' | 'deterministic' | null
                     distribution_parameters: Json
                     parameter_estimation_method?: 'mle' | 'bayesian' | 'expert_elicitation' | 'regulatory' | 'historical_fit' | null
                     estimation_period_start?: string | null
@@ -256,7 +256,7 @@ export interface Database {
                     model_id?: string
                     variable_id?: string
                     is_stochastic?: boolean
-                    stochastic_process?: 'gbm' | 'ornstein_uhlenbeck' | 'poisson' | 'triangular' | 'pert' | 'normal' | 'lognormal' | 'student_t' | 'empirical' | 'deterministic' | null
+                    stochastic_process?: 'gbm' | 'ornstein_uhlenbeck' | 'regime_switching' | 'vasicek' | 'cir' | 'hull_white' | 'garch' | 'poisson' | 'triangular' | 'pert' | 'normal' | 'lognormal' | 'student_t' | 'empirical' | 'uniform' | 'deterministic' | null
                     distribution_parameters?: Json
                     parameter_estimation_method?: 'mle' | 'bayesian' | 'expert_elicitation' | 'regulatory' | 'historical_fit' | null
                     estimation_period_start?: string | null
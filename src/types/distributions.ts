@@ -21,6 +21,11 @@ export type DistributionType =
 export type StochasticProcess =
     | 'gbm'                // Geometric Brownian Motion
     | 'ornstein_uhlenbeck' // Mean-reverting process
+    | 'regime_switching'   // Markov-switching GBM / O-U
+    | 'vasicek'            // Gaussian short rate
+    | 'cir'                // Square-root short rate (non-negative)
+    | 'hull_white'         // Short rate fitted to the initial curve
+    | 'garch'              // GARCH / GJR / EGARCH conditional volatility
     | 'poisson'            // Count process
     | 'jump_diffusion'     // GBM with jumps
     | 'deterministic';     // Fixed value (requires justification)
@@ -116,11 +121,38 @@ export interface JumpDiffusionParams extends GBMParams {
     jump_std: number;        // σ_j - jump volatility
 }
 
+export interface RegimeSwitchingParams {
+    dynamics: 'gbm' | 'ornstein_uhlenbeck';
+    regimes: Array<{
+        name?: string;
+        drift?: number;          // GBM
+        volatility?: number;     // GBM
+        theta?: number;          // O-U
+        mu?: number;             // O-U
+        sigma?: number;          // O-U
+    }>;
+    transition_matrix: number[][];  // Per month, rows sum to 1
+    initial_value: number;
+    initial_regime?: number;
+}
+
+export interface ShortRateParams {
+    kappa?: number;          // Vasicek / CIR mean reversion speed
+    mu?: number;             // Vasicek / CIR long-term rate
+    a?: number;              // Hull-White mean reversion speed
+    sigma: number;
+    initial_value?: number;
+    initial_curve?: { maturities: number[]; zero_rates: number[] };  // Hull-White
+    yield_tenor?: number;    // Report the τ-year zero yield (e.g. 0.25 for 3M)
+}
+
 export type ProcessParams =
     | GBMParams
     | OrnsteinUhlenbeckParams
     | PoissonParams
     | JumpDiffusionParams
+    | RegimeSwitchingParams
+    | ShortRateParams
     | { value: number };     // Deterministic
 
 // =============================================
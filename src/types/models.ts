@@ -221,6 +221,20 @@ export interface ModelCorrelationMatrix {
     updated_at: string;
 }
 
+// =============================================
+// Custom Formulas (Derived Variables)
+// =============================================
+
+export interface CustomFormula {
+    id: string;
+    model_id: string;
+    output_variable_id: string;
+    formula_expression: string;   // e.g. "IF(DEBT_TO_EBITDA > 4, INTEREST_RATE + 0.02, INTEREST_RATE)"
+    input_variable_ids: string[];
+    execution_order: number;
+    created_at: string;
+}
+
 // =============================================
 // Covenant Types
 // =============================================
@@ -260,4 +274,5 @@ export interface FullForecastModel extends ForecastModel {
     assumptions: VariableAssumption[];
     correlations: ModelCorrelationMatrix[];
     covenants: Covenant[];
+    custom_formulas?: CustomFormula[];
 }
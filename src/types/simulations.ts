@@ -164,23 +164,37 @@ export type StressScenarioType =
     | 'interest_rate_shock'
     | 'customer_loss'
     | 'supply_chain'
+    | 'financial_crisis'
+    | 'pandemic'
+    | 'stagflation'
+    | 'currency_crisis'
     | 'custom';
 
+export interface StressShockPathRow {
+    variable_code: string;
+    type: 'additive' | 'multiplicative';
+    shocks: number[];               // Shock levels per period (or per periods_per_shock periods)
+    start_period?: number;
+    periods_per_shock?: number;
+    decay?: number;                 // Share of the shock lost each period after the profile ends
+}
+
 export interface StressScenario {
     id: string;
-    simulation_run_id: string;
+    simulation_run_id?: string | null;  // null for library scenarios
     scenario_name: string;
     scenario_type: StressScenarioType;
     description?: string;
-    stress_parameters: Record<string, number>;
-    results: Record<string, {
+    stress_parameters: { paths: StressShockPathRow[] };
+    results?: Record<string, {
         mean: number;
         p10: number;
         p50: number;
         p90: number;
         prob_negative?: number;
-    }>;
+    }> | null;
     created_at: string;
+    updated_at?: string;
 }
 
 // =============================================
@@ -0,0 +1,14 @@
+-- =============================================
+-- EventProb Engine - Path Condition Events
+-- Events on a transformed path (rolling average, drawdown, ...) crossing a threshold
+-- =============================================
+
+ALTER TABLE events DROP CONSTRAINT IF EXISTS events_event_type_check;
+ALTER TABLE events ADD CONSTRAINT events_event_type_check CHECK (event_type IN (
+    'threshold_breach',
+    'compound',
+    'conditional',
+    'sequence',
+    'at_least_k',
+    'path_condition'
+));
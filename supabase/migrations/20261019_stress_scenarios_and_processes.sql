@@ -0,0 +1,48 @@
+-- =============================================
+-- Stress Scenario Library and Additional Processes
+-- Adds the stress_scenarios table (library scenarios and the copies stored
+-- with stressed runs), the new stochastic processes and model metadata
+-- =============================================
+
+-- =============================================
+-- Stochastic Processes
+-- =============================================
+ALTER TYPE stochastic_process ADD VALUE IF NOT EXISTS 'regime_switching';
+ALTER TYPE stochastic_process ADD VALUE IF NOT EXISTS 'vasicek';
+ALTER TYPE stochastic_process ADD VALUE IF NOT EXISTS 'cir';
+ALTER TYPE stochastic_process ADD VALUE IF NOT EXISTS 'hull_white';
+ALTER TYPE stochastic_process ADD VALUE IF NOT EXISTS 'garch';
+ALTER TYPE stochastic_process ADD VALUE IF NOT EXISTS 'student_t';
+
+-- =============================================
+-- Forecast Models
+-- =============================================
+-- satellites: macro satellite regressions (see /api/models/[id]/satellites)
+ALTER TABLE public.forecast_models ADD COLUMN IF NOT EXISTS metadata JSONB DEFAULT '{}';
+
+-- =============================================
+-- Stress Scenarios
+-- =============================================
+CREATE TABLE IF NOT EXISTS public.stress_scenarios (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- NULL for library scenarios; set on the copy stored with a stressed run's results
+    simulation_run_id UUID REFERENCES public.simulation_runs(id) ON DELETE CASCADE,
+    scenario_name VARCHAR(255) NOT NULL,
+    scenario_type VARCHAR(50) NOT NULL DEFAULT 'custom' CHECK (scenario_type IN (
+        'recession', 'commodity_shock', 'interest_rate_shock',
+        'customer_loss', 'supply_chain', 'financial_crisis',
+        'pandemic', 'stagflation', 'currency_crisis', 'custom'
+    )),
+    description TEXT,
+    -- {"paths": [{"variable_code", "type", "shocks", "start_period"?, "periods_per_shock"?, "decay"?}]}
+    stress_parameters JSONB NOT NULL,
+    -- Results under stress (runs only)
+    results JSONB,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stress_scenarios_run ON public.stress_scenarios(simulation_run_id);
+
+ALTER TABLE public.stress_scenarios DISABLE ROW LEVEL SECURITY;
+GRANT ALL ON public.stress_scenarios TO anon, authenticated;